@@ -27,6 +27,10 @@ import { useUserProfile } from "./src/stores/userProfileStore";
 import { initializeAuthCoordinator } from "./src/services/AuthStateCoordinator";
 // Mobile admin logger
 import { logAdminAppLaunch } from "./src/services/mobileAdminLogger";
+// Sidewalk network imported from OpenStreetMap
+import { osmImportService } from "./src/services/osmImportService";
+// Expert AHP judgments (bundled and imported) for route scoring
+import { ahpJudgmentService } from "./src/services/ahpJudgmentService";
 
 const Tab = createBottomTabNavigator();
 const Stack = createStackNavigator();
@@ -139,6 +143,10 @@ export default function App() {
         await loadProfile();
         console.log("📱 App initialized with profile system");
 
+        // Imported sidewalks load in the background; manual data until then
+        osmImportService.restoreSavedImport();
+        ahpJudgmentService.restoreJudgments();
+
         // Log admin app launch after auth is ready
         if (!appLaunchLoggedRef.current) {
           // Add a small delay to ensure auth state is fully settled
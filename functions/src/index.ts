@@ -0,0 +1,79 @@
+// functions/src/index.ts
+// Server-side reputation settlement. Clients vote and admins set status;
+// only this function writes user_reputation, so Firestore rules can deny
+// client writes to it and to obstacles.reputationApplied.
+
+import { initializeApp } from "firebase-admin/app";
+import { FieldValue, getFirestore } from "firebase-admin/firestore";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import {
+  diffReputationLedgers,
+  getAppliedReputation,
+  getReputationTarget,
+  SettlementRecord,
+} from "../../src/utils/communityValidation";
+import {
+  userCapabilitiesService,
+  UserReputationData,
+} from "../../src/services/UserCapabilitiesService";
+
+initializeApp();
+const db = getFirestore();
+
+/**
+ * Keep voters' reputation in step with each report's outcome. Runs on every
+ * obstacle write: a decision credits the side that called it right, a
+ * reversal moves the credits, and a retried event finds nothing to change.
+ */
+export const settleObstacleReputation = onDocumentWritten(
+  "obstacles/{docId}",
+  async (event) => {
+    const after = event.data?.after;
+    if (!after?.exists) return;
+
+    await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(after.ref);
+      const record = snapshot.data() as SettlementRecord | undefined;
+      if (!record) return;
+
+      const target = getReputationTarget(record);
+      const changes = diffReputationLedgers(
+        getAppliedReputation(record),
+        target
+      );
+      const uids = Object.keys(changes);
+      if (uids.length === 0) return;
+
+      const reputationRefs = uids.map((uid) =>
+        db.collection("user_reputation").doc(uid)
+      );
+      const reputations = await transaction.getAll(...reputationRefs);
+
+      reputations.forEach((reputation, index) => {
+        const current: UserReputationData = reputation.exists
+          ? {
+              ...userCapabilitiesService.getDefaultReputation(),
+              ...(reputation.data() as Partial<UserReputationData>),
+            }
+          : userCapabilitiesService.getDefaultReputation();
+
+        transaction.set(
+          reputationRefs[index],
+          userCapabilitiesService.applyReputationDelta(
+            current,
+            changes[uids[index]]
+          )
+        );
+      });
+      transaction.update(after.ref, {
+        reputationApplied: target,
+        reputationSettled: FieldValue.delete(),
+      });
+
+      logger.info(
+        `Reputation updated for ${uids.length} user(s) on ${after.id} (${record.status})`
+      );
+    });
+  }
+);
@@ -91,6 +91,10 @@ export const CameraInterface: React.FC<CameraInterfaceProps> = ({
 
       console.log("📸 Taking photo for obstacle report...");
 
+      // Fix the position alongside the shot; the camera writes no GPS EXIF
+      const takenAt = new Date();
+      const capturePosition = cameraService.getCapturePosition();
+
       const photo = await cameraRef.current.takePictureAsync({
         quality: 0.8,
         base64: false,
@@ -108,7 +112,10 @@ export const CameraInterface: React.FC<CameraInterfaceProps> = ({
 
       console.log("📸 Photo captured, processing...");
 
-      const result = await cameraService.processPhoto(photo.uri);
+      const result = await cameraService.processPhoto(photo.uri, {
+        location: await capturePosition,
+        takenAt,
+      });
 
       if (result.success && result.compressedPhoto) {
         onPhotoTaken(result.compressedPhoto);
@@ -0,0 +1,288 @@
+// src/components/EditReportModal.tsx
+// Reporter's edit form for a pending report: type, severity, description
+// and photos. Saving goes through enhancedFirebaseService.editOwnReport.
+
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { enhancedFirebaseService } from "../services/enhancedFirebase";
+import {
+  CompressedPhoto,
+  MAX_REPORT_PHOTOS,
+  toPhotoUpload,
+} from "../services/cameraService";
+import { AccessibilityObstacle, ObstacleType, ReportEdit } from "../types";
+import { CameraInterface } from "./CameraInterface";
+import {
+  reportDetailsStyles as styles,
+  COLORS,
+} from "../styles/reportDetailsStyles";
+
+const EDITABLE_TYPES: ObstacleType[] = [
+  "vendor_blocking",
+  "parked_vehicles",
+  "construction",
+  "electrical_post",
+  "flooding",
+  "broken_infrastructure",
+  "debris",
+  "no_sidewalk",
+  "stairs_no_ramp",
+  "narrow_passage",
+  "steep_slope",
+  "other",
+];
+
+const SEVERITIES: AccessibilityObstacle["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "blocking",
+];
+
+interface EditReportModalProps {
+  visible: boolean;
+  report: AccessibilityObstacle;
+  typeLabels: Record<string, string>;
+  severityLabels: Record<string, string>;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export const EditReportModal: React.FC<EditReportModalProps> = ({
+  visible,
+  report,
+  typeLabels,
+  severityLabels,
+  onClose,
+  onSaved,
+}) => {
+  const [type, setType] = useState<ObstacleType>(report.type);
+  const [severity, setSeverity] = useState(report.severity);
+  const [description, setDescription] = useState(report.description);
+  // null keeps the current photos; an array replaces them all
+  const [newPhotos, setNewPhotos] = useState<CompressedPhoto[] | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the stored report every time the form opens
+  useEffect(() => {
+    if (!visible) return;
+    setType(report.type);
+    setSeverity(report.severity);
+    setDescription(report.description);
+    setNewPhotos(null);
+    setShowCamera(false);
+  }, [visible, report]);
+
+  const hasVotes = (report.upvotes || 0) + (report.downvotes || 0) > 0;
+
+  const handlePhotoTaken = (photo: CompressedPhoto) => {
+    setNewPhotos((photos) =>
+      [...(photos || []), photo].slice(0, MAX_REPORT_PHOTOS)
+    );
+    setShowCamera(false);
+  };
+
+  const saveEdit = async () => {
+    const edit: ReportEdit = {
+      type,
+      severity,
+      description: description.trim(),
+      ...(newPhotos && { photos: newPhotos.map(toPhotoUpload) }),
+    };
+
+    setIsSaving(true);
+    const result = await enhancedFirebaseService.editOwnReport(report.id, edit);
+    setIsSaving(false);
+
+    if (result.success) {
+      Alert.alert("Na-update! (Updated!)", result.message);
+      onSaved();
+    } else {
+      Alert.alert("Hindi Na-update (Not Updated)", result.message);
+    }
+  };
+
+  const handleSave = () => {
+    if (!hasVotes) {
+      saveEdit();
+      return;
+    }
+
+    // Votes were cast on the old content, so they can't carry over
+    Alert.alert(
+      "I-reset ang mga Boto? (Reset Votes?)",
+      `This report has ${report.upvotes || 0} confirmations and ${
+        report.downvotes || 0
+      } disputes. Editing it starts community validation over.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Save Changes", onPress: saveEdit },
+      ]
+    );
+  };
+
+  if (showCamera) {
+    return (
+      <Modal
+        visible={visible}
+        animationType="slide"
+        presentationStyle="fullScreen"
+      >
+        <CameraInterface
+          isVisible={showCamera}
+          onPhotoTaken={handlePhotoTaken}
+          onCancel={() => setShowCamera(false)}
+          obstacleType={type}
+        />
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.editContainer}>
+        <View style={styles.editHeader}>
+          <TouchableOpacity onPress={onClose} disabled={isSaving}>
+            <Text style={styles.editCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.editHeaderTitle}>Edit Report</Text>
+          <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <ActivityIndicator color={COLORS.softBlue} />
+            ) : (
+              <Text style={styles.editSaveText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.editContent}>
+          {hasVotes && (
+            <View style={styles.editNotice}>
+              <Ionicons
+                name="information-circle"
+                size={18}
+                color={COLORS.warning}
+              />
+              <Text style={styles.editNoticeText}>
+                Community votes will be reset when you save changes.
+              </Text>
+            </View>
+          )}
+
+          <Text style={styles.editLabel}>Uri ng Problema (Type)</Text>
+          <View style={styles.editChipRow}>
+            {EDITABLE_TYPES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.editChip,
+                  type === option && styles.editChipSelected,
+                ]}
+                onPress={() => setType(option)}
+              >
+                <Text
+                  style={[
+                    styles.editChipText,
+                    type === option && styles.editChipTextSelected,
+                  ]}
+                >
+                  {typeLabels[option] || option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.editLabel}>Gaano Kalala (Severity)</Text>
+          <View style={styles.editChipRow}>
+            {SEVERITIES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.editChip,
+                  severity === option && styles.editChipSelected,
+                ]}
+                onPress={() => setSeverity(option)}
+              >
+                <Text
+                  style={[
+                    styles.editChipText,
+                    severity === option && styles.editChipTextSelected,
+                  ]}
+                >
+                  {severityLabels[option] || option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.editLabel}>Paglalarawan (Description)</Text>
+          <TextInput
+            style={styles.editDescriptionInput}
+            value={description}
+            onChangeText={setDescription}
+            multiline
+            maxLength={500}
+            textAlignVertical="top"
+          />
+
+          <Text style={styles.editLabel}>Mga Larawan (Photos)</Text>
+          {newPhotos ? (
+            <View style={styles.editChipRow}>
+              {newPhotos.map((photo) => (
+                <Image
+                  key={photo.uri}
+                  source={{ uri: photo.uri }}
+                  style={styles.photoThumbnail}
+                />
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.editHintText}>
+              {(report.photos || []).length > 0
+                ? `Keeping the current ${report.photos!.length} photo(s).`
+                : "No photos yet."}
+            </Text>
+          )}
+          <View style={styles.editChipRow}>
+            {(newPhotos || []).length < MAX_REPORT_PHOTOS && (
+              <TouchableOpacity
+                style={styles.editChip}
+                onPress={() => setShowCamera(true)}
+              >
+                <Text style={styles.editChipText}>
+                  {newPhotos ? "Dagdag na Larawan" : "Palitan ang Larawan"}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {newPhotos && (
+              <TouchableOpacity
+                style={styles.editChip}
+                onPress={() => setNewPhotos(null)}
+              >
+                <Text style={styles.editChipText}>Keep Current Photos</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
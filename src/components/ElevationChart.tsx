@@ -0,0 +1,182 @@
+// src/components/ElevationChart.tsx
+// Compact elevation profile for a route card. Bars are plain Views so no
+// chart library is needed; stretches steeper than the user's limit are red.
+
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ElevationProfile } from "../types";
+
+interface ElevationChartProps {
+  profile: ElevationProfile;
+  maxSlopeDegrees: number;
+  height?: number;
+}
+
+const MAX_BARS = 40;
+// Flat routes stay flat on screen instead of stretching noise to full height
+const MIN_VERTICAL_SPAN_METERS = 5;
+
+interface ChartBar {
+  elevation: number | null;
+  steep: boolean;
+}
+
+function buildBars(profile: ElevationProfile): ChartBar[] {
+  const totalDistance =
+    profile.samples[profile.samples.length - 1]?.distance ?? 0;
+  const barCount = Math.min(MAX_BARS, profile.samples.length);
+  if (barCount === 0 || totalDistance === 0) return [];
+
+  const barLength = totalDistance / barCount;
+  const bars: ChartBar[] = [];
+
+  for (let i = 0; i < barCount; i++) {
+    const from = i * barLength;
+    const to = from + barLength;
+    const elevations = profile.samples
+      .filter((sample) => sample.distance >= from && sample.distance <= to)
+      .map((sample) => sample.elevation)
+      .filter((elevation): elevation is number => elevation !== null);
+
+    bars.push({
+      elevation:
+        elevations.length > 0
+          ? elevations.reduce((sum, value) => sum + value, 0) /
+            elevations.length
+          : null,
+      steep: profile.segments.some(
+        (segment) =>
+          segment.exceedsProfile &&
+          segment.startDistance < to &&
+          segment.endDistance > from
+      ),
+    });
+  }
+  return bars;
+}
+
+export function ElevationChart({
+  profile,
+  maxSlopeDegrees,
+  height = 56,
+}: ElevationChartProps) {
+  const bars = useMemo(() => buildBars(profile), [profile]);
+
+  const span = Math.max(
+    MIN_VERTICAL_SPAN_METERS,
+    profile.maxElevation - profile.minElevation
+  );
+  const hasSteep = profile.steepSegmentCount > 0;
+  const summary = `Climb ${Math.round(
+    profile.totalAscent
+  )} m, descent ${Math.round(
+    profile.totalDescent
+  )} m, steepest ${profile.maxSlopeDegrees.toFixed(1)}°`;
+
+  return (
+    <View
+      style={styles.container}
+      accessible
+      accessibilityLabel={`Elevation profile. ${summary}.${
+        hasSteep
+          ? ` ${Math.round(
+              profile.steepDistance
+            )} meters steeper than your ${maxSlopeDegrees}° limit.`
+          : ""
+      }`}
+    >
+      <View style={[styles.chart, { height }]}>
+        {bars.map((bar, index) => (
+          <View
+            key={index}
+            style={[
+              styles.bar,
+              {
+                height:
+                  bar.elevation === null
+                    ? 0
+                    : 2 +
+                      ((bar.elevation - profile.minElevation) / span) *
+                        (height - 2),
+              },
+              bar.steep && styles.barSteep,
+            ]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.statsRow}>
+        <Text style={styles.statText}>
+          {`↑ ${Math.round(profile.totalAscent)} m  ↓ ${Math.round(
+            profile.totalDescent
+          )} m  · max ${profile.maxSlopeDegrees.toFixed(1)}°`}
+        </Text>
+        {profile.coverage < 1 && (
+          <Text style={styles.coverageText}>
+            {`${Math.round(profile.coverage * 100)}% mapped`}
+          </Text>
+        )}
+      </View>
+
+      {hasSteep && (
+        <View style={styles.warningRow}>
+          <Ionicons name="trending-up" size={14} color="#EF4444" />
+          <Text style={styles.warningText}>
+            {`${Math.round(
+              profile.steepDistance
+            )} m steeper than your ${maxSlopeDegrees}° limit`}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  chart: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    gap: 1,
+    paddingHorizontal: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  bar: {
+    flex: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: "#93C5FD",
+  },
+  barSteep: {
+    backgroundColor: "#EF4444",
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+  },
+  statText: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  coverageText: {
+    fontSize: 12,
+    color: "#9CA3AF",
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 4,
+  },
+  warningText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#EF4444",
+  },
+});
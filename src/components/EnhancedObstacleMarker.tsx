@@ -194,6 +194,12 @@ export function EnhancedObstacleMarker({
             ? ("warning" as any)
             : ("checkmark-circle" as any),
         };
+      case "expired":
+        return {
+          color: "#9CA3AF",
+          text: "EXPIRED",
+          icon: "hourglass-outline" as any,
+        };
       case "single_report":
       default:
         return {
@@ -0,0 +1,82 @@
+// src/components/FloodRouteNote.tsx
+// One-line flood exposure for a route card in flood mode
+
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { RouteFloodAssessment } from "../types";
+
+interface FloodRouteNoteProps {
+  flood: RouteFloodAssessment;
+}
+
+export function FloodRouteNote({ flood }: FloodRouteNoteProps) {
+  if (flood.floodedMeters === 0) {
+    return (
+      <View style={styles.row}>
+        <Ionicons name="water-outline" size={14} color="#10B981" />
+        <Text style={[styles.text, styles.dryText]}>
+          No flood-prone streets
+        </Text>
+      </View>
+    );
+  }
+
+  const zoneName = flood.zones[0]?.name;
+  const detail = flood.blocked
+    ? `${flood.blockedMeters} m too deep for your device`
+    : `${flood.floodedMeters} m flood-prone`;
+  const origin = [
+    zoneName,
+    flood.floodReportCount > 0
+      ? `${flood.floodReportCount} flooding report${
+          flood.floodReportCount === 1 ? "" : "s"
+        }`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <View
+      style={styles.row}
+      accessible
+      accessibilityLabel={`Flood warning: ${detail}${
+        origin ? `, ${origin}` : ""
+      }`}
+    >
+      <Ionicons
+        name="water"
+        size={14}
+        color={flood.blocked ? "#EF4444" : "#2563EB"}
+      />
+      <Text
+        style={[styles.text, flood.blocked && styles.blockedText]}
+        numberOfLines={2}
+      >
+        {origin ? `${detail} · ${origin}` : detail}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginBottom: 12,
+  },
+  text: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#2563EB",
+  },
+  dryText: {
+    color: "#10B981",
+  },
+  blockedText: {
+    color: "#EF4444",
+  },
+});
@@ -0,0 +1,38 @@
+// src/components/FloodZoneLayer.tsx
+// Flood-prone zones drawn inside the MapView while flood mode is on
+
+import React from "react";
+import { Polygon } from "react-native-maps";
+import { FloodRisk, FloodZone } from "../types";
+
+const FLOOD_RISK_COLORS: Record<FloodRisk, { fill: string; stroke: string }> = {
+  low: { fill: "rgba(96, 165, 250, 0.18)", stroke: "rgba(96, 165, 250, 0.6)" },
+  medium: {
+    fill: "rgba(37, 99, 235, 0.25)",
+    stroke: "rgba(37, 99, 235, 0.7)",
+  },
+  high: { fill: "rgba(30, 58, 138, 0.35)", stroke: "rgba(30, 58, 138, 0.8)" },
+};
+
+interface FloodZoneLayerProps {
+  zones: FloodZone[];
+}
+
+export const FloodZoneLayer = React.memo<FloodZoneLayerProps>(
+  function FloodZoneLayer({ zones }) {
+    return (
+      <>
+        {zones.map((zone) => (
+          <Polygon
+            key={zone.id}
+            coordinates={zone.rings[0]}
+            holes={zone.rings.slice(1)}
+            fillColor={FLOOD_RISK_COLORS[zone.risk].fill}
+            strokeColor={FLOOD_RISK_COLORS[zone.risk].stroke}
+            strokeWidth={1}
+          />
+        ))}
+      </>
+    );
+  }
+);
@@ -68,6 +68,21 @@ const STATUS_CONFIG = {
     icon: "close-circle" as keyof typeof Ionicons.glyphMap,
     description: "Report could not be verified.",
   },
+  expired: {
+    label: "Expired",
+    tagLabel: "Expired",
+    color: COLORS.muted,
+    icon: "hourglass-outline" as keyof typeof Ionicons.glyphMap,
+    description:
+      "No one has confirmed this recently, so it is no longer shown.",
+  },
+  withdrawn: {
+    label: "Withdrawn",
+    tagLabel: "Withdrawn",
+    color: COLORS.muted,
+    icon: "remove-circle-outline" as keyof typeof Ionicons.glyphMap,
+    description: "You withdrew this report.",
+  },
 };
 
 // FIXED: Complete obstacle type labels
@@ -187,7 +202,17 @@ export const MyReportsTab: React.FC = () => {
     });
 
     // Add current status
-    if (report.status === "verified") {
+    if (report.status === "withdrawn") {
+      timeline.push({
+        status: "withdrawn",
+        timestamp: report.lastEditedAt || new Date(),
+        label: "Report withdrawn",
+        description:
+          "You withdrew this report. It is no longer shown on the map.",
+        color: COLORS.muted,
+        icon: "remove-circle-outline" as keyof typeof Ionicons.glyphMap,
+      });
+    } else if (report.status === "verified") {
       timeline.push({
         status: "verified",
         timestamp: report.lastVerifiedAt || new Date(),
@@ -288,6 +313,7 @@ export const MyReportsTab: React.FC = () => {
         <View style={styles.reportCardFooter}>
           <Text style={styles.severityText}>
             Severity: {report.severity?.toUpperCase() || "UNKNOWN"}
+            {(report.revisionCount || 0) > 0 && " · Edited"}
           </Text>
           <View style={styles.viewDetailsSection}>
             <Text style={styles.viewDetailsText}>View Details</Text>
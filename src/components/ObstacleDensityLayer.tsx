@@ -0,0 +1,241 @@
+// src/components/ObstacleDensityLayer.tsx
+// Heatmap of obstacle reports: hex polygons drawn inside the MapView, plus
+// the heatmap and filter buttons that sit over the map
+
+import React from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from "react-native";
+import { Polygon } from "react-native-maps";
+import { Ionicons } from "@expo/vector-icons";
+import { ObstacleDensityBin, getDensityColor } from "../utils/obstacleDensity";
+
+interface ObstacleDensityLayerProps {
+  bins: ObstacleDensityBin[];
+  onBinPress?: (bin: ObstacleDensityBin) => void;
+}
+
+/**
+ * Render inside MapView. Polygons work on both map providers, unlike the
+ * Google-only Heatmap.
+ */
+export const ObstacleDensityLayer = React.memo<ObstacleDensityLayerProps>(
+  function ObstacleDensityLayer({ bins, onBinPress }) {
+    return (
+      <>
+        {bins.map((bin) => (
+          <Polygon
+            key={`density-${bin.id}`}
+            coordinates={bin.vertices}
+            fillColor={getDensityColor(
+              bin.intensity,
+              0.2 + 0.4 * bin.intensity
+            )}
+            strokeColor={getDensityColor(bin.intensity, 0.8)}
+            strokeWidth={1}
+            tappable={!!onBinPress}
+            onPress={() => onBinPress?.(bin)}
+            zIndex={2}
+          />
+        ))}
+      </>
+    );
+  }
+);
+
+interface MapLayerControlsProps {
+  densityEnabled: boolean;
+  onToggleDensity: () => void;
+  isDensityLoading: boolean;
+  densityBinCount: number;
+  activeFilterCount: number;
+  onOpenFilters: () => void;
+  floodModeEnabled?: boolean;
+  onToggleFloodMode?: () => void;
+  style?: any;
+}
+
+export const MapLayerControls = React.memo<MapLayerControlsProps>(
+  function MapLayerControls({
+    densityEnabled,
+    onToggleDensity,
+    isDensityLoading,
+    densityBinCount,
+    activeFilterCount,
+    onOpenFilters,
+    floodModeEnabled = false,
+    onToggleFloodMode,
+    style,
+  }) {
+    return (
+      <View style={[styles.container, style]} pointerEvents="box-none">
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[
+              styles.toggleButton,
+              densityEnabled && styles.toggleButtonActive,
+            ]}
+            onPress={onToggleDensity}
+            activeOpacity={0.8}
+            accessibilityRole="switch"
+            accessibilityState={{ checked: densityEnabled }}
+            accessibilityLabel="Obstacle heatmap"
+            accessibilityHint="Shows where obstacle reports are concentrated"
+          >
+            {isDensityLoading ? (
+              <ActivityIndicator size="small" color="#F97316" />
+            ) : (
+              <Ionicons
+                name={densityEnabled ? "flame" : "flame-outline"}
+                size={22}
+                color={densityEnabled ? "white" : "#F97316"}
+              />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.toggleButton,
+              activeFilterCount > 0 && styles.filterButtonActive,
+            ]}
+            onPress={onOpenFilters}
+            activeOpacity={0.8}
+            accessibilityLabel={
+              activeFilterCount > 0
+                ? `Obstacle filters, ${activeFilterCount} active`
+                : "Obstacle filters"
+            }
+          >
+            <Ionicons name="funnel-outline" size={20} color="#1F2937" />
+            {activeFilterCount > 0 && (
+              <View style={styles.filterBadge}>
+                <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+
+          {onToggleFloodMode && (
+            <TouchableOpacity
+              style={[
+                styles.toggleButton,
+                floodModeEnabled && styles.floodButtonActive,
+              ]}
+              onPress={onToggleFloodMode}
+              activeOpacity={0.8}
+              accessibilityRole="switch"
+              accessibilityState={{ checked: floodModeEnabled }}
+              accessibilityLabel="Flood mode"
+              accessibilityHint="Routes avoid flood-prone streets and show flood zones"
+            >
+              <Ionicons
+                name={floodModeEnabled ? "water" : "water-outline"}
+                size={22}
+                color={floodModeEnabled ? "white" : "#2563EB"}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {densityEnabled && (
+          <View style={styles.legend}>
+            <View
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: getDensityColor(0, 0.8) },
+              ]}
+            />
+            <Text style={styles.legendText}>Few</Text>
+            <View
+              style={[
+                styles.legendSwatch,
+                { backgroundColor: getDensityColor(1, 0.8) },
+              ]}
+            />
+            <Text style={styles.legendText}>
+              Many
+              {densityBinCount === 0 && !isDensityLoading
+                ? " · No reports here"
+                : ""}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  }
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    alignItems: "flex-end",
+    zIndex: 998, // Below search bar (1000)
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  toggleButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: "white",
+    justifyContent: "center",
+    alignItems: "center",
+    elevation: 4,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  toggleButtonActive: {
+    backgroundColor: "#F97316",
+  },
+  filterButtonActive: {
+    backgroundColor: "#DBEAFE",
+  },
+  floodButtonActive: {
+    backgroundColor: "#2563EB",
+  },
+  filterBadge: {
+    position: "absolute",
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: "#3B82F6",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  filterBadgeText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "white",
+  },
+  legend: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: "rgba(255, 255, 255, 0.9)",
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+    marginHorizontal: 4,
+  },
+  legendText: {
+    fontSize: 12,
+    color: "#374151",
+  },
+});
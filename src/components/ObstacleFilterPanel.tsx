@@ -0,0 +1,330 @@
+// src/components/ObstacleFilterPanel.tsx
+// Bottom sheet for narrowing down which obstacles the map shows and warns
+// about. Changes apply immediately and are saved on the device.
+
+import React from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  StyleSheet,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useMapFilters } from "../stores/mapFilterStore";
+import {
+  FILTER_OBSTACLE_TYPES,
+  FILTER_SEVERITIES,
+  FILTER_STATUSES,
+  MAX_AGE_OPTIONS_DAYS,
+  OBSTACLE_TYPE_SHORT_LABELS,
+  countActiveFilters,
+} from "../utils/obstacleFilters";
+
+const SEVERITY_LABELS = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  blocking: "Blocking",
+};
+
+const STATUS_LABELS = {
+  pending: "Pending",
+  verified: "Verified",
+  resolved: "Resolved",
+  false_report: "False Report",
+};
+
+interface ObstacleFilterPanelProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Toggle membership; an empty list means "all"
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value)
+    ? values.filter((existing) => existing !== value)
+    : [...values, value];
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export function ObstacleFilterPanel({
+  visible,
+  onClose,
+}: ObstacleFilterPanelProps) {
+  const insets = useSafeAreaInsets();
+  const { filters, updateFilters, resetFilters } = useMapFilters();
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+        accessibilityLabel="Close filters"
+      />
+      <View
+        style={[styles.sheet, { paddingBottom: Math.max(insets.bottom, 16) }]}
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>
+            Filter Obstacles{activeCount > 0 ? ` (${activeCount})` : ""}
+          </Text>
+          <TouchableOpacity
+            onPress={resetFilters}
+            disabled={activeCount === 0}
+            accessibilityLabel="Reset filters"
+          >
+            <Text
+              style={[
+                styles.resetText,
+                activeCount === 0 && styles.resetTextDisabled,
+              ]}
+            >
+              Reset
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>
+          Hidden obstacles are also left out of proximity alerts.
+        </Text>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Text style={styles.sectionTitle}>Type</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label="All"
+              selected={filters.types.length === 0}
+              onPress={() => updateFilters({ types: [] })}
+            />
+            {FILTER_OBSTACLE_TYPES.map((type) => (
+              <Chip
+                key={type}
+                label={OBSTACLE_TYPE_SHORT_LABELS[type]}
+                selected={filters.types.includes(type)}
+                onPress={() =>
+                  updateFilters({ types: toggleValue(filters.types, type) })
+                }
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Severity</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label="All"
+              selected={filters.severities.length === 0}
+              onPress={() => updateFilters({ severities: [] })}
+            />
+            {FILTER_SEVERITIES.map((severity) => (
+              <Chip
+                key={severity}
+                label={SEVERITY_LABELS[severity]}
+                selected={filters.severities.includes(severity)}
+                onPress={() =>
+                  updateFilters({
+                    severities: toggleValue(filters.severities, severity),
+                  })
+                }
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Status</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label="All"
+              selected={filters.statuses.length === 0}
+              onPress={() => updateFilters({ statuses: [] })}
+            />
+            {FILTER_STATUSES.map((status) => (
+              <Chip
+                key={status}
+                label={STATUS_LABELS[status]}
+                selected={filters.statuses.includes(status)}
+                onPress={() =>
+                  updateFilters({
+                    statuses: toggleValue(filters.statuses, status),
+                  })
+                }
+              />
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>Reported Within</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label="Any Time"
+              selected={filters.maxAgeDays === null}
+              onPress={() => updateFilters({ maxAgeDays: null })}
+            />
+            {MAX_AGE_OPTIONS_DAYS.map((days) => (
+              <Chip
+                key={days}
+                label={days === 1 ? "1 day" : `${days} days`}
+                selected={filters.maxAgeDays === days}
+                onPress={() => updateFilters({ maxAgeDays: days })}
+              />
+            ))}
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.switchLabel}>Admin reports only</Text>
+              <Text style={styles.switchHint}>
+                Only obstacles reported by LGU or field admins
+              </Text>
+            </View>
+            <Switch
+              value={filters.adminReportedOnly}
+              onValueChange={(adminReportedOnly) =>
+                updateFilters({ adminReportedOnly })
+              }
+              trackColor={{ false: "#D1D5DB", true: "#93C5FD" }}
+              thumbColor={filters.adminReportedOnly ? "#3B82F6" : "#F9FAFB"}
+              accessibilityLabel="Admin reports only"
+            />
+          </View>
+        </ScrollView>
+
+        <TouchableOpacity
+          style={styles.doneButton}
+          onPress={onClose}
+          accessibilityRole="button"
+        >
+          <Ionicons name="checkmark" size={20} color="white" />
+          <Text style={styles.doneText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.3)",
+  },
+  sheet: {
+    maxHeight: "75%",
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1F2937",
+  },
+  subtitle: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#3B82F6",
+  },
+  resetTextDisabled: {
+    color: "#9CA3AF",
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#F3F4F6",
+  },
+  chipSelected: {
+    backgroundColor: "#3B82F6",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#374151",
+    fontWeight: "500",
+  },
+  chipTextSelected: {
+    color: "white",
+  },
+  switchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#374151",
+  },
+  switchHint: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  doneButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: "#3B82F6",
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "white",
+  },
+});
@@ -1,7 +1,7 @@
 // src/screens/ReportDetailsScreen.tsx
 // IMPROVED: Detailed view of user's report with status timeline and isolated styles
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import {
   SafeAreaView,
   View,
@@ -11,6 +11,7 @@ import {
   Alert,
   useWindowDimensions,
   ActivityIndicator,
+  Image,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -18,9 +19,13 @@ import { useRoute, useNavigation } from "@react-navigation/native";
 
 // Firebase services
 import { firebaseServices } from "../services/firebase";
+import { enhancedFirebaseService } from "../services/enhancedFirebase";
 
 // Types
-import { AccessibilityObstacle } from "../types";
+import { AccessibilityObstacle, ReportRevision } from "../types";
+import { describeRevisionChanges } from "../utils/reportRevisions";
+import { describePhotoCheck } from "../utils/photoMetadata";
+import { EditReportModal } from "./EditReportModal";
 
 // Isolated Styles
 import {
@@ -32,6 +37,16 @@ interface RouteParams {
   reportId: string;
 }
 
+// Photo as displayed: a store blob, or a legacy photo embedded in the report
+interface DisplayPhoto {
+  key: string;
+  thumbnailId?: string;
+  fullId?: string;
+  embeddedBase64?: string;
+}
+
+const toImageUri = (base64: string) => `data:image/jpeg;base64,${base64}`;
+
 interface TimelineEvent {
   id: string;
   status: "submitted" | "pending" | "verified" | "resolved";
@@ -81,37 +96,131 @@ export const ReportDetailsScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
 
+  // Reporter may edit or withdraw while pending; admins see the revisions
+  const [canModify, setCanModify] = useState(false);
+  const [revisions, setRevisions] = useState<ReportRevision[]>([]);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  // Photos are fetched from the blob store only here, never with map data
+  const [photoBlobs, setPhotoBlobs] = useState<Record<string, string>>({});
+  const [selectedPhoto, setSelectedPhoto] = useState(0);
+
+  const displayPhotos: DisplayPhoto[] = useMemo(() => {
+    if (!report) return [];
+    const photos: DisplayPhoto[] = (report.photos || []).map((photo) => ({
+      key: photo.id,
+      thumbnailId: photo.thumbnailId,
+      fullId: photo.id,
+    }));
+    if (report.photoBase64) {
+      photos.push({ key: "embedded", embeddedBase64: report.photoBase64 });
+    }
+    return photos;
+  }, [report]);
+
   // Load report details
-  useEffect(() => {
-    const loadReportDetails = async () => {
-      try {
-        console.log("Loading report details for:", reportId);
-        const reportData = await firebaseServices.obstacle.getObstacleById(
-          reportId
-        );
-
-        if (!reportData) {
-          Alert.alert("Error", "Report not found", [
-            { text: "OK", onPress: () => navigation.goBack() },
-          ]);
-          return;
-        }
-
-        setReport(reportData);
-        setTimeline(generateTimeline(reportData));
-      } catch (error) {
-        console.error("Failed to load report details:", error);
-        Alert.alert("Error", "Failed to load report details", [
+  const loadReportDetails = useCallback(async () => {
+    try {
+      console.log("Loading report details for:", reportId);
+      const reportData = await firebaseServices.obstacle.getObstacleById(
+        reportId
+      );
+
+      if (!reportData) {
+        Alert.alert("Error", "Report not found", [
           { text: "OK", onPress: () => navigation.goBack() },
         ]);
-      } finally {
-        setIsLoading(false);
+        return;
       }
-    };
 
-    loadReportDetails();
+      setReport(reportData);
+      setTimeline(generateTimeline(reportData));
+      setSelectedPhoto(0);
+
+      const context = await enhancedFirebaseService.getCurrentUserContext();
+      setCanModify(
+        context.capabilities.canModifyOwnReports &&
+          reportData.reportedBy === context.uid &&
+          (reportData.status || "pending") === "pending" &&
+          !reportData.mergedInto
+      );
+      setIsAdmin(context.capabilities.canAccessAdminFeatures);
+      setRevisions(
+        await enhancedFirebaseService.getReportRevisionsForAdmin(reportId)
+      );
+    } catch (error) {
+      console.error("Failed to load report details:", error);
+      Alert.alert("Error", "Failed to load report details", [
+        { text: "OK", onPress: () => navigation.goBack() },
+      ]);
+    } finally {
+      setIsLoading(false);
+    }
   }, [reportId, navigation]);
 
+  useEffect(() => {
+    loadReportDetails();
+  }, [loadReportDetails]);
+
+  // Thumbnails first (small), so the strip fills in quickly
+  useEffect(() => {
+    displayPhotos.forEach((photo) => loadPhotoBlob(photo.thumbnailId));
+  }, [displayPhotos]);
+
+  // Full-size image only for the photo being viewed
+  useEffect(() => {
+    loadPhotoBlob(displayPhotos[selectedPhoto]?.fullId);
+  }, [displayPhotos, selectedPhoto]);
+
+  const loadPhotoBlob = async (blobId?: string) => {
+    if (!blobId) return;
+    try {
+      const base64 = await firebaseServices.photos.getPhoto(blobId);
+      if (base64) {
+        setPhotoBlobs((blobs) => ({ ...blobs, [blobId]: base64 }));
+      }
+    } catch (error) {
+      console.error("Failed to load report photo:", error);
+    }
+  };
+
+  const handleWithdraw = () => {
+    Alert.alert(
+      "I-withdraw ang Report? (Withdraw Report?)",
+      "It will be removed from the map and can no longer be edited.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Withdraw",
+          style: "destructive",
+          onPress: async () => {
+            setIsWithdrawing(true);
+            const result = await enhancedFirebaseService.withdrawOwnReport(
+              reportId
+            );
+            setIsWithdrawing(false);
+
+            if (result.success) {
+              loadReportDetails();
+            } else {
+              Alert.alert("Hindi Na-withdraw (Not Withdrawn)", result.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getPhotoUri = (photo: DisplayPhoto, size: "full" | "thumbnail") => {
+    if (photo.embeddedBase64) return toImageUri(photo.embeddedBase64);
+    const blob =
+      (size === "full" && photo.fullId && photoBlobs[photo.fullId]) ||
+      (photo.thumbnailId && photoBlobs[photo.thumbnailId]);
+    return blob ? toImageUri(blob) : null;
+  };
+
   // Generate timeline based on report status
   const generateTimeline = (
     reportData: AccessibilityObstacle
@@ -212,6 +321,8 @@ export const ReportDetailsScreen: React.FC = () => {
       verified: { label: "Under Review", color: COLORS.softBlue },
       resolved: { label: "Resolved", color: COLORS.success },
       false_report: { label: "Rejected", color: COLORS.muted },
+      expired: { label: "Expired", color: COLORS.muted },
+      withdrawn: { label: "Withdrawn", color: COLORS.muted },
     };
 
     const config = statusConfig[report.status || "pending"];
@@ -350,6 +461,67 @@ export const ReportDetailsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Photos */}
+        {displayPhotos.length > 0 && (
+          <View style={styles.photoSection}>
+            <Text style={styles.timelineSectionTitle}>Mga Larawan</Text>
+
+            {(() => {
+              const uri = getPhotoUri(displayPhotos[selectedPhoto], "full");
+              return uri ? (
+                <Image
+                  source={{ uri }}
+                  style={styles.photoMainImage}
+                  resizeMode="cover"
+                  accessibilityLabel={`Obstacle photo ${selectedPhoto + 1}`}
+                />
+              ) : (
+                <View style={[styles.photoMainImage, styles.photoPlaceholder]}>
+                  <ActivityIndicator color={COLORS.softBlue} />
+                </View>
+              );
+            })()}
+
+            {displayPhotos.length > 1 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.photoThumbnailRow}
+              >
+                {displayPhotos.map((photo, index) => {
+                  const uri = getPhotoUri(photo, "thumbnail");
+                  return (
+                    <TouchableOpacity
+                      key={photo.key}
+                      onPress={() => setSelectedPhoto(index)}
+                      activeOpacity={0.8}
+                      accessibilityLabel={`Show photo ${index + 1}`}
+                    >
+                      {uri ? (
+                        <Image
+                          source={{ uri }}
+                          style={[
+                            styles.photoThumbnail,
+                            index === selectedPhoto &&
+                              styles.photoThumbnailSelected,
+                          ]}
+                        />
+                      ) : (
+                        <View
+                          style={[
+                            styles.photoThumbnail,
+                            styles.photoPlaceholder,
+                          ]}
+                        />
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        )}
+
         {/* Report Timeline */}
         <View style={styles.timelineSection}>
           <Text style={styles.timelineSectionTitle}>Report Progress</Text>
@@ -459,10 +631,115 @@ export const ReportDetailsScreen: React.FC = () => {
               {formatFullDate(report.lastVerifiedAt || report.reportedAt)}
             </Text>
           </View>
+
+          {/* Photo location check, for moderators */}
+          {isAdmin && report.photoCheck && (
+            <View style={styles.reportSummaryRow}>
+              <Text style={styles.reportSummaryLabel}>Photo Check</Text>
+              <Text style={styles.reportSummaryValue}>
+                {describePhotoCheck(report.photoCheck) ||
+                  (report.photoCheck.status === "match"
+                    ? `✅ Taken ${report.photoCheck.distanceMeters}m from the reported location`
+                    : "No location recorded with the photo")}
+              </Text>
+            </View>
+          )}
+
+          {report.lastEditedAt && (
+            <View style={styles.reportSummaryRow}>
+              <Text style={styles.reportSummaryLabel}>Last Edited</Text>
+              <Text style={styles.reportSummaryValue}>
+                {formatFullDate(report.lastEditedAt)} (
+                {report.revisionCount || 1} revision
+                {(report.revisionCount || 1) === 1 ? "" : "s"})
+              </Text>
+            </View>
+          )}
         </View>
 
+        {/* Reporter Actions (pending reports only) */}
+        {canModify && (
+          <View style={styles.actionsSection}>
+            <Text style={styles.actionsSectionTitle}>Manage Report</Text>
+            <View style={styles.reportActionRow}>
+              <TouchableOpacity
+                style={styles.reportActionButton}
+                onPress={() => setShowEditModal(true)}
+                disabled={isWithdrawing}
+                accessibilityLabel="Edit report"
+              >
+                <Ionicons
+                  name="create-outline"
+                  size={18}
+                  color={COLORS.softBlue}
+                />
+                <Text style={styles.reportActionButtonText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.reportActionButton, styles.reportActionDanger]}
+                onPress={handleWithdraw}
+                disabled={isWithdrawing}
+                accessibilityLabel="Withdraw report"
+              >
+                {isWithdrawing ? (
+                  <ActivityIndicator color={COLORS.error} />
+                ) : (
+                  <Ionicons
+                    name="remove-circle-outline"
+                    size={18}
+                    color={COLORS.error}
+                  />
+                )}
+                <Text
+                  style={[
+                    styles.reportActionButtonText,
+                    styles.reportActionDangerText,
+                  ]}
+                >
+                  Withdraw
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Revision History (admins only) */}
+        {revisions.length > 0 && (
+          <View style={styles.actionsSection}>
+            <Text style={styles.actionsSectionTitle}>Revision History</Text>
+            {revisions.map((revision) => (
+              <View key={revision.id} style={styles.revisionItem}>
+                <Text style={styles.revisionHeader}>
+                  #{revision.revision}{" "}
+                  {revision.action === "withdraw" ? "Withdrawal" : "Edit"} ·{" "}
+                  {formatDate(revision.editedAt)}
+                </Text>
+                {describeRevisionChanges(revision).map((change) => (
+                  <Text key={change} style={styles.revisionChange}>
+                    • {change}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
+
         <View style={styles.spacer} />
       </ScrollView>
+
+      {canModify && (
+        <EditReportModal
+          visible={showEditModal}
+          report={report}
+          typeLabels={OBSTACLE_TYPE_LABELS}
+          severityLabels={SEVERITY_LABELS}
+          onClose={() => setShowEditModal(false)}
+          onSaved={() => {
+            setShowEditModal(false);
+            loadReportDetails();
+          }}
+        />
+      )}
     </SafeAreaView>
   );
 };
@@ -13,7 +13,20 @@ import {
   Dimensions,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
-import { AccessibilityObstacle } from "../types";
+import {
+  AccessibilityObstacle,
+  RestPoint,
+  RouteFloodAssessment,
+  TripPlan,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import {
+  useElevationProfile,
+  DEFAULT_MAX_SLOPE_DEGREES,
+} from "../hooks/useElevationProfile";
+import { ElevationChart } from "./ElevationChart";
+import { FloodRouteNote } from "./FloodRouteNote";
 import {
   PanGestureHandler,
   PanGestureHandlerGestureEvent,
@@ -47,24 +60,66 @@ const EXPANDED_HEIGHT = screenHeight * 0.8;
 const MINIMIZED_HEIGHT = 140;
 const DRAG_THRESHOLD = 50;
 
+// Departure presets for planning a trip ahead (e.g. the night before)
+type DeparturePreset = "now" | "in_1_hour" | "tomorrow_7am" | "tomorrow_9am";
+
+const DEPARTURE_PRESETS: { key: DeparturePreset; label: string }[] = [
+  { key: "now", label: "Now" },
+  { key: "in_1_hour", label: "In 1 hour" },
+  { key: "tomorrow_7am", label: "Tomorrow 7 AM" },
+  { key: "tomorrow_9am", label: "Tomorrow 9 AM" },
+];
+
+function departureTimeForPreset(preset: DeparturePreset): Date | null {
+  const now = new Date();
+  switch (preset) {
+    case "now":
+      return null;
+    case "in_1_hour":
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case "tomorrow_7am":
+    case "tomorrow_9am": {
+      const tomorrow = new Date(now);
+      tomorrow.setDate(now.getDate() + 1);
+      tomorrow.setHours(preset === "tomorrow_7am" ? 7 : 9, 0, 0, 0);
+      return tomorrow;
+    }
+  }
+}
+
+const REST_POINT_ICONS: Record<
+  RestPoint["kind"],
+  keyof typeof Ionicons.glyphMap
+> = {
+  shaded_poi: "business",
+  covered_sidewalk: "umbrella",
+  bench: "cafe",
+  rest_in_place: "pause-circle",
+};
+
 interface SimpleRouteInfo {
   fastestRoute: {
     duration: number; // seconds
     distance: number; // meters
     obstacleCount: number;
     obstacles: AccessibilityObstacle[];
+    polyline?: UserLocation[]; // For the elevation chart
+    flood?: RouteFloodAssessment; // Flood mode only
   };
   clearestRoute: {
     duration: number; // seconds
     distance: number; // meters
     obstacleCount: number;
     obstacles: AccessibilityObstacle[];
+    polyline?: UserLocation[]; // For the elevation chart
+    flood?: RouteFloodAssessment; // Flood mode only
   };
   summary: {
     recommendation: string;
     timeDifference: number; // seconds
     obstacleDifference: number;
     fastestIsAlsoClearest: boolean;
+    floodWarning?: string;
   };
 }
 
@@ -77,6 +132,14 @@ interface RouteInfoBottomSheetProps {
   onSelectRoute: (routeType: "fastest" | "clearest") => void;
   onStopNavigation?: () => void;
   isNavigating?: boolean; // ✅ ADD THIS LINE
+  departureTime?: Date | null; // null = leaving now
+  onChangeDepartureTime?: (time: Date | null) => void;
+  tripPlan?: TripPlan | null;
+  currentLegIndex?: number;
+  isPlanningTrip?: boolean;
+  onAddStop?: () => void;
+  onRemoveStop?: (extraStopIndex: number) => void;
+  userProfile?: UserMobilityProfile | null; // Slope limit for the elevation chart
 }
 
 type SheetState = "expanded" | "minimized";
@@ -89,11 +152,29 @@ export function RouteInfoBottomSheet({
   onSelectRoute,
   onStopNavigation,
   isNavigating = false, // ✅ ADD THIS LINE
+  departureTime = null,
+  onChangeDepartureTime,
+  tripPlan = null,
+  currentLegIndex = 0,
+  isPlanningTrip = false,
+  onAddStop,
+  onRemoveStop,
+  userProfile = null,
 }: RouteInfoBottomSheetProps) {
   // ALL HOOKS AT THE TOP
   const [sheetState, setSheetState] = useState<SheetState>("expanded");
+  const [departurePreset, setDeparturePreset] =
+    useState<DeparturePreset>("now");
   const translateY = useSharedValue(0);
   const isGestureActive = useSharedValue(false);
+  const fastestElevation = useElevationProfile(
+    routeAnalysis?.fastestRoute.polyline,
+    userProfile
+  );
+  const clearestElevation = useElevationProfile(
+    routeAnalysis?.clearestRoute.polyline,
+    userProfile
+  );
 
   // Memoized helper functions
   const formatDuration = useMemo(
@@ -109,6 +190,11 @@ export function RouteInfoBottomSheet({
     onStopNavigation?.();
   };
 
+  const handleDeparturePreset = (preset: DeparturePreset) => {
+    setDeparturePreset(preset);
+    onChangeDepartureTime?.(departureTimeForPreset(preset));
+  };
+
   const formatDistance = useMemo(
     () =>
       (meters: number): string => {
@@ -282,6 +368,9 @@ export function RouteInfoBottomSheet({
   }
 
   const { fastestRoute, clearestRoute, summary } = routeAnalysis;
+  const slopeLimit = userProfile?.maxRampSlope ?? DEFAULT_MAX_SLOPE_DEGREES;
+  const showTripPlan = !!tripPlan && tripPlan.legs.length > 1;
+  const currentLeg = showTripPlan ? tripPlan!.legs[currentLegIndex] : null;
 
   return (
     <>
@@ -371,6 +460,15 @@ export function RouteInfoBottomSheet({
                     </Text>
                   </View>
                 </View>
+                {isNavigating && currentLeg && (
+                  <Text style={styles.currentLegText}>
+                    {`Leg ${currentLegIndex + 1}/${
+                      tripPlan!.legs.length
+                    }: ${formatDistance(currentLeg.distance)} to ${
+                      currentLeg.to.name
+                    }`}
+                  </Text>
+                )}
                 <Text style={styles.tapToExpand}>Tap or drag to expand</Text>
               </TouchableOpacity>
             )}
@@ -383,6 +481,170 @@ export function RouteInfoBottomSheet({
                 showsVerticalScrollIndicator={false}
                 scrollEnabled={!isGestureActive.value}
               >
+                {/* Departure time - obstacles are counted as they will be then */}
+                {onChangeDepartureTime && !isNavigating && (
+                  <View style={styles.departureSection}>
+                    <Text style={styles.departureLabel}>
+                      {departureTime
+                        ? `Leaving ${departureTime.toLocaleString([], {
+                            weekday: "short",
+                            hour: "numeric",
+                            minute: "2-digit",
+                          })}`
+                        : "Leaving now"}
+                    </Text>
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      contentContainerStyle={styles.departureChips}
+                    >
+                      {DEPARTURE_PRESETS.map(({ key, label }) => {
+                        const selected = departurePreset === key;
+                        return (
+                          <TouchableOpacity
+                            key={key}
+                            style={[
+                              styles.departureChip,
+                              selected && styles.departureChipSelected,
+                            ]}
+                            onPress={() => handleDeparturePreset(key)}
+                            disabled={isCalculating}
+                            accessibilityLabel={`Depart ${label}`}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected }}
+                          >
+                            <Text
+                              style={[
+                                styles.departureChipText,
+                                selected && styles.departureChipTextSelected,
+                              ]}
+                            >
+                              {label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                  </View>
+                )}
+
+                {/* Multi-stop trip: legs split at rest points */}
+                {(showTripPlan || (onAddStop && !isNavigating)) && (
+                  <View style={styles.tripSection}>
+                    <View style={styles.tripHeader}>
+                      <Text style={styles.tripTitle}>Trip Plan</Text>
+                      {isPlanningTrip && (
+                        <ActivityIndicator
+                          size="small"
+                          color={COLORS.softBlue}
+                        />
+                      )}
+                    </View>
+
+                    {showTripPlan && (
+                      <Text style={styles.tripSummary}>
+                        {`${tripPlan!.legs.length} legs · ${
+                          tripPlan!.restStopCount
+                        } rest stop${
+                          tripPlan!.restStopCount === 1 ? "" : "s"
+                        } · ${formatDistance(
+                          tripPlan!.totalDistance
+                        )} · ${formatDuration(tripPlan!.totalDuration)}`}
+                      </Text>
+                    )}
+
+                    {showTripPlan &&
+                      tripPlan!.legs.map((leg) => {
+                        const isCurrent =
+                          isNavigating && leg.index === currentLegIndex;
+                        const isDone =
+                          isNavigating && leg.index < currentLegIndex;
+                        // Stop 0 is the main destination; later ones are extra
+                        const stopIndex =
+                          tripPlan!.legs
+                            .slice(0, leg.index + 1)
+                            .filter((l) => l.to.kind === "destination").length -
+                          1;
+                        const canRemove =
+                          !isNavigating &&
+                          !!onRemoveStop &&
+                          leg.to.kind === "destination" &&
+                          stopIndex > 0;
+
+                        return (
+                          <View
+                            key={leg.id}
+                            style={[
+                              styles.tripLegRow,
+                              isCurrent && styles.tripLegRowCurrent,
+                              isDone && styles.tripLegRowDone,
+                            ]}
+                          >
+                            <Ionicons
+                              name={
+                                leg.restPoint
+                                  ? REST_POINT_ICONS[leg.restPoint.kind]
+                                  : "flag"
+                              }
+                              size={18}
+                              color={
+                                leg.to.kind === "rest"
+                                  ? COLORS.warning
+                                  : COLORS.softBlue
+                              }
+                            />
+                            <View style={styles.tripLegInfo}>
+                              <Text style={styles.tripLegTitle}>
+                                {leg.to.kind === "rest"
+                                  ? `Rest: ${leg.to.name}`
+                                  : leg.to.name}
+                              </Text>
+                              <Text style={styles.tripLegDetail}>
+                                {`Walk ${formatDistance(
+                                  leg.distance
+                                )} · ${formatDuration(leg.duration)} · ${
+                                  leg.obstacles.length
+                                } obstacle${
+                                  leg.obstacles.length === 1 ? "" : "s"
+                                }`}
+                              </Text>
+                            </View>
+                            {canRemove && (
+                              <TouchableOpacity
+                                onPress={() => onRemoveStop!(stopIndex - 1)}
+                                accessibilityLabel={`Remove stop ${leg.to.name}`}
+                                accessibilityRole="button"
+                              >
+                                <Ionicons
+                                  name="close-circle"
+                                  size={20}
+                                  color={COLORS.muted}
+                                />
+                              </TouchableOpacity>
+                            )}
+                          </View>
+                        );
+                      })}
+
+                    {onAddStop && !isNavigating && (
+                      <TouchableOpacity
+                        style={styles.addStopButton}
+                        onPress={onAddStop}
+                        disabled={isPlanningTrip}
+                        accessibilityLabel="Add another stop to this trip"
+                        accessibilityRole="button"
+                      >
+                        <Ionicons
+                          name="add-circle-outline"
+                          size={18}
+                          color={COLORS.softBlue}
+                        />
+                        <Text style={styles.addStopText}>Add stop</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+
                 {/* Loading overlay for obstacles */}
                 {isCalculatingObstacles && (
                   <View style={styles.obstacleLoadingOverlay}>
@@ -393,6 +655,15 @@ export function RouteInfoBottomSheet({
                   </View>
                 )}
 
+                {summary.floodWarning && (
+                  <View style={styles.floodWarningCard}>
+                    <Ionicons name="water" size={18} color="#2563EB" />
+                    <Text style={styles.floodWarningText}>
+                      {summary.floodWarning}
+                    </Text>
+                  </View>
+                )}
+
                 {/* Perfect Scenario */}
                 {summary.fastestIsAlsoClearest && (
                   <View style={styles.perfectScenarioCard}>
@@ -444,6 +715,17 @@ export function RouteInfoBottomSheet({
                       </View>
                     </View>
 
+                    {fastestRoute.flood && (
+                      <FloodRouteNote flood={fastestRoute.flood} />
+                    )}
+
+                    {fastestElevation && (
+                      <ElevationChart
+                        profile={fastestElevation}
+                        maxSlopeDegrees={slopeLimit}
+                      />
+                    )}
+
                     <TouchableOpacity
                       style={[styles.selectButton, styles.perfectButton]}
                       onPress={() => onSelectRoute("fastest")}
@@ -525,6 +807,17 @@ export function RouteInfoBottomSheet({
                         </View>
                       </View>
 
+                      {fastestRoute.flood && (
+                        <FloodRouteNote flood={fastestRoute.flood} />
+                      )}
+
+                      {fastestElevation && (
+                        <ElevationChart
+                          profile={fastestElevation}
+                          maxSlopeDegrees={slopeLimit}
+                        />
+                      )}
+
                       <TouchableOpacity
                         style={styles.selectButton}
                         onPress={() => onSelectRoute("fastest")}
@@ -599,6 +892,17 @@ export function RouteInfoBottomSheet({
                         </View>
                       </View>
 
+                      {clearestRoute.flood && (
+                        <FloodRouteNote flood={clearestRoute.flood} />
+                      )}
+
+                      {clearestElevation && (
+                        <ElevationChart
+                          profile={clearestElevation}
+                          maxSlopeDegrees={slopeLimit}
+                        />
+                      )}
+
                       <TouchableOpacity
                         style={[styles.selectButton, styles.clearButton]}
                         onPress={() => onSelectRoute("clearest")}
@@ -779,6 +1083,120 @@ const styles = StyleSheet.create({
     marginTop: 16,
     textAlign: "center",
   },
+  // Departure time
+  departureSection: {
+    marginTop: 16,
+  },
+  departureLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.slate,
+    marginBottom: 8,
+  },
+  departureChips: {
+    gap: 8,
+  },
+  departureChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.chipBg,
+  },
+  departureChipSelected: {
+    backgroundColor: COLORS.softBlue,
+  },
+  departureChipText: {
+    fontSize: 13,
+    color: COLORS.navy,
+  },
+  departureChipTextSelected: {
+    color: COLORS.white,
+    fontWeight: "600",
+  },
+
+  // Trip plan
+  tripSection: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: COLORS.lightGray,
+  },
+  tripHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  tripTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.slate,
+  },
+  tripSummary: {
+    fontSize: 12,
+    color: COLORS.muted,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  tripLegRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    gap: 10,
+  },
+  tripLegRowCurrent: {
+    backgroundColor: COLORS.chipBg,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+  },
+  tripLegRowDone: {
+    opacity: 0.5,
+  },
+  tripLegInfo: {
+    flex: 1,
+  },
+  tripLegTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: COLORS.slate,
+  },
+  tripLegDetail: {
+    fontSize: 12,
+    color: COLORS.muted,
+    marginTop: 2,
+  },
+  addStopButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addStopText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.softBlue,
+  },
+  currentLegText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: COLORS.navy,
+    marginBottom: 4,
+  },
+
+  floodWarningCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#DBEAFE",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  floodWarningText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1E3A8A",
+    marginLeft: 8,
+  },
   obstacleLoadingOverlay: {
     flexDirection: "row",
     alignItems: "center",
@@ -27,7 +27,12 @@ import { useUserProfile } from "../stores/userProfileStore";
 import { useLocation } from "../hooks/useLocation";
 import { ObstacleType } from "../types";
 import { CameraInterface } from "./CameraInterface";
-import { CompressedPhoto } from "../services/cameraService";
+import {
+  CompressedPhoto,
+  MAX_REPORT_PHOTOS,
+  toPhotoUpload,
+} from "../services/cameraService";
+import { DuplicateMatch } from "../utils/obstacleDuplicates";
 
 // Import dedicated styles for SubmitReportTab
 import {
@@ -119,6 +124,10 @@ const SEVERITY_LEVELS = [
 
 type ReportStep = "select" | "photo" | "details";
 
+type ReportObstacleData = Parameters<
+  typeof enhancedFirebaseService.reportObstacleEnhanced
+>[0];
+
 interface SubmitReportTabProps {
   navigation: any;
 }
@@ -142,9 +151,7 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
     "low" | "medium" | "high" | "blocking" | null
   >(null);
   const [description, setDescription] = useState("");
-  const [capturedPhoto, setCapturedPhoto] = useState<CompressedPhoto | null>(
-    null
-  );
+  const [capturedPhotos, setCapturedPhotos] = useState<CompressedPhoto[]>([]);
   const [showCamera, setShowCamera] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -172,7 +179,7 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
     setSelectedObstacle(null);
     setSelectedSeverity(null);
     setDescription("");
-    setCapturedPhoto(null);
+    setCapturedPhotos([]);
     setShowCamera(false);
     setIsSubmitting(false);
     console.log("🔄 Report form reset to initial state");
@@ -186,39 +193,55 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
   };
 
   const handlePhotoTaken = (photo: CompressedPhoto) => {
-    setCapturedPhoto(photo);
+    setCapturedPhotos((photos) =>
+      [...photos, photo].slice(0, MAX_REPORT_PHOTOS)
+    );
     setShowCamera(false);
     Vibration.vibrate([50, 100, 50]); // Success feedback
   };
 
+  const handleRemovePhoto = (uri: string) => {
+    setCapturedPhotos((photos) => photos.filter((photo) => photo.uri !== uri));
+    Vibration.vibrate(50);
+  };
+
   const handleSkipPhoto = () => {
     setShowCamera(false);
     setCurrentStep("details");
   };
 
-  // Enhanced obstacle report submission
-  const handleSubmitReport = async () => {
-    if (!selectedObstacle || !selectedSeverity || !location) {
-      Alert.alert(
-        "Kulang ang Detalye",
-        "Kailangan ng obstacle type, severity level, at location para mag-report.",
-        [{ text: "OK" }]
+  // Shared handling for a new report or a confirmation of an existing one
+  const handleReportResult = (
+    result: Awaited<
+      ReturnType<typeof enhancedFirebaseService.reportObstacleEnhanced>
+    >,
+    successTitle: string
+  ) => {
+    if (result.success) {
+      Alert.alert(successTitle, result.message, [
+        {
+          text: "OK",
+          onPress: () => {
+            resetForm();
+            Vibration.vibrate([100, 50, 100]);
+          },
+        },
+      ]);
+    } else if (result.rateLimitInfo && !result.rateLimitInfo.allowed) {
+      enhancedFirebaseService.showRateLimitAlert(
+        result.rateLimitInfo,
+        () => navigation.navigate("Profile"),
+        undefined
       );
-      return;
+    } else {
+      Alert.alert("❌ Hindi Ma-report", result.message, [{ text: "OK" }]);
     }
+  };
 
+  const submitNewReport = async (obstacleData: ReportObstacleData) => {
     setIsSubmitting(true);
 
     try {
-      const obstacleData = {
-        location,
-        type: selectedObstacle,
-        severity: selectedSeverity,
-        description: description.trim() || "No additional description provided",
-        photoBase64: capturedPhoto?.base64,
-        timePattern: "permanent" as const,
-      };
-
       const result = await enhancedFirebaseService.reportObstacleEnhanced(
         obstacleData
       );
@@ -227,34 +250,16 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
         try {
           await logAdminObstacleReport(
             result.obstacleId || "unknown_id",
-            selectedObstacle,
-            selectedSeverity,
-            location
+            obstacleData.type,
+            obstacleData.severity,
+            obstacleData.location
           );
         } catch (logError) {
           console.warn("Failed to log admin obstacle report:", logError);
         }
-
-        Alert.alert("✅ Na-report na!", result.message, [
-          {
-            text: "OK",
-            onPress: () => {
-              resetForm();
-              Vibration.vibrate([100, 50, 100]);
-            },
-          },
-        ]);
-      } else {
-        if (result.rateLimitInfo && !result.rateLimitInfo.allowed) {
-          enhancedFirebaseService.showRateLimitAlert(
-            result.rateLimitInfo,
-            () => navigation.navigate("Profile"),
-            undefined
-          );
-        } else {
-          Alert.alert("❌ Hindi Ma-report", result.message, [{ text: "OK" }]);
-        }
       }
+
+      handleReportResult(result, "✅ Na-report na!");
     } catch (error: any) {
       console.error("Submission error:", error);
       Alert.alert(
@@ -267,6 +272,95 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
     }
   };
 
+  const confirmExistingReport = async (match: DuplicateMatch) => {
+    setIsSubmitting(true);
+
+    try {
+      const result =
+        await enhancedFirebaseService.confirmExistingReportEnhanced(
+          match.obstacle.id
+        );
+      handleReportResult(result, "✅ Na-confirm na!");
+    } catch (error: any) {
+      console.error("Confirmation error:", error);
+      Alert.alert(
+        "❌ May Error",
+        `Hindi na-confirm ang report: ${error.message}`,
+        [{ text: "OK" }]
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Someone already reported this: show it and offer to confirm instead
+  const promptDuplicate = (
+    match: DuplicateMatch,
+    obstacleData: ReportObstacleData
+  ) => {
+    const existing = match.obstacle;
+    const typeLabel =
+      OBSTACLE_TYPES.find((type) => type.key === existing.type)?.labelFil ||
+      existing.type;
+
+    Alert.alert(
+      "May Naka-report na Dito",
+      `${typeLabel}, ${Math.round(match.distanceMeters)}m mula sa iyo\n` +
+        `Na-report: ${existing.reportedAt.toLocaleDateString()}\n` +
+        `${existing.reportsCount || 1} report, ${
+          existing.upvotes || 0
+        } kumpirmasyon\n\n` +
+        `"${existing.description}"\n\n` +
+        "Ito rin ba ang nakita mo?",
+      [
+        { text: "Kanselahin", style: "cancel" },
+        {
+          text: "Gumawa ng Bago",
+          onPress: () => submitNewReport(obstacleData),
+        },
+        {
+          text: "Kumpirmahin ang Existing",
+          onPress: () => confirmExistingReport(match),
+        },
+      ]
+    );
+  };
+
+  // Enhanced obstacle report submission
+  const handleSubmitReport = async () => {
+    if (!selectedObstacle || !selectedSeverity || !location) {
+      Alert.alert(
+        "Kulang ang Detalye",
+        "Kailangan ng obstacle type, severity level, at location para mag-report.",
+        [{ text: "OK" }]
+      );
+      return;
+    }
+
+    const obstacleData: ReportObstacleData = {
+      location,
+      type: selectedObstacle,
+      severity: selectedSeverity,
+      description: description.trim() || "No additional description provided",
+      photos: capturedPhotos.map(toPhotoUpload),
+      timePattern: "permanent" as const,
+    };
+
+    // Check for likely duplicates before creating a new record
+    setIsSubmitting(true);
+    const duplicates = await enhancedFirebaseService.findDuplicateReports(
+      obstacleData
+    );
+    setIsSubmitting(false);
+
+    if (duplicates.length > 0) {
+      promptDuplicate(duplicates[0], obstacleData);
+      return;
+    }
+
+    await submitNewReport(obstacleData);
+  };
+
   const renderStepContent = () => {
     switch (currentStep) {
       case "select":
@@ -389,12 +483,12 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
         </Text>
 
         {/* 🆕 ENHANCED: Photo Preview with Actual Image */}
-        {capturedPhoto ? (
+        {capturedPhotos.length > 0 ? (
           <View style={styles.photoPreviewContainer}>
-            {/* Image Display with Metadata Overlay */}
+            {/* Latest photo with metadata overlay */}
             <View style={{ position: "relative" }}>
               <Image
-                source={{ uri: capturedPhoto.uri }}
+                source={{ uri: capturedPhotos[capturedPhotos.length - 1].uri }}
                 style={styles.photoPreviewImage}
                 resizeMode="cover"
                 accessibilityLabel="Captured obstacle photo preview"
@@ -408,23 +502,59 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
                   color={COLORS.white}
                 />
                 <Text style={styles.photoMetadataText}>
-                  {(capturedPhoto.compressedSize / 1024).toFixed(1)}KB
+                  {capturedPhotos.length}/{MAX_REPORT_PHOTOS} •{" "}
+                  {(
+                    capturedPhotos[capturedPhotos.length - 1].compressedSize /
+                    1024
+                  ).toFixed(1)}
+                  KB
                 </Text>
               </View>
             </View>
 
+            {/* All photos, each removable */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.photoThumbnailRow}
+            >
+              {capturedPhotos.map((photo, index) => (
+                <View key={photo.uri} style={styles.photoThumbnailWrapper}>
+                  <Image
+                    source={{ uri: photo.uri }}
+                    style={styles.photoThumbnailImage}
+                    resizeMode="cover"
+                    accessibilityLabel={`Photo ${index + 1}`}
+                  />
+                  <TouchableOpacity
+                    style={styles.photoRemoveButton}
+                    onPress={() => handleRemovePhoto(photo.uri)}
+                    accessibilityLabel={`Remove photo ${index + 1}`}
+                  >
+                    <Ionicons name="close" size={14} color={COLORS.white} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+
             {/* Action Buttons - Side by Side */}
             <View style={styles.photoActionsContainer}>
-              {/* Retake Button */}
+              {/* Add Another Button */}
               <TouchableOpacity
-                style={styles.retakeButton}
+                style={[
+                  styles.retakeButton,
+                  capturedPhotos.length >= MAX_REPORT_PHOTOS && {
+                    opacity: 0.5,
+                  },
+                ]}
                 onPress={() => setShowCamera(true)}
+                disabled={capturedPhotos.length >= MAX_REPORT_PHOTOS}
                 activeOpacity={0.8}
-                accessibilityLabel="Retake photo"
-                accessibilityHint="Opens camera to take a new photo"
+                accessibilityLabel="Add another photo"
+                accessibilityHint="Opens camera to take one more photo"
               >
                 <Ionicons name="camera" size={20} color={COLORS.white} />
-                <Text style={styles.retakeButtonText}>I-retake</Text>
+                <Text style={styles.retakeButtonText}>Dagdag</Text>
               </TouchableOpacity>
 
               {/* Confirm Button */}
@@ -435,8 +565,8 @@ export const SubmitReportTab: React.FC<SubmitReportTabProps> = ({
                   Vibration.vibrate([50, 100, 50]);
                 }}
                 activeOpacity={0.8}
-                accessibilityLabel="Confirm photo"
-                accessibilityHint="Use this photo and proceed to next step"
+                accessibilityLabel="Confirm photos"
+                accessibilityHint="Use these photos and proceed to next step"
               >
                 <Ionicons
                   name="checkmark-circle"
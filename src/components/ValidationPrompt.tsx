@@ -354,6 +354,7 @@ export function EnhancedObstacleMarker({
             {validationStatus.tier === "single_report" && "UNVERIFIED"}
             {validationStatus.tier === "community_verified" && "VERIFIED"}
             {validationStatus.tier === "admin_resolved" && "OFFICIAL"}
+            {validationStatus.tier === "expired" && "EXPIRED"}
           </Text>
         </View>
 
@@ -0,0 +1,15 @@
+// src/config/backendConfig.ts
+// Which data backend the app talks to. "firebase" is production; "memory"
+// and "file" run the whole reporting/validation flow locally with no
+// Firebase project (memory resets on reload, file persists on the device).
+
+export type BackendMode = "firebase" | "memory" | "file";
+
+export function getBackendMode(): BackendMode {
+  const mode = process.env.EXPO_PUBLIC_BACKEND;
+  return mode === "memory" || mode === "file" ? mode : "firebase";
+}
+
+export function isLocalBackend(): boolean {
+  return getBackendMode() !== "firebase";
+}
@@ -0,0 +1,19 @@
+// src/data/ahpJudgments.ts
+// Expert pairwise judgments shipped with the app, one matrix per mobility
+// device. Rows and columns are traversability, safety, comfort; entry [i][j]
+// is how much more important criterion i is than j on Saaty's 1-9 scale,
+// with [j][i] = 1 / [i][j]. For example, a panel rating traversability
+// 5× safety and 7× comfort, and safety 2× comfort, for wheelchair users:
+//   { profileType: "wheelchair", matrix: [[1, 5, 7], [1/5, 1, 2], [1/7, 1/2, 1]] }
+// Matrices with a consistency ratio over 0.10 are rejected at startup.
+// Panels can also be imported on the device (Settings > Routing Weights).
+
+import { AHPProfileJudgment } from "../types";
+
+export const BUNDLED_AHP_JUDGMENTS: AHPProfileJudgment[] = [
+  // {
+  //   profileType: "wheelchair",
+  //   matrix: [[1, 5, 7], [1 / 5, 1, 2], [1 / 7, 1 / 2, 1]],
+  //   source: "PT panel, Pasig CHO",
+  // },
+];
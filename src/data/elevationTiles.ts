@@ -0,0 +1,14 @@
+// src/data/elevationTiles.ts
+// Elevation tiles shipped with the app. Each entry is an ElevationTile JSON
+// in EPSG:4326, e.g. a DEM clipped to one Pasig district and exported with
+//   gdal_warp -t_srs EPSG:4326 -te <w s e n> dem.tif pasig.tif
+//   gdal_translate -of AAIGrid pasig.tif pasig.asc
+// and converted with elevationService.importFromString(). Keep tiles under
+// a few MB; larger areas can be imported on the device instead
+// (Settings > Map Data > Import Elevation).
+
+import { ElevationTile } from "../types";
+
+export const BUNDLED_ELEVATION_TILES: ElevationTile[] = [
+  // require("../../assets/elevation/pasig_city_proper.json"),
+];
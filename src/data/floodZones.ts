@@ -0,0 +1,22 @@
+// src/data/floodZones.ts
+// Flood-prone zone maps shipped with the app, as GeoJSON FeatureCollections
+// of Polygon/MultiPolygon features in EPSG:4326. The LGU's flood hazard
+// shapefile can be converted with
+//   ogr2ogr -f GeoJSON -t_srs EPSG:4326 pasig_flood.json flood_hazard.shp
+// Each feature needs a hazard class in "risk", "hazard", "susceptibility"
+// or "Var" (1 = low, 2 = medium, 3 = high). Updated maps can be imported
+// on the device from Settings > Flood-Prone Zones.
+
+export interface BundledFloodMap {
+  name: string;
+  source: string;
+  geojson: any; // FeatureCollection
+}
+
+export const BUNDLED_FLOOD_MAPS: BundledFloodMap[] = [
+  // {
+  //   name: "Pasig flood-prone areas",
+  //   source: "Pasig CDRRMO",
+  //   geojson: require("../../assets/flood/pasig_flood_zones.json"),
+  // },
+];
@@ -2,7 +2,11 @@
 // Manual tagging of existing obstacles with sidewalk information
 // Focus: C. Raymundo Avenue corridor (Pasig City Hall area)
 
-import { ObstacleSidewalkMapping, CrossingPoint } from "../types/sidewalkTypes";
+import {
+  ObstacleSidewalkMapping,
+  CrossingPoint,
+  SidewalkEntity,
+} from "../types/sidewalkTypes";
 import { UserLocation } from "../types/index";
 
 // STEP 1: Define our test street - C. Raymundo Avenue
@@ -156,6 +160,69 @@ export const TEST_CROSSING_POINTS: CrossingPoint[] = [
   },
 ];
 
+// STEP 3b: Sidewalk polylines for our test street (used by the graph router)
+// Both sides of C. Raymundo Avenue, joined by the City Hall intersection crossing
+export const TEST_SIDEWALKS: SidewalkEntity[] = [
+  {
+    id: "c_raymundo_north",
+    parentStreet: "C. Raymundo Avenue",
+    side: "north",
+    coordinates: [
+      { latitude: 14.5765, longitude: 121.084 },
+      { latitude: 14.5765, longitude: 121.0845 },
+      { latitude: 14.5765, longitude: 121.085 },
+      { latitude: 14.5765, longitude: 121.0855 },
+      { latitude: 14.5765, longitude: 121.086 },
+    ],
+    obstacles: [],
+    accessibilityFeatures: {
+      averageWidth: 150, // City Hall frontage is fairly wide
+      surface: "concrete",
+      hasRamps: false, // Stairs at the City Hall entrance
+      lighting: "good",
+      covered: false,
+      condition: "good",
+    },
+    estimatedScore: {
+      traversability: 70,
+      safety: 80,
+      comfort: 70,
+      overall: 72,
+      grade: "B",
+      userSpecificAdjustment: 0,
+    },
+  },
+  {
+    id: "c_raymundo_south",
+    parentStreet: "C. Raymundo Avenue",
+    side: "south",
+    coordinates: [
+      { latitude: 14.5763, longitude: 121.084 },
+      { latitude: 14.5763, longitude: 121.0845 },
+      { latitude: 14.5763, longitude: 121.085 },
+      { latitude: 14.5763, longitude: 121.0855 },
+      { latitude: 14.5763, longitude: 121.086 },
+    ],
+    obstacles: [],
+    accessibilityFeatures: {
+      averageWidth: 120,
+      surface: "concrete",
+      hasRamps: true,
+      lighting: "fair",
+      covered: true, // Store awnings along most of the block
+      condition: "fair",
+    },
+    estimatedScore: {
+      traversability: 75,
+      safety: 75,
+      comfort: 80,
+      overall: 76,
+      grade: "B",
+      userSpecificAdjustment: 0,
+    },
+  },
+];
+
 // STEP 4: Helper function to apply manual mapping to existing obstacles
 export const applySidewalkMappingToObstacle = (
   obstacle: any,
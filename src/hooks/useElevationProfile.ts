@@ -0,0 +1,34 @@
+// src/hooks/useElevationProfile.ts
+// Elevation profile of a route polyline for the user's slope limit. Null
+// until imported DEM tiles are loaded, or when no tile covers the route.
+
+import { useEffect, useMemo, useState } from "react";
+import { ElevationProfile, UserLocation, UserMobilityProfile } from "../types";
+import { elevationService } from "../services/elevationService";
+
+// Wheelchair ramp limit (1:12) when no profile is set yet
+export const DEFAULT_MAX_SLOPE_DEGREES = 4.8;
+
+export function useElevationProfile(
+  polyline: UserLocation[] | undefined,
+  userProfile: UserMobilityProfile | null
+): ElevationProfile | null {
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    elevationService.ensureReady().then(() => {
+      if (!cancelled) setIsReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const maxRampSlope = userProfile?.maxRampSlope ?? DEFAULT_MAX_SLOPE_DEGREES;
+
+  return useMemo(() => {
+    if (!isReady || !polyline || polyline.length < 2) return null;
+    return elevationService.getRouteProfile(polyline, { maxRampSlope });
+  }, [isReady, polyline, maxRampSlope]);
+}
@@ -0,0 +1,135 @@
+// src/hooks/useObstacleDensity.ts
+// Loads obstacles around the visible map region and bins them for the
+// density layer, honoring the map filters. Only fetches while the layer is on.
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { AccessibilityObstacle, ObstacleFilters } from "../types";
+import { firebaseServices } from "../services/firebase";
+import {
+  ObstacleDensityBin,
+  buildObstacleDensityBins,
+  getHexRadiusForRegion,
+} from "../utils/obstacleDensity";
+import { matchesObstacleFilters } from "../utils/obstacleFilters";
+import { calculateDistance } from "../utils/mapUtils";
+
+export interface DensityRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+interface UseObstacleDensityOptions {
+  enabled: boolean;
+  region: DensityRegion | null;
+  filters: ObstacleFilters;
+  excludedIds?: string[]; // e.g. merged this session
+}
+
+// Bounds the query even when zoomed far out
+const MAX_QUERY_RADIUS_KM = 5;
+const MIN_QUERY_RADIUS_KM = 0.5;
+
+// Refetch only once the map moved this share of the loaded radius
+const REFETCH_MOVE_RATIO = 0.5;
+
+// Circle around the region's corners
+const radiusForRegion = (region: DensityRegion) =>
+  Math.min(
+    MAX_QUERY_RADIUS_KM,
+    Math.max(
+      MIN_QUERY_RADIUS_KM,
+      calculateDistance(region, {
+        latitude: region.latitude + region.latitudeDelta / 2,
+        longitude: region.longitude + region.longitudeDelta / 2,
+      }) / 1000
+    )
+  );
+
+export function useObstacleDensity({
+  enabled,
+  region,
+  filters,
+  excludedIds = [],
+}: UseObstacleDensityOptions): {
+  bins: ObstacleDensityBin[];
+  isLoading: boolean;
+} {
+  const [obstacles, setObstacles] = useState<AccessibilityObstacle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const loadedAreaRef = useRef<{
+    center: { latitude: number; longitude: number };
+    radiusKm: number;
+  } | null>(null);
+
+  // Drop the cache when turned off so the next look is fresh
+  useEffect(() => {
+    if (!enabled) {
+      loadedAreaRef.current = null;
+      setObstacles([]);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !region) return;
+
+    const radiusKm = radiusForRegion(region);
+    const loaded = loadedAreaRef.current;
+    if (
+      loaded &&
+      radiusKm <= loaded.radiusKm &&
+      calculateDistance(loaded.center, region) / 1000 <
+        loaded.radiusKm * REFETCH_MOVE_RATIO
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const area = await firebaseServices.obstacle.getObstaclesInArea(
+          region.latitude,
+          region.longitude,
+          radiusKm
+        );
+        if (cancelled) return;
+        loadedAreaRef.current = {
+          center: { latitude: region.latitude, longitude: region.longitude },
+          radiusKm,
+        };
+        setObstacles(area);
+      } catch (error) {
+        console.error("❌ Failed to load obstacles for density layer:", error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, region]);
+
+  const hexRadiusMeters = region
+    ? getHexRadiusForRegion(region.latitudeDelta)
+    : 0;
+
+  const bins = useMemo(() => {
+    if (!enabled || hexRadiusMeters === 0) return [];
+    const excluded = new Set(excludedIds);
+    const now = new Date();
+    return buildObstacleDensityBins(
+      obstacles.filter(
+        (obstacle) =>
+          !excluded.has(String(obstacle.id)) &&
+          matchesObstacleFilters(obstacle, filters, now)
+      ),
+      { hexRadiusMeters, now }
+    );
+  }, [enabled, obstacles, hexRadiusMeters, filters, excludedIds]);
+
+  return { bins, isLoading };
+}
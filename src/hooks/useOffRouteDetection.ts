@@ -0,0 +1,45 @@
+// src/hooks/useOffRouteDetection.ts
+// Watches GPS fixes during navigation and calls back when the user leaves the route
+
+import { useEffect, useRef } from "react";
+import { UserLocation } from "../types";
+import { offRouteDetectionService } from "../services/offRouteDetectionService";
+
+interface UseOffRouteDetectionOptions {
+  isNavigating: boolean;
+  userLocation: UserLocation | null;
+  routePolyline: UserLocation[]; // Full route or current trip leg
+  isRerouting: boolean; // Pause checks while a new route is being fetched
+  onOffRoute: () => void;
+}
+
+export function useOffRouteDetection({
+  isNavigating,
+  userLocation,
+  routePolyline,
+  isRerouting,
+  onOffRoute,
+}: UseOffRouteDetectionOptions): void {
+  const onOffRouteRef = useRef(onOffRoute);
+
+  useEffect(() => {
+    onOffRouteRef.current = onOffRoute;
+  }, [onOffRoute]);
+
+  // Fix history belongs to one route
+  useEffect(() => {
+    offRouteDetectionService.reset();
+  }, [routePolyline, isNavigating]);
+
+  useEffect(() => {
+    if (!isNavigating || isRerouting || !userLocation) return;
+
+    const check = offRouteDetectionService.checkLocation(
+      userLocation,
+      routePolyline
+    );
+    if (check.isOffRoute) {
+      onOffRouteRef.current();
+    }
+  }, [isNavigating, isRerouting, userLocation, routePolyline]);
+}
@@ -6,7 +6,7 @@ import {
   proximityDetectionService,
   ProximityAlert,
 } from "../services/proximityDetectionService";
-import { UserLocation, UserMobilityProfile } from "../types";
+import { ObstacleFilters, UserLocation, UserMobilityProfile } from "../types";
 import { textToSpeechService } from "../services/textToSpeechService";
 
 interface UseProximityDetectionOptions {
@@ -14,6 +14,7 @@ interface UseProximityDetectionOptions {
   userLocation: UserLocation | null;
   routePolyline: UserLocation[];
   userProfile: UserMobilityProfile | null;
+  filters: ObstacleFilters; // Map filters; hidden obstacles aren't announced
   onCriticalObstacle?: (alert: ProximityAlert) => void;
 }
 
@@ -30,6 +31,7 @@ export function useProximityDetection({
   userLocation,
   routePolyline,
   userProfile,
+  filters,
   onCriticalObstacle,
 }: UseProximityDetectionOptions): ProximityDetectionState {
   const [state, setState] = useState<ProximityDetectionState>({
@@ -59,7 +61,8 @@ export function useProximityDetection({
       const alerts = await proximityDetectionService.detectObstaclesAhead(
         userLocation,
         routePolyline,
-        userProfile
+        userProfile,
+        filters
       );
 
       // Filter critical alerts (within 50m and high severity)
@@ -156,6 +159,7 @@ export function useProximityDetection({
     userLocation,
     routePolyline,
     userProfile,
+    filters,
     isNavigating,
     onCriticalObstacle,
   ]);
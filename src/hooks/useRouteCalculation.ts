@@ -9,13 +9,21 @@ import {
   UserLocation,
   UserMobilityProfile,
   AccessibilityObstacle,
+  RouteFloodAssessment,
 } from "../types";
 import {
   routeAnalysisService,
   SimpleRouteComparison,
 } from "../services/routeAnalysisService";
+import {
+  offlinePackService,
+  OfflineRouteResult,
+} from "../services/offlinePackService";
+import { RouteStep } from "../services/googleMapsService";
 import { decodePolyline } from "../utils/mapUtils";
 import { SAMPLE_POIS } from "../constants/navigationConstants";
+import { useFloodMode } from "../stores/floodModeStore";
+import { isFloodModeActive } from "../utils/floodZones";
 
 // ✅ UI-Friendly interface (what the components expect)
 interface SimpleUIRouteAnalysis {
@@ -25,6 +33,8 @@ interface SimpleUIRouteAnalysis {
     distance: number; // meters
     obstacleCount: number;
     obstacles: AccessibilityObstacle[];
+    steps?: RouteStep[]; // Turn-by-turn steps (online routes only)
+    flood?: RouteFloodAssessment; // Flood mode only
   };
   clearestRoute: {
     polyline: UserLocation[]; // ✅ Direct polyline array
@@ -32,12 +42,15 @@ interface SimpleUIRouteAnalysis {
     distance: number; // meters
     obstacleCount: number;
     obstacles: AccessibilityObstacle[];
+    steps?: RouteStep[]; // Turn-by-turn steps (online routes only)
+    flood?: RouteFloodAssessment; // Flood mode only
   };
   summary: {
     recommendation: string;
     timeDifference: number; // seconds between routes
     obstacleDifference: number; // obstacle count difference
     fastestIsAlsoClearest: boolean;
+    floodWarning?: string;
   };
 }
 
@@ -49,6 +62,7 @@ interface RouteCalculationState {
   destinationName: string;
   routeObstacles: AccessibilityObstacle[];
   nearbyObstacles: AccessibilityObstacle[];
+  departureTime: Date | null; // null = leaving now
 }
 
 interface UseRouteCalculationOptions {
@@ -108,6 +122,92 @@ function convertRouteToPolyline(googleRoute: any): UserLocation[] {
   }
 }
 
+/**
+ * Build the UI format from the online route comparison
+ */
+function convertServiceAnalysis(
+  analysis: SimpleRouteComparison
+): SimpleUIRouteAnalysis {
+  const fastestPolyline = convertRouteToPolyline(
+    analysis.fastestRoute.googleRoute
+  );
+  const clearestPolyline = convertRouteToPolyline(
+    analysis.clearestRoute.googleRoute
+  );
+
+  if (fastestPolyline.length === 0 || clearestPolyline.length === 0) {
+    throw new Error("Failed to extract route polylines");
+  }
+
+  return {
+    fastestRoute: {
+      polyline: fastestPolyline,
+      duration: analysis.fastestRoute.googleRoute.duration,
+      distance: analysis.fastestRoute.googleRoute.distance,
+      obstacleCount: analysis.fastestRoute.obstacleCount,
+      obstacles: analysis.fastestRoute.obstacles,
+      steps: analysis.fastestRoute.googleRoute.steps,
+      flood: analysis.fastestRoute.flood,
+    },
+    clearestRoute: {
+      polyline: clearestPolyline,
+      duration: analysis.clearestRoute.googleRoute.duration,
+      distance: analysis.clearestRoute.googleRoute.distance,
+      obstacleCount: analysis.clearestRoute.obstacleCount,
+      obstacles: analysis.clearestRoute.obstacles,
+      steps: analysis.clearestRoute.googleRoute.steps,
+      flood: analysis.clearestRoute.flood,
+    },
+    summary: {
+      recommendation: analysis.summary.recommendation,
+      timeDifference: analysis.summary.timeDifference,
+      obstacleDifference: analysis.summary.obstacleDifference,
+      fastestIsAlsoClearest:
+        analysis.fastestRoute.googleRoute.id ===
+        analysis.clearestRoute.googleRoute.id,
+      floodWarning: analysis.summary.floodWarning,
+    },
+  };
+}
+
+/**
+ * Build the UI format from routes computed out of an offline pack
+ */
+function convertOfflineRoutes(
+  offline: OfflineRouteResult
+): SimpleUIRouteAnalysis {
+  const toUIRoute = (route: OfflineRouteResult["routes"][number]) => ({
+    polyline: route.polyline,
+    duration: route.duration,
+    distance: route.distance,
+    obstacleCount: route.obstacles.length,
+    obstacles: route.obstacles,
+  });
+
+  const fastest = offline.routes.reduce((a, b) =>
+    a.duration <= b.duration ? a : b
+  );
+  const clearest = offline.routes.reduce((a, b) =>
+    a.obstacles.length < b.obstacles.length ||
+    (a.obstacles.length === b.obstacles.length && a.duration <= b.duration)
+      ? a
+      : b
+  );
+
+  return {
+    fastestRoute: toUIRoute(fastest),
+    clearestRoute: toUIRoute(clearest),
+    summary: {
+      recommendation: `Offline: using ${
+        offline.source === "saved_route" ? "a saved route" : "mapped sidewalks"
+      } from "${offline.packName}". Obstacle data may be out of date.`,
+      timeDifference: clearest.duration - fastest.duration,
+      obstacleDifference: fastest.obstacles.length - clearest.obstacles.length,
+      fastestIsAlsoClearest: fastest === clearest,
+    },
+  };
+}
+
 /**
  * Custom hook for route calculation and management
  */
@@ -125,11 +225,15 @@ export function useRouteCalculation({
     destinationName: "",
     routeObstacles: [],
     nearbyObstacles: [],
+    departureTime: null,
   });
 
   // ✅ FIX: Store location and profile in refs to avoid closure issues
   const locationRef = useRef<UserLocation | null>(location);
   const profileRef = useRef<UserMobilityProfile | null>(profile);
+  const departureTimeRef = useRef<Date | null>(null);
+  const floodMode = useFloodMode((settings) => isFloodModeActive(settings));
+  const floodModeRef = useRef(floodMode);
 
   // ✅ Update refs whenever values change
   useEffect(() => {
@@ -140,6 +244,10 @@ export function useRouteCalculation({
     profileRef.current = profile;
   }, [profile]);
 
+  useEffect(() => {
+    floodModeRef.current = floodMode;
+  }, [floodMode]);
+
   // Memoized route obstacles
   const routeObstacles = useMemo(() => {
     if (!state.routeAnalysis) return [];
@@ -157,10 +265,21 @@ export function useRouteCalculation({
 
   // Generate cache key
   const getCacheKey = useCallback(
-    (start: UserLocation, dest: UserLocation): string => {
+    (
+      start: UserLocation,
+      dest: UserLocation,
+      departureTime: Date | null,
+      floodMode: boolean
+    ): string => {
+      // Planned trips are cached per 15-minute departure slot
+      const departureSlot = departureTime
+        ? Math.floor(departureTime.getTime() / (15 * 60 * 1000))
+        : "now";
       return `${start.latitude.toFixed(4)},${start.longitude.toFixed(
         4
-      )}-${dest.latitude.toFixed(4)},${dest.longitude.toFixed(4)}`;
+      )}-${dest.latitude.toFixed(4)},${dest.longitude.toFixed(
+        4
+      )}@${departureSlot}${floodMode ? ":flood" : ""}`;
     },
     []
   );
@@ -242,8 +361,15 @@ export function useRouteCalculation({
 
       console.log("🎯 Calculating route to:", destName);
 
+      const departureTime = departureTimeRef.current;
+
       // Check cache first
-      const cacheKey = getCacheKey(currentLocation, destLocation);
+      const cacheKey = getCacheKey(
+        currentLocation,
+        destLocation,
+        departureTime,
+        floodModeRef.current
+      );
       const cachedResult = getCachedRoute(cacheKey);
 
       if (cachedResult) {
@@ -268,6 +394,48 @@ export function useRouteCalculation({
         nearbyObstacles: [],
       }));
 
+      // Straight to the offline pack if the network just failed
+      const showOfflineRoutes = async (): Promise<boolean> => {
+        const offline = await offlinePackService.getOfflineRoutes(
+          currentLocation,
+          destLocation,
+          currentProfile,
+          departureTime || new Date()
+        );
+        if (!offline) return false;
+
+        const offlineAnalysis = convertOfflineRoutes(offline);
+        setState((prev) => ({
+          ...prev,
+          routeAnalysis: offlineAnalysis,
+          selectedDestination: destLocation,
+          destinationName: destName,
+          isCalculating: false,
+          isCalculatingObstacles: false,
+        }));
+
+        if (mapRef.current && offlineAnalysis.clearestRoute.polyline.length) {
+          mapRef.current.fitToCoordinates(
+            [
+              currentLocation,
+              destLocation,
+              ...offlineAnalysis.clearestRoute.polyline,
+            ],
+            {
+              edgePadding: { top: 100, right: 50, bottom: 300, left: 50 },
+              animated: true,
+            }
+          );
+        }
+
+        console.log(`📦 Showing offline routes (${offline.source})`);
+        return true;
+      };
+
+      if (offlinePackService.isLikelyOffline() && (await showOfflineRoutes())) {
+        return;
+      }
+
       try {
         console.log("🗺️ Fetching routes from service...");
 
@@ -276,7 +444,9 @@ export function useRouteCalculation({
           await routeAnalysisService.analyzeRoutes(
             currentLocation,
             destLocation,
-            currentProfile
+            currentProfile,
+            departureTime || new Date(),
+            floodModeRef.current
           );
 
         if (!analysis || !analysis.fastestRoute || !analysis.clearestRoute) {
@@ -284,6 +454,7 @@ export function useRouteCalculation({
         }
 
         console.log("✅ Got route analysis from service");
+        offlinePackService.reportNetworkSuccess();
         console.log(
           `   - Fastest: ${analysis.fastestRoute.obstacleCount} obstacles`
         );
@@ -292,42 +463,8 @@ export function useRouteCalculation({
         );
 
         // ✅ FIX: Convert service format to UI format
-        const fastestPolyline = convertRouteToPolyline(
-          analysis.fastestRoute.googleRoute
-        );
-        const clearestPolyline = convertRouteToPolyline(
-          analysis.clearestRoute.googleRoute
-        );
-
-        if (fastestPolyline.length === 0 || clearestPolyline.length === 0) {
-          throw new Error("Failed to extract route polylines");
-        }
-
-        // ✅ Create UI-friendly format
-        const uiAnalysis: SimpleUIRouteAnalysis = {
-          fastestRoute: {
-            polyline: fastestPolyline,
-            duration: analysis.fastestRoute.googleRoute.duration,
-            distance: analysis.fastestRoute.googleRoute.distance,
-            obstacleCount: analysis.fastestRoute.obstacleCount,
-            obstacles: analysis.fastestRoute.obstacles,
-          },
-          clearestRoute: {
-            polyline: clearestPolyline,
-            duration: analysis.clearestRoute.googleRoute.duration,
-            distance: analysis.clearestRoute.googleRoute.distance,
-            obstacleCount: analysis.clearestRoute.obstacleCount,
-            obstacles: analysis.clearestRoute.obstacles,
-          },
-          summary: {
-            recommendation: analysis.summary.recommendation,
-            timeDifference: analysis.summary.timeDifference,
-            obstacleDifference: analysis.summary.obstacleDifference,
-            fastestIsAlsoClearest:
-              analysis.fastestRoute.googleRoute.id ===
-              analysis.clearestRoute.googleRoute.id,
-          },
-        };
+        const uiAnalysis = convertServiceAnalysis(analysis);
+        const clearestPolyline = uiAnalysis.clearestRoute.polyline;
 
         // Success feedback
         Vibration.vibrate([100, 50, 100]);
@@ -362,6 +499,17 @@ export function useRouteCalculation({
       } catch (error: any) {
         console.error("❌ Route calculation error:", error);
 
+        const isNetworkError =
+          error instanceof Error &&
+          /network|fetch|offline|timeout/i.test(error.message);
+        if (isNetworkError) {
+          offlinePackService.reportNetworkFailure();
+        }
+
+        if (await showOfflineRoutes()) {
+          return;
+        }
+
         let errorMessage =
           "Could not calculate route. Please check your connection and try again.";
 
@@ -393,6 +541,71 @@ export function useRouteCalculation({
     [destination, mapRef, getCacheKey, getCachedRoute]
   );
 
+  /**
+   * Re-run the analysis from the current location to the same destination,
+   * e.g. after the user leaves the route. No alerts or map animation;
+   * returns null if no route could be found so navigation can carry on.
+   */
+  const rerouteFromCurrentLocation =
+    useCallback(async (): Promise<SimpleUIRouteAnalysis | null> => {
+      const currentLocation = locationRef.current;
+      const currentProfile = profileRef.current;
+      const destLocation = state.selectedDestination;
+
+      if (!currentLocation || !currentProfile || !destLocation) return null;
+
+      console.log("🔄 Rerouting from current location...");
+      setState((prev) => ({ ...prev, isCalculating: true }));
+
+      let uiAnalysis: SimpleUIRouteAnalysis | null = null;
+
+      // Already walking, so the route is for leaving now
+      if (!offlinePackService.isLikelyOffline()) {
+        try {
+          const analysis = await routeAnalysisService.analyzeRoutes(
+            currentLocation,
+            destLocation,
+            currentProfile,
+            new Date(),
+            floodModeRef.current
+          );
+          uiAnalysis = convertServiceAnalysis(analysis);
+          offlinePackService.reportNetworkSuccess();
+        } catch (error) {
+          console.warn("⚠️ Online reroute failed:", error);
+          if (
+            error instanceof Error &&
+            /network|fetch|offline|timeout/i.test(error.message)
+          ) {
+            offlinePackService.reportNetworkFailure();
+          }
+        }
+      }
+
+      if (!uiAnalysis) {
+        const offline = await offlinePackService.getOfflineRoutes(
+          currentLocation,
+          destLocation,
+          currentProfile,
+          new Date()
+        );
+        if (offline) {
+          uiAnalysis = convertOfflineRoutes(offline);
+        }
+      }
+
+      setState((prev) => ({
+        ...prev,
+        routeAnalysis: uiAnalysis || prev.routeAnalysis,
+        isCalculating: false,
+      }));
+
+      console.log(
+        uiAnalysis ? "✅ Reroute complete" : "❌ Reroute found no route"
+      );
+      return uiAnalysis;
+    }, [state.selectedDestination]);
+
   /**
    * Handler for POI selection
    */
@@ -404,6 +617,24 @@ export function useRouteCalculation({
     [calculateUnifiedRoutes]
   );
 
+  /**
+   * Plan for a later departure (null = leave now) and re-run the current route
+   */
+  const setDepartureTime = useCallback(
+    (time: Date | null) => {
+      departureTimeRef.current = time;
+      setState((prev) => ({ ...prev, departureTime: time }));
+
+      if (state.selectedDestination) {
+        calculateUnifiedRoutes({
+          location: state.selectedDestination,
+          name: state.destinationName,
+        });
+      }
+    },
+    [state.selectedDestination, state.destinationName, calculateUnifiedRoutes]
+  );
+
   /**
    * Update route analysis
    */
@@ -449,7 +680,10 @@ export function useRouteCalculation({
     destinationName: state.destinationName,
     routeObstacles,
     nearbyObstacles: state.nearbyObstacles,
+    departureTime: state.departureTime,
+    setDepartureTime,
     calculateUnifiedRoutes,
+    rerouteFromCurrentLocation,
     handlePOIPress,
     updateRouteAnalysis,
     clearRoutes,
@@ -0,0 +1,174 @@
+// src/hooks/useTripPlan.ts
+// Multi-stop trip state: extra stops after the main destination, the planned
+// legs (split at rest points) and which leg the user is currently walking
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import {
+  TripLeg,
+  TripPlan,
+  TripStop,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import {
+  tripPlanningService,
+  TripRouteInput,
+} from "../services/tripPlanningService";
+import { useFloodMode } from "../stores/floodModeStore";
+import { isFloodModeActive } from "../utils/floodZones";
+
+interface TripPlanState {
+  extraStops: TripStop[]; // Visited after the main destination, in order
+  tripPlan: TripPlan | null;
+  routePreference: "fastest" | "clearest" | null; // Route the plan was built on
+  isPlanning: boolean;
+  currentLegIndex: number;
+}
+
+interface PlanTripRequest {
+  start: UserLocation;
+  destination: TripStop;
+  firstLegRoute?: TripRouteInput; // Omit to route the first leg too
+  routePreference: "fastest" | "clearest";
+  departureTime: Date | null;
+}
+
+/**
+ * Custom hook for multi-stop trip planning and leg-by-leg progress
+ */
+export function useTripPlan(profile: UserMobilityProfile | null) {
+  const [state, setState] = useState<TripPlanState>({
+    extraStops: [],
+    tripPlan: null,
+    routePreference: null,
+    isPlanning: false,
+    currentLegIndex: 0,
+  });
+
+  const profileRef = useRef<UserMobilityProfile | null>(profile);
+  const requestIdRef = useRef(0);
+  const floodMode = useFloodMode((settings) => isFloodModeActive(settings));
+  const floodModeRef = useRef(floodMode);
+
+  useEffect(() => {
+    profileRef.current = profile;
+  }, [profile]);
+
+  useEffect(() => {
+    floodModeRef.current = floodMode;
+  }, [floodMode]);
+
+  /**
+   * Plan the whole trip. Returns null (and keeps no plan) if it fails,
+   * so navigation can fall back to the single route.
+   */
+  const planTrip = useCallback(
+    async (
+      request: PlanTripRequest,
+      extraStops: TripStop[] = state.extraStops
+    ): Promise<TripPlan | null> => {
+      const currentProfile = profileRef.current;
+      if (!currentProfile) return null;
+
+      // Only the latest request may update state
+      const requestId = ++requestIdRef.current;
+      setState((prev) => ({ ...prev, isPlanning: true }));
+
+      try {
+        const plan = await tripPlanningService.planTrip(
+          request.start,
+          [request.destination, ...extraStops],
+          currentProfile,
+          {
+            routePreference: request.routePreference,
+            departureTime: request.departureTime || undefined,
+            firstLegRoute: request.firstLegRoute,
+            floodMode: floodModeRef.current,
+          }
+        );
+
+        if (requestId !== requestIdRef.current) return plan;
+
+        setState((prev) => ({
+          ...prev,
+          tripPlan: plan,
+          routePreference: request.routePreference,
+          isPlanning: false,
+          currentLegIndex: 0,
+        }));
+        return plan;
+      } catch (error) {
+        console.error("❌ Trip planning failed:", error);
+        if (requestId === requestIdRef.current) {
+          setState((prev) => ({
+            ...prev,
+            tripPlan: null,
+            routePreference: null,
+            isPlanning: false,
+          }));
+        }
+        return null;
+      }
+    },
+    [state.extraStops]
+  );
+
+  const addStop = useCallback((stop: TripStop) => {
+    console.log("➕ Trip stop added:", stop.name);
+    setState((prev) => ({ ...prev, extraStops: [...prev.extraStops, stop] }));
+  }, []);
+
+  const removeStop = useCallback((index: number) => {
+    setState((prev) => ({
+      ...prev,
+      extraStops: prev.extraStops.filter((_, i) => i !== index),
+    }));
+  }, []);
+
+  /**
+   * Move on to the next leg. Returns it, or null if the trip is done.
+   */
+  const advanceLeg = useCallback((): TripLeg | null => {
+    const plan = state.tripPlan;
+    if (!plan || state.currentLegIndex >= plan.legs.length - 1) return null;
+
+    const nextIndex = state.currentLegIndex + 1;
+    setState((prev) => ({ ...prev, currentLegIndex: nextIndex }));
+    return plan.legs[nextIndex];
+  }, [state.tripPlan, state.currentLegIndex]);
+
+  const resetProgress = useCallback(() => {
+    setState((prev) => ({ ...prev, currentLegIndex: 0 }));
+  }, []);
+
+  const clearTrip = useCallback(() => {
+    requestIdRef.current++;
+    setState({
+      extraStops: [],
+      tripPlan: null,
+      routePreference: null,
+      isPlanning: false,
+      currentLegIndex: 0,
+    });
+  }, []);
+
+  const currentLeg = state.tripPlan?.legs[state.currentLegIndex] ?? null;
+
+  return {
+    extraStops: state.extraStops,
+    tripPlan: state.tripPlan,
+    tripRoutePreference: state.routePreference,
+    isPlanningTrip: state.isPlanning,
+    currentLegIndex: state.currentLegIndex,
+    currentLeg,
+    isLastLeg:
+      !state.tripPlan ||
+      state.currentLegIndex >= state.tripPlan.legs.length - 1,
+    planTrip,
+    addStop,
+    removeStop,
+    advanceLeg,
+    resetProgress,
+    clearTrip,
+  };
+}
@@ -0,0 +1,40 @@
+// src/hooks/useTurnByTurnGuidance.ts
+// Drives spoken turn-by-turn guidance while navigating
+
+import { useEffect } from "react";
+import { UserLocation, UserMobilityProfile } from "../types";
+import { RouteStep } from "../services/googleMapsService";
+import { turnByTurnGuidanceService } from "../services/turnByTurnGuidanceService";
+
+interface UseTurnByTurnGuidanceOptions {
+  isNavigating: boolean;
+  userLocation: UserLocation | null;
+  routePolyline: UserLocation[]; // Full route or current trip leg
+  steps: RouteStep[] | undefined;
+  userProfile: UserMobilityProfile | null;
+}
+
+export function useTurnByTurnGuidance({
+  isNavigating,
+  userLocation,
+  routePolyline,
+  steps,
+  userProfile,
+}: UseTurnByTurnGuidanceOptions): void {
+  // (Re)start whenever the route or leg being walked changes
+  useEffect(() => {
+    if (!isNavigating || !userProfile || !steps || steps.length === 0) {
+      turnByTurnGuidanceService.stop();
+      return;
+    }
+
+    turnByTurnGuidanceService.start(steps, routePolyline, userProfile);
+    return () => turnByTurnGuidanceService.stop();
+  }, [isNavigating, routePolyline, steps, userProfile]);
+
+  useEffect(() => {
+    if (isNavigating && userLocation) {
+      turnByTurnGuidanceService.updateLocation(userLocation);
+    }
+  }, [isNavigating, userLocation]);
+}
@@ -1,7 +1,13 @@
 // src/screens/NavigationScreen.tsx
 // ✅ COMPLETE FINAL FIX: Touch-and-hold + Stop navigation + Loading state
 
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   View,
   Text,
@@ -18,14 +24,39 @@ import { useFocusEffect } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocation } from "../hooks/useLocation";
 import { useUserProfile } from "../stores/userProfileStore";
+import { useMapFilters } from "../stores/mapFilterStore";
 import { firebaseServices } from "../services/firebase";
-import { UserLocation, AccessibilityObstacle } from "../types";
+import {
+  UserLocation,
+  AccessibilityObstacle,
+  TripLeg,
+  FloodZone,
+} from "../types";
 import { calculateUserBearingFromRoute } from "../utils/navigationUtils";
 import { useMapInteraction } from "../hooks/useMapInteraction";
 import { navigationStyles as styles } from "../styles/navigationStyles";
 import { useProximityDetection } from "../hooks/useProximityDetection";
 import { useRouteCalculation } from "../hooks/useRouteCalculation";
+import { useTripPlan } from "../hooks/useTripPlan";
+import { useTurnByTurnGuidance } from "../hooks/useTurnByTurnGuidance";
+import { useOffRouteDetection } from "../hooks/useOffRouteDetection";
 import { ProximityAlertsOverlay } from "../components/ProximityAlertsOverlay";
+import {
+  ObstacleDensityLayer,
+  MapLayerControls,
+} from "../components/ObstacleDensityLayer";
+import { ObstacleFilterPanel } from "../components/ObstacleFilterPanel";
+import { FloodZoneLayer } from "../components/FloodZoneLayer";
+import { useFloodMode } from "../stores/floodModeStore";
+import { floodZoneService } from "../services/floodZoneService";
+import { isFloodModeActive } from "../utils/floodZones";
+import { useObstacleDensity, DensityRegion } from "../hooks/useObstacleDensity";
+import { ObstacleDensityBin } from "../utils/obstacleDensity";
+import {
+  OBSTACLE_TYPE_SHORT_LABELS,
+  countActiveFilters,
+  matchesObstacleFilters,
+} from "../utils/obstacleFilters";
 import { EnhancedObstacleMarker } from "../components/EnhancedObstacleMarker";
 import { RouteInfoBottomSheet } from "../components/RouteInfoPanel";
 import { NavigationControls } from "../components/NavigationControls";
@@ -43,6 +74,13 @@ import {
   type ValidationPrompt as ValidationPromptType,
 } from "../services/obstacleValidationService";
 import { textToSpeechService } from "../services/textToSpeechService";
+import { routeFeedbackService } from "../services/routeFeedbackService";
+import { getCurrentAuthState } from "../services/AuthStateCoordinator";
+import { ahpCalculator, AHPUtils } from "../utils/ahp";
+import { enhancedFirebaseService } from "../services/enhancedFirebase";
+import { logAdminObstacleMerge } from "../services/mobileAdminLogger";
+import { findDuplicateObstacles } from "../utils/obstacleDuplicates";
+import { describePhotoCheck } from "../utils/photoMetadata";
 
 export default function NavigationScreen() {
   const insets = useSafeAreaInsets();
@@ -55,10 +93,15 @@ export default function NavigationScreen() {
   } = useLocation();
 
   const { profile } = useUserProfile();
+  const { filters: obstacleFilters, loadFilters } = useMapFilters();
+  const floodMode = useFloodMode();
+  const floodModeActive = isFloodModeActive(floodMode);
 
   // Refs
   const mapRef = useRef<MapView | null>(null);
   const lastValidationCheckRef = useRef<number>(0);
+  const arrivedLegIdRef = useRef<string | null>(null);
+  const floodModeActiveRef = useRef(floodModeActive);
 
   // Navigation state
   const [destination, setDestination] = useState("");
@@ -89,6 +132,23 @@ export default function NavigationScreen() {
   const [selectedMapLocation, setSelectedMapLocation] =
     useState<UserLocation | null>(null);
 
+  // Multi-stop trips: next picked place is added as a stop, not a new route
+  const [isAddingStop, setIsAddingStop] = useState(false);
+  const [isRerouting, setIsRerouting] = useState(false);
+
+  // Duplicates merged by an admin this session (hidden until lists refresh)
+  const [mergedObstacleIds, setMergedObstacleIds] = useState<string[]>([]);
+
+  // Obstacle heatmap layer (region only tracked while it is on)
+  const [showDensityLayer, setShowDensityLayer] = useState(false);
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const [densityRegion, setDensityRegion] = useState<DensityRegion | null>(
+    null
+  );
+
+  // Flood-prone zones, shown while flood mode is on
+  const [floodZones, setFloodZones] = useState<FloodZone[]>([]);
+
   const VALIDATION_CHECK_INTERVAL = 30000;
 
   // Route calculation hook
@@ -99,7 +159,10 @@ export default function NavigationScreen() {
     destinationName,
     routeObstacles,
     nearbyObstacles,
+    departureTime,
+    setDepartureTime,
     calculateUnifiedRoutes,
+    rerouteFromCurrentLocation,
     handlePOIPress,
     updateRouteAnalysis,
     clearRoutes,
@@ -110,12 +173,168 @@ export default function NavigationScreen() {
     destination,
   });
 
+  // Multi-stop trip plan (legs split at rest points)
+  const {
+    extraStops,
+    tripPlan,
+    tripRoutePreference,
+    isPlanningTrip,
+    currentLegIndex,
+    currentLeg,
+    isLastLeg,
+    planTrip,
+    addStop,
+    removeStop,
+    advanceLeg,
+    resetProgress,
+    clearTrip,
+  } = useTripPlan(profile);
+
+  // Any plan takes over from the plain selected route: after the main
+  // destination, a re-plan may be one leg and the selected route is stale
+  const activeTripLeg: TripLeg | null = currentLeg;
+
+  /**
+   * Route to a picked place, or append it as a trip stop in add-stop mode
+   */
+  const selectDestination = useCallback(
+    async (poi: any) => {
+      if (!isAddingStop) {
+        await calculateUnifiedRoutes(poi);
+        return;
+      }
+
+      const stopLocation: UserLocation | null = poi.location
+        ? poi.location
+        : poi.lat !== undefined && poi.lng !== undefined
+        ? { latitude: poi.lat, longitude: poi.lng }
+        : null;
+      if (!stopLocation) return;
+
+      addStop({ name: poi.name || "Custom Stop", location: stopLocation });
+      setIsAddingStop(false);
+      setShowRoutePanel(true);
+    },
+    [isAddingStop, calculateUnifiedRoutes, addStop]
+  );
+
   // Proximity detection
   const proximityState = useProximityDetection({
     isNavigating,
     userLocation: location,
     routePolyline: remainingPolyline,
     userProfile: profile,
+    filters: obstacleFilters,
+  });
+
+  // Spoken turn-by-turn guidance along the route (or current trip leg)
+  const guidedRoute =
+    routeAnalysis && selectedRouteType
+      ? selectedRouteType === "fastest"
+        ? routeAnalysis.fastestRoute
+        : routeAnalysis.clearestRoute
+      : null;
+  const guidancePolyline = useMemo(
+    () =>
+      activeTripLeg ? activeTripLeg.polyline : guidedRoute?.polyline || [],
+    [activeTripLeg, guidedRoute]
+  );
+
+  useTurnByTurnGuidance({
+    isNavigating,
+    userLocation: location,
+    routePolyline: guidancePolyline,
+    steps: guidedRoute?.steps,
+    userProfile: profile,
+  });
+
+  /**
+   * Left the route: re-analyze from here, keeping the fastest/clearest choice
+   */
+  const handleOffRoute = useCallback(async () => {
+    if (!location || !selectedRouteType || !selectedDestination) return;
+
+    setIsRerouting(true);
+    textToSpeechService.announceManeuver(
+      "reroute",
+      "You are off route. Finding a new route.",
+      0,
+      "now"
+    );
+
+    // Stops already reached on a multi-stop trip aren't routed to again
+    const reachedStops = tripPlan
+      ? tripPlan.legs
+          .slice(0, currentLegIndex)
+          .filter((leg) => leg.to.kind === "destination").length
+      : 0;
+
+    let rerouted = false;
+    try {
+      if (tripPlan && reachedStops > 0) {
+        // Past the main destination: re-plan the rest of the trip only
+        const remainingStops = tripPlan.stops.slice(reachedStops);
+        const plan = await planTrip(
+          {
+            start: location,
+            destination: remainingStops[0],
+            routePreference: selectedRouteType,
+            departureTime: null,
+          },
+          remainingStops.slice(1)
+        );
+        rerouted = !!plan;
+      } else {
+        const analysis = await rerouteFromCurrentLocation();
+        if (analysis) {
+          rerouted = true;
+          if (tripPlan) {
+            await planTrip({
+              start: location,
+              destination: {
+                name: destinationName,
+                location: selectedDestination,
+              },
+              firstLegRoute:
+                selectedRouteType === "fastest"
+                  ? analysis.fastestRoute
+                  : analysis.clearestRoute,
+              routePreference: selectedRouteType,
+              departureTime: null,
+            });
+          }
+        }
+      }
+    } finally {
+      setIsRerouting(false);
+    }
+
+    arrivedLegIdRef.current = null;
+    textToSpeechService.announceManeuver(
+      "reroute",
+      rerouted
+        ? `New ${selectedRouteType} route found.`
+        : "Could not find a new route. Please head back to the route.",
+      0,
+      "now"
+    );
+  }, [
+    location,
+    selectedRouteType,
+    selectedDestination,
+    destinationName,
+    tripPlan,
+    currentLegIndex,
+    planTrip,
+    rerouteFromCurrentLocation,
+  ]);
+
+  useOffRouteDetection({
+    isNavigating,
+    userLocation: location,
+    routePolyline: guidancePolyline,
+    isRerouting,
+    onOffRoute: handleOffRoute,
   });
 
   // ✅ CRITICAL FIX: Pass isLocationLoading instead of currentLocation
@@ -137,7 +356,7 @@ export default function NavigationScreen() {
         lng: coordinate.longitude,
       };
 
-      handlePOIPress(customPOI);
+      selectDestination(customPOI);
       setShowRoutePanel(true);
     },
     onReportAtLocation: (coordinate) => {
@@ -328,7 +547,7 @@ export default function NavigationScreen() {
                 lng: coordinate.longitude,
               };
 
-              handlePOIPress(customPOI);
+              selectDestination(customPOI);
               setShowRoutePanel(true);
               setIsMapSelectionMode(false);
               setSelectedMapLocation(null);
@@ -337,7 +556,7 @@ export default function NavigationScreen() {
         ]
       );
     },
-    [isMapSelectionMode, handlePOIPress, location, locationLoading]
+    [isMapSelectionMode, selectDestination, location, locationLoading]
   );
 
   /**
@@ -355,7 +574,7 @@ export default function NavigationScreen() {
         lng: destination.location.longitude,
       };
 
-      await calculateUnifiedRoutes(poiObject);
+      await selectDestination(poiObject);
       setShowRoutePanel(true);
 
       if (destination.accessibilityFeatures?.wheelchairAccessible) {
@@ -388,7 +607,7 @@ export default function NavigationScreen() {
    * ✅ Panel stays visible and minimizes automatically
    */
   const handleStartNavigation = useCallback(
-    (routeType: "fastest" | "clearest") => {
+    async (routeType: "fastest" | "clearest") => {
       if (!location) {
         Alert.alert(
           "Location Error",
@@ -402,17 +621,74 @@ export default function NavigationScreen() {
         return;
       }
 
+      // The previewed trip was built on the clearest route; match the choice
+      if (
+        tripPlan &&
+        tripRoutePreference !== routeType &&
+        selectedDestination
+      ) {
+        await planTrip({
+          start: location,
+          destination: { name: destinationName, location: selectedDestination },
+          firstLegRoute:
+            routeType === "fastest"
+              ? routeAnalysis.fastestRoute
+              : routeAnalysis.clearestRoute,
+          routePreference: routeType,
+          departureTime,
+        });
+      } else {
+        resetProgress();
+      }
+      arrivedLegIdRef.current = null;
+
       console.log(`🚀 Starting navigation with ${routeType} route`);
       setSelectedRouteType(routeType);
       setIsNavigating(true);
 
+      // Record the walk as a journey (GPX trip export, route feedback)
+      if (selectedDestination && profile) {
+        const chosenRoute =
+          routeType === "fastest"
+            ? routeAnalysis.fastestRoute
+            : routeAnalysis.clearestRoute;
+        routeFeedbackService
+          .startJourney(
+            getCurrentAuthState()?.user?.uid || "anonymous",
+            `${routeType}_${Date.now()}`,
+            routeType === "fastest" ? "fastest" : "accessible",
+            location,
+            selectedDestination,
+            Math.round(chosenRoute.duration / 60),
+            ahpCalculator.calculateAccessibilityScore(
+              AHPUtils.createSampleSidewalkData(chosenRoute.obstacles),
+              profile,
+              departureTime || undefined
+            )
+          )
+          .catch((error) =>
+            console.warn("⚠️ Journey tracking unavailable:", error)
+          );
+      }
+
       // ✅ DON'T hide panel - let it minimize automatically
       // setShowRoutePanel(false); // ❌ REMOVED
 
       Vibration.vibrate(50);
       textToSpeechService.testTTS();
     },
-    [location, routeAnalysis]
+    [
+      location,
+      routeAnalysis,
+      tripPlan,
+      tripRoutePreference,
+      selectedDestination,
+      destinationName,
+      departureTime,
+      planTrip,
+      resetProgress,
+      profile,
+    ]
   );
 
   /**
@@ -436,18 +712,20 @@ export default function NavigationScreen() {
             setSelectedRouteType(null);
             setRemainingPolyline([]);
             proximityDetectionService.resetDetectionState();
+            routeFeedbackService.abandonJourney();
 
             Vibration.vibrate(100);
 
             // ✅ CRITICAL: Clear routes AND hide panel
             clearRoutes();
+            clearTrip();
             setShowRoutePanel(false); // ✅ ADDED - Closes panel
             setDestination("");
           },
         },
       ]
     );
-  }, [clearRoutes]);
+  }, [clearRoutes, clearTrip]);
 
   /**
    * Toggle showing all obstacles on map
@@ -456,6 +734,130 @@ export default function NavigationScreen() {
     setShowAllObstacles((prev) => !prev);
   }, []);
 
+  const { bins: densityBins, isLoading: isDensityLoading } = useObstacleDensity(
+    {
+      enabled: showDensityLayer,
+      region: densityRegion,
+      filters: obstacleFilters,
+      excludedIds: mergedObstacleIds,
+    }
+  );
+
+  const handleToggleDensityLayer = useCallback(async () => {
+    if (showDensityLayer) {
+      setShowDensityLayer(false);
+      return;
+    }
+
+    // Start from what is on screen; the map only reports regions on change
+    try {
+      const boundaries = await mapRef.current?.getMapBoundaries();
+      if (boundaries) {
+        const { northEast, southWest } = boundaries;
+        setDensityRegion({
+          latitude: (northEast.latitude + southWest.latitude) / 2,
+          longitude: (northEast.longitude + southWest.longitude) / 2,
+          latitudeDelta: northEast.latitude - southWest.latitude,
+          longitudeDelta: northEast.longitude - southWest.longitude,
+        });
+      }
+    } catch (error) {
+      console.warn("⚠️ Map boundaries unavailable, using location:", error);
+      if (location) {
+        setDensityRegion({
+          latitude: location.latitude,
+          longitude: location.longitude,
+          latitudeDelta: 0.01,
+          longitudeDelta: 0.01,
+        });
+      }
+    }
+    setShowDensityLayer(true);
+  }, [showDensityLayer, location]);
+
+  const handleDensityBinPress = useCallback((bin: ObstacleDensityBin) => {
+    Alert.alert(
+      "Obstacle Hotspot",
+      `${bin.count} active report${bin.count === 1 ? "" : "s"}, mostly ${
+        OBSTACLE_TYPE_SHORT_LABELS[bin.dominantType] || bin.dominantType
+      }.\nDensity score: ${bin.weight.toFixed(1)} (${Math.round(
+        bin.intensity * 100
+      )}% of the busiest area in view)`
+    );
+  }, []);
+
+  /**
+   * Admins: tapping a marker offers to merge its likely duplicates into it
+   */
+  const handleObstaclePress = useCallback(
+    async (obstacle: AccessibilityObstacle) => {
+      const adminUser = await firebaseServices.obstacle.getCurrentAdminUser();
+      if (!adminUser) return;
+
+      const loaded = dedupeById([
+        ...(routeObstacles || []),
+        ...validationRadiusObstacles,
+        ...(nearbyObstacles || []),
+      ]).filter(
+        (o) => o.id !== obstacle.id && !mergedObstacleIds.includes(o.id)
+      );
+      const duplicates = findDuplicateObstacles(obstacle, loaded).map(
+        (match) => match.obstacle
+      );
+
+      // Photos taken far away or long before the report
+      const photoNote = describePhotoCheck(obstacle.photoCheck);
+
+      if (duplicates.length === 0) {
+        if (photoNote) Alert.alert("Photo Location Check", photoNote);
+        return;
+      }
+
+      const duplicateIds = duplicates.map((d) => d.id);
+      const totalReports = duplicates.reduce(
+        (sum, d) => sum + (d.reportsCount || 1),
+        0
+      );
+
+      Alert.alert(
+        "Merge Duplicate Reports",
+        `${duplicates.length} other report(s) of this ${obstacle.type.replace(
+          /_/g,
+          " "
+        )} nearby (${totalReports} report(s) total). Merge them into this one? Votes and report counts are combined.${
+          photoNote ? `\n\n${photoNote}` : ""
+        }`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Merge",
+            onPress: async () => {
+              const result =
+                await enhancedFirebaseService.mergeDuplicateReports(
+                  obstacle.id,
+                  duplicateIds
+                );
+              if (result.success) {
+                setMergedObstacleIds((prev) => [...prev, ...duplicateIds]);
+                logAdminObstacleMerge(obstacle.id, duplicateIds);
+              }
+              Alert.alert(
+                result.success ? "Reports Merged" : "Merge Failed",
+                result.message
+              );
+            },
+          },
+        ]
+      );
+    },
+    [
+      routeObstacles,
+      validationRadiusObstacles,
+      nearbyObstacles,
+      mergedObstacleIds,
+    ]
+  );
+
   /**
    * Handle proximity alert pressed
    */
@@ -469,12 +871,37 @@ export default function NavigationScreen() {
   const checkArrival = useCallback(() => {
     if (!location || !selectedDestination || hasArrived) return;
 
+    // On a multi-leg trip the current leg's end is the target
+    const target = activeTripLeg
+      ? activeTripLeg.to.location
+      : selectedDestination;
+
     const distance =
       Math.sqrt(
-        Math.pow(location.latitude - selectedDestination.latitude, 2) +
-          Math.pow(location.longitude - selectedDestination.longitude, 2)
+        Math.pow(location.latitude - target.latitude, 2) +
+          Math.pow(location.longitude - target.longitude, 2)
       ) * 111320;
 
+    if (distance < 20 && activeTripLeg && !isLastLeg) {
+      if (arrivedLegIdRef.current === activeTripLeg.id) return;
+      arrivedLegIdRef.current = activeTripLeg.id;
+      Vibration.vibrate([0, 100, 50, 100]);
+
+      const nextLeg = tripPlan!.legs[currentLegIndex + 1];
+      const nextText = `Next: ${Math.round(nextLeg.distance)} m to ${
+        nextLeg.to.name
+      }.`;
+
+      Alert.alert(
+        activeTripLeg.to.kind === "rest" ? "Rest Stop 🪑" : "Stop Reached 📍",
+        activeTripLeg.to.kind === "rest"
+          ? `Take a break at ${activeTripLeg.to.name}. ${nextText}`
+          : `You've arrived at ${activeTripLeg.to.name}. ${nextText}`,
+        [{ text: "Continue", onPress: () => advanceLeg() }]
+      );
+      return;
+    }
+
     if (distance < 20) {
       setHasArrived(true);
       setIsNavigating(false);
@@ -483,12 +910,15 @@ export default function NavigationScreen() {
 
       Alert.alert(
         "Destination Reached! 🎉",
-        `You've arrived at ${destinationName}`,
+        `You've arrived at ${
+          activeTripLeg ? activeTripLeg.to.name : destinationName
+        }`,
         [
           {
             text: "End Navigation",
             onPress: () => {
               clearRoutes();
+              clearTrip();
               setSelectedRouteType(null);
               setDestination("");
               setShowRoutePanel(false);
@@ -504,6 +934,12 @@ export default function NavigationScreen() {
     destinationName,
     hasArrived,
     clearRoutes,
+    activeTripLeg,
+    isLastLeg,
+    tripPlan,
+    currentLegIndex,
+    advanceLeg,
+    clearTrip,
   ]);
 
   /**
@@ -555,6 +991,37 @@ export default function NavigationScreen() {
     initServices();
   }, []);
 
+  // Saved obstacle filters from the last session
+  useEffect(() => {
+    loadFilters();
+  }, [loadFilters]);
+
+  // Flood mode may have been switched on by a rainfall alert last session
+  useEffect(() => {
+    floodMode.loadSettings();
+  }, [floodMode.loadSettings]);
+
+  useEffect(() => {
+    if (!floodModeActive) {
+      setFloodZones([]);
+      return;
+    }
+    floodZoneService
+      .ensureReady()
+      .then(() => setFloodZones(floodZoneService.getZones()));
+  }, [floodModeActive]);
+
+  const handleToggleFloodMode = useCallback(() => {
+    if (floodModeActive && !floodMode.manualEnabled) {
+      Alert.alert(
+        "Flood Mode",
+        "Flood mode is on because of the rainfall alert. Change the alert in Settings to turn it off."
+      );
+      return;
+    }
+    floodMode.setManualEnabled(!floodMode.manualEnabled);
+  }, [floodModeActive, floodMode]);
+
   /**
    * Update remaining route during navigation
    */
@@ -572,7 +1039,7 @@ export default function NavigationScreen() {
 
     const updatedPolyline = calculateRemainingRoute(
       location,
-      selectedRoute.polyline
+      activeTripLeg ? activeTripLeg.polyline : selectedRoute.polyline
     );
 
     if (updatedPolyline.length > 0) {
@@ -584,6 +1051,7 @@ export default function NavigationScreen() {
     selectedRouteType,
     routeAnalysis,
     calculateRemainingRoute,
+    activeTripLeg,
   ]);
 
   /**
@@ -604,13 +1072,67 @@ export default function NavigationScreen() {
 
     const bearing = calculateUserBearingFromRoute(
       location,
-      selectedRoute.polyline
+      activeTripLeg ? activeTripLeg.polyline : selectedRoute.polyline
     );
 
     if (bearing !== null) {
       setUserBearing(bearing);
     }
-  }, [location, isNavigating, selectedRouteType, routeAnalysis]);
+  }, [location, isNavigating, selectedRouteType, routeAnalysis, activeTripLeg]);
+
+  /**
+   * Re-plan the trip preview when the route or the stops change
+   */
+  useEffect(() => {
+    // A chosen route (even if paused on blur) keeps its plan and progress
+    if (
+      isNavigating ||
+      selectedRouteType ||
+      isCalculating ||
+      !routeAnalysis ||
+      !location ||
+      !selectedDestination
+    ) {
+      return;
+    }
+
+    planTrip({
+      start: location,
+      destination: { name: destinationName, location: selectedDestination },
+      firstLegRoute: routeAnalysis.clearestRoute,
+      routePreference: "clearest",
+      departureTime,
+    });
+    // Location is read at planning time; re-planning on every GPS fix is noise
+  }, [
+    routeAnalysis,
+    extraStops,
+    isCalculating,
+    isNavigating,
+    selectedRouteType,
+  ]);
+
+  /**
+   * Flood mode changes which sidewalks are passable: re-run the shown route
+   */
+  useEffect(() => {
+    if (floodModeActiveRef.current === floodModeActive) return;
+    floodModeActiveRef.current = floodModeActive;
+
+    if (!routeAnalysis || !selectedDestination) return;
+
+    if (!isNavigating) {
+      // The trip preview re-plans itself once the new analysis lands
+      calculateUnifiedRoutes({
+        location: selectedDestination,
+        name: destinationName,
+      });
+    } else if (!tripPlan) {
+      // Multi-stop legs pick up flood mode on their next re-plan
+      rerouteFromCurrentLocation();
+    }
+    // Only a flood mode change should trigger this
+  }, [floodModeActive]);
 
   /**
    * Check for arrival during navigation
@@ -621,6 +1143,15 @@ export default function NavigationScreen() {
     }
   }, [location, isNavigating, selectedDestination, checkArrival]);
 
+  /**
+   * Extend the journey track (completes the journey near the destination)
+   */
+  useEffect(() => {
+    if (isNavigating && location) {
+      routeFeedbackService.updateLocation(location);
+    }
+  }, [location, isNavigating]);
+
   /**
    * Handle navigation pause/resume on screen blur/focus
    */
@@ -681,6 +1212,7 @@ export default function NavigationScreen() {
    */
   const renderObstacles = () => {
     const allObstacleIds = new Set<string>();
+    const now = new Date();
     const renderedObstacles: JSX.Element[] = [];
 
     const addObstacleIfUnique = (
@@ -691,6 +1223,8 @@ export default function NavigationScreen() {
       opacity: number = 1.0
     ) => {
       const obstacleId = String(obstacle.id);
+      if (mergedObstacleIds.includes(obstacleId)) return;
+      if (!matchesObstacleFilters(obstacle, obstacleFilters, now)) return;
       if (!allObstacleIds.has(obstacleId)) {
         allObstacleIds.add(obstacleId);
         renderedObstacles.push(
@@ -700,7 +1234,7 @@ export default function NavigationScreen() {
             isOnRoute={isOnRoute}
             routeType={routeType}
             opacity={opacity}
-            onPress={() => {}}
+            onPress={() => handleObstaclePress(obstacle)}
           />
         );
       }
@@ -736,6 +1270,11 @@ export default function NavigationScreen() {
     return renderedObstacles;
   };
 
+  // Legs up to here reach the main destination; later ones are extra stops
+  const firstStopLegIndex = tripPlan
+    ? tripPlan.legs.findIndex((leg) => leg.to.kind === "destination")
+    : -1;
+
   // ===== LOADING SCREEN =====
   if (locationLoading && !location) {
     return (
@@ -793,7 +1332,21 @@ export default function NavigationScreen() {
             mapInteraction.handleMapLongPress(event.nativeEvent.coordinate);
           }
         }}
+        onRegionChangeComplete={(region) => {
+          if (showDensityLayer) setDensityRegion(region);
+        }}
       >
+        {/* Flood-prone zones (under everything else) */}
+        {floodModeActive && <FloodZoneLayer zones={floodZones} />}
+
+        {/* Obstacle heatmap (under markers) */}
+        {showDensityLayer && (
+          <ObstacleDensityLayer
+            bins={densityBins}
+            onBinPress={handleDensityBinPress}
+          />
+        )}
+
         {/* User location marker */}
         {location && (
           <Marker
@@ -817,6 +1370,40 @@ export default function NavigationScreen() {
           </Marker>
         )}
 
+        {/* Trip stops and rest points */}
+        {tripPlan &&
+          tripPlan.legs.length > 1 &&
+          tripPlan.legs
+            .filter(
+              (leg) => leg.to.kind === "rest" || leg.index > firstStopLegIndex
+            )
+            .map((leg) => (
+              <Marker
+                key={`trip-${leg.id}`}
+                coordinate={leg.to.location}
+                anchor={{ x: 0.5, y: 1 }}
+                title={
+                  leg.to.kind === "rest" ? `Rest: ${leg.to.name}` : leg.to.name
+                }
+              >
+                <View
+                  style={[
+                    styles.destinationMarker,
+                    {
+                      backgroundColor:
+                        leg.to.kind === "rest" ? "#F59E0B" : "#3B82F6",
+                    },
+                  ]}
+                >
+                  <Ionicons
+                    name={leg.to.kind === "rest" ? "cafe" : "flag-outline"}
+                    size={20}
+                    color="white"
+                  />
+                </View>
+              </Marker>
+            ))}
+
         {/* Obstacles */}
         {renderObstacles()}
 
@@ -827,7 +1414,11 @@ export default function NavigationScreen() {
             coordinate={poi.location}
             onPress={() => {
               if (!isMapSelectionMode) {
-                handlePOIPress(poi);
+                if (isAddingStop) {
+                  selectDestination(poi);
+                } else {
+                  handlePOIPress(poi);
+                }
                 setShowRoutePanel(true);
               }
             }}
@@ -935,6 +1526,22 @@ export default function NavigationScreen() {
                 zIndex={8}
               />
             )}
+
+            {/* Later trip stops (first stop is covered by the routes above) */}
+            {extraStops.length > 0 &&
+              tripPlan &&
+              tripPlan.legs
+                .slice(firstStopLegIndex + 1)
+                .map((leg) => (
+                  <Polyline
+                    key={`trip-line-${leg.id}`}
+                    coordinates={leg.polyline}
+                    strokeColor="#3B82F6"
+                    strokeWidth={4}
+                    lineDashPattern={[8, 6]}
+                    zIndex={7}
+                  />
+                ))}
           </>
         )}
 
@@ -984,6 +1591,47 @@ export default function NavigationScreen() {
         </View>
       )}
 
+      {/* Add Stop Banner */}
+      {isAddingStop && (
+        <View style={[styles.mapSelectionBanner, { top: insets.top + 70 }]}>
+          <View style={styles.mapSelectionBannerContent}>
+            <Ionicons name="add-circle-outline" size={20} color="#3B82F6" />
+            <Text style={styles.mapSelectionBannerText}>
+              Search, tap a place or hold on the map to add a stop
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.mapSelectionCancelButton}
+            onPress={() => {
+              setIsAddingStop(false);
+              setShowRoutePanel(true);
+            }}
+          >
+            <Text style={styles.mapSelectionCancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Heatmap toggle and obstacle filters */}
+      {!isNavigating && !isMapSelectionMode && !isAddingStop && (
+        <MapLayerControls
+          densityEnabled={showDensityLayer}
+          onToggleDensity={handleToggleDensityLayer}
+          isDensityLoading={isDensityLoading}
+          densityBinCount={densityBins.length}
+          activeFilterCount={countActiveFilters(obstacleFilters)}
+          onOpenFilters={() => setShowFilterPanel(true)}
+          floodModeEnabled={floodModeActive}
+          onToggleFloodMode={handleToggleFloodMode}
+          style={{ top: insets.top + 74 }}
+        />
+      )}
+
+      <ObstacleFilterPanel
+        visible={showFilterPanel}
+        onClose={() => setShowFilterPanel(false)}
+      />
+
       {/* Navigation Controls */}
       <NavigationControls
         showFAB={false}
@@ -1009,12 +1657,26 @@ export default function NavigationScreen() {
       <RouteInfoBottomSheet
         routeAnalysis={routeAnalysis}
         isVisible={
-          !isMapSelectionMode && showRoutePanel && routeAnalysis !== null
+          !isMapSelectionMode &&
+          !isAddingStop &&
+          showRoutePanel &&
+          routeAnalysis !== null
         }
         isCalculating={isCalculating}
         onSelectRoute={handleStartNavigation}
         onStopNavigation={handleStopNavigation}
         isNavigating={isNavigating}
+        departureTime={departureTime}
+        onChangeDepartureTime={setDepartureTime}
+        tripPlan={tripPlan}
+        currentLegIndex={currentLegIndex}
+        isPlanningTrip={isPlanningTrip}
+        onAddStop={() => {
+          setIsAddingStop(true);
+          setShowRoutePanel(false);
+        }}
+        onRemoveStop={removeStop}
+        userProfile={profile}
       />
 
       {/* Validation Prompt Modal */}
@@ -13,6 +13,9 @@ import {
   Modal,
   StyleSheet,
   useWindowDimensions,
+  Platform,
+  Share,
+  Switch,
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -33,6 +36,37 @@ import {
 } from "../services/AuthStateCoordinator";
 import { signOut } from "firebase/auth";
 import { getUnifiedFirebaseAuth } from "../config/firebaseConfig";
+import * as Location from "expo-location";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  offlinePackService,
+  OfflinePackSummary,
+} from "../services/offlinePackService";
+import { SAMPLE_POIS } from "../constants/navigationConstants";
+import { geoExchangeService } from "../services/geoExchangeService";
+import { osmImportService } from "../services/osmImportService";
+import { elevationService } from "../services/elevationService";
+import { ahpJudgmentService } from "../services/ahpJudgmentService";
+import { routeFeedbackService } from "../services/routeFeedbackService";
+import {
+  firebaseServices,
+  reportObstacleWithAdminCheck,
+} from "../services/firebase";
+import { floodZoneService } from "../services/floodZoneService";
+import { useFloodMode } from "../stores/floodModeStore";
+import { isFloodModeActive } from "../utils/floodZones";
+import { RainfallAlertLevel } from "../types";
+
+// Offline pack covers this far around the user in each direction
+const OFFLINE_PACK_HALF_SIZE_KM = 1;
+
+// PAGASA rainfall warning colors
+const RAINFALL_ALERT_LABELS: Record<RainfallAlertLevel, string> = {
+  none: "No warning",
+  yellow: "Yellow (heavy rain)",
+  orange: "Orange (intense rain)",
+  red: "Red (torrential rain)",
+};
 
 const COLORS = {
   white: "#FFFFFF",
@@ -147,6 +181,34 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
   const [showInfoModal, setShowInfoModal] = useState(false);
   const [infoModalType, setInfoModalType] = useState<"about" | "team">("about");
 
+  // Offline packs
+  const [offlinePacks, setOfflinePacks] = useState<OfflinePackSummary[]>([]);
+  const [isDownloadingPack, setIsDownloadingPack] = useState(false);
+
+  // GPX / GeoJSON export
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Map data imports
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Admin report maintenance
+  const [isMaintaining, setIsMaintaining] = useState(false);
+
+  // Flood mode
+  const floodMode = useFloodMode();
+  const [floodZoneCount, setFloodZoneCount] = useState(0);
+
+  useEffect(() => {
+    offlinePackService.listPacks().then(setOfflinePacks);
+  }, []);
+
+  useEffect(() => {
+    floodMode.loadSettings();
+    floodZoneService
+      .ensureReady()
+      .then(() => setFloodZoneCount(floodZoneService.getZones().length));
+  }, [floodMode.loadSettings]);
+
   // Listen to auth state changes
   useEffect(() => {
     console.log("SettingsScreen: Setting up auth listener");
@@ -174,6 +236,315 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
     };
   }, []);
 
+  // Download obstacles, sidewalks and routes to nearby places for offline use
+  const downloadOfflineArea = async () => {
+    setIsDownloadingPack(true);
+    try {
+      const position =
+        (await Location.getLastKnownPositionAsync()) ||
+        (await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced,
+        }));
+      const here = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      };
+
+      const dLat = OFFLINE_PACK_HALF_SIZE_KM / 111.32;
+      const dLng =
+        OFFLINE_PACK_HALF_SIZE_KM /
+        (111.32 * Math.cos((here.latitude * Math.PI) / 180));
+      const bounds = {
+        north: here.latitude + dLat,
+        south: here.latitude - dLat,
+        east: here.longitude + dLng,
+        west: here.longitude - dLng,
+      };
+
+      const routes = SAMPLE_POIS.filter(
+        (poi) =>
+          poi.location.latitude <= bounds.north &&
+          poi.location.latitude >= bounds.south &&
+          poi.location.longitude <= bounds.east &&
+          poi.location.longitude >= bounds.west
+      )
+        .slice(0, 3)
+        .map((poi) => ({ name: poi.name, start: here, end: poi.location }));
+
+      const summary = await offlinePackService.downloadPack({
+        name: `Area saved ${new Date().toLocaleDateString()}`,
+        bounds,
+        routes,
+      });
+
+      setOfflinePacks(await offlinePackService.listPacks());
+      Alert.alert(
+        "Offline Area Saved",
+        `${summary.counts.obstacles} obstacles and ${summary.counts.routes} routes are now available without signal.`
+      );
+    } catch (error: any) {
+      console.error("❌ Offline pack download failed:", error);
+      Alert.alert(
+        "Download Failed",
+        error?.message || "Could not save this area. Please try again."
+      );
+    } finally {
+      setIsDownloadingPack(false);
+    }
+  };
+
+  const handleDownloadOfflineArea = () => {
+    Alert.alert(
+      "Download This Area?",
+      "Saves obstacles, sidewalks and routes to nearby places within about 1 km, so navigation works without signal. Uses some mobile data.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Download", onPress: downloadOfflineArea },
+      ]
+    );
+  };
+
+  const handleOfflinePackPress = (pack: OfflinePackSummary) => {
+    Alert.alert(
+      pack.name,
+      `${pack.counts.obstacles} obstacles, ${pack.counts.sidewalks} sidewalks, ${pack.counts.routes} routes, ${pack.counts.pois} places`,
+      [
+        { text: "Close", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            await offlinePackService.deletePack(pack.id);
+            setOfflinePacks(await offlinePackService.listPacks());
+          },
+        },
+      ]
+    );
+  };
+
+  // Let the user pick a file (copied into the cache so it can be read)
+  const pickImportFile = async (): Promise<string | null> => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      copyToCacheDirectory: true,
+      type: "*/*",
+    });
+    if (picked.canceled || !picked.assets?.length) return null;
+    return picked.assets[0].uri;
+  };
+
+  // Pick a file and run one importer, reporting the outcome in an alert
+  const runImport = async (
+    importFile: (fileUri: string) => Promise<string>
+  ) => {
+    const fileUri = await pickImportFile();
+    if (!fileUri) return;
+
+    setIsImporting(true);
+    try {
+      Alert.alert("Import Complete", await importFile(fileUri));
+    } catch (error: any) {
+      Alert.alert(
+        "Import Failed",
+        error?.message || "Could not read this file. Please check the format."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleImportSidewalks = () =>
+    runImport(async (fileUri) => {
+      const result = await osmImportService.importFromFile(fileUri);
+      if (result.sidewalks.length === 0) {
+        throw new Error("No sidewalks found in this extract");
+      }
+      osmImportService.applyToRouter(result);
+      await osmImportService.saveImport(result);
+      return `${result.stats.sidewalks} sidewalks and ${result.stats.crossings} crossings are now used for routing.`;
+    });
+
+  // LGU flood hazard maps (GeoJSON polygons) used while flood mode is on
+  const handleImportFloodZones = () =>
+    runImport(async (fileUri) => {
+      const set = await floodZoneService.importFromFile(fileUri);
+      setFloodZoneCount(floodZoneService.getZones().length);
+      return `${set.zoneCount} flood-prone zones from "${set.name}" are now avoided in flood mode.`;
+    });
+
+  // Expert pairwise judgments per mobility device (admin only)
+  const handleImportJudgments = () =>
+    runImport(async (fileUri) => {
+      const { accepted, rejected } = await ahpJudgmentService.importFromFile(
+        fileUri
+      );
+      return [
+        `Routing weights updated for: ${accepted.join(", ")}.`,
+        ...rejected.map(
+          ({ profileType, reason }) => `${profileType} skipped: ${reason}`
+        ),
+      ].join("\n\n");
+    });
+
+  // DEM tiles for slope warnings on bridge approaches and flyover ramps
+  const handleImportElevation = () =>
+    runImport(async (fileUri) => {
+      const tile = await elevationService.importFromFile(fileUri);
+      return `Elevation "${tile.name}" (${tile.cols}×${tile.rows} cells) is now used for slope warnings.`;
+    });
+
+  // Obstacle surveys (e.g. from LGU partners) become regular reports:
+  // verified when an admin imports them, pending community review otherwise
+  const handleImportObstacles = () =>
+    runImport(async (fileUri) => {
+      const result = await geoExchangeService.importFromFile(fileUri);
+      if (result.obstacles.length === 0) {
+        throw new Error(
+          `No obstacle points found (${result.skipped} features skipped)`
+        );
+      }
+
+      let saved = 0;
+      for (const obstacle of result.obstacles) {
+        try {
+          await reportObstacleWithAdminCheck({
+            location: obstacle.location,
+            type: obstacle.type,
+            severity: obstacle.severity,
+            description: obstacle.description,
+            timePattern: obstacle.timePattern,
+            schedule: obstacle.schedule,
+          });
+          saved++;
+        } catch (error) {
+          console.warn("❌ Failed to save imported obstacle:", error);
+        }
+      }
+
+      const notSaved = result.obstacles.length - saved + result.skipped;
+      return `${saved} obstacle${saved === 1 ? "" : "s"} added to the map.${
+        notSaved > 0 ? ` ${notSaved} could not be imported.` : ""
+      }`;
+    });
+
+  // Index reports from before geohash queries so reads no longer need the
+  // slower latitude-band fallback
+  const handleBackfillGeohashes = async () => {
+    setIsMaintaining(true);
+    try {
+      const updated = await firebaseServices.obstacle.backfillGeohashes();
+      Alert.alert(
+        "Reports Indexed",
+        updated > 0
+          ? `${updated} older report${updated === 1 ? "" : "s"} indexed.`
+          : "All reports are already indexed."
+      );
+    } catch (error: any) {
+      Alert.alert("Indexing Failed", error?.message || "Please try again.");
+    } finally {
+      setIsMaintaining(false);
+    }
+  };
+
+  // Move photos embedded in older reports to the photo store, so each
+  // report read no longer downloads them
+  const handleMigratePhotos = async () => {
+    setIsMaintaining(true);
+    try {
+      const migrated = await firebaseServices.obstacle.migrateEmbeddedPhotos();
+      Alert.alert(
+        "Photos Moved",
+        migrated > 0
+          ? `${migrated} report photo${migrated === 1 ? "" : "s"} moved.`
+          : "No reports have embedded photos."
+      );
+    } catch (error: any) {
+      Alert.alert(
+        "Moving Photos Failed",
+        error?.message || "Please try again."
+      );
+    } finally {
+      setIsMaintaining(false);
+    }
+  };
+
+  const handleRainfallAlertPress = () => {
+    Alert.alert(
+      "Rainfall Alert",
+      "Set the PAGASA warning for your area. Orange and red turn on flood mode.",
+      [
+        ...(Object.keys(RAINFALL_ALERT_LABELS) as RainfallAlertLevel[]).map(
+          (level) => ({
+            text: RAINFALL_ALERT_LABELS[level],
+            onPress: () => floodMode.setRainfallAlert(level),
+          })
+        ),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  };
+
+  // Write an export file and hand it to the system share sheet
+  const shareExport = async (
+    fileName: string,
+    content: string | object,
+    title: string
+  ) => {
+    const uri = await geoExchangeService.writeExport(fileName, content);
+    const text =
+      typeof content === "string" ? content : JSON.stringify(content);
+    // Android's share sheet only takes text; iOS can attach the file
+    await Share.share(
+      Platform.OS === "ios" ? { url: uri, title } : { message: text, title }
+    );
+  };
+
+  const handleExportTrips = async () => {
+    setIsExporting(true);
+    try {
+      const journeys = await routeFeedbackService.getSavedJourneys();
+      if (journeys.length === 0) {
+        Alert.alert("No Trips Yet", "Trips appear here after you navigate.");
+        return;
+      }
+      await shareExport(
+        `waispath_trips_${new Date().toISOString().slice(0, 10)}.gpx`,
+        geoExchangeService.journeysToGPX(journeys),
+        "WAISPATH trips (GPX)"
+      );
+    } catch (error: any) {
+      console.error("❌ Trip export failed:", error);
+      Alert.alert("Export Failed", error?.message || "Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportObstacles = async () => {
+    setIsExporting(true);
+    try {
+      const position =
+        (await Location.getLastKnownPositionAsync()) ||
+        (await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced,
+        }));
+      const obstacles = await firebaseServices.obstacle.getObstaclesInArea(
+        position.coords.latitude,
+        position.coords.longitude,
+        OFFLINE_PACK_HALF_SIZE_KM
+      );
+      await shareExport(
+        `waispath_obstacles_${new Date().toISOString().slice(0, 10)}.geojson`,
+        geoExchangeService.obstaclesToGeoJSON(obstacles),
+        "WAISPATH obstacles (GeoJSON)"
+      );
+    } catch (error: any) {
+      console.error("❌ Obstacle export failed:", error);
+      Alert.alert("Export Failed", error?.message || "Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Handle logout
   const handleLogout = async () => {
     Alert.alert(
@@ -427,6 +798,172 @@ export default function SettingsScreen({ navigation }: SettingsScreenProps) {
           </View>
         </View>
 
+        {/* Report Maintenance (admins) */}
+        {isAdmin && (
+          <View style={styles.settingsSection}>
+            <Text style={styles.sectionTitle}>Report Maintenance</Text>
+            <View style={styles.sectionContent}>
+              <SettingsRow
+                icon="grid-outline"
+                title="Index Older Reports"
+                subtitle="Add location index to reports made before area search"
+                onPress={handleBackfillGeohashes}
+                disabled={isMaintaining}
+              />
+              <SettingsRow
+                icon="images-outline"
+                title="Move Embedded Photos"
+                subtitle="Move photos saved inside older reports to the photo store"
+                onPress={handleMigratePhotos}
+                disabled={isMaintaining}
+              />
+            </View>
+          </View>
+        )}
+
+        {isAdmin && (
+          <View style={styles.settingsSection}>
+            <Text style={styles.sectionTitle}>Routing Weights</Text>
+            <View style={styles.sectionContent}>
+              <SettingsRow
+                icon="options-outline"
+                title="Import AHP Judgments"
+                subtitle="Expert pairwise comparisons per mobility device (JSON)"
+                onPress={handleImportJudgments}
+                disabled={isImporting}
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Flood Mode */}
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>Flood Mode</Text>
+          <View style={styles.sectionContent}>
+            <SettingsRow
+              icon="water-outline"
+              title="Flood Mode"
+              subtitle={
+                isFloodModeActive(floodMode)
+                  ? floodMode.manualEnabled
+                    ? "On - routes avoid flood-prone streets"
+                    : "On because of the rainfall alert"
+                  : "Avoid flood-prone streets during habagat"
+              }
+              onPress={() =>
+                floodMode.setManualEnabled(!floodMode.manualEnabled)
+              }
+              rightElement={
+                <Switch
+                  value={isFloodModeActive(floodMode)}
+                  onValueChange={floodMode.setManualEnabled}
+                  // Stays on while an orange/red alert is set
+                  disabled={
+                    !floodMode.manualEnabled && isFloodModeActive(floodMode)
+                  }
+                  trackColor={{ true: COLORS.softBlue }}
+                />
+              }
+            />
+            <SettingsRow
+              icon="rainy-outline"
+              title="Rainfall Alert"
+              subtitle={RAINFALL_ALERT_LABELS[floodMode.rainfallAlert]}
+              onPress={handleRainfallAlertPress}
+            />
+            <SettingsRow
+              icon="map-outline"
+              title="Flood-Prone Zones"
+              subtitle={
+                floodZoneCount > 0
+                  ? `${floodZoneCount} zones from LGU flood maps`
+                  : "No flood map loaded - tap to import the LGU GeoJSON"
+              }
+              onPress={handleImportFloodZones}
+              disabled={isImporting}
+            />
+          </View>
+        </View>
+
+        {/* Map Data */}
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>Map Data</Text>
+          <View style={styles.sectionContent}>
+            <SettingsRow
+              icon="git-network-outline"
+              title="Import Sidewalks (OSM)"
+              subtitle="OpenStreetMap extract (.osm or GeoJSON) for sidewalk routing"
+              onPress={handleImportSidewalks}
+              disabled={isImporting}
+            />
+            <SettingsRow
+              icon="cloud-upload-outline"
+              title="Import Obstacle Survey"
+              subtitle="GeoJSON or GPX points, e.g. from an LGU survey"
+              onPress={handleImportObstacles}
+              disabled={isImporting}
+            />
+            <SettingsRow
+              icon="trending-up-outline"
+              title="Import Elevation (DEM)"
+              subtitle="GeoTIFF or ESRI ASCII grid in EPSG:4326, for slope warnings"
+              onPress={handleImportElevation}
+              disabled={isImporting}
+            />
+          </View>
+        </View>
+
+        {/* Offline Navigation */}
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>Offline Navigation</Text>
+          <View style={styles.sectionContent}>
+            <SettingsRow
+              icon="cloud-download-outline"
+              title={
+                isDownloadingPack ? "Downloading..." : "Download This Area"
+              }
+              subtitle="Keep navigating under flyovers or without load"
+              onPress={handleDownloadOfflineArea}
+              disabled={isDownloadingPack}
+            />
+            {offlinePacks.map((pack) => (
+              <SettingsRow
+                key={pack.id}
+                icon="map-outline"
+                title={pack.name}
+                subtitle={`${pack.counts.obstacles} obstacles • ${
+                  pack.counts.routes
+                } routes • ${Math.max(
+                  1,
+                  Math.round(pack.sizeBytes / 1024)
+                )} KB`}
+                onPress={() => handleOfflinePackPress(pack)}
+              />
+            ))}
+          </View>
+        </View>
+
+        {/* Data Export */}
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>Data Export</Text>
+          <View style={styles.sectionContent}>
+            <SettingsRow
+              icon="walk-outline"
+              title="Export My Trips (GPX)"
+              subtitle="Share walked routes with your therapist"
+              onPress={handleExportTrips}
+              disabled={isExporting}
+            />
+            <SettingsRow
+              icon="document-text-outline"
+              title="Export Nearby Obstacles (GeoJSON)"
+              subtitle="Obstacles within about 1 km, for GIS tools"
+              onPress={handleExportObstacles}
+              disabled={isExporting}
+            />
+          </View>
+        </View>
+
         {/* About Section */}
         <View style={styles.settingsSection}>
           <Text style={styles.sectionTitle}>About</Text>
@@ -46,6 +46,15 @@ export interface UserReputationData {
   joinedDate: Date;
 }
 
+// Outcome of one settled report for one participant (reporter or voter)
+export interface ReputationDelta {
+  accurateReports: number;
+  flaggedReports: number;
+}
+
+// Even an untrusted account's vote counts a little
+const MIN_VOTE_WEIGHT = 0.1;
+
 class UserCapabilitiesService {
   /**
    * 🎯 GET USER CAPABILITIES - Main function to determine what user can do
@@ -150,6 +159,58 @@ class UserCapabilitiesService {
     return "basic";
   }
 
+  /**
+   * ⚖️ TRUST SCORE - Share of settled outcomes the user called right,
+   * pulled toward 0.5 while they have little history
+   */
+  calculateTrustScore(
+    reputation: Pick<UserReputationData, "accurateReports" | "flaggedReports">
+  ): number {
+    return (
+      (reputation.accurateReports + 1) /
+      (reputation.accurateReports + reputation.flaggedReports + 2)
+    );
+  }
+
+  /**
+   * 🆕 DEFAULT REPUTATION - Starting point for a user with no history
+   */
+  getDefaultReputation(joinedDate: Date = new Date()): UserReputationData {
+    return {
+      accurateReports: 0,
+      helpfulValidations: 0,
+      communityUpvotes: 0,
+      flaggedReports: 0,
+      trustScore: 0.5,
+      joinedDate,
+    };
+  }
+
+  /**
+   * 📈 APPLY OUTCOME - Add a settled outcome and recompute trust
+   */
+  applyReputationDelta(
+    reputation: UserReputationData,
+    delta: ReputationDelta
+  ): UserReputationData {
+    const updated = {
+      ...reputation,
+      accurateReports: reputation.accurateReports + delta.accurateReports,
+      flaggedReports: reputation.flaggedReports + delta.flaggedReports,
+    };
+    return { ...updated, trustScore: this.calculateTrustScore(updated) };
+  }
+
+  /**
+   * 🗳️ VOTE WEIGHT - How much one validation vote counts
+   */
+  getVoteWeight(
+    reputation?: Pick<UserReputationData, "trustScore"> | null
+  ): number {
+    const trustScore = reputation?.trustScore ?? 0.5;
+    return Math.max(MIN_VOTE_WEIGHT, Math.min(1, trustScore));
+  }
+
   /**
    * 🎨 GET USER BADGE - Visual representation of user status
    */
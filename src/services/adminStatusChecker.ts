@@ -3,6 +3,8 @@
 // Implements server-side enforcement without conflicting with existing auth system
 
 import { Alert } from "react-native";
+import { isLocalBackend } from "../config/backendConfig";
+import { localBackend } from "./localBackend";
 
 interface AdminStatusResponse {
   status:
@@ -88,19 +90,7 @@ class AdminStatusChecker {
     try {
       console.log(`🔍 Checking admin status for: ${this.userEmail}`);
 
-      const response = await fetch("/api/admin/verify-status", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email: this.userEmail }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result: AdminStatusResponse = await response.json();
+      const result = await this.requestStatus(this.userEmail);
 
       console.log(`📊 Status check result:`, {
         email: this.userEmail,
@@ -130,6 +120,41 @@ class AdminStatusChecker {
     }
   }
 
+  /**
+   * Ask the admin backend (or the local backend's admin records) for status
+   */
+  private async requestStatus(email: string): Promise<AdminStatusResponse> {
+    if (isLocalBackend()) {
+      const admin = localBackend.getAdmin(email);
+      if (!admin) {
+        return { status: "not_admin", message: "No admin account found." };
+      }
+      return {
+        status: admin.status,
+        message:
+          admin.status === "active"
+            ? "Admin account is active."
+            : `Admin account has been ${admin.status}.`,
+        adminId: admin.uid,
+        role: admin.role,
+      };
+    }
+
+    const response = await fetch("/api/admin/verify-status", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
   /**
    * Handle account deactivation/suspension
    */
@@ -173,6 +198,12 @@ class AdminStatusChecker {
       // Clear cache
       clearAuthCache();
 
+      if (isLocalBackend()) {
+        localBackend.signOut();
+        console.log("✅ Admin signout completed (local backend)");
+        return;
+      }
+
       // Sign out from Firebase
       const auth = await getUnifiedFirebaseAuth();
       const { signOut } = await import("firebase/auth");
@@ -214,17 +245,7 @@ class AdminStatusChecker {
     }
 
     try {
-      const response = await fetch("/api/admin/verify-status", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: this.userEmail }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const result: AdminStatusResponse = await response.json();
+      const result = await this.requestStatus(this.userEmail);
       console.log("🔍 Manual status check result:", result);
       return result;
     } catch (error) {
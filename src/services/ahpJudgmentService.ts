@@ -0,0 +1,128 @@
+// src/services/ahpJudgmentService.ts
+// Expert AHP pairwise judgments per mobility device: bundled matrices plus
+// panels imported on the device, applied to ahpCalculator at startup
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import { ahpCalculator } from "../utils/ahp";
+import { BUNDLED_AHP_JUDGMENTS } from "../data/ahpJudgments";
+import type { AHPProfileJudgment, UserMobilityProfile } from "../types";
+
+type ProfileType = UserMobilityProfile["type"];
+
+const PROFILE_TYPES: ProfileType[] = [
+  "wheelchair",
+  "walker",
+  "cane",
+  "crutches",
+  "none",
+];
+
+export interface AHPJudgmentLoadResult {
+  accepted: ProfileType[];
+  rejected: { profileType: ProfileType; reason: string }[];
+}
+
+class AHPJudgmentService {
+  private readonly STORAGE_KEY = "@waispath:ahp_judgments";
+
+  /**
+   * Apply bundled judgments, then imported ones (which replace bundled
+   * matrices for the same device). Call once at startup.
+   */
+  async restoreJudgments(): Promise<AHPJudgmentLoadResult> {
+    const imported = await this.getImportedJudgments();
+    const result = ahpCalculator.loadProfileJudgments([
+      ...BUNDLED_AHP_JUDGMENTS,
+      ...imported,
+    ]);
+
+    if (result.accepted.length > 0) {
+      console.log(
+        `⚖️ Expert AHP weights loaded for: ${result.accepted.join(", ")}`
+      );
+    }
+    result.rejected.forEach(({ profileType, reason }) =>
+      console.warn(`⚠️ AHP judgments for ${profileType} ignored: ${reason}`)
+    );
+
+    return result;
+  }
+
+  /**
+   * Import a judgment panel: a JSON array of AHPProfileJudgment, or an
+   * object with a "judgments" array. Consistent matrices are applied and
+   * kept for later sessions; inconsistent ones are reported back.
+   */
+  async importFromFile(fileUri: string): Promise<AHPJudgmentLoadResult> {
+    const content = await FileSystem.readAsStringAsync(fileUri);
+    const judgments = this.parseJudgments(JSON.parse(content));
+    if (judgments.length === 0) {
+      throw new Error("No judgments for a known mobility device found");
+    }
+
+    const result = ahpCalculator.loadProfileJudgments(judgments);
+    if (result.accepted.length === 0) {
+      throw new Error(result.rejected[0].reason);
+    }
+
+    // Keep the accepted matrices, replacing earlier imports per device
+    const stored = await this.getImportedJudgments();
+    const kept = stored.filter(
+      (judgment) => !result.accepted.includes(judgment.profileType)
+    );
+    const acceptedJudgments = judgments.filter((judgment) =>
+      result.accepted.includes(judgment.profileType)
+    );
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify([...kept, ...acceptedJudgments])
+    );
+
+    console.log(`✅ Imported AHP judgments for ${result.accepted.join(", ")}`);
+    return result;
+  }
+
+  /**
+   * Drop imported judgments and go back to bundled or default weights
+   */
+  async clearImportedJudgments(): Promise<void> {
+    await AsyncStorage.removeItem(this.STORAGE_KEY);
+    ahpCalculator.clearProfileWeights();
+    await this.restoreJudgments();
+    console.log("🗑️ Cleared imported AHP judgments");
+  }
+
+  private async getImportedJudgments(): Promise<AHPProfileJudgment[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? this.parseJudgments(JSON.parse(stored)) : [];
+    } catch (error) {
+      console.error("❌ Failed to read imported AHP judgments:", error);
+      return [];
+    }
+  }
+
+  private parseJudgments(data: any): AHPProfileJudgment[] {
+    const entries: any[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data?.judgments)
+      ? data.judgments
+      : [];
+
+    return entries
+      .filter(
+        (entry) =>
+          PROFILE_TYPES.includes(entry?.profileType) &&
+          Array.isArray(entry.matrix)
+      )
+      .map((entry) => ({
+        profileType: entry.profileType,
+        matrix: entry.matrix,
+        ...(typeof entry.source === "string" && { source: entry.source }),
+      }));
+  }
+}
+
+export const ahpJudgmentService = new AHPJudgmentService();
+export { AHPJudgmentService };
@@ -0,0 +1,284 @@
+// src/services/ahpLearningService.ts
+// On-device AHP weight learning from post-journey route feedback
+// Compares what we predicted for a route with what the user actually felt,
+// then nudges that device type's criteria weights in small, bounded steps
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ahpCalculator } from "../utils/ahp";
+import type {
+  AHPCriteria,
+  AccessibilityScore,
+  RouteFeedback,
+  UserMobilityProfile,
+} from "../types";
+
+type ProfileType = UserMobilityProfile["type"];
+
+const CRITERIA: (keyof AHPCriteria)[] = ["traversability", "safety", "comfort"];
+
+// How the user's overall verdict maps onto our 0-100 score scale
+const EXPERIENCE_SCORES: Record<RouteFeedback["overallExperience"], number> = {
+  excellent: 95,
+  good: 80,
+  acceptable: 60,
+  difficult: 35,
+  impossible: 5,
+};
+
+export interface AHPLearningConfig {
+  learningRate: number; // Scales each adjustment
+  maxStepPerCriterion: number; // Largest change to one weight per feedback
+  minWeight: number; // No criterion is ever ignored entirely
+  maxWeight: number; // No criterion ever dominates entirely
+  minPredictionError: number; // Score points; smaller misses are not learned from
+}
+
+export interface LearnedProfileWeights {
+  weights: AHPCriteria;
+  feedbackCount: number;
+  averagePredictionError: number; // Running mean of |observed - predicted| overall
+  lastUpdated: string; // ISO date string
+}
+
+export interface AHPLearningUpdate {
+  profileType: ProfileType;
+  previousWeights: AHPCriteria;
+  newWeights: AHPCriteria;
+  predictedOverall: number;
+  observedOverall: number;
+  predictionError: number;
+  applied: boolean; // false when the prediction was already close enough
+}
+
+class AHPLearningService {
+  private readonly STORAGE_KEY = "@waispath:ahp_learned_weights";
+
+  private config: AHPLearningConfig = {
+    learningRate: 0.15,
+    maxStepPerCriterion: 0.03,
+    minWeight: 0.05,
+    maxWeight: 0.85,
+    minPredictionError: 5,
+  };
+
+  private learned: Partial<Record<ProfileType, LearnedProfileWeights>> = {};
+  private _ready: Promise<void>;
+  private _initialized = false;
+
+  constructor() {
+    // Load persisted weights in the background so scoring picks them up early
+    this._ready = this.loadFromStorage();
+  }
+
+  async ensureReady(): Promise<void> {
+    if (!this._initialized) {
+      await this._ready;
+    }
+  }
+
+  /**
+   * Learn from one completed journey.
+   * predictedScore is the AccessibilityScore shown for the route the user took.
+   */
+  async learnFromFeedback(
+    feedback: RouteFeedback,
+    predictedScore: AccessibilityScore
+  ): Promise<AHPLearningUpdate> {
+    await this.ensureReady();
+
+    const profileType = feedback.userProfile.type;
+    const previousWeights = ahpCalculator.getWeights(profileType);
+
+    const observed: AHPCriteria = {
+      traversability: this.ratingToScore(feedback.traversabilityRating),
+      safety: this.ratingToScore(feedback.safetyRating),
+      comfort: this.ratingToScore(feedback.comfortRating),
+    };
+    const observedOverall = EXPERIENCE_SCORES[feedback.overallExperience];
+    const predictionError = observedOverall - predictedScore.overall;
+
+    const update: AHPLearningUpdate = {
+      profileType,
+      previousWeights,
+      newWeights: previousWeights,
+      predictedOverall: predictedScore.overall,
+      observedOverall,
+      predictionError,
+      applied: false,
+    };
+
+    if (Math.abs(predictionError) < this.config.minPredictionError) {
+      console.log(
+        `🎯 AHP prediction close enough for ${profileType} (error ${predictionError.toFixed(
+          1
+        )}), weights unchanged`
+      );
+      await this.recordFeedback(profileType, previousWeights, predictionError);
+      return update;
+    }
+
+    // A criterion whose miss points the same way as the overall miss explains
+    // the outcome, so it deserves more weight; one pointing the other way less.
+    const adjusted = { ...previousWeights };
+    for (const criterion of CRITERIA) {
+      const criterionMiss = observed[criterion] - predictedScore[criterion];
+      const rawStep =
+        this.config.learningRate *
+        (predictionError / 100) *
+        (criterionMiss / 100);
+      const step = Math.max(
+        -this.config.maxStepPerCriterion,
+        Math.min(this.config.maxStepPerCriterion, rawStep)
+      );
+      adjusted[criterion] = previousWeights[criterion] + step;
+    }
+
+    const newWeights = this.normalizeWithBounds(adjusted);
+    ahpCalculator.setLearnedWeights(profileType, newWeights);
+    await this.recordFeedback(profileType, newWeights, predictionError);
+
+    console.log(
+      `📚 Learned AHP weights for ${profileType}: T=${newWeights.traversability.toFixed(
+        3
+      )} S=${newWeights.safety.toFixed(3)} C=${newWeights.comfort.toFixed(
+        3
+      )} (error ${predictionError.toFixed(1)})`
+    );
+
+    return { ...update, newWeights, applied: true };
+  }
+
+  /**
+   * Learned state for one device type (null = never learned)
+   */
+  getLearnedWeights(profileType: ProfileType): LearnedProfileWeights | null {
+    const entry = this.learned[profileType];
+    return entry ? { ...entry, weights: { ...entry.weights } } : null;
+  }
+
+  /**
+   * Forget learned weights for one device (or all) and fall back to the
+   * expert/default weights
+   */
+  async resetLearnedWeights(profileType?: ProfileType): Promise<void> {
+    await this.ensureReady();
+
+    if (profileType) {
+      delete this.learned[profileType];
+    } else {
+      this.learned = {};
+    }
+    ahpCalculator.clearLearnedWeights(profileType);
+    await this.saveToStorage();
+
+    console.log(`🧹 Reset learned AHP weights (${profileType || "all"})`);
+  }
+
+  updateConfig(newConfig: Partial<AHPLearningConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig(): AHPLearningConfig {
+    return { ...this.config };
+  }
+
+  // 1-5 rating to 0-100 score
+  private ratingToScore(rating: number): number {
+    const clamped = Math.max(1, Math.min(5, rating));
+    return (clamped - 1) * 25;
+  }
+
+  /**
+   * Clamp each weight to [minWeight, maxWeight] while keeping the sum at 1
+   */
+  private normalizeWithBounds(weights: AHPCriteria): AHPCriteria {
+    const { minWeight, maxWeight } = this.config;
+    let result = { ...weights };
+
+    // A few passes settle clamping and renormalization against each other
+    for (let pass = 0; pass < 5; pass++) {
+      const total = CRITERIA.reduce((sum, c) => sum + result[c], 0);
+      result = CRITERIA.reduce((acc, c) => {
+        acc[c] = Math.max(minWeight, Math.min(maxWeight, result[c] / total));
+        return acc;
+      }, {} as AHPCriteria);
+    }
+
+    // Fold any remaining rounding drift into the largest weight
+    const total = CRITERIA.reduce((sum, c) => sum + result[c], 0);
+    const largest = CRITERIA.reduce((a, b) => (result[a] >= result[b] ? a : b));
+    result[largest] += 1 - total;
+
+    return result;
+  }
+
+  private async recordFeedback(
+    profileType: ProfileType,
+    weights: AHPCriteria,
+    predictionError: number
+  ): Promise<void> {
+    const previous = this.learned[profileType];
+    const feedbackCount = (previous?.feedbackCount || 0) + 1;
+    const previousAverage = previous?.averagePredictionError || 0;
+
+    this.learned[profileType] = {
+      weights: { ...weights },
+      feedbackCount,
+      averagePredictionError:
+        previousAverage +
+        (Math.abs(predictionError) - previousAverage) / feedbackCount,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    await this.saveToStorage();
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.learned = JSON.parse(stored);
+
+        for (const [profileType, entry] of Object.entries(this.learned)) {
+          if (!entry) continue;
+          try {
+            ahpCalculator.setLearnedWeights(
+              profileType as ProfileType,
+              entry.weights
+            );
+          } catch (error) {
+            console.warn(
+              `⚠️ Ignoring stored AHP weights for ${profileType}:`,
+              error
+            );
+            delete this.learned[profileType as ProfileType];
+          }
+        }
+
+        console.log(
+          `📚 Loaded learned AHP weights for: ${
+            Object.keys(this.learned).join(", ") || "none"
+          }`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Failed to load learned AHP weights:", error);
+    } finally {
+      this._initialized = true;
+    }
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        this.STORAGE_KEY,
+        JSON.stringify(this.learned)
+      );
+    } catch (error) {
+      console.error("❌ Failed to save learned AHP weights:", error);
+    }
+  }
+}
+
+export const ahpLearningService = new AHPLearningService();
+export { AHPLearningService };
@@ -6,7 +6,23 @@ import { useCameraPermissions } from "expo-camera";
 import * as ImageManipulator from "expo-image-manipulator";
 import * as MediaLibrary from "expo-media-library";
 import * as FileSystem from "expo-file-system";
+import * as Location from "expo-location";
 import { Alert } from "react-native";
+import { PhotoCaptureInfo, PhotoUpload, UserLocation } from "../types";
+import { readPhotoCaptureInfo } from "../utils/photoMetadata";
+
+// Each photo is its own blob, so a report can show more than one angle
+export const MAX_REPORT_PHOTOS = 3;
+
+// EXIF sits at the start of a JPEG; no need to read the whole file
+const EXIF_READ_BYTES = 128 * 1024;
+
+// A fix this recent still marks where the shutter was pressed
+const CAPTURE_POSITION_MAX_AGE_MS = 30 * 1000;
+
+// Firestore caps a document at 1 MiB; the blob's other fields need a little
+export const MAX_PHOTO_BLOB_BASE64_LENGTH = 1000000;
+const MAX_FIT_ATTEMPTS = 4;
 
 export interface CameraPermissions {
   camera: boolean;
@@ -15,7 +31,9 @@ export interface CameraPermissions {
 
 export interface CompressedPhoto {
   uri: string;
-  base64: string; // Add Base64 string for Firestore storage
+  base64: string; // Full-size JPEG for the photo store
+  thumbnailBase64: string; // Small JPEG for lists and previews
+  captureInfo: PhotoCaptureInfo; // EXIF or device GPS/time at capture, kept on device
   originalSize: number;
   compressedSize: number;
   compressionRatio: number;
@@ -26,14 +44,18 @@ export interface CompressedPhoto {
 export interface CameraServiceConfig {
   compressionQuality: number; // 0.1 to 1.0
   maxWidth: number; // Max width in pixels
+  thumbnailWidth: number; // Thumbnail width in pixels
   saveToGallery: boolean;
   enableVoiceFeedback: boolean;
 }
 
 class CameraService {
   private config: CameraServiceConfig = {
-    compressionQuality: 0.3, // Heavy compression for free Firebase storage
-    maxWidth: 800, // 800px max width
+    // Photos live in their own blob documents now, not inside every report
+    // read, so they can keep enough detail for reviewers (well under 1MB)
+    compressionQuality: 0.6,
+    maxWidth: 1280,
+    thumbnailWidth: 240,
     saveToGallery: true,
     enableVoiceFeedback: true,
   };
@@ -96,11 +118,43 @@ class CameraService {
     }
   }
 
+  /**
+   * Device position when a photo is taken. The in-app camera writes no GPS
+   * EXIF, so this is what the photo check compares with the report.
+   * Undefined without location permission; never prompts mid-capture.
+   */
+  async getCapturePosition(): Promise<UserLocation | undefined> {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== "granted") return undefined;
+
+      const position =
+        (await Location.getLastKnownPositionAsync({
+          maxAge: CAPTURE_POSITION_MAX_AGE_MS,
+        })) ||
+        (await Location.getCurrentPositionAsync({
+          accuracy: Location.Accuracy.Balanced,
+        }));
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy ?? undefined,
+      };
+    } catch (error) {
+      console.warn("Could not read position for photo:", error);
+      return undefined;
+    }
+  }
+
   /**
    * Compress photo with Filipino progress feedback
-   * Optimized for Base64 Firestore storage (completely free!)
+   * Produces the full-size image and a thumbnail for the photo store.
+   * deviceCapture fills in what the photo's own EXIF lacks.
    */
-  async compressPhoto(photoUri: string): Promise<CompressedPhoto | null> {
+  async compressPhoto(
+    photoUri: string,
+    deviceCapture: PhotoCaptureInfo = {}
+  ): Promise<CompressedPhoto | null> {
     try {
       console.log("🗜️ Starting photo compression for Base64 storage...");
 
@@ -111,6 +165,13 @@ class CameraService {
           ? originalFileInfo.size
           : 0;
 
+      // Read GPS/time before re-encoding; the compressed copy has no EXIF
+      const exifInfo = await this.readCaptureInfo(photoUri);
+      const captureInfo: PhotoCaptureInfo = {
+        location: exifInfo.location || deviceCapture.location,
+        takenAt: exifInfo.takenAt || deviceCapture.takenAt,
+      };
+
       // Compress the image
       const compressedImage = await ImageManipulator.manipulateAsync(
         photoUri,
@@ -125,6 +186,17 @@ class CameraService {
         }
       );
 
+      // Thumbnail from the already-resized image
+      const thumbnail = await ImageManipulator.manipulateAsync(
+        compressedImage.uri,
+        [{ resize: { width: this.config.thumbnailWidth } }],
+        {
+          compress: 0.5,
+          format: ImageManipulator.SaveFormat.JPEG,
+          base64: true,
+        }
+      );
+
       // Get compressed file info
       const compressedFileInfo = await FileSystem.getInfoAsync(
         compressedImage.uri
@@ -148,7 +220,9 @@ class CameraService {
 
       return {
         uri: compressedImage.uri,
-        base64: compressedImage.base64 || "", // Base64 string for Firestore
+        base64: compressedImage.base64 || "",
+        thumbnailBase64: thumbnail.base64 || "",
+        captureInfo,
         originalSize,
         compressedSize,
         compressionRatio,
@@ -165,6 +239,78 @@ class CameraService {
     }
   }
 
+  /**
+   * Re-encode a base64 JPEG until it fits in one photo blob. Photos taken
+   * through compressPhoto already fit; older embedded photos may not.
+   */
+  async fitToBlobLimit(base64: string): Promise<string> {
+    if (base64.length <= MAX_PHOTO_BLOB_BASE64_LENGTH) return base64;
+
+    const uri = `${FileSystem.cacheDirectory}oversized-${Date.now()}.jpg`;
+    await FileSystem.writeAsStringAsync(uri, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    try {
+      let width = this.config.maxWidth;
+      let quality = this.config.compressionQuality;
+
+      for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS; attempt++) {
+        // First pass only re-compresses, so a small image is never enlarged
+        const image = await ImageManipulator.manipulateAsync(
+          uri,
+          attempt === 0 ? [] : [{ resize: { width } }],
+          {
+            compress: quality,
+            format: ImageManipulator.SaveFormat.JPEG,
+            base64: true,
+          }
+        );
+        if (
+          image.base64 &&
+          image.base64.length <= MAX_PHOTO_BLOB_BASE64_LENGTH
+        ) {
+          console.log(
+            `🗜️ Oversized photo re-encoded: ${(base64.length / 1024).toFixed(
+              0
+            )}KB → ${(image.base64.length / 1024).toFixed(0)}KB Base64`
+          );
+          return image.base64;
+        }
+
+        if (attempt > 0) width = Math.round(width * 0.75);
+        quality = Math.max(0.3, quality - 0.1);
+      }
+    } finally {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+
+    throw new Error("Photo is still too large after compression");
+  }
+
+  /**
+   * EXIF GPS position and capture time of the original photo
+   */
+  private async readCaptureInfo(photoUri: string): Promise<PhotoCaptureInfo> {
+    try {
+      const header = await FileSystem.readAsStringAsync(photoUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: EXIF_READ_BYTES,
+      });
+      const captureInfo = readPhotoCaptureInfo(header);
+      console.log(
+        `🛰️ Photo EXIF: ${captureInfo.location ? "GPS" : "no GPS"}, ${
+          captureInfo.takenAt ? "timestamp" : "no timestamp"
+        }`
+      );
+      return captureInfo;
+    } catch (error) {
+      console.warn("Could not read photo EXIF:", error);
+      return {};
+    }
+  }
+
   /**
    * Save photo to device gallery with Filipino feedback
    */
@@ -192,7 +338,10 @@ class CameraService {
    * Complete photo capture process with compression and saving
    * Filipino-optimized workflow
    */
-  async processPhoto(photoUri: string): Promise<{
+  async processPhoto(
+    photoUri: string,
+    deviceCapture?: PhotoCaptureInfo
+  ): Promise<{
     success: boolean;
     compressedPhoto?: CompressedPhoto;
     message: string;
@@ -201,7 +350,7 @@ class CameraService {
       console.log("📸 Processing photo for obstacle report...");
 
       // Step 1: Compress photo
-      const compressedPhoto = await this.compressPhoto(photoUri);
+      const compressedPhoto = await this.compressPhoto(photoUri, deviceCapture);
       if (!compressedPhoto) {
         return {
           success: false,
@@ -351,3 +500,12 @@ export const showPhotoTips = (
 
   Alert.alert("Photo Tips", message, [{ text: "OK, Salamat! (OK, Thanks!)" }]);
 };
+
+// What a captured photo sends to the photo store with a report or edit
+export const toPhotoUpload = (photo: CompressedPhoto): PhotoUpload => ({
+  base64: photo.base64,
+  thumbnailBase64: photo.thumbnailBase64,
+  width: photo.width,
+  height: photo.height,
+  captureInfo: photo.captureInfo,
+});
@@ -0,0 +1,366 @@
+// src/services/elevationService.ts
+// Local elevation model for slope-aware routing
+// Samples gridded DEM tiles (bundled with the app or imported from an ESRI
+// ASCII grid or GeoTIFF) along routes, so bridge approaches and flyover ramps show up
+// as grades before a wheelchair user reaches them
+
+import * as FileSystem from "expo-file-system";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  ElevationProfile,
+  ElevationTile,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import { BUNDLED_ELEVATION_TILES } from "../data/elevationTiles";
+import {
+  buildElevationProfile,
+  gradeToDegrees,
+  isInTile,
+  sampleTileElevation,
+} from "../utils/elevationProfile";
+import { isGeoTiff, parseGeoTiff } from "../utils/geoTiff";
+import { base64ToBytes } from "../utils/photoMetadata";
+import { calculateDistance } from "../utils/mapUtils";
+
+// Listing entry kept in AsyncStorage; grids live on disk
+export interface ElevationTileSummary {
+  id: string;
+  name: string;
+  bounds: ElevationTile["bounds"];
+  rows: number;
+  cols: number;
+  source?: string;
+  importedAt: string; // ISO date string
+}
+
+// Shorter spans make DEM noise look like a slope
+const MIN_SLOPE_SPAN_METERS = 5;
+
+class ElevationService {
+  private readonly STORAGE_KEY = "@waispath:elevation_tiles";
+  private readonly TILE_DIRECTORY = `${FileSystem.documentDirectory}elevation/`;
+
+  private tiles: ElevationTile[] = [];
+  private _ready: Promise<void>;
+  private _initialized = false;
+
+  constructor() {
+    this.setTiles(BUNDLED_ELEVATION_TILES);
+    // Imported tiles are read in the background like learned AHP weights
+    this._ready = this.loadImportedTiles();
+  }
+
+  async ensureReady(): Promise<void> {
+    if (!this._initialized) {
+      await this._ready;
+    }
+  }
+
+  hasCoverage(point: UserLocation): boolean {
+    return this.tiles.some((tile) => isInTile(tile, point));
+  }
+
+  /**
+   * Meters above sea level from the finest tile covering the point
+   */
+  getElevation(point: UserLocation): number | null {
+    for (const tile of this.tiles) {
+      const elevation = sampleTileElevation(tile, point);
+      if (elevation !== null) return elevation;
+    }
+    return null;
+  }
+
+  /**
+   * Average slope between two points in degrees, null without DEM data
+   */
+  getSlopeDegrees(from: UserLocation, to: UserLocation): number | null {
+    const run = calculateDistance(from, to);
+    if (run < MIN_SLOPE_SPAN_METERS) return null;
+
+    const a = this.getElevation(from);
+    const b = this.getElevation(to);
+    if (a === null || b === null) return null;
+
+    return gradeToDegrees(((b - a) / run) * 100);
+  }
+
+  /**
+   * Elevation chart data and steep segments for one route; null when no
+   * tile covers it
+   */
+  getRouteProfile(
+    polyline: UserLocation[],
+    userProfile: Pick<UserMobilityProfile, "maxRampSlope">
+  ): ElevationProfile | null {
+    if (this.tiles.length === 0) return null;
+
+    const profile = buildElevationProfile(
+      polyline,
+      (point) => this.getElevation(point),
+      { maxSlopeDegrees: userProfile.maxRampSlope }
+    );
+    return profile && profile.coverage > 0 ? profile : null;
+  }
+
+  // =====================================================
+  // IMPORT
+  // =====================================================
+
+  /**
+   * Read an ESRI ASCII grid (.asc), uncompressed GeoTIFF or ElevationTile
+   * JSON from the device and keep it for later sessions
+   */
+  async importFromFile(
+    fileUri: string,
+    name?: string
+  ): Promise<ElevationTileSummary> {
+    try {
+      console.log(`⛰️ Reading elevation grid: ${fileUri}`);
+      const fileName = fileUri.split("/").pop() || "elevation";
+      const tileName = name || fileName.replace(/\.[^.]+$/, "");
+
+      // Binary GeoTIFF is told apart by its byte-order mark
+      const magic = await FileSystem.readAsStringAsync(fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: 4,
+      });
+      const tile = isGeoTiff(base64ToBytes(magic))
+        ? this.importFromBytes(
+            base64ToBytes(
+              await FileSystem.readAsStringAsync(fileUri, {
+                encoding: FileSystem.EncodingType.Base64,
+              })
+            ),
+            tileName
+          )
+        : this.importFromString(
+            await FileSystem.readAsStringAsync(fileUri),
+            tileName
+          );
+      return await this.saveTile(tile);
+    } catch (error: any) {
+      console.error("❌ Elevation import failed:", error);
+      throw new Error(`Hindi ma-import ang elevation file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Parse grid text without storing it. Format is sniffed from the content.
+   */
+  importFromString(content: string, name: string): ElevationTile {
+    const tile = content.trimStart().startsWith("{")
+      ? this.parseTileJson(JSON.parse(content), name)
+      : this.parseAsciiGrid(content, name);
+
+    this.validateTile(tile);
+    return tile;
+  }
+
+  /**
+   * Parse GeoTIFF bytes without storing them
+   */
+  importFromBytes(bytes: Uint8Array, name: string): ElevationTile {
+    const tile: ElevationTile = {
+      id: `dem_${Date.now()}`,
+      name,
+      ...parseGeoTiff(bytes),
+      source: "GeoTIFF",
+    };
+
+    this.validateTile(tile);
+    return tile;
+  }
+
+  async listImportedTiles(): Promise<ElevationTileSummary[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("❌ Failed to read elevation tile list:", error);
+      return [];
+    }
+  }
+
+  async deleteTile(tileId: string): Promise<void> {
+    const summaries = await this.listImportedTiles();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify(summaries.filter((summary) => summary.id !== tileId))
+    );
+    await FileSystem.deleteAsync(this.tileUri(tileId), { idempotent: true });
+
+    this.setTiles(this.tiles.filter((tile) => tile.id !== tileId));
+    console.log(`🗑️ Deleted elevation tile ${tileId}`);
+  }
+
+  // =====================================================
+  // PARSERS
+  // =====================================================
+
+  /**
+   * ESRI ASCII grid as written by gdal_translate -of AAIGrid. Must already
+   * be in EPSG:4326 (cell size in degrees).
+   */
+  private parseAsciiGrid(content: string, name: string): ElevationTile {
+    const tokens = content.trim().split(/\s+/);
+    const header: Record<string, number> = {};
+
+    let index = 0;
+    while (index < tokens.length - 1 && /^[a-z_]+$/i.test(tokens[index])) {
+      header[tokens[index].toLowerCase()] = parseFloat(tokens[index + 1]);
+      index += 2;
+    }
+
+    const cols = header.ncols;
+    const rows = header.nrows;
+    const cellSize = header.cellsize;
+    if (!cols || !rows || !cellSize) {
+      throw new Error("Missing ncols, nrows or cellsize in grid header");
+    }
+    if (cellSize >= 1) {
+      throw new Error(
+        "Grid cell size is not in degrees; reproject to EPSG:4326 first"
+      );
+    }
+
+    // Corner-registered grids give the outer edge, center-registered the first cell
+    const west = header.xllcorner ?? (header.xllcenter ?? NaN) - cellSize / 2;
+    const south = header.yllcorner ?? (header.yllcenter ?? NaN) - cellSize / 2;
+
+    return {
+      id: `dem_${Date.now()}`,
+      name,
+      bounds: {
+        north: south + rows * cellSize,
+        south,
+        east: west + cols * cellSize,
+        west,
+      },
+      rows,
+      cols,
+      elevations: tokens.slice(index).map((value) => parseFloat(value)),
+      noDataValue: header.nodata_value,
+      source: "ESRI ASCII grid",
+    };
+  }
+
+  private parseTileJson(json: any, name: string): ElevationTile {
+    return {
+      ...json,
+      id: json.id || `dem_${Date.now()}`,
+      name: json.name || name,
+    };
+  }
+
+  private validateTile(tile: ElevationTile): void {
+    const { north, south, east, west } = tile.bounds || ({} as any);
+    if (
+      ![north, south, east, west].every((value) => isFinite(value)) ||
+      north <= south ||
+      east <= west ||
+      Math.abs(north) > 90 ||
+      Math.abs(south) > 90
+    ) {
+      throw new Error("Invalid elevation tile bounds");
+    }
+    if (
+      !Array.isArray(tile.elevations) ||
+      tile.elevations.length !== tile.rows * tile.cols
+    ) {
+      throw new Error(
+        `Expected ${tile.rows * tile.cols} elevation values, got ${
+          tile.elevations?.length ?? 0
+        }`
+      );
+    }
+  }
+
+  // =====================================================
+  // STORAGE
+  // =====================================================
+
+  private async loadImportedTiles(): Promise<void> {
+    try {
+      const summaries = await this.listImportedTiles();
+      const loaded: ElevationTile[] = [];
+
+      for (const summary of summaries) {
+        try {
+          const content = await FileSystem.readAsStringAsync(
+            this.tileUri(summary.id)
+          );
+          loaded.push(JSON.parse(content));
+        } catch (error) {
+          console.warn(`⚠️ Missing elevation tile ${summary.id}:`, error);
+        }
+      }
+
+      if (loaded.length > 0) {
+        this.setTiles([...this.tiles, ...loaded]);
+        console.log(`⛰️ Loaded ${loaded.length} imported elevation tiles`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to load elevation tiles:", error);
+    } finally {
+      this._initialized = true;
+    }
+  }
+
+  private async saveTile(tile: ElevationTile): Promise<ElevationTileSummary> {
+    const info = await FileSystem.getInfoAsync(this.TILE_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.TILE_DIRECTORY, {
+        intermediates: true,
+      });
+    }
+    await FileSystem.writeAsStringAsync(
+      this.tileUri(tile.id),
+      JSON.stringify(tile)
+    );
+
+    const summary: ElevationTileSummary = {
+      id: tile.id,
+      name: tile.name,
+      bounds: tile.bounds,
+      rows: tile.rows,
+      cols: tile.cols,
+      source: tile.source,
+      importedAt: new Date().toISOString(),
+    };
+
+    const summaries = await this.listImportedTiles();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify([
+        ...summaries.filter((existing) => existing.id !== tile.id),
+        summary,
+      ])
+    );
+
+    this.setTiles([
+      ...this.tiles.filter((existing) => existing.id !== tile.id),
+      tile,
+    ]);
+    console.log(
+      `✅ Imported elevation tile "${tile.name}" (${tile.cols}x${tile.rows})`
+    );
+    return summary;
+  }
+
+  // Finest resolution first, so detailed tiles win where they overlap
+  private setTiles(tiles: ElevationTile[]): void {
+    const cellHeight = (tile: ElevationTile) =>
+      (tile.bounds.north - tile.bounds.south) / tile.rows;
+    this.tiles = [...tiles].sort((a, b) => cellHeight(a) - cellHeight(b));
+  }
+
+  private tileUri(tileId: string): string {
+    return `${this.TILE_DIRECTORY}${tileId}.json`;
+  }
+}
+
+export const elevationService = new ElevationService();
+export { ElevationService };
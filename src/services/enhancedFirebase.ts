@@ -13,11 +13,26 @@ import {
   UserCapabilities,
   AdminCapabilities,
 } from "./UserCapabilitiesService";
-import { UserLocation, ObstacleType, AccessibilityObstacle } from "../types";
+import {
+  UserLocation,
+  ObstacleType,
+  AccessibilityObstacle,
+  ObstacleTimeWindow,
+  PhotoUpload,
+  ReportEdit,
+  ReportRevision,
+} from "../types";
 import { Alert } from "react-native";
+import {
+  findDuplicateObstacles,
+  DuplicateMatch,
+  DUPLICATE_RADIUS_METERS,
+} from "../utils/obstacleDuplicates";
 
 // ENHANCED: Import admin status monitoring
 import { adminStatusChecker } from "./adminStatusChecker";
+import { isLocalBackend } from "../config/backendConfig";
+import { localBackend } from "./localBackend";
 
 // FIXED: Import AdminUser type from firebase service
 interface AdminUser {
@@ -34,8 +49,9 @@ interface EnhancedObstacleData {
   type: ObstacleType;
   severity: "low" | "medium" | "high" | "blocking";
   description: string;
-  photoBase64?: string;
+  photos?: PhotoUpload[];
   timePattern?: "permanent" | "morning" | "afternoon" | "evening" | "weekend";
+  schedule?: ObstacleTimeWindow[];
 }
 
 // FIXED: Enhanced reporting result with device-based rate limiting
@@ -87,12 +103,18 @@ class EnhancedFirebaseService {
         return this.unifiedAuthCache.user;
       }
 
-      // Use unified Firebase auth (prevents auth conflicts)
-      const { getUnifiedFirebaseAuth } = await import(
-        "../config/firebaseConfig"
-      );
-      const auth = await getUnifiedFirebaseAuth();
-      const currentUser = auth.currentUser;
+      let currentUser: any;
+      if (isLocalBackend()) {
+        // Local backend simulates the signed-in user and its claims
+        currentUser = localBackend.getCurrentUser();
+      } else {
+        // Use unified Firebase auth (prevents auth conflicts)
+        const { getUnifiedFirebaseAuth } = await import(
+          "../config/firebaseConfig"
+        );
+        const auth = await getUnifiedFirebaseAuth();
+        currentUser = auth.currentUser;
+      }
 
       console.log(
         `🔍 getCurrentFirebaseUser: ${
@@ -227,9 +249,17 @@ class EnhancedFirebaseService {
       // Ensure monitoring is stopped for non-admin users (single call)
       adminStatusChecker.stopMonitoring();
 
+      // Reputation unlocks trusted-user capabilities; missing is fine
+      const reputation = isRegistered
+        ? await firebaseServices.reputation
+            .getReputation(currentUser.uid)
+            .catch(() => undefined)
+        : undefined;
+
       const capabilities = userCapabilitiesService.getUserCapabilities(
         authType,
-        undefined
+        undefined,
+        reputation
       );
 
       // FIXED: Get device-based rate limit info for accurate display
@@ -421,6 +451,185 @@ class EnhancedFirebaseService {
     }
   }
 
+  /**
+   * Existing reports that look like the obstacle about to be reported.
+   * Never blocks reporting: if the lookup fails we just report as new.
+   */
+  async findDuplicateReports(
+    obstacleData: EnhancedObstacleData
+  ): Promise<DuplicateMatch[]> {
+    try {
+      const nearby = await firebaseServices.obstacle.getObstaclesInArea(
+        obstacleData.location.latitude,
+        obstacleData.location.longitude,
+        DUPLICATE_RADIUS_METERS / 1000
+      );
+      return findDuplicateObstacles(obstacleData, nearby);
+    } catch (error) {
+      console.warn("Duplicate check failed, reporting as new:", error);
+      return [];
+    }
+  }
+
+  /**
+   * "Confirm existing" instead of a new report. Counts against the same
+   * reporting limits, since it is still a report.
+   */
+  async confirmExistingReportEnhanced(
+    obstacleId: string
+  ): Promise<EnhancedReportingResult> {
+    try {
+      const context = await this.getCurrentUserContext();
+
+      const rateLimitCheck = await deviceRateLimitService.checkReportingLimits(
+        context.uid,
+        context.authType
+      );
+
+      if (!rateLimitCheck.allowed) {
+        return {
+          success: false,
+          rateLimitInfo: rateLimitCheck,
+          userCapabilities: context.capabilities,
+          message: rateLimitCheck.message || "Daily report limit reached.",
+        };
+      }
+
+      await firebaseServices.obstacle.confirmExistingReport(obstacleId);
+      await deviceRateLimitService.recordReport(context.uid, context.authType);
+      this.userContextCache = null;
+
+      return {
+        success: true,
+        obstacleId,
+        rateLimitInfo: {
+          ...rateLimitCheck,
+          remaining: rateLimitCheck.remaining - 1,
+        },
+        userCapabilities: context.capabilities,
+        message: "Salamat! Your confirmation was added to the existing report.",
+      };
+    } catch (error: any) {
+      console.error("Confirming existing report failed:", error);
+      return {
+        success: false,
+        rateLimitInfo: {
+          allowed: false,
+          remaining: 0,
+          resetTime: new Date(),
+          authType: "anonymous",
+          upgradeRequired: false,
+          message: "Reporting failed",
+        },
+        userCapabilities: this.getDefaultCapabilities(),
+        message: `Failed to confirm report: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Admin only: merge duplicate reports into one record
+   */
+  async mergeDuplicateReports(
+    primaryId: string,
+    duplicateIds: string[]
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const adminUser = await firebaseServices.obstacle.getCurrentAdminUser();
+      if (!adminUser) {
+        return { success: false, message: "Only admins can merge reports" };
+      }
+
+      await firebaseServices.obstacle.mergeObstacles(
+        primaryId,
+        duplicateIds,
+        adminUser
+      );
+
+      return {
+        success: true,
+        message: `Merged ${duplicateIds.length} duplicate report(s)`,
+      };
+    } catch (error: any) {
+      console.error("Merging duplicate reports failed:", error);
+      return { success: false, message: error.message };
+    }
+  }
+
+  /**
+   * Reporter edit of a pending report (needs canModifyOwnReports)
+   */
+  async editOwnReport(
+    obstacleId: string,
+    edit: ReportEdit
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const context = await this.getCurrentUserContext();
+      if (!context.capabilities.canModifyOwnReports) {
+        return {
+          success: false,
+          message: "Register to edit your reports",
+        };
+      }
+
+      const revision = await firebaseServices.obstacle.editReport(
+        obstacleId,
+        edit
+      );
+
+      return {
+        success: true,
+        message: revision.validationReset
+          ? "Report updated. Community votes were reset because the report changed."
+          : "Report updated.",
+      };
+    } catch (error: any) {
+      console.error("Editing report failed:", error);
+      return { success: false, message: error.message };
+    }
+  }
+
+  /**
+   * Reporter withdrawal of a pending report (needs canModifyOwnReports)
+   */
+  async withdrawOwnReport(
+    obstacleId: string,
+    reason?: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const context = await this.getCurrentUserContext();
+      if (!context.capabilities.canModifyOwnReports) {
+        return {
+          success: false,
+          message: "Register to withdraw your reports",
+        };
+      }
+
+      await firebaseServices.obstacle.withdrawReport(obstacleId, reason);
+      return { success: true, message: "Report withdrawn." };
+    } catch (error: any) {
+      console.error("Withdrawing report failed:", error);
+      return { success: false, message: error.message };
+    }
+  }
+
+  /**
+   * Revision history of a report; admins only, empty for everyone else
+   */
+  async getReportRevisionsForAdmin(
+    obstacleId: string
+  ): Promise<ReportRevision[]> {
+    try {
+      const adminUser = await firebaseServices.obstacle.getCurrentAdminUser();
+      if (!adminUser) return [];
+
+      return await firebaseServices.obstacle.getReportRevisions(obstacleId);
+    } catch (error) {
+      console.error("Loading report revisions failed:", error);
+      return [];
+    }
+  }
+
   /**
    * Enhanced obstacle verification with admin capabilities check
    */
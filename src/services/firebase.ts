@@ -7,9 +7,42 @@ import {
   AccessibilityObstacle,
   ObstacleType,
   UserLocation,
+  ObstacleTimeWindow,
+  ObstaclePhoto,
+  PhotoUpload,
+  ReportEdit,
+  ReportRevision,
 } from "../types";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { getFirebaseConfig } from "../config/firebaseConfig";
+import { getBackendMode } from "../config/backendConfig";
+import { LocalFirebaseService } from "./localFirebaseService";
+import {
+  encodeGeohash,
+  geohashCellsForRadius,
+  geohashCellsForCorridor,
+} from "../utils/geohash";
+import { validateTimeWindow } from "../utils/obstacleSchedule";
+import { withExpiryStatus } from "../utils/obstacleDecay";
+import { sha256Hex } from "../utils/contentHash";
+import { cameraService, MAX_PHOTO_BLOB_BASE64_LENGTH } from "./cameraService";
+import { checkPhotoLocation, stripJpegMetadata } from "../utils/photoMetadata";
+import { mergeDuplicateVotes } from "../utils/obstacleDuplicates";
+import {
+  applyReportEdit,
+  assertReportModifiable,
+  buildRevision,
+  getRevisionFields,
+  VALIDATION_RESET,
+} from "../utils/reportRevisions";
+import {
+  addWeightedVote,
+  decideCommunityStatus,
+} from "../utils/communityValidation";
+import {
+  userCapabilitiesService,
+  UserReputationData,
+} from "./UserCapabilitiesService";
 
 interface ValidationEvent {
   action: "confirmed" | "disputed" | "skipped";
@@ -34,19 +67,29 @@ interface FirebaseService {
     getProfile: () => Promise<UserMobilityProfile | null>;
     deleteProfile: () => Promise<void>;
   };
+  // Validation track record; trustScore weights the user's votes
+  reputation: {
+    getReputation: (uid: string) => Promise<UserReputationData>;
+  };
+  // Content-addressed photo store; reports only keep ObstaclePhoto refs
+  photos: {
+    uploadPhoto: (photo: PhotoUpload) => Promise<ObstaclePhoto>;
+    getPhoto: (blobId: string) => Promise<string | null>; // Base64 JPEG
+  };
   obstacle: {
     reportObstacle: (obstacle: {
       location: UserLocation;
       type: ObstacleType;
       severity: "low" | "medium" | "high" | "blocking";
       description: string;
-      photoBase64?: string;
+      photos?: PhotoUpload[];
       timePattern?:
         | "permanent"
         | "morning"
         | "afternoon"
         | "evening"
         | "weekend";
+      schedule?: ObstacleTimeWindow[];
       // NEW: Admin context (optional)
       adminUser?: AdminUser;
     }) => Promise<string>;
@@ -55,6 +98,14 @@ interface FirebaseService {
       lng: number,
       radiusKm: number
     ) => Promise<AccessibilityObstacle[]>;
+    getObstaclesAlongRoute: (
+      routePoints: UserLocation[],
+      bufferMeters: number
+    ) => Promise<AccessibilityObstacle[]>;
+    // One-off migration for obstacles reported before geohash indexing
+    backfillGeohashes: () => Promise<number>;
+    // One-off migration moving embedded photoBase64 into the photo store
+    migrateEmbeddedPhotos: () => Promise<number>;
     verifyObstacle: (
       obstacleId: string,
       verification: "upvote" | "downvote"
@@ -80,10 +131,26 @@ interface FirebaseService {
     getObstacleById: (
       obstacleId: string
     ) => Promise<AccessibilityObstacle | null>;
+    // Duplicate handling: a second report of a known obstacle, and admin merge
+    confirmExistingReport: (obstacleId: string) => Promise<void>;
+    mergeObstacles: (
+      primaryId: string,
+      duplicateIds: string[],
+      adminUser: AdminUser
+    ) => Promise<void>;
+    // Reporter changes while pending; each logs a report_revisions entry
+    editReport: (obstacleId: string, edit: ReportEdit) => Promise<ReportRevision>;
+    withdrawReport: (
+      obstacleId: string,
+      reason?: string
+    ) => Promise<ReportRevision>;
+    getReportRevisions: (obstacleId: string) => Promise<ReportRevision[]>;
   };
 }
 
 // Helper functions for spatial filtering
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
 function haversineKm(
   a: { latitude: number; longitude: number },
   b: { latitude: number; longitude: number }
@@ -102,6 +169,41 @@ function haversineKm(
   return R * c; // km
 }
 
+// Distance from a point to a polyline (km), for route corridor filtering
+function distanceToPolylineKm(
+  point: { latitude: number; longitude: number },
+  polyline: { latitude: number; longitude: number }[]
+) {
+  if (polyline.length === 1) return haversineKm(point, polyline[0]);
+
+  let min = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    const dx = b.longitude - a.longitude;
+    const dy = b.latitude - a.latitude;
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((point.longitude - a.longitude) * dx +
+                (point.latitude - a.latitude) * dy) /
+                lenSq
+            )
+          );
+    const projected = {
+      latitude: a.latitude + t * dy,
+      longitude: a.longitude + t * dx,
+    };
+    min = Math.min(min, haversineKm(point, projected));
+  }
+  return min;
+}
+
 function dedupeById<T extends { id?: string }>(arr: T[]) {
   const map = new Map<string, T>();
   arr.forEach((v) => {
@@ -118,6 +220,7 @@ class SimpleFirebaseService implements FirebaseService {
   private db: any = null;
   private connectionFailed = false;
   private auth: any = null; // 🔥 NEW: Store auth instance for lazy anonymous creation
+  private legacyObstaclesRemain: boolean | null = null; // Until backfilled
 
   // 🔥 PHASE 1 FIX: Remove auto-anonymous creation
   async ensureInitialized(): Promise<void> {
@@ -231,6 +334,134 @@ class SimpleFirebaseService implements FirebaseService {
     return "mobile";
   }
 
+  /**
+   * Map an obstacle document to the app model, or null for merged
+   * duplicates and withdrawn reports
+   */
+  private toObstacle(docId: string, data: any): AccessibilityObstacle | null {
+    // Merged duplicates live on in their primary record; withdrawn
+    // reports stay only in the reporter's list
+    if (data.mergedInto || data.status === "withdrawn") return null;
+
+    // Stale unconfirmed reports come back as "expired"
+    return withExpiryStatus({
+      id: data.id || docId,
+      location: data.location,
+      type: data.type as ObstacleType,
+      severity: data.severity,
+      description: data.description,
+      reportedBy: data.reportedBy,
+      reportedAt: data.reportedAt?.toDate() || new Date(),
+      verified: data.verified || false,
+      status: data.status || "pending",
+      upvotes: data.upvotes || 0,
+      downvotes: data.downvotes || 0,
+      reportsCount: data.reportsCount || 1,
+      weightedUpvotes: data.weightedUpvotes,
+      weightedDownvotes: data.weightedDownvotes,
+      // Refs only: map and route reads never carry image data
+      photos: data.photos,
+      photoCheck: data.photoCheck,
+      timePattern: data.timePattern || "permanent",
+      schedule: data.schedule,
+      lastVerifiedAt: data.lastVerifiedAt?.toDate(),
+      lastConfirmedAt: data.lastConfirmedAt?.toDate(),
+      reviewedAt: data.reviewedAt?.toDate(),
+    });
+  }
+
+  /**
+   * Fetch obstacles whose geohash starts with any of the given cells.
+   * One prefix-range query per cell, run in parallel.
+   */
+  private async queryObstaclesInCells(
+    cells: string[]
+  ): Promise<AccessibilityObstacle[]> {
+    const { collection, query, orderBy, startAt, endAt, getDocs } =
+      await import("firebase/firestore");
+
+    const snapshots = await Promise.all(
+      cells.map((cell) =>
+        getDocs(
+          query(
+            collection(this.db, "obstacles"),
+            orderBy("geohash"),
+            startAt(cell),
+            endAt(cell + "\uf8ff")
+          )
+        )
+      )
+    );
+
+    const obstacles: AccessibilityObstacle[] = [];
+    snapshots.forEach((snapshot) => {
+      snapshot.forEach((doc) => {
+        const obstacle = this.toObstacle(doc.id, doc.data());
+        if (obstacle) obstacles.push(obstacle);
+      });
+    });
+
+    return obstacles;
+  }
+
+  /**
+   * Whether obstacles without a geohash may still exist. backfillGeohashes
+   * records completion in app_config/geohash_index; read once per session.
+   */
+  private async hasLegacyObstacles(): Promise<boolean> {
+    if (this.legacyObstaclesRemain !== null) return this.legacyObstaclesRemain;
+
+    const { doc, getDoc } = await import("firebase/firestore");
+    try {
+      const snapshot = await getDoc(
+        doc(this.db, "app_config", "geohash_index")
+      );
+      this.legacyObstaclesRemain = !(
+        snapshot.exists() && snapshot.data().complete === true
+      );
+    } catch (error) {
+      // Unknown: keep finding legacy documents, ask again next time
+      console.warn("⚠️ Could not read geohash index status:", error);
+      return true;
+    }
+    return this.legacyObstaclesRemain;
+  }
+
+  /**
+   * Obstacles reported before geohash indexing, in a latitude band.
+   * Prefix queries skip documents without a geohash, so until
+   * backfillGeohashes has run these are found the old way.
+   */
+  private async queryLegacyObstacles(
+    south: number,
+    north: number
+  ): Promise<AccessibilityObstacle[]> {
+    if (!(await this.hasLegacyObstacles())) return [];
+
+    const { collection, query, where, getDocs } = await import(
+      "firebase/firestore"
+    );
+
+    const snapshot = await getDocs(
+      query(
+        collection(this.db, "obstacles"),
+        where("location.latitude", ">=", south),
+        where("location.latitude", "<=", north)
+      )
+    );
+
+    const obstacles: AccessibilityObstacle[] = [];
+    snapshot.forEach((doc) => {
+      const data = doc.data();
+      if (data.geohash) return; // Already found by the cell queries
+
+      const obstacle = this.toObstacle(doc.id, data);
+      if (obstacle) obstacles.push(obstacle);
+    });
+
+    return obstacles;
+  }
+
   profile = {
     saveProfile: async (profile: UserMobilityProfile): Promise<void> => {
       await this.ensureInitialized();
@@ -335,6 +566,225 @@ class SimpleFirebaseService implements FirebaseService {
     },
   };
 
+  reputation = {
+    getReputation: async (uid: string): Promise<UserReputationData> => {
+      await this.ensureInitialized();
+
+      const { doc, getDoc } = await import("firebase/firestore");
+
+      try {
+        const snapshot = await getDoc(doc(this.db, "user_reputation", uid));
+        if (!snapshot.exists()) {
+          return userCapabilitiesService.getDefaultReputation();
+        }
+
+        const data = snapshot.data();
+        return {
+          ...userCapabilitiesService.getDefaultReputation(),
+          ...data,
+          joinedDate: data.joinedDate?.toDate() || new Date(),
+        } as UserReputationData;
+      } catch (error: any) {
+        // Unknown reputation votes at the default weight rather than failing
+        console.warn("Failed to load reputation:", error);
+        return userCapabilitiesService.getDefaultReputation();
+      }
+    },
+  };
+
+  photos = {
+    uploadPhoto: async (photo: PhotoUpload): Promise<ObstaclePhoto> => {
+      await this.ensureInitialized();
+      await this.ensureAnonymousUser();
+
+      try {
+        // No EXIF/XMP leaves the device: GPS, device model, owner names
+        const [id, thumbnailId] = await Promise.all(
+          [photo.base64, photo.thumbnailBase64].map(async (base64) =>
+            this.putBlob(
+              await cameraService.fitToBlobLimit(stripJpegMetadata(base64))
+            )
+          )
+        );
+
+        return { id, thumbnailId, width: photo.width, height: photo.height };
+      } catch (error: any) {
+        console.error("Failed to upload photo:", error);
+        throw new Error(`Hindi ma-upload ang larawan: ${error.message}`);
+      }
+    },
+
+    getPhoto: async (blobId: string): Promise<string | null> => {
+      await this.ensureInitialized();
+
+      const { doc, getDoc } = await import("firebase/firestore");
+
+      try {
+        const snapshot = await getDoc(doc(this.db, "photo_blobs", blobId));
+        return snapshot.exists() ? snapshot.data().data : null;
+      } catch (error: any) {
+        console.error("Failed to load photo:", error);
+        throw new Error(`Hindi ma-load ang larawan: ${error.message}`);
+      }
+    },
+  };
+
+  /**
+   * Store a blob under the SHA-256 of its content. Identical photos (a
+   * retry, or the same shot on two reports) are stored once.
+   */
+  private async putBlob(base64: string): Promise<string> {
+    const { doc, getDoc, setDoc, serverTimestamp } = await import(
+      "firebase/firestore"
+    );
+
+    if (base64.length > MAX_PHOTO_BLOB_BASE64_LENGTH) {
+      throw new Error(
+        `Photo is too large to store (${Math.round(
+          (base64.length * 0.75) / 1024
+        )}KB)`
+      );
+    }
+
+    const blobId = sha256Hex(base64);
+    const blobRef = doc(this.db, "photo_blobs", blobId);
+
+    if (!(await getDoc(blobRef)).exists()) {
+      await setDoc(blobRef, {
+        data: base64,
+        contentType: "image/jpeg",
+        size: Math.round(base64.length * 0.75),
+        uploadedBy: this.currentUser?.uid || "anonymous",
+        uploadedAt: serverTimestamp(),
+      });
+    }
+
+    return blobId;
+  }
+
+  /**
+   * Reporter edit or withdrawal of a pending report. The report update and
+   * its revision entry are written in one transaction, so history never
+   * misses a change.
+   */
+  private async reviseOwnReport(
+    obstacleId: string,
+    action: ReportRevision["action"],
+    edit?: ReportEdit,
+    reason?: string
+  ): Promise<ReportRevision> {
+    await this.ensureInitialized();
+    await this.ensureAnonymousUser();
+
+    const {
+      collection,
+      query,
+      where,
+      getDocs,
+      doc,
+      runTransaction,
+      deleteField,
+      serverTimestamp,
+    } = await import("firebase/firestore");
+
+    try {
+      const userId = this.currentUser.uid;
+
+      const snapshot = await getDocs(
+        query(collection(this.db, "obstacles"), where("id", "==", obstacleId))
+      );
+      if (snapshot.empty) {
+        throw new Error(`Report ${obstacleId} not found`);
+      }
+      const obstacleRef = snapshot.docs[0].ref;
+
+      // Upload outside the transaction, which may run more than once
+      const newPhotos = edit?.photos
+        ? await Promise.all(
+            edit.photos.map((photo) => this.photos.uploadPhoto(photo))
+          )
+        : undefined;
+
+      const revisionRef = doc(collection(this.db, "report_revisions"));
+      const editedAt = new Date();
+
+      const revision = await runTransaction(this.db, async (transaction) => {
+        const data = (await transaction.get(obstacleRef)).data();
+        if (!data) {
+          throw new Error(`Report ${obstacleId} not found`);
+        }
+        const report = data as AccessibilityObstacle;
+        assertReportModifiable(report, userId);
+
+        const after =
+          action === "edit"
+            ? applyReportEdit(getRevisionFields(report), {
+                ...edit,
+                photos: newPhotos,
+              })
+            : getRevisionFields(report);
+        const entry = buildRevision({
+          obstacleId,
+          revision: (data.revisionCount || 0) + 1,
+          action,
+          editedBy: userId,
+          editedAt,
+          report,
+          after,
+          reason,
+        });
+
+        transaction.set(revisionRef, {
+          ...entry,
+          editedAt: serverTimestamp(),
+        });
+        transaction.update(obstacleRef, {
+          ...(action === "edit"
+            ? {
+                type: after.type,
+                severity: after.severity,
+                description: after.description,
+                photos: after.photos,
+              }
+            : { status: "withdrawn" }),
+          // New photos get a fresh EXIF check; the legacy embed goes away
+          ...(edit?.photos && {
+            photoCheck: edit.photos.length
+              ? checkPhotoLocation(
+                  edit.photos.map((photo) => photo.captureInfo || {}),
+                  data.location,
+                  editedAt
+                )
+              : deleteField(),
+            photoBase64: deleteField(),
+          }),
+          ...(entry.validationReset && {
+            ...VALIDATION_RESET,
+            lastVerifiedAt: deleteField(),
+            lastConfirmedAt: deleteField(),
+          }),
+          revisionCount: entry.revision,
+          lastEditedAt: serverTimestamp(),
+        });
+
+        return entry;
+      });
+
+      console.log(
+        `✏️ Report ${obstacleId} ${
+          action === "edit" ? "edited" : "withdrawn"
+        } (revision ${revision.revision}${
+          revision.validationReset ? ", votes reset" : ""
+        })`
+      );
+
+      return { id: revisionRef.id, ...revision };
+    } catch (error: any) {
+      console.error(`Failed to ${action} report:`, error);
+      throw new Error(`Hindi mabago ang report: ${error.message}`);
+    }
+  }
+
   obstacle = {
     // ENHANCED: Updated reportObstacle with admin support
     reportObstacle: async (obstacleData: {
@@ -342,13 +792,14 @@ class SimpleFirebaseService implements FirebaseService {
       type: ObstacleType;
       severity: "low" | "medium" | "high" | "blocking";
       description: string;
-      photoBase64?: string;
+      photos?: PhotoUpload[];
       timePattern?:
         | "permanent"
         | "morning"
         | "afternoon"
         | "evening"
         | "weekend";
+      schedule?: ObstacleTimeWindow[];
       // NEW: Admin context (optional)
       adminUser?: AdminUser;
     }): Promise<string> => {
@@ -362,10 +813,31 @@ class SimpleFirebaseService implements FirebaseService {
       );
 
       try {
+        obstacleData.schedule?.forEach(validateTimeWindow);
+
         const obstacleId = `obstacle_${Date.now()}_${Math.random()
           .toString(36)
           .substr(2, 9)}`;
 
+        // Photos go to the blob store first; the report keeps only refs
+        const photos = await Promise.all(
+          (obstacleData.photos || []).map((photo) =>
+            this.photos.uploadPhoto(photo)
+          )
+        );
+
+        // EXIF vs. reported location; raw GPS/time are not stored
+        const photoCheck = obstacleData.photos?.length
+          ? checkPhotoLocation(
+              obstacleData.photos.map((photo) => photo.captureInfo || {}),
+              obstacleData.location,
+              new Date()
+            )
+          : null;
+        if (photoCheck?.status === "mismatch" || photoCheck?.staleTimestamp) {
+          console.warn("📍 Photo location mismatch flagged:", photoCheck);
+        }
+
         // NEW: Admin logic - safe defaults for non-admin users
         const isAdminReport = obstacleData.adminUser?.isAdmin === true;
         const adminRole = obstacleData.adminUser?.role;
@@ -377,12 +849,21 @@ class SimpleFirebaseService implements FirebaseService {
             latitude: obstacleData.location.latitude,
             longitude: obstacleData.location.longitude,
           },
+          // Spatial index for bounded area/corridor queries
+          geohash: encodeGeohash(
+            obstacleData.location.latitude,
+            obstacleData.location.longitude
+          ),
           type: obstacleData.type,
           severity: obstacleData.severity,
           description: obstacleData.description,
           reportedBy: this.currentUser.uid,
           reportedAt: serverTimestamp(),
           timePattern: obstacleData.timePattern || "permanent",
+          // Weekly windows for time-dependent obstacles (omitted when always present)
+          ...(obstacleData.schedule?.length && {
+            schedule: obstacleData.schedule,
+          }),
 
           // ENHANCED: Auto-verification for admin reports
           verified: isAdminReport, // Admin reports are auto-verified
@@ -402,9 +883,8 @@ class SimpleFirebaseService implements FirebaseService {
           reportsCount: 1,
 
           // Media
-          ...(obstacleData.photoBase64 && {
-            photoBase64: obstacleData.photoBase64,
-          }),
+          ...(photos.length && { photos }),
+          ...(photoCheck && { photoCheck }),
           deviceType: await this.getUserDeviceType(),
         };
 
@@ -435,35 +915,20 @@ class SimpleFirebaseService implements FirebaseService {
       // 🔥 PHASE 1 FIX: getObstaclesInArea doesn't need user authentication
       // This is a read operation that can work without currentUser
 
-      const { collection, getDocs } = await import("firebase/firestore");
-
       try {
-        const obstaclesSnapshot = await getDocs(
-          collection(this.db, "obstacles")
+        // Only fetch the geohash cells covering the circle
+        const cells = geohashCellsForRadius(
+          { latitude: lat, longitude: lng },
+          radiusKm
         );
-
-        const allObstacles: AccessibilityObstacle[] = [];
-
-        obstaclesSnapshot.forEach((doc) => {
-          const data = doc.data();
-          const obstacle: AccessibilityObstacle = {
-            id: data.id || doc.id,
-            location: data.location,
-            type: data.type as ObstacleType,
-            severity: data.severity,
-            description: data.description,
-            reportedBy: data.reportedBy,
-            reportedAt: data.reportedAt?.toDate() || new Date(),
-            verified: data.verified || false,
-            upvotes: data.upvotes || 0,
-            downvotes: data.downvotes || 0,
-            photoBase64: data.photoBase64,
-            timePattern: data.timePattern || "permanent",
-          };
-          allObstacles.push(obstacle);
-        });
-
-        const filteredObstacles = allObstacles.filter((obstacle) => {
+        const latitudeSpan = radiusKm / KM_PER_DEGREE_LATITUDE;
+        const [cellObstacles, legacy] = await Promise.all([
+          this.queryObstaclesInCells(cells),
+          this.queryLegacyObstacles(lat - latitudeSpan, lat + latitudeSpan),
+        ]);
+        const candidates = [...cellObstacles, ...legacy];
+
+        const filteredObstacles = candidates.filter((obstacle) => {
           const distance = haversineKm(
             { latitude: lat, longitude: lng },
             obstacle.location
@@ -474,7 +939,7 @@ class SimpleFirebaseService implements FirebaseService {
         const deduped = dedupeById(filteredObstacles);
 
         console.log(
-          `📍 Found ${deduped.length} obstacles in ${radiusKm}km radius`
+          `📍 Found ${deduped.length} obstacles in ${radiusKm}km radius (${cells.length} cells)`
         );
 
         return deduped;
@@ -484,6 +949,127 @@ class SimpleFirebaseService implements FirebaseService {
       }
     },
 
+    getObstaclesAlongRoute: async (
+      routePoints: UserLocation[],
+      bufferMeters: number
+    ): Promise<AccessibilityObstacle[]> => {
+      await this.ensureInitialized();
+
+      if (routePoints.length === 0) return [];
+
+      try {
+        const bufferKm = bufferMeters / 1000;
+        const cells = geohashCellsForCorridor(routePoints, bufferKm);
+        const latitudes = routePoints.map((point) => point.latitude);
+        const latitudeSpan = bufferKm / KM_PER_DEGREE_LATITUDE;
+        const [cellObstacles, legacy] = await Promise.all([
+          this.queryObstaclesInCells(cells),
+          this.queryLegacyObstacles(
+            Math.min(...latitudes) - latitudeSpan,
+            Math.max(...latitudes) + latitudeSpan
+          ),
+        ]);
+        const candidates = [...cellObstacles, ...legacy];
+
+        const corridorObstacles = dedupeById(
+          candidates.filter(
+            (obstacle) =>
+              obstacle.location &&
+              distanceToPolylineKm(obstacle.location, routePoints) <= bufferKm
+          )
+        );
+
+        console.log(
+          `📍 Found ${corridorObstacles.length} obstacles within ${bufferMeters}m of route (${cells.length} cells)`
+        );
+
+        return corridorObstacles;
+      } catch (error: any) {
+        console.error("Failed to get obstacles along route:", error);
+        throw new Error(`Hindi ma-load ang mga obstacles: ${error.message}`);
+      }
+    },
+
+    backfillGeohashes: async (): Promise<number> => {
+      await this.ensureInitialized();
+
+      const { collection, doc, getDocs, setDoc, updateDoc, serverTimestamp } =
+        await import("firebase/firestore");
+
+      try {
+        // Full scan is acceptable here: admin-triggered, runs once per legacy dataset
+        const snapshot = await getDocs(collection(this.db, "obstacles"));
+        let updated = 0;
+
+        for (const obstacleDoc of snapshot.docs) {
+          const data = obstacleDoc.data();
+          if (data.geohash || !data.location) continue;
+
+          await updateDoc(obstacleDoc.ref, {
+            geohash: encodeGeohash(
+              data.location.latitude,
+              data.location.longitude
+            ),
+          });
+          updated++;
+        }
+
+        // Every document is indexed now: area and route queries can stop
+        // scanning latitude bands for unindexed ones
+        await setDoc(doc(this.db, "app_config", "geohash_index"), {
+          complete: true,
+          backfilledAt: serverTimestamp(),
+          backfilledCount: updated,
+        });
+        this.legacyObstaclesRemain = false;
+
+        console.log(`🗂️ Backfilled geohash on ${updated} obstacles`);
+        return updated;
+      } catch (error: any) {
+        console.error("Failed to backfill geohashes:", error);
+        throw new Error(`Failed to backfill geohashes: ${error.message}`);
+      }
+    },
+
+    migrateEmbeddedPhotos: async (): Promise<number> => {
+      await this.ensureInitialized();
+
+      const { collection, getDocs, updateDoc, deleteField } = await import(
+        "firebase/firestore"
+      );
+
+      try {
+        // Full scan, like backfillGeohashes: admin-triggered, runs once
+        const snapshot = await getDocs(collection(this.db, "obstacles"));
+        let migrated = 0;
+
+        for (const obstacleDoc of snapshot.docs) {
+          const data = obstacleDoc.data();
+          if (!data.photoBase64) continue;
+
+          // Legacy photos have no separate thumbnail; the full image stands in
+          const photo = await this.photos.uploadPhoto({
+            base64: data.photoBase64,
+            thumbnailBase64: data.photoBase64,
+            width: 0,
+            height: 0,
+          });
+
+          await updateDoc(obstacleDoc.ref, {
+            photos: [...(data.photos || []), photo],
+            photoBase64: deleteField(),
+          });
+          migrated++;
+        }
+
+        console.log(`🖼️ Moved ${migrated} embedded photos to the photo store`);
+        return migrated;
+      } catch (error: any) {
+        console.error("Failed to migrate embedded photos:", error);
+        throw new Error(`Failed to migrate photos: ${error.message}`);
+      }
+    },
+
     verifyObstacle: async (
       obstacleId: string,
       verification: "upvote" | "downvote"
@@ -498,7 +1084,7 @@ class SimpleFirebaseService implements FirebaseService {
         query,
         where,
         getDocs,
-        updateDoc,
+        runTransaction,
         increment,
         arrayUnion,
         serverTimestamp,
@@ -515,19 +1101,50 @@ class SimpleFirebaseService implements FirebaseService {
         const querySnapshot = await getDocs(obstaclesQuery);
 
         if (!querySnapshot.empty) {
-          const obstacleDoc = querySnapshot.docs[0];
+          const obstacleRef = querySnapshot.docs[0].ref;
+          const weight = userCapabilitiesService.getVoteWeight(
+            await this.reputation.getReputation(userId)
+          );
 
-          // 🔥 PHASE 1 CRITICAL FIX: Only update vote counts and metadata
-          // DO NOT increment reportsCount - that's for duplicate reports, not validations
-          await updateDoc(obstacleDoc.ref, {
-            [verification === "upvote" ? "upvotes" : "downvotes"]: increment(1),
-            [`${verification}dBy`]: arrayUnion(userId),
-            // ❌ REMOVED: reportsCount: increment(1),  // THIS WAS THE BUG CAUSING CORRUPTION
-            lastVerifiedAt: serverTimestamp(),
+          // Tally and status must come from the same snapshot, or two
+          // concurrent votes would each miss the other's weight. Reputation
+          // follows the status server-side (functions/src/index.ts).
+          await runTransaction(this.db, async (transaction) => {
+            const data = (await transaction.get(obstacleRef)).data() || {};
+
+            // A repeat vote is recorded but adds no weight or count
+            const votersKey = `${verification}dBy`;
+            const alreadyVoted = (data[votersKey] || []).includes(userId);
+            const tally = addWeightedVote(data, verification, userId, weight);
+
+            // Admin decisions are final; otherwise the weighted tally decides
+            const adminDecided = data.adminValidation || data.verified;
+            const status = adminDecided
+              ? data.status
+              : decideCommunityStatus(tally, data.severity);
+
+            // 🔥 PHASE 1 CRITICAL FIX: Only update vote counts and metadata
+            // DO NOT increment reportsCount - that's for duplicate reports, not validations
+            transaction.update(obstacleRef, {
+              ...(!alreadyVoted && {
+                [verification === "upvote" ? "upvotes" : "downvotes"]:
+                  increment(1),
+                [votersKey]: arrayUnion(userId),
+              }),
+              ...tally,
+              ...(!adminDecided && { status }),
+              lastVerifiedAt: serverTimestamp(),
+              // Only "still there" restarts the decay clock
+              ...(verification === "upvote" && {
+                lastConfirmedAt: serverTimestamp(),
+              }),
+            });
           });
 
           console.log(
-            `✅ ${verification} recorded for obstacle ${obstacleId} (reportsCount unchanged)`
+            `✅ ${verification} recorded for obstacle ${obstacleId} (weight ${weight.toFixed(
+              2
+            )}, reportsCount unchanged)`
           );
         }
       } catch (error: any) {
@@ -661,6 +1278,7 @@ class SimpleFirebaseService implements FirebaseService {
 
         if (!querySnapshot.empty) {
           const obstacleDoc = querySnapshot.docs[0];
+          const data = obstacleDoc.data();
 
           const updateData: any = {
             status,
@@ -729,11 +1347,16 @@ class SimpleFirebaseService implements FirebaseService {
             upvotes: data.upvotes || 0,
             downvotes: data.downvotes || 0,
             reportsCount: data.reportsCount || 1,
+            weightedUpvotes: data.weightedUpvotes,
+            weightedDownvotes: data.weightedDownvotes,
             timePattern: data.timePattern || "permanent",
-            photoBase64: data.photoBase64,
+            schedule: data.schedule,
+            photos: data.photos,
+            photoCheck: data.photoCheck,
 
             // Optional timestamps
             lastVerifiedAt: data.lastVerifiedAt?.toDate(),
+            lastConfirmedAt: data.lastConfirmedAt?.toDate(),
 
             // Admin fields
             adminReported: data.adminReported,
@@ -746,9 +1369,12 @@ class SimpleFirebaseService implements FirebaseService {
             reviewedAt: data.reviewedAt?.toDate(),
             adminNotes: data.adminNotes,
             confidenceScore: data.confidenceScore,
+            mergedInto: data.mergedInto,
+            revisionCount: data.revisionCount,
+            lastEditedAt: data.lastEditedAt?.toDate(),
           };
 
-          reports.push(report);
+          reports.push(withExpiryStatus(report));
         });
 
         console.log(`Found ${reports.length} reports for user ${userId}`);
@@ -775,7 +1401,7 @@ class SimpleFirebaseService implements FirebaseService {
 
         if (docSnapshot.exists()) {
           const data = docSnapshot.data();
-          return {
+          return withExpiryStatus({
             id: data.id || docSnapshot.id,
             location: data.location,
             type: data.type,
@@ -788,9 +1414,15 @@ class SimpleFirebaseService implements FirebaseService {
             upvotes: data.upvotes || 0,
             downvotes: data.downvotes || 0,
             reportsCount: data.reportsCount || 1,
+            weightedUpvotes: data.weightedUpvotes,
+            weightedDownvotes: data.weightedDownvotes,
             timePattern: data.timePattern || "permanent",
+            schedule: data.schedule,
+            photos: data.photos,
             photoBase64: data.photoBase64,
+            photoCheck: data.photoCheck,
             lastVerifiedAt: data.lastVerifiedAt?.toDate(),
+            lastConfirmedAt: data.lastConfirmedAt?.toDate(),
             adminReported: data.adminReported,
             adminRole: data.adminRole,
             adminEmail: data.adminEmail,
@@ -799,7 +1431,10 @@ class SimpleFirebaseService implements FirebaseService {
             reviewedAt: data.reviewedAt?.toDate(),
             adminNotes: data.adminNotes,
             confidenceScore: data.confidenceScore,
-          };
+            mergedInto: data.mergedInto,
+            revisionCount: data.revisionCount,
+            lastEditedAt: data.lastEditedAt?.toDate(),
+          });
         }
 
         // If not found by document ID, try querying by the 'id' field
@@ -814,7 +1449,7 @@ class SimpleFirebaseService implements FirebaseService {
           const docData = querySnapshot.docs[0];
           const data = docData.data();
 
-          return {
+          return withExpiryStatus({
             id: data.id || docData.id,
             location: data.location,
             type: data.type,
@@ -827,9 +1462,15 @@ class SimpleFirebaseService implements FirebaseService {
             upvotes: data.upvotes || 0,
             downvotes: data.downvotes || 0,
             reportsCount: data.reportsCount || 1,
+            weightedUpvotes: data.weightedUpvotes,
+            weightedDownvotes: data.weightedDownvotes,
             timePattern: data.timePattern || "permanent",
+            schedule: data.schedule,
+            photos: data.photos,
             photoBase64: data.photoBase64,
+            photoCheck: data.photoCheck,
             lastVerifiedAt: data.lastVerifiedAt?.toDate(),
+            lastConfirmedAt: data.lastConfirmedAt?.toDate(),
             adminReported: data.adminReported,
             adminRole: data.adminRole,
             adminEmail: data.adminEmail,
@@ -838,7 +1479,10 @@ class SimpleFirebaseService implements FirebaseService {
             reviewedAt: data.reviewedAt?.toDate(),
             adminNotes: data.adminNotes,
             confidenceScore: data.confidenceScore,
-          };
+            mergedInto: data.mergedInto,
+            revisionCount: data.revisionCount,
+            lastEditedAt: data.lastEditedAt?.toDate(),
+          });
         }
 
         console.log("Obstacle not found:", obstacleId);
@@ -848,17 +1492,226 @@ class SimpleFirebaseService implements FirebaseService {
         throw new Error(`Failed to load report: ${error.message}`);
       }
     },
+
+    // Reporter saw the same obstacle: count it as another report plus an upvote
+    confirmExistingReport: async (obstacleId: string): Promise<void> => {
+      await this.ensureInitialized();
+      await this.ensureAnonymousUser();
+
+      const {
+        collection,
+        query,
+        where,
+        getDocs,
+        runTransaction,
+        increment,
+        arrayUnion,
+        serverTimestamp,
+      } = await import("firebase/firestore");
+
+      try {
+        const userId = this.currentUser.uid;
+        const querySnapshot = await getDocs(
+          query(collection(this.db, "obstacles"), where("id", "==", obstacleId))
+        );
+
+        if (querySnapshot.empty) {
+          throw new Error("Report no longer exists");
+        }
+
+        const obstacleRef = querySnapshot.docs[0].ref;
+        const weight = userCapabilitiesService.getVoteWeight(
+          await this.reputation.getReputation(userId)
+        );
+
+        await runTransaction(this.db, async (transaction) => {
+          const data = (await transaction.get(obstacleRef)).data() || {};
+          // Reporting the same spot again is another report, not another vote
+          const alreadyUpvoted = (data.upvotedBy || []).includes(userId);
+          const tally = addWeightedVote(data, "upvote", userId, weight);
+          const adminDecided = data.adminValidation || data.verified;
+
+          transaction.update(obstacleRef, {
+            reportsCount: increment(1),
+            ...(!alreadyUpvoted && {
+              upvotes: increment(1),
+              upvotedBy: arrayUnion(userId),
+            }),
+            ...tally,
+            ...(!adminDecided && {
+              status: decideCommunityStatus(tally, data.severity),
+            }),
+            lastVerifiedAt: serverTimestamp(),
+            lastConfirmedAt: serverTimestamp(),
+          });
+        });
+
+        console.log(`✅ Existing obstacle ${obstacleId} confirmed by reporter`);
+      } catch (error: any) {
+        console.error("Failed to confirm existing obstacle:", error);
+        throw new Error(`Hindi ma-confirm ang report: ${error.message}`);
+      }
+    },
+
+    // Admin: fold duplicates into one record, keeping their votes and reports
+    mergeObstacles: async (
+      primaryId: string,
+      duplicateIds: string[],
+      adminUser: AdminUser
+    ): Promise<void> => {
+      await this.ensureInitialized();
+
+      if (!adminUser.isAdmin) {
+        throw new Error("Only admins can merge reports");
+      }
+
+      const ids = duplicateIds.filter((id) => id !== primaryId);
+      if (ids.length === 0) return;
+
+      const {
+        collection,
+        query,
+        where,
+        getDocs,
+        runTransaction,
+        arrayUnion,
+        serverTimestamp,
+      } = await import("firebase/firestore");
+
+      try {
+        const findDoc = async (obstacleId: string) => {
+          const snapshot = await getDocs(
+            query(
+              collection(this.db, "obstacles"),
+              where("id", "==", obstacleId)
+            )
+          );
+          if (snapshot.empty) {
+            throw new Error(`Report ${obstacleId} not found`);
+          }
+          return snapshot.docs[0];
+        };
+
+        const primaryRef = (await findDoc(primaryId)).ref;
+        const duplicateRefs = (await Promise.all(ids.map(findDoc))).map(
+          (duplicateDoc) => duplicateDoc.ref
+        );
+
+        // One transaction so a half-merged state is never visible and no
+        // vote cast meanwhile is lost
+        const mergedCount = await runTransaction(
+          this.db,
+          async (transaction) => {
+            const primary = (await transaction.get(primaryRef)).data() || {};
+            if (primary.mergedInto) {
+              throw new Error(`Report ${primaryId} was already merged`);
+            }
+            const duplicates = (
+              await Promise.all(
+                duplicateRefs.map((ref) => transaction.get(ref))
+              )
+            ).filter((duplicateDoc) => !duplicateDoc.data()?.mergedInto);
+
+            const votes = mergeDuplicateVotes([
+              primary,
+              ...duplicates.map((duplicateDoc) => duplicateDoc.data() || {}),
+            ]);
+            const adminDecided = primary.adminValidation || primary.verified;
+
+            transaction.update(primaryRef, {
+              ...votes,
+              ...(!adminDecided && {
+                status: decideCommunityStatus(votes, primary.severity),
+              }),
+              ...(duplicates.length && {
+                mergedFrom: arrayUnion(
+                  ...duplicates.map((d) => d.data()?.id || d.id)
+                ),
+              }),
+            });
+            duplicates.forEach((duplicateDoc) => {
+              transaction.update(duplicateDoc.ref, {
+                mergedInto: primaryId,
+                reviewedBy: adminUser.uid,
+                reviewedAt: serverTimestamp(),
+                adminValidation: true,
+                adminNotes: `Merged into ${primaryId}`,
+              });
+            });
+            return duplicates.length;
+          }
+        );
+
+        console.log(
+          `✅ Admin ${adminUser.email} merged ${mergedCount} duplicate(s) into ${primaryId}`
+        );
+      } catch (error: any) {
+        console.error("Failed to merge obstacles:", error);
+        throw new Error(`Failed to merge reports: ${error.message}`);
+      }
+    },
+
+    editReport: async (
+      obstacleId: string,
+      edit: ReportEdit
+    ): Promise<ReportRevision> =>
+      this.reviseOwnReport(obstacleId, "edit", edit),
+
+    withdrawReport: async (
+      obstacleId: string,
+      reason?: string
+    ): Promise<ReportRevision> =>
+      this.reviseOwnReport(obstacleId, "withdraw", undefined, reason),
+
+    getReportRevisions: async (
+      obstacleId: string
+    ): Promise<ReportRevision[]> => {
+      await this.ensureInitialized();
+
+      const { collection, query, where, getDocs } = await import(
+        "firebase/firestore"
+      );
+
+      try {
+        const snapshot = await getDocs(
+          query(
+            collection(this.db, "report_revisions"),
+            where("obstacleId", "==", obstacleId)
+          )
+        );
+
+        return snapshot.docs
+          .map((revisionDoc) => {
+            const data = revisionDoc.data();
+            return {
+              ...data,
+              id: revisionDoc.id,
+              editedAt: data.editedAt?.toDate() || new Date(),
+            } as ReportRevision;
+          })
+          .sort((a, b) => a.revision - b.revision);
+      } catch (error: any) {
+        console.error("Failed to load report revisions:", error);
+        throw new Error(`Failed to load revisions: ${error.message}`);
+      }
+    },
   };
 }
 
-// SIMPLIFIED: Always use real Firebase service
+// Real Firebase by default; EXPO_PUBLIC_BACKEND=memory|file selects the local backend
 class FirebaseServiceFactory {
   private static instance: FirebaseService | null = null;
 
   static getService(): FirebaseService {
     if (!this.instance) {
-      console.log("Initializing real Firebase service...");
-      this.instance = new SimpleFirebaseService();
+      const mode = getBackendMode();
+      if (mode === "firebase") {
+        console.log("Initializing real Firebase service...");
+        this.instance = new SimpleFirebaseService();
+      } else {
+        console.log(`Initializing local ${mode} backend...`);
+        this.instance = new LocalFirebaseService();
+      }
     }
     return this.instance;
   }
@@ -869,6 +1722,7 @@ class FirebaseServiceFactory {
 }
 
 export const firebaseServices = FirebaseServiceFactory.getService();
+export type { FirebaseService, AdminUser, ValidationEvent };
 
 // NEW: Helper function for reporting obstacles with admin check
 export const reportObstacleWithAdminCheck = async (obstacleData: {
@@ -876,8 +1730,9 @@ export const reportObstacleWithAdminCheck = async (obstacleData: {
   type: ObstacleType;
   severity: "low" | "medium" | "high" | "blocking";
   description: string;
-  photoBase64?: string;
+  photos?: PhotoUpload[];
   timePattern?: "permanent" | "morning" | "afternoon" | "evening" | "weekend";
+  schedule?: ObstacleTimeWindow[];
 }): Promise<string> => {
   // Get admin context if available
   const adminUser = await firebaseServices.obstacle.getCurrentAdminUser();
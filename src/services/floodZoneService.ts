@@ -0,0 +1,313 @@
+// src/services/floodZoneService.ts
+// Flood-prone zones for flood mode
+// Loads LGU flood hazard polygons (bundled with the app or imported from
+// GeoJSON) and measures how much of a route runs through them, so habagat
+// routing can steer wheelchair users away from streets that go underwater
+
+import * as FileSystem from "expo-file-system";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  AccessibilityObstacle,
+  FloodZone,
+  RouteFloodAssessment,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import { BUNDLED_FLOOD_MAPS } from "../data/floodZones";
+import {
+  assessRouteFlooding,
+  getRingBounds,
+  isRecentFloodReport,
+  parseFloodRisk,
+} from "../utils/floodZones";
+
+// Listing entry kept in AsyncStorage; polygons live on disk
+export interface FloodZoneSetSummary {
+  id: string;
+  name: string;
+  zoneCount: number;
+  source?: string;
+  importedAt: string; // ISO date string
+}
+
+// Property names LGU and NOAH hazard maps use for the hazard class
+const RISK_PROPERTIES = [
+  "risk",
+  "hazard",
+  "flood_risk",
+  "FloodRisk",
+  "susceptibility",
+  "HAZ",
+  "Var",
+];
+const NAME_PROPERTIES = ["name", "Name", "barangay", "Barangay", "BRGY"];
+
+class FloodZoneService {
+  private readonly STORAGE_KEY = "@waispath:flood_zone_sets";
+  private readonly ZONE_DIRECTORY = `${FileSystem.documentDirectory}flood_zones/`;
+
+  private bundledZones: FloodZone[] = [];
+  private importedZones = new Map<string, FloodZone[]>();
+  private _ready: Promise<void>;
+  private _initialized = false;
+
+  constructor() {
+    BUNDLED_FLOOD_MAPS.forEach((map, index) => {
+      try {
+        this.bundledZones.push(
+          ...this.parseGeoJson(map.geojson, `bundled_${index}`, map.source)
+        );
+      } catch (error) {
+        console.error(`❌ Invalid bundled flood map "${map.name}":`, error);
+      }
+    });
+    this._ready = this.loadImportedZones();
+  }
+
+  async ensureReady(): Promise<void> {
+    if (!this._initialized) {
+      await this._ready;
+    }
+  }
+
+  getZones(): FloodZone[] {
+    return [
+      ...this.bundledZones,
+      ...Array.from(this.importedZones.values()).flat(),
+    ];
+  }
+
+  hasZones(): boolean {
+    return this.getZones().length > 0;
+  }
+
+  /**
+   * Flood exposure of one route. Obstacles are the ones found along the
+   * route; only recent flooding reports among them are used.
+   */
+  assessRoute(
+    polyline: UserLocation[],
+    obstacles: AccessibilityObstacle[],
+    profileType: UserMobilityProfile["type"],
+    at: Date = new Date()
+  ): RouteFloodAssessment {
+    const floodReports = obstacles.filter((obstacle) =>
+      isRecentFloodReport(obstacle, at)
+    );
+    const zones = this.getZonesAround(polyline);
+
+    return assessRouteFlooding(polyline, zones, floodReports, profileType);
+  }
+
+  // Zones whose bounds overlap the route's bounding box
+  private getZonesAround(polyline: UserLocation[]): FloodZone[] {
+    if (polyline.length === 0) return [];
+    const bounds = getRingBounds(polyline);
+
+    return this.getZones().filter(
+      (zone) =>
+        zone.bounds.south <= bounds.north &&
+        zone.bounds.north >= bounds.south &&
+        zone.bounds.west <= bounds.east &&
+        zone.bounds.east >= bounds.west
+    );
+  }
+
+  // =====================================================
+  // IMPORT
+  // =====================================================
+
+  /**
+   * Read a flood hazard GeoJSON from the device and keep it for later
+   * sessions
+   */
+  async importFromFile(
+    fileUri: string,
+    name?: string
+  ): Promise<FloodZoneSetSummary> {
+    try {
+      console.log(`🌊 Reading flood zone map: ${fileUri}`);
+      const content = await FileSystem.readAsStringAsync(fileUri);
+      const fileName = fileUri.split("/").pop() || "flood_zones";
+      const setName = name || fileName.replace(/\.[^.]+$/, "");
+      const setId = `flood_${Date.now()}`;
+
+      const zones = this.importFromString(content, setId, setName);
+      return await this.saveZoneSet(setId, setName, zones);
+    } catch (error: any) {
+      console.error("❌ Flood zone import failed:", error);
+      throw new Error(`Hindi ma-import ang flood zone file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Parse GeoJSON text without storing it
+   */
+  importFromString(
+    content: string,
+    setId: string,
+    source?: string
+  ): FloodZone[] {
+    const zones = this.parseGeoJson(JSON.parse(content), setId, source);
+    if (zones.length === 0) {
+      throw new Error("No Polygon or MultiPolygon features found");
+    }
+    return zones;
+  }
+
+  async listImportedSets(): Promise<FloodZoneSetSummary[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("❌ Failed to read flood zone list:", error);
+      return [];
+    }
+  }
+
+  async deleteZoneSet(setId: string): Promise<void> {
+    const summaries = await this.listImportedSets();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify(summaries.filter((summary) => summary.id !== setId))
+    );
+    await FileSystem.deleteAsync(this.setUri(setId), { idempotent: true });
+
+    this.importedZones.delete(setId);
+    console.log(`🗑️ Deleted flood zone map ${setId}`);
+  }
+
+  // =====================================================
+  // PARSER
+  // =====================================================
+
+  /**
+   * One FloodZone per polygon; MultiPolygon parts get their own ids.
+   * Features without a recognizable hazard class count as medium risk.
+   */
+  private parseGeoJson(
+    geojson: any,
+    setId: string,
+    source?: string
+  ): FloodZone[] {
+    const features: any[] =
+      geojson?.type === "FeatureCollection"
+        ? geojson.features || []
+        : geojson?.type === "Feature"
+        ? [geojson]
+        : [];
+    const zones: FloodZone[] = [];
+
+    features.forEach((feature, featureIndex) => {
+      const geometry = feature?.geometry;
+      const polygons: number[][][][] =
+        geometry?.type === "Polygon"
+          ? [geometry.coordinates]
+          : geometry?.type === "MultiPolygon"
+          ? geometry.coordinates
+          : [];
+      const properties = feature.properties || {};
+
+      const riskKey = RISK_PROPERTIES.find(
+        (key) => parseFloodRisk(properties[key]) !== null
+      );
+      const nameKey = NAME_PROPERTIES.find((key) => properties[key]);
+      const featureId = feature.id ?? featureIndex;
+
+      polygons.forEach((polygon, polygonIndex) => {
+        const rings = polygon
+          .map((ring) =>
+            ring.map(([longitude, latitude]) => ({ latitude, longitude }))
+          )
+          .filter((ring) => ring.length >= 3);
+        if (rings.length === 0) return;
+
+        zones.push({
+          id: `${setId}_${featureId}${
+            polygons.length > 1 ? `_${polygonIndex}` : ""
+          }`,
+          name: nameKey
+            ? String(properties[nameKey])
+            : `Flood zone ${featureIndex + 1}`,
+          risk: (riskKey && parseFloodRisk(properties[riskKey])) || "medium",
+          rings,
+          bounds: getRingBounds(rings[0]),
+          source,
+        });
+      });
+    });
+
+    return zones;
+  }
+
+  // =====================================================
+  // STORAGE
+  // =====================================================
+
+  private async loadImportedZones(): Promise<void> {
+    try {
+      const summaries = await this.listImportedSets();
+
+      for (const summary of summaries) {
+        try {
+          const content = await FileSystem.readAsStringAsync(
+            this.setUri(summary.id)
+          );
+          this.importedZones.set(summary.id, JSON.parse(content));
+        } catch (error) {
+          console.warn(`⚠️ Missing flood zone map ${summary.id}:`, error);
+        }
+      }
+
+      if (this.importedZones.size > 0) {
+        console.log(`🌊 Loaded ${this.importedZones.size} flood zone maps`);
+      }
+    } catch (error) {
+      console.error("❌ Failed to load flood zones:", error);
+    } finally {
+      this._initialized = true;
+    }
+  }
+
+  private async saveZoneSet(
+    setId: string,
+    name: string,
+    zones: FloodZone[]
+  ): Promise<FloodZoneSetSummary> {
+    const info = await FileSystem.getInfoAsync(this.ZONE_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.ZONE_DIRECTORY, {
+        intermediates: true,
+      });
+    }
+    await FileSystem.writeAsStringAsync(
+      this.setUri(setId),
+      JSON.stringify(zones)
+    );
+
+    const summary: FloodZoneSetSummary = {
+      id: setId,
+      name,
+      zoneCount: zones.length,
+      source: zones[0]?.source,
+      importedAt: new Date().toISOString(),
+    };
+
+    const summaries = await this.listImportedSets();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify([...summaries, summary])
+    );
+
+    this.importedZones.set(setId, zones);
+    console.log(`✅ Imported ${zones.length} flood zones from "${name}"`);
+    return summary;
+  }
+
+  private setUri(setId: string): string {
+    return `${this.ZONE_DIRECTORY}${setId}.json`;
+  }
+}
+
+export const floodZoneService = new FloodZoneService();
+export { FloodZoneService };
@@ -0,0 +1,699 @@
+// src/services/geoExchangeService.ts
+// GPX and GeoJSON export/import for routes, journeys and obstacles
+// Lets therapists review client trips in desktop GIS (QGIS, Google Earth)
+// and lets LGU partners hand us obstacle surveys as GeoJSON
+
+import * as FileSystem from "expo-file-system";
+import {
+  AccessibilityObstacle,
+  ObstacleType,
+  RouteJourney,
+  UserLocation,
+  WaispathRoute,
+} from "../types";
+import type { SimpleRoute } from "./routeAnalysisService";
+import { validateTimeWindow } from "../utils/obstacleSchedule";
+
+const OBSTACLE_TYPES: ObstacleType[] = [
+  "vendor_blocking",
+  "parked_vehicles",
+  "stairs_no_ramp",
+  "narrow_passage",
+  "broken_infrastructure",
+  "flooding",
+  "construction",
+  "electrical_post",
+  "debris",
+  "no_sidewalk",
+  "steep_slope",
+  "other",
+];
+
+const SEVERITIES: AccessibilityObstacle["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "blocking",
+];
+
+const TIME_PATTERNS: NonNullable<AccessibilityObstacle["timePattern"]>[] = [
+  "permanent",
+  "morning",
+  "afternoon",
+  "evening",
+  "weekend",
+];
+
+const STATUSES: NonNullable<AccessibilityObstacle["status"]>[] = [
+  "pending",
+  "verified",
+  "resolved",
+  "false_report",
+  "expired",
+];
+
+interface GeoImportedRoute {
+  name: string;
+  kind: "route" | "track";
+  points: UserLocation[];
+  timestamps?: (Date | null)[]; // Per point, tracks only
+}
+
+interface GeoImportedWaypoint {
+  name: string;
+  location: UserLocation;
+  description?: string;
+  type?: string;
+}
+
+interface GeoImportResult {
+  format: "gpx" | "geojson";
+  routes: GeoImportedRoute[];
+  waypoints: GeoImportedWaypoint[];
+  obstacles: AccessibilityObstacle[];
+  skipped: number; // Features we could not read
+}
+
+class GeoExchangeService {
+  private readonly EXPORT_DIR = `${FileSystem.documentDirectory}exports/`;
+
+  // =====================================================
+  // GPX EXPORT
+  // =====================================================
+
+  /**
+   * Any polyline as a GPX route (<rte>)
+   */
+  polylineToGPX(
+    polyline: UserLocation[],
+    name: string,
+    description?: string
+  ): string {
+    return this.wrapGPX(this.buildRoute(polyline, name, description));
+  }
+
+  /**
+   * A fastest/clearest route with its obstacles as waypoints
+   */
+  simpleRouteToGPX(route: SimpleRoute, name?: string): string {
+    const routeName =
+      name ||
+      `${route.routeType === "fastest" ? "Fastest" : "Clearest"} route (${
+        route.obstacleCount
+      } obstacles)`;
+    const description = `${Math.round(
+      route.googleRoute.distance
+    )} m, ${Math.round(route.googleRoute.duration / 60)} min`;
+
+    return this.wrapGPX(
+      route.obstacles
+        .map((obstacle) => this.buildObstacleWaypoint(obstacle))
+        .join("") +
+        this.buildRoute(route.googleRoute.polyline, routeName, description)
+    );
+  }
+
+  /**
+   * A personalized route, one route point per segment boundary
+   */
+  waispathRouteToGPX(route: WaispathRoute): string {
+    const points: UserLocation[] = [];
+    route.segments.forEach((segment, index) => {
+      if (index === 0) points.push(segment.startPoint);
+      points.push(segment.endPoint);
+    });
+
+    const obstacles = route.segments.flatMap((segment) => segment.obstacles);
+    const description = [
+      `Grade ${route.overallScore.grade} for ${route.personalizedFor.deviceType}`,
+      `${Math.round(route.totalDistance)} m, ${Math.round(
+        route.totalTime
+      )} min`,
+      ...route.personalizedFor.routeReasons,
+    ].join("; ");
+
+    return this.wrapGPX(
+      obstacles
+        .map((obstacle) => this.buildObstacleWaypoint(obstacle))
+        .join("") +
+        this.buildRoute(points, `WAISPATH route ${route.id}`, description)
+    );
+  }
+
+  /**
+   * A walked journey as a GPX track (<trk>) with timestamps.
+   * Journeys recorded before tracking existed only have start/last points.
+   */
+  journeyToGPX(journey: RouteJourney): string {
+    return this.journeysToGPX([journey]);
+  }
+
+  /**
+   * Several journeys in one file, one track each (e.g. a client's week)
+   */
+  journeysToGPX(journeys: RouteJourney[]): string {
+    // GPX wants every <wpt> before the first <trk>
+    const waypoints = journeys
+      .map(
+        (journey) =>
+          this.buildWaypoint(journey.startLocation, `${journey.id} start`) +
+          this.buildWaypoint(
+            journey.destinationLocation,
+            `${journey.id} destination`
+          )
+      )
+      .join("");
+
+    return this.wrapGPX(
+      waypoints +
+        journeys.map((journey) => this.buildJourneyTrack(journey)).join("")
+    );
+  }
+
+  // =====================================================
+  // GEOJSON EXPORT
+  // =====================================================
+
+  /**
+   * Obstacles as a GeoJSON FeatureCollection (Point features).
+   * Reporter identities and photos are left out on purpose.
+   */
+  obstaclesToGeoJSON(obstacles: AccessibilityObstacle[]): object {
+    return {
+      type: "FeatureCollection",
+      features: obstacles.map((obstacle) => ({
+        type: "Feature",
+        id: obstacle.id,
+        geometry: {
+          type: "Point",
+          coordinates: [
+            obstacle.location.longitude,
+            obstacle.location.latitude,
+          ],
+        },
+        properties: {
+          id: obstacle.id,
+          type: obstacle.type,
+          severity: obstacle.severity,
+          status: obstacle.status || "pending",
+          description: obstacle.description,
+          verified: obstacle.verified,
+          upvotes: obstacle.upvotes || 0,
+          downvotes: obstacle.downvotes || 0,
+          reportsCount: obstacle.reportsCount || 0,
+          adminReported: !!obstacle.adminReported,
+          reportedAt: this.toIsoString(obstacle.reportedAt),
+          ...(obstacle.timePattern && { timePattern: obstacle.timePattern }),
+          ...(obstacle.schedule && { schedule: obstacle.schedule }),
+        },
+      })),
+    };
+  }
+
+  // =====================================================
+  // IMPORT
+  // =====================================================
+
+  /**
+   * Parse GPX or GeoJSON text. Format is sniffed when not given.
+   */
+  importFromString(
+    content: string,
+    format?: "gpx" | "geojson"
+  ): GeoImportResult {
+    const detected =
+      format || (content.trimStart().startsWith("<") ? "gpx" : "geojson");
+
+    const result =
+      detected === "gpx"
+        ? this.parseGPX(content)
+        : this.parseGeoJSON(JSON.parse(content));
+
+    console.log(
+      `📥 Imported ${detected}: ${result.routes.length} routes, ${result.waypoints.length} waypoints, ${result.obstacles.length} obstacles (${result.skipped} skipped)`
+    );
+    return result;
+  }
+
+  async importFromFile(fileUri: string): Promise<GeoImportResult> {
+    try {
+      const content = await FileSystem.readAsStringAsync(fileUri);
+      const lower = fileUri.toLowerCase();
+      const format = lower.endsWith(".gpx")
+        ? "gpx"
+        : lower.endsWith(".geojson") || lower.endsWith(".json")
+        ? "geojson"
+        : undefined;
+      return this.importFromString(content, format);
+    } catch (error: any) {
+      console.error("❌ Geo import failed:", error);
+      throw new Error(`Could not import file: ${error.message}`);
+    }
+  }
+
+  // =====================================================
+  // FILES
+  // =====================================================
+
+  /**
+   * Write an export to the app's documents folder and return its URI
+   */
+  async writeExport(
+    fileName: string,
+    content: string | object
+  ): Promise<string> {
+    const info = await FileSystem.getInfoAsync(this.EXPORT_DIR);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.EXPORT_DIR, {
+        intermediates: true,
+      });
+    }
+
+    const safeName = fileName.replace(/[^\w.-]+/g, "_");
+    const uri = `${this.EXPORT_DIR}${safeName}`;
+    await FileSystem.writeAsStringAsync(
+      uri,
+      typeof content === "string" ? content : JSON.stringify(content, null, 2)
+    );
+
+    console.log(`📤 Exported ${safeName}`);
+    return uri;
+  }
+
+  // =====================================================
+  // GPX HELPERS
+  // =====================================================
+
+  private wrapGPX(body: string): string {
+    return (
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<gpx version="1.1" creator="WAISPATH" xmlns="http://www.topografix.com/GPX/1/1">\n` +
+      `  <metadata><time>${new Date().toISOString()}</time></metadata>\n` +
+      body +
+      `</gpx>\n`
+    );
+  }
+
+  private buildRoute(
+    points: UserLocation[],
+    name: string,
+    description?: string
+  ): string {
+    const routePoints = points
+      .map(
+        (point) =>
+          `    <rtept lat="${point.latitude}" lon="${point.longitude}"></rtept>\n`
+      )
+      .join("");
+
+    return (
+      `  <rte>\n    <name>${this.escapeXml(name)}</name>\n` +
+      (description ? `    <desc>${this.escapeXml(description)}</desc>\n` : "") +
+      routePoints +
+      `  </rte>\n`
+    );
+  }
+
+  private buildJourneyTrack(journey: RouteJourney): string {
+    const trackPoints =
+      journey.track && journey.track.length > 0
+        ? journey.track.map((point) => ({
+            location: point as UserLocation,
+            time: this.toIsoString(point.timestamp),
+          }))
+        : [
+            {
+              location: journey.startLocation,
+              time: this.toIsoString(journey.startedAt),
+            },
+            ...(journey.currentLocation
+              ? [{ location: journey.currentLocation, time: undefined }]
+              : []),
+          ];
+
+    const description = [
+      `Status: ${journey.status}`,
+      `Route: ${journey.selectedRoute.routeType}`,
+      `Estimated ${journey.selectedRoute.estimatedDuration} min`,
+      `Started ${this.toIsoString(journey.startedAt) || "unknown"}`,
+    ].join("; ");
+
+    const segment = trackPoints
+      .map(
+        ({ location, time }) =>
+          `      <trkpt lat="${location.latitude}" lon="${location.longitude}">` +
+          (time ? `<time>${time}</time>` : "") +
+          `</trkpt>\n`
+      )
+      .join("");
+
+    return (
+      `  <trk>\n    <name>${this.escapeXml(`Journey ${journey.id}`)}</name>\n` +
+      `    <desc>${this.escapeXml(description)}</desc>\n` +
+      `    <trkseg>\n${segment}    </trkseg>\n  </trk>\n`
+    );
+  }
+
+  private buildWaypoint(
+    location: UserLocation,
+    name: string,
+    description?: string,
+    type?: string
+  ): string {
+    return (
+      `  <wpt lat="${location.latitude}" lon="${location.longitude}">` +
+      `<name>${this.escapeXml(name)}</name>` +
+      (description ? `<desc>${this.escapeXml(description)}</desc>` : "") +
+      (type ? `<type>${this.escapeXml(type)}</type>` : "") +
+      `</wpt>\n`
+    );
+  }
+
+  private buildObstacleWaypoint(obstacle: AccessibilityObstacle): string {
+    return this.buildWaypoint(
+      obstacle.location,
+      `${obstacle.type} (${obstacle.severity})`,
+      obstacle.description,
+      obstacle.type
+    );
+  }
+
+  /**
+   * Minimal GPX reader: <wpt>, <rte>/<rtept> and <trk>/<trkpt> only
+   */
+  private parseGPX(xml: string): GeoImportResult {
+    const result: GeoImportResult = {
+      format: "gpx",
+      routes: [],
+      waypoints: [],
+      obstacles: [],
+      skipped: 0,
+    };
+
+    const waypointRegex = /<wpt\b([^>]*?)(\/>|>([\s\S]*?)<\/wpt>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = waypointRegex.exec(xml)) !== null) {
+      const location = this.readPoint(match[1]);
+      if (!location) {
+        result.skipped++;
+        continue;
+      }
+      const body = match[3] || "";
+      result.waypoints.push({
+        name: this.readChild(body, "name") || "Waypoint",
+        location,
+        description: this.readChild(body, "desc"),
+        type: this.readChild(body, "type"),
+      });
+    }
+
+    const routeRegex = /<rte\b[^>]*>([\s\S]*?)<\/rte>/g;
+    while ((match = routeRegex.exec(xml)) !== null) {
+      const points = this.readPoints(match[1], "rtept").map((p) => p.location);
+      if (points.length < 2) {
+        result.skipped++;
+        continue;
+      }
+      result.routes.push({
+        name: this.readChild(match[1].split("<rtept")[0], "name") || "Route",
+        kind: "route",
+        points,
+      });
+    }
+
+    const trackRegex = /<trk\b[^>]*>([\s\S]*?)<\/trk>/g;
+    while ((match = trackRegex.exec(xml)) !== null) {
+      // Segments are joined; a pause between them is not a route change
+      const points = this.readPoints(match[1], "trkpt");
+      if (points.length < 2) {
+        result.skipped++;
+        continue;
+      }
+      result.routes.push({
+        name: this.readChild(match[1].split("<trkseg")[0], "name") || "Track",
+        kind: "track",
+        points: points.map((p) => p.location),
+        timestamps: points.map((p) => p.time),
+      });
+    }
+
+    return result;
+  }
+
+  private readPoints(
+    body: string,
+    tag: "rtept" | "trkpt"
+  ): { location: UserLocation; time: Date | null }[] {
+    const regex = new RegExp(
+      `<${tag}\\b([^>]*?)(\\/>|>([\\s\\S]*?)<\\/${tag}>)`,
+      "g"
+    );
+    const points: { location: UserLocation; time: Date | null }[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(body)) !== null) {
+      const location = this.readPoint(match[1]);
+      if (!location) continue;
+
+      const timeText = this.readChild(match[3] || "", "time");
+      const time = timeText ? new Date(timeText) : null;
+      points.push({
+        location,
+        time: time && !isNaN(time.getTime()) ? time : null,
+      });
+    }
+    return points;
+  }
+
+  private readPoint(attributes: string): UserLocation | null {
+    const lat = /\blat\s*=\s*["']([^"']+)["']/.exec(attributes);
+    const lon = /\blon\s*=\s*["']([^"']+)["']/.exec(attributes);
+    if (!lat || !lon) return null;
+
+    const location = {
+      latitude: parseFloat(lat[1]),
+      longitude: parseFloat(lon[1]),
+    };
+    return this.isValidLocation(location) ? location : null;
+  }
+
+  private readChild(body: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)<\\/${tag}>`).exec(
+      body
+    );
+    if (!match) return undefined;
+
+    const text = match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim();
+    return this.decodeEntities(text);
+  }
+
+  // =====================================================
+  // GEOJSON HELPERS
+  // =====================================================
+
+  /**
+   * Points become obstacles; lines become routes. Property names used by
+   * common LGU survey templates are accepted alongside our own.
+   */
+  private parseGeoJSON(geojson: any): GeoImportResult {
+    const result: GeoImportResult = {
+      format: "geojson",
+      routes: [],
+      waypoints: [],
+      obstacles: [],
+      skipped: 0,
+    };
+
+    const features: any[] =
+      geojson?.type === "FeatureCollection"
+        ? geojson.features || []
+        : geojson?.type === "Feature"
+        ? [geojson]
+        : [];
+
+    features.forEach((feature, index) => {
+      const geometry = feature?.geometry;
+      const properties = feature?.properties || {};
+      const name = String(
+        properties.name || properties.title || `Feature ${index + 1}`
+      );
+
+      if (geometry?.type === "Point") {
+        const obstacle = this.featureToObstacle(feature, index);
+        if (obstacle) {
+          result.obstacles.push(obstacle);
+        } else {
+          result.skipped++;
+        }
+      } else if (geometry?.type === "LineString") {
+        const points = this.readCoordinates(geometry.coordinates);
+        if (points.length >= 2) {
+          result.routes.push({ name, kind: "route", points });
+        } else {
+          result.skipped++;
+        }
+      } else if (geometry?.type === "MultiLineString") {
+        (geometry.coordinates || []).forEach((line: any, part: number) => {
+          const points = this.readCoordinates(line);
+          if (points.length >= 2) {
+            result.routes.push({
+              name: `${name} (${part + 1})`,
+              kind: "route",
+              points,
+            });
+          } else {
+            result.skipped++;
+          }
+        });
+      } else {
+        result.skipped++;
+      }
+    });
+
+    return result;
+  }
+
+  private featureToObstacle(
+    feature: any,
+    index: number
+  ): AccessibilityObstacle | null {
+    const [lng, lat] = feature.geometry.coordinates || [];
+    const location = { latitude: Number(lat), longitude: Number(lng) };
+    if (!this.isValidLocation(location)) return null;
+
+    const properties = feature.properties || {};
+    const rawType = String(
+      properties.type ||
+        properties.obstacle_type ||
+        properties.category ||
+        "other"
+    );
+    const type = this.normalizeEnum(rawType, OBSTACLE_TYPES) || "other";
+    const severity =
+      this.normalizeEnum(
+        String(properties.severity || properties.level || "medium"),
+        SEVERITIES
+      ) || "medium";
+    const status =
+      this.normalizeEnum(String(properties.status || "pending"), STATUSES) ||
+      "pending";
+
+    const baseDescription = String(
+      properties.description || properties.remarks || properties.name || ""
+    );
+    const description =
+      type === "other" && rawType !== "other"
+        ? `${rawType}${baseDescription ? `: ${baseDescription}` : ""}`
+        : baseDescription;
+
+    // A schedule we can't evaluate would hide or show the obstacle at
+    // random; reject the feature rather than guess
+    if (properties.schedule !== undefined) {
+      if (!Array.isArray(properties.schedule)) return null;
+      try {
+        properties.schedule.forEach(validateTimeWindow);
+      } catch (error) {
+        console.warn(`⚠️ Skipping feature ${index + 1}:`, error);
+        return null;
+      }
+    }
+    const timePattern = properties.timePattern
+      ? this.normalizeEnum(String(properties.timePattern), TIME_PATTERNS)
+      : null;
+
+    const reportedAt = new Date(
+      properties.reportedAt ||
+        properties.reported_at ||
+        properties.date ||
+        Date.now()
+    );
+
+    return {
+      id: String(
+        properties.id || feature.id || `import_${Date.now()}_${index}`
+      ),
+      location,
+      type,
+      severity,
+      description,
+      reportedBy: String(properties.source || "geojson_import"),
+      reportedAt: isNaN(reportedAt.getTime()) ? new Date() : reportedAt,
+      verified: properties.verified === true || status === "verified",
+      status,
+      upvotes: Number(properties.upvotes) || 0,
+      downvotes: Number(properties.downvotes) || 0,
+      reportsCount:
+        Number(properties.reportsCount ?? properties.reports_count) || 0,
+      ...(timePattern && { timePattern }),
+      ...(properties.schedule?.length > 0 && {
+        schedule: properties.schedule,
+      }),
+    };
+  }
+
+  private readCoordinates(coordinates: any): UserLocation[] {
+    if (!Array.isArray(coordinates)) return [];
+    return coordinates
+      .map((c: any) => ({
+        latitude: Number(c?.[1]),
+        longitude: Number(c?.[0]),
+      }))
+      .filter((location: UserLocation) => this.isValidLocation(location));
+  }
+
+  /**
+   * "Parked Vehicles" / "parked-vehicles" -> "parked_vehicles"
+   */
+  private normalizeEnum<T extends string>(
+    value: string,
+    allowed: T[]
+  ): T | null {
+    const normalized = value
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, "_") as T;
+    return allowed.includes(normalized) ? normalized : null;
+  }
+
+  // =====================================================
+  // SHARED
+  // =====================================================
+
+  private isValidLocation(location: UserLocation): boolean {
+    return (
+      Number.isFinite(location.latitude) &&
+      Number.isFinite(location.longitude) &&
+      Math.abs(location.latitude) <= 90 &&
+      Math.abs(location.longitude) <= 180
+    );
+  }
+
+  // Journeys loaded from storage carry ISO strings instead of Dates
+  private toIsoString(value: Date | string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+  }
+}
+
+export const geoExchangeService = new GeoExchangeService();
+export { GeoExchangeService };
+export type { GeoImportResult, GeoImportedRoute, GeoImportedWaypoint };
@@ -4,6 +4,7 @@
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { UserLocation } from "../types";
+import { stripInstructionHtml } from "../utils/navigationUtils";
 
 interface GoogleRoute {
   id: string;
@@ -928,7 +929,7 @@ class GoogleMapsService {
       },
       distance: step.distance?.value || 0,
       duration: step.duration?.value || 0,
-      instructions: (step.html_instructions || "").replace(/<[^>]*>/g, ""),
+      instructions: stripInstructionHtml(step.html_instructions || ""),
       polyline: step.polyline?.points || "",
     }));
 
@@ -0,0 +1,365 @@
+// src/services/localBackend.ts
+// Local stand-in for Firestore + Firebase Auth, used when EXPO_PUBLIC_BACKEND
+// is "memory" or "file". Holds the same collections the app writes to
+// Firebase, plus a simulated signed-in user with admin claims.
+// IDs and timestamps are deterministic (counter + injectable clock) so the
+// reporting/validation flow can be tested without a Firebase project.
+
+import * as FileSystem from "expo-file-system";
+import { AccessibilityObstacle, UserMobilityProfile } from "../types";
+import { getBackendMode } from "../config/backendConfig";
+import type { UserReputationData } from "./UserCapabilitiesService";
+import type { ReputationLedger } from "../utils/communityValidation";
+
+export type LocalAdminRole = "super_admin" | "lgu_admin" | "field_admin";
+
+export interface LocalUser {
+  uid: string;
+  email: string | null;
+  isAnonymous: boolean;
+  admin?: boolean;
+  role?: LocalAdminRole;
+  permissions?: string[];
+}
+
+// Admin account as the admin website would see it
+export interface LocalAdminRecord {
+  uid: string;
+  email: string;
+  role: LocalAdminRole;
+  status: "active" | "deactivated" | "suspended";
+  permissions?: string[];
+}
+
+// Obstacle as stored: the app-facing fields plus index and voter lists
+export interface LocalObstacleRecord extends AccessibilityObstacle {
+  geohash?: string;
+  upvotedBy: string[];
+  downvotedBy: string[];
+  deviceType?: string;
+  adminValidation?: boolean;
+  reputationSettled?: boolean; // Legacy; see reputationApplied
+  reputationApplied?: ReputationLedger; // Credits given for this report
+}
+
+export type LocalLogCollection =
+  | "validation_events"
+  | "mobile_admin_logs"
+  | "audit_logs"
+  | "report_revisions";
+
+export interface LocalBackendData {
+  obstacles: LocalObstacleRecord[];
+  profiles: Record<string, UserMobilityProfile>; // keyed by uid
+  reputations: Record<string, UserReputationData>; // keyed by uid
+  photoBlobs: Record<string, string>; // Base64 keyed by content hash
+  admins: LocalAdminRecord[];
+  logs: Record<LocalLogCollection, any[]>;
+  idCounter: number;
+}
+
+// Firebase-user-shaped object so auth consumers don't need a special case
+export interface LocalAuthUser {
+  uid: string;
+  email: string | null;
+  isAnonymous: boolean;
+  getIdTokenResult: () => Promise<{ claims: Record<string, any> }>;
+}
+
+const DATA_FILE = "local-backend.json";
+const DATE_FIELDS = [
+  "reportedAt",
+  "reviewedAt",
+  "lastVerifiedAt",
+  "lastConfirmedAt",
+  "lastEditedAt",
+] as const;
+
+function emptyData(): LocalBackendData {
+  return {
+    obstacles: [],
+    profiles: {},
+    reputations: {},
+    photoBlobs: {},
+    admins: [],
+    logs: {
+      validation_events: [],
+      mobile_admin_logs: [],
+      audit_logs: [],
+      report_revisions: [],
+    },
+    idCounter: 0,
+  };
+}
+
+class LocalBackend {
+  private data: LocalBackendData = emptyData();
+  private currentUser: LocalUser | null = null;
+  private clock: () => Date = () => new Date();
+  private loaded = false;
+  private loadPromise: Promise<void> | null = null;
+  private saveChain: Promise<void> = Promise.resolve();
+
+  /**
+   * Load persisted data once (file mode only). Safe to call repeatedly.
+   */
+  async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    await this.loadPromise;
+  }
+
+  // ================================================
+  // AUTH SIMULATION
+  // ================================================
+
+  signIn(user: LocalUser): void {
+    this.currentUser = { ...user };
+    console.log(
+      `🧪 Local backend: signed in as ${user.email || user.uid}${
+        user.admin ? ` (${user.role})` : ""
+      }`
+    );
+  }
+
+  // Mirrors Firebase's lazy anonymous sign-in
+  signInAnonymously(): LocalUser {
+    if (!this.currentUser) {
+      this.currentUser = {
+        uid: this.nextId("local_anon"),
+        email: null,
+        isAnonymous: true,
+      };
+    }
+    return this.currentUser;
+  }
+
+  signOut(): void {
+    this.currentUser = null;
+  }
+
+  getCurrentUser(): LocalAuthUser | null {
+    const user = this.currentUser;
+    if (!user) return null;
+
+    return {
+      uid: user.uid,
+      email: user.email,
+      isAnonymous: user.isAnonymous,
+      getIdTokenResult: async () => ({
+        claims: user.admin
+          ? {
+              admin: true,
+              role: user.role,
+              permissions: user.permissions || [],
+            }
+          : {},
+      }),
+    };
+  }
+
+  /**
+   * Register an admin account and (optionally) sign in as it
+   */
+  async addAdmin(admin: LocalAdminRecord, signIn = false): Promise<void> {
+    await this.ensureLoaded();
+    this.data.admins = [
+      ...this.data.admins.filter((a) => a.email !== admin.email),
+      admin,
+    ];
+    this.save();
+
+    if (signIn) {
+      this.signIn({
+        uid: admin.uid,
+        email: admin.email,
+        isAnonymous: false,
+        admin: admin.status === "active",
+        role: admin.role,
+        permissions: admin.permissions,
+      });
+    }
+  }
+
+  async setAdminStatus(
+    email: string,
+    status: LocalAdminRecord["status"]
+  ): Promise<void> {
+    await this.ensureLoaded();
+    const admin = this.data.admins.find((a) => a.email === email);
+    if (!admin) {
+      throw new Error(`No local admin with email ${email}`);
+    }
+    admin.status = status;
+    this.save();
+  }
+
+  getAdmin(email: string): LocalAdminRecord | null {
+    return this.data.admins.find((a) => a.email === email) || null;
+  }
+
+  // ================================================
+  // COLLECTIONS
+  // ================================================
+
+  getObstacles(): LocalObstacleRecord[] {
+    return this.data.obstacles;
+  }
+
+  getObstacle(obstacleId: string): LocalObstacleRecord | null {
+    return this.data.obstacles.find((o) => o.id === obstacleId) || null;
+  }
+
+  addObstacle(obstacle: LocalObstacleRecord): void {
+    this.data.obstacles.push(obstacle);
+    this.save();
+  }
+
+  updateObstacle(
+    obstacleId: string,
+    update: Partial<LocalObstacleRecord>
+  ): LocalObstacleRecord | null {
+    const obstacle = this.getObstacle(obstacleId);
+    if (!obstacle) return null;
+
+    Object.assign(obstacle, update);
+    this.save();
+    return obstacle;
+  }
+
+  getProfile(uid: string): UserMobilityProfile | null {
+    return this.data.profiles[uid] || null;
+  }
+
+  setProfile(uid: string, profile: UserMobilityProfile | null): void {
+    if (profile) {
+      this.data.profiles[uid] = profile;
+    } else {
+      delete this.data.profiles[uid];
+    }
+    this.save();
+  }
+
+  getReputation(uid: string): UserReputationData | null {
+    return this.data.reputations[uid] || null;
+  }
+
+  setReputation(uid: string, reputation: UserReputationData): void {
+    this.data.reputations[uid] = reputation;
+    this.save();
+  }
+
+  getPhotoBlob(blobId: string): string | null {
+    return this.data.photoBlobs[blobId] || null;
+  }
+
+  putPhotoBlob(blobId: string, base64: string): void {
+    if (this.data.photoBlobs[blobId]) return; // Content-addressed: same bytes
+    this.data.photoBlobs[blobId] = base64;
+    this.save();
+  }
+
+  // Append-only; returns the new entry's id
+  addLog(collection: LocalLogCollection, entry: any): string {
+    const id = this.nextId(collection);
+    this.data.logs[collection].push({ id, ...entry });
+    this.save();
+    return id;
+  }
+
+  getLogs(collection: LocalLogCollection): any[] {
+    return [...this.data.logs[collection]];
+  }
+
+  // ================================================
+  // DETERMINISM HELPERS
+  // ================================================
+
+  nextId(prefix: string): string {
+    this.data.idCounter += 1;
+    return `${prefix}_${this.data.idCounter}`;
+  }
+
+  now(): Date {
+    return this.clock();
+  }
+
+  setClock(clock: () => Date): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Wipe all data and sign out; optionally start from a fixture
+   */
+  reset(seed?: Partial<LocalBackendData>): void {
+    this.data = { ...emptyData(), ...seed };
+    this.currentUser = null;
+    this.loaded = true;
+    this.save();
+  }
+
+  getSnapshot(): LocalBackendData {
+    return JSON.parse(JSON.stringify(this.data));
+  }
+
+  // ================================================
+  // PERSISTENCE (file mode)
+  // ================================================
+
+  private get filePath(): string | null {
+    if (getBackendMode() !== "file" || !FileSystem.documentDirectory) {
+      return null;
+    }
+    return `${FileSystem.documentDirectory}${DATA_FILE}`;
+  }
+
+  private async load(): Promise<void> {
+    const path = this.filePath;
+    try {
+      if (path && (await FileSystem.getInfoAsync(path)).exists) {
+        const stored = JSON.parse(await FileSystem.readAsStringAsync(path));
+        this.data = {
+          ...emptyData(),
+          ...stored,
+          // Files from older builds lack newer log collections
+          logs: { ...emptyData().logs, ...stored.logs },
+        };
+        this.data.obstacles.forEach((obstacle) => {
+          DATE_FIELDS.forEach((field) => {
+            if (obstacle[field]) {
+              (obstacle as any)[field] = new Date(obstacle[field] as any);
+            }
+          });
+        });
+        Object.values(this.data.reputations).forEach((reputation) => {
+          reputation.joinedDate = new Date(reputation.joinedDate);
+        });
+        console.log(
+          `🧪 Local backend loaded ${this.data.obstacles.length} obstacles from file`
+        );
+      }
+    } catch (error) {
+      console.error("❌ Failed to load local backend file:", error);
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  private save(): void {
+    const path = this.filePath;
+    if (!path) return;
+
+    // Serialize writes so an older snapshot never lands after a newer one
+    const contents = JSON.stringify(this.data);
+    this.saveChain = this.saveChain
+      .then(() => FileSystem.writeAsStringAsync(path, contents))
+      .catch((error) =>
+        console.error("❌ Failed to save local backend file:", error)
+      );
+  }
+}
+
+export const localBackend = new LocalBackend();
+export { LocalBackend };
@@ -0,0 +1,725 @@
+// src/services/localFirebaseService.ts
+// FirebaseService implementation on top of the local backend. Mirrors the
+// Firestore service's behaviour (admin auto-verify, vote counting, status
+// changes, user reports) so flows behave the same with no Firebase project.
+
+import {
+  UserMobilityProfile,
+  AccessibilityObstacle,
+  ObstacleType,
+  UserLocation,
+  ObstacleTimeWindow,
+  ObstaclePhoto,
+  PhotoUpload,
+  ReportEdit,
+  ReportRevision,
+} from "../types";
+import type { FirebaseService, AdminUser, ValidationEvent } from "./firebase";
+import { localBackend, LocalObstacleRecord } from "./localBackend";
+import { encodeGeohash } from "../utils/geohash";
+import { calculateDistance } from "../utils/mapUtils";
+import { validateTimeWindow } from "../utils/obstacleSchedule";
+import { withExpiryStatus } from "../utils/obstacleDecay";
+import { sha256Hex } from "../utils/contentHash";
+import { cameraService } from "./cameraService";
+import { checkPhotoLocation, stripJpegMetadata } from "../utils/photoMetadata";
+import { mergeDuplicateVotes } from "../utils/obstacleDuplicates";
+import {
+  applyReportEdit,
+  assertReportModifiable,
+  buildRevision,
+  getRevisionFields,
+  VALIDATION_RESET,
+} from "../utils/reportRevisions";
+import {
+  addWeightedVote,
+  decideCommunityStatus,
+  diffReputationLedgers,
+  getAppliedReputation,
+  getReputationTarget,
+} from "../utils/communityValidation";
+import {
+  userCapabilitiesService,
+  UserReputationData,
+} from "./UserCapabilitiesService";
+
+// Helper for spatial filtering (same maths as the Firestore service)
+function distanceToPolylineKm(
+  point: { latitude: number; longitude: number },
+  polyline: { latitude: number; longitude: number }[]
+) {
+  if (polyline.length === 1)
+    return calculateDistance(point, polyline[0]) / 1000;
+
+  let min = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const a = polyline[i];
+    const b = polyline[i + 1];
+    const dx = b.longitude - a.longitude;
+    const dy = b.latitude - a.latitude;
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((point.longitude - a.longitude) * dx +
+                (point.latitude - a.latitude) * dy) /
+                lenSq
+            )
+          );
+    const projected = {
+      latitude: a.latitude + t * dy,
+      longitude: a.longitude + t * dx,
+    };
+    min = Math.min(min, calculateDistance(point, projected) / 1000);
+  }
+  return min;
+}
+
+// What Firestore reads hand back: the app-facing fields, not index/voter data
+function toObstacle(record: LocalObstacleRecord): AccessibilityObstacle {
+  const {
+    geohash,
+    upvotedBy,
+    downvotedBy,
+    deviceType,
+    adminValidation,
+    reputationSettled,
+    reputationApplied,
+    ...obstacle
+  } = record;
+  return withExpiryStatus(
+    {
+      ...obstacle,
+      location: { ...record.location },
+      status: record.status || "pending",
+      upvotes: record.upvotes || 0,
+      downvotes: record.downvotes || 0,
+      reportsCount: record.reportsCount || 1,
+      timePattern: record.timePattern || "permanent",
+    },
+    localBackend.now()
+  );
+}
+
+// Map/route/list reads: legacy embedded photos stay behind, like Firestore
+function toListedObstacle(record: LocalObstacleRecord): AccessibilityObstacle {
+  const { photoBase64, ...obstacle } = toObstacle(record);
+  return obstacle;
+}
+
+class LocalFirebaseService implements FirebaseService {
+  private async currentUid(): Promise<string> {
+    await localBackend.ensureLoaded();
+    return localBackend.signInAnonymously().uid;
+  }
+
+  profile = {
+    saveProfile: async (profile: UserMobilityProfile): Promise<void> => {
+      const uid = await this.currentUid();
+      localBackend.setProfile(uid, { ...profile });
+      console.log("Profile saved to local backend");
+    },
+
+    getProfile: async (): Promise<UserMobilityProfile | null> => {
+      const uid = await this.currentUid();
+      const profile = localBackend.getProfile(uid);
+      return profile ? { ...profile } : null;
+    },
+
+    deleteProfile: async (): Promise<void> => {
+      const uid = await this.currentUid();
+      localBackend.setProfile(uid, null);
+      console.log("Profile deleted from local backend");
+    },
+  };
+
+  reputation = {
+    getReputation: async (uid: string): Promise<UserReputationData> => {
+      await localBackend.ensureLoaded();
+      const reputation = localBackend.getReputation(uid);
+      return reputation
+        ? { ...reputation }
+        : userCapabilitiesService.getDefaultReputation(localBackend.now());
+    },
+  };
+
+  photos = {
+    uploadPhoto: async (photo: PhotoUpload): Promise<ObstaclePhoto> => {
+      await localBackend.ensureLoaded();
+
+      // Same size cap as a Firestore blob, so both backends accept one photo
+      const base64 = await cameraService.fitToBlobLimit(
+        stripJpegMetadata(photo.base64)
+      );
+      const thumbnailBase64 = await cameraService.fitToBlobLimit(
+        stripJpegMetadata(photo.thumbnailBase64)
+      );
+      const id = sha256Hex(base64);
+      const thumbnailId = sha256Hex(thumbnailBase64);
+      localBackend.putPhotoBlob(id, base64);
+      localBackend.putPhotoBlob(thumbnailId, thumbnailBase64);
+
+      return { id, thumbnailId, width: photo.width, height: photo.height };
+    },
+
+    getPhoto: async (blobId: string): Promise<string | null> => {
+      await localBackend.ensureLoaded();
+      return localBackend.getPhotoBlob(blobId);
+    },
+  };
+
+  // Same ledger as the settlement Cloud Function, applied synchronously
+  private syncReputation(obstacleId: string): void {
+    const record = localBackend.getObstacle(obstacleId);
+    if (!record) return;
+
+    const target = getReputationTarget(record);
+    const changes = diffReputationLedgers(getAppliedReputation(record), target);
+    if (Object.keys(changes).length === 0) return;
+
+    Object.entries(changes).forEach(([uid, change]) => {
+      const current =
+        localBackend.getReputation(uid) ||
+        userCapabilitiesService.getDefaultReputation(localBackend.now());
+      localBackend.setReputation(
+        uid,
+        userCapabilitiesService.applyReputationDelta(current, change)
+      );
+    });
+    localBackend.updateObstacle(obstacleId, { reputationApplied: target });
+
+    console.log(
+      `⚖️ Reputation updated locally for ${
+        Object.keys(changes).length
+      } user(s) (${record.status})`
+    );
+  }
+
+  obstacle = {
+    reportObstacle: async (obstacleData: {
+      location: UserLocation;
+      type: ObstacleType;
+      severity: "low" | "medium" | "high" | "blocking";
+      description: string;
+      photos?: PhotoUpload[];
+      timePattern?:
+        | "permanent"
+        | "morning"
+        | "afternoon"
+        | "evening"
+        | "weekend";
+      schedule?: ObstacleTimeWindow[];
+      adminUser?: AdminUser;
+    }): Promise<string> => {
+      const uid = await this.currentUid();
+
+      try {
+        obstacleData.schedule?.forEach(validateTimeWindow);
+      } catch (error: any) {
+        throw new Error(`Hindi ma-report ang obstacle: ${error.message}`);
+      }
+
+      const photos = await Promise.all(
+        (obstacleData.photos || []).map((photo) =>
+          this.photos.uploadPhoto(photo)
+        )
+      );
+
+      const photoCheck = obstacleData.photos?.length
+        ? checkPhotoLocation(
+            obstacleData.photos.map((photo) => photo.captureInfo || {}),
+            obstacleData.location,
+            localBackend.now()
+          )
+        : null;
+
+      const obstacleId = localBackend.nextId("obstacle");
+      const isAdminReport = obstacleData.adminUser?.isAdmin === true;
+
+      localBackend.addObstacle({
+        id: obstacleId,
+        location: {
+          latitude: obstacleData.location.latitude,
+          longitude: obstacleData.location.longitude,
+        },
+        geohash: encodeGeohash(
+          obstacleData.location.latitude,
+          obstacleData.location.longitude
+        ),
+        type: obstacleData.type,
+        severity: obstacleData.severity,
+        description: obstacleData.description,
+        reportedBy: uid,
+        reportedAt: localBackend.now(),
+        timePattern: obstacleData.timePattern || "permanent",
+        ...(obstacleData.schedule?.length && {
+          schedule: obstacleData.schedule,
+        }),
+        verified: isAdminReport,
+        status: isAdminReport ? "verified" : "pending",
+        ...(isAdminReport && {
+          adminReported: true,
+          adminRole: obstacleData.adminUser?.role,
+          adminEmail: obstacleData.adminUser?.email || undefined,
+          autoVerified: true,
+        }),
+        upvotes: 0,
+        downvotes: 0,
+        reportsCount: 1,
+        upvotedBy: [],
+        downvotedBy: [],
+        ...(photos.length && { photos }),
+        ...(photoCheck && { photoCheck }),
+        deviceType: "mobile",
+      });
+
+      console.log(
+        `✅ Obstacle reported locally: ${obstacleId} ${
+          isAdminReport ? "(ADMIN AUTO-VERIFIED)" : "(pending verification)"
+        }`
+      );
+      return obstacleId;
+    },
+
+    getObstaclesInArea: async (
+      lat: number,
+      lng: number,
+      radiusKm: number
+    ): Promise<AccessibilityObstacle[]> => {
+      await localBackend.ensureLoaded();
+
+      return localBackend
+        .getObstacles()
+        .filter(
+          (obstacle) =>
+            !obstacle.mergedInto &&
+            obstacle.status !== "withdrawn" &&
+            calculateDistance(
+              { latitude: lat, longitude: lng },
+              obstacle.location
+            ) /
+              1000 <=
+              radiusKm
+        )
+        .map(toListedObstacle);
+    },
+
+    getObstaclesAlongRoute: async (
+      routePoints: UserLocation[],
+      bufferMeters: number
+    ): Promise<AccessibilityObstacle[]> => {
+      await localBackend.ensureLoaded();
+      if (routePoints.length === 0) return [];
+
+      const bufferKm = bufferMeters / 1000;
+      return localBackend
+        .getObstacles()
+        .filter(
+          (obstacle) =>
+            !obstacle.mergedInto &&
+            obstacle.status !== "withdrawn" &&
+            obstacle.location &&
+            distanceToPolylineKm(obstacle.location, routePoints) <= bufferKm
+        )
+        .map(toListedObstacle);
+    },
+
+    backfillGeohashes: async (): Promise<number> => {
+      await localBackend.ensureLoaded();
+
+      let updated = 0;
+      localBackend.getObstacles().forEach((obstacle) => {
+        if (obstacle.geohash || !obstacle.location) return;
+        localBackend.updateObstacle(obstacle.id, {
+          geohash: encodeGeohash(
+            obstacle.location.latitude,
+            obstacle.location.longitude
+          ),
+        });
+        updated++;
+      });
+      return updated;
+    },
+
+    migrateEmbeddedPhotos: async (): Promise<number> => {
+      await localBackend.ensureLoaded();
+
+      let migrated = 0;
+      for (const obstacle of localBackend.getObstacles()) {
+        if (!obstacle.photoBase64) continue;
+
+        const photo = await this.photos.uploadPhoto({
+          base64: obstacle.photoBase64,
+          thumbnailBase64: obstacle.photoBase64,
+          width: 0,
+          height: 0,
+        });
+        localBackend.updateObstacle(obstacle.id, {
+          photos: [...(obstacle.photos || []), photo],
+          photoBase64: undefined,
+        });
+        migrated++;
+      }
+      return migrated;
+    },
+
+    verifyObstacle: async (
+      obstacleId: string,
+      verification: "upvote" | "downvote"
+    ): Promise<void> => {
+      const uid = await this.currentUid();
+      const obstacle = localBackend.getObstacle(obstacleId);
+      if (!obstacle) return; // Firestore version is a no-op for unknown ids
+
+      const weight = userCapabilitiesService.getVoteWeight(
+        localBackend.getReputation(uid)
+      );
+
+      // A repeat vote is recorded but adds no weight or count
+      const votersKey = verification === "upvote" ? "upvotedBy" : "downvotedBy";
+      const alreadyVoted = (obstacle[votersKey] || []).includes(uid);
+      const tally = addWeightedVote(obstacle, verification, uid, weight);
+
+      // Admin decisions are final; otherwise the weighted tally decides
+      const adminDecided = obstacle.adminValidation || obstacle.verified;
+      const status = adminDecided
+        ? obstacle.status
+        : decideCommunityStatus(tally, obstacle.severity);
+
+      // Same semantics as the guarded increment() + arrayUnion(): each voter
+      // counts once. reportsCount is untouched.
+      const countKey = verification === "upvote" ? "upvotes" : "downvotes";
+      const updated = localBackend.updateObstacle(obstacleId, {
+        ...(!alreadyVoted && {
+          [countKey]: (obstacle[countKey] || 0) + 1,
+          [votersKey]: [...(obstacle[votersKey] || []), uid],
+        }),
+        ...tally,
+        ...(!adminDecided && { status }),
+        lastVerifiedAt: localBackend.now(),
+        // Only "still there" restarts the decay clock
+        ...(verification === "upvote" && {
+          lastConfirmedAt: localBackend.now(),
+        }),
+      });
+
+      console.log(
+        `✅ ${verification} recorded locally for ${obstacleId} (weight ${weight.toFixed(
+          2
+        )})`
+      );
+
+      // A vote can decide the report or reverse an earlier decision
+      if (updated) this.syncReputation(obstacleId);
+    },
+
+    recordPromptEvent: async (
+      obstacleId: string,
+      eventData: ValidationEvent
+    ): Promise<void> => {
+      await localBackend.ensureLoaded();
+
+      localBackend.addLog("validation_events", {
+        obstacleId,
+        userId: localBackend.getCurrentUser()?.uid || "anonymous",
+        action: eventData.action,
+        timestamp: localBackend.now(),
+        location: eventData.location || null,
+        method: eventData.method,
+        userHash: eventData.userHash || null,
+        deviceType: "mobile",
+      });
+    },
+
+    updateObstacleConfidence: async (
+      obstacleId: string,
+      newConfidence: number
+    ): Promise<void> => {
+      await localBackend.ensureLoaded();
+      localBackend.updateObstacle(obstacleId, {
+        confidenceScore: newConfidence,
+      });
+    },
+
+    getCurrentAdminUser: async (): Promise<AdminUser | null> => {
+      await localBackend.ensureLoaded();
+
+      const user = localBackend.getCurrentUser();
+      if (!user) return null;
+
+      const { claims } = await user.getIdTokenResult();
+      if (claims.admin !== true) return null;
+
+      return {
+        uid: user.uid,
+        email: user.email,
+        isAdmin: true,
+        role: claims.role,
+        permissions: claims.permissions || [],
+      };
+    },
+
+    updateObstacleStatus: async (
+      obstacleId: string,
+      status: "verified" | "resolved" | "false_report",
+      adminUser: AdminUser,
+      notes?: string
+    ): Promise<void> => {
+      await localBackend.ensureLoaded();
+
+      const updated = localBackend.updateObstacle(obstacleId, {
+        status,
+        verified: status === "verified",
+        reviewedBy: adminUser.uid,
+        reviewedAt: localBackend.now(),
+        adminValidation: true,
+        ...(notes && { adminNotes: notes }),
+      });
+
+      if (updated) {
+        console.log(
+          `✅ Admin ${adminUser.email} updated obstacle ${obstacleId} to ${status} (local)`
+        );
+
+        // An admin verdict overrides whatever the community settled
+        this.syncReputation(obstacleId);
+      }
+    },
+
+    getUserReports: async (
+      userId: string
+    ): Promise<AccessibilityObstacle[]> => {
+      await localBackend.ensureLoaded();
+
+      return localBackend
+        .getObstacles()
+        .filter((obstacle) => obstacle.reportedBy === userId)
+        .sort((a, b) => b.reportedAt.getTime() - a.reportedAt.getTime())
+        .map(toListedObstacle);
+    },
+
+    getObstacleById: async (
+      obstacleId: string
+    ): Promise<AccessibilityObstacle | null> => {
+      await localBackend.ensureLoaded();
+
+      const record = localBackend.getObstacle(obstacleId);
+      return record ? toObstacle(record) : null;
+    },
+
+    confirmExistingReport: async (obstacleId: string): Promise<void> => {
+      const uid = await this.currentUid();
+      const obstacle = localBackend.getObstacle(obstacleId);
+      if (!obstacle) {
+        throw new Error("Hindi ma-confirm ang report: Report no longer exists");
+      }
+
+      // Reporting the same spot again is another report, not another vote
+      const alreadyUpvoted = obstacle.upvotedBy.includes(uid);
+      const tally = addWeightedVote(
+        obstacle,
+        "upvote",
+        uid,
+        userCapabilitiesService.getVoteWeight(localBackend.getReputation(uid))
+      );
+      const adminDecided = obstacle.adminValidation || obstacle.verified;
+
+      localBackend.updateObstacle(obstacleId, {
+        reportsCount: (obstacle.reportsCount || 1) + 1,
+        ...(!alreadyUpvoted && {
+          upvotes: (obstacle.upvotes || 0) + 1,
+          upvotedBy: [...obstacle.upvotedBy, uid],
+        }),
+        ...tally,
+        ...(!adminDecided && {
+          status: decideCommunityStatus(tally, obstacle.severity),
+        }),
+        lastVerifiedAt: localBackend.now(),
+        lastConfirmedAt: localBackend.now(),
+      });
+      this.syncReputation(obstacleId);
+
+      console.log(`✅ Existing obstacle ${obstacleId} confirmed locally`);
+    },
+
+    mergeObstacles: async (
+      primaryId: string,
+      duplicateIds: string[],
+      adminUser: AdminUser
+    ): Promise<void> => {
+      await localBackend.ensureLoaded();
+
+      if (!adminUser.isAdmin) {
+        throw new Error("Only admins can merge reports");
+      }
+
+      const ids = duplicateIds.filter((id) => id !== primaryId);
+      if (ids.length === 0) return;
+
+      const primary = localBackend.getObstacle(primaryId);
+      if (!primary) {
+        throw new Error(
+          `Failed to merge reports: Report ${primaryId} not found`
+        );
+      }
+      if (primary.mergedInto) {
+        throw new Error(
+          `Failed to merge reports: Report ${primaryId} was already merged`
+        );
+      }
+
+      const duplicates = ids.map((id) => {
+        const duplicate = localBackend.getObstacle(id);
+        if (!duplicate) {
+          throw new Error(`Failed to merge reports: Report ${id} not found`);
+        }
+        return duplicate;
+      });
+      const toMerge = duplicates.filter((duplicate) => !duplicate.mergedInto);
+
+      const votes = mergeDuplicateVotes([primary, ...toMerge]);
+      const adminDecided = primary.adminValidation || primary.verified;
+
+      localBackend.updateObstacle(primaryId, {
+        ...votes,
+        ...(!adminDecided && {
+          status: decideCommunityStatus(votes, primary.severity),
+        }),
+        mergedFrom: Array.from(
+          new Set([...(primary.mergedFrom || []), ...toMerge.map((d) => d.id)])
+        ),
+      });
+      toMerge.forEach((duplicate) => {
+        localBackend.updateObstacle(duplicate.id, {
+          mergedInto: primaryId,
+          reviewedBy: adminUser.uid,
+          reviewedAt: localBackend.now(),
+          adminValidation: true,
+          adminNotes: `Merged into ${primaryId}`,
+        });
+      });
+      // Votes moved to the primary report, and their credits with them
+      [primaryId, ...toMerge.map((d) => d.id)].forEach((id) =>
+        this.syncReputation(id)
+      );
+
+      console.log(
+        `✅ Admin ${adminUser.email} merged ${toMerge.length} duplicate(s) into ${primaryId} (local)`
+      );
+    },
+
+    editReport: async (
+      obstacleId: string,
+      edit: ReportEdit
+    ): Promise<ReportRevision> =>
+      this.reviseOwnReport(obstacleId, "edit", edit),
+
+    withdrawReport: async (
+      obstacleId: string,
+      reason?: string
+    ): Promise<ReportRevision> =>
+      this.reviseOwnReport(obstacleId, "withdraw", undefined, reason),
+
+    getReportRevisions: async (
+      obstacleId: string
+    ): Promise<ReportRevision[]> => {
+      await localBackend.ensureLoaded();
+
+      return localBackend
+        .getLogs("report_revisions")
+        .filter((revision) => revision.obstacleId === obstacleId)
+        .map((revision) => ({
+          ...revision,
+          editedAt: new Date(revision.editedAt), // String when loaded from file
+        }))
+        .sort((a, b) => a.revision - b.revision);
+    },
+  };
+
+  // Same rules as the Firestore service; revisions go to an append-only log
+  private async reviseOwnReport(
+    obstacleId: string,
+    action: ReportRevision["action"],
+    edit?: ReportEdit,
+    reason?: string
+  ): Promise<ReportRevision> {
+    const uid = await this.currentUid();
+
+    try {
+      const record = localBackend.getObstacle(obstacleId);
+      if (!record) {
+        throw new Error(`Report ${obstacleId} not found`);
+      }
+      assertReportModifiable(record, uid);
+
+      const newPhotos = edit?.photos
+        ? await Promise.all(
+            edit.photos.map((photo) => this.photos.uploadPhoto(photo))
+          )
+        : undefined;
+      const editedAt = localBackend.now();
+
+      const after =
+        action === "edit"
+          ? applyReportEdit(getRevisionFields(record), {
+              ...edit,
+              photos: newPhotos,
+            })
+          : getRevisionFields(record);
+      const entry = buildRevision({
+        obstacleId,
+        revision: (record.revisionCount || 0) + 1,
+        action,
+        editedBy: uid,
+        editedAt,
+        report: record,
+        after,
+        reason,
+      });
+
+      const id = localBackend.addLog("report_revisions", entry);
+      localBackend.updateObstacle(obstacleId, {
+        ...(action === "edit"
+          ? {
+              type: after.type,
+              severity: after.severity,
+              description: after.description,
+              photos: after.photos,
+            }
+          : { status: "withdrawn" as const }),
+        ...(edit?.photos && {
+          photoCheck: edit.photos.length
+            ? checkPhotoLocation(
+                edit.photos.map((photo) => photo.captureInfo || {}),
+                record.location,
+                editedAt
+              )
+            : undefined,
+          photoBase64: undefined,
+        }),
+        ...(entry.validationReset && {
+          ...VALIDATION_RESET,
+          lastVerifiedAt: undefined,
+          lastConfirmedAt: undefined,
+        }),
+        revisionCount: entry.revision,
+        lastEditedAt: editedAt,
+      });
+
+      console.log(
+        `✏️ Report ${obstacleId} ${
+          action === "edit" ? "edited" : "withdrawn"
+        } locally (revision ${entry.revision})`
+      );
+      return { id, ...entry };
+    } catch (error: any) {
+      throw new Error(`Hindi mabago ang report: ${error.message}`);
+    }
+  }
+}
+
+export { LocalFirebaseService };
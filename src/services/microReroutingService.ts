@@ -6,7 +6,7 @@ import {
   AccessibilityObstacle,
   UserMobilityProfile,
 } from "../types";
-import { googleMapsService } from "./googleMapsService"; // 🔧 FIX #1: Corrected import path
+import { routingService } from "./routingProvider";
 // 🔧 REMOVED: Firebase import since we're not using analytics yet
 
 // ================================================
@@ -172,7 +172,7 @@ class MicroReroutingService {
         `✅ ${viableCandidates.length} candidates pass pre-filtering`
       );
 
-      // Evaluate candidates with Google Maps API
+      // Evaluate candidates with the routing provider
       for (const candidate of viableCandidates) {
         try {
           // 🔧 FIX #5: Use concurrency control
@@ -474,11 +474,11 @@ class MicroReroutingService {
     candidate: DetourCandidate
   ): Promise<WaypointRouteResult | null> {
     try {
-      // 🔧 FIX #3: Ensure Google Maps service is ready
-      await googleMapsService.ensureReady();
+      // 🔧 FIX #3: Ensure the routing provider is ready
+      await routingService.ensureReady();
 
       // Get route with waypoints
-      const routeResult = await googleMapsService.getRouteWithWaypoints(
+      const routeResult = await routingService.getRouteWithWaypoints(
         currentLocation,
         destination,
         candidate.waypoints
@@ -497,7 +497,7 @@ class MicroReroutingService {
         console.log(
           "🔄 Computing extra time/distance using direct route fallback"
         );
-        const directRoute = await googleMapsService.getRoutes(
+        const directRoute = await routingService.getRoutes(
           currentLocation,
           destination
         );
@@ -11,6 +11,8 @@ import { getAuth } from "firebase/auth";
 import { getUnifiedFirebaseAuth } from "../config/firebaseConfig";
 import * as Device from "expo-device";
 import * as Application from "expo-application";
+import { isLocalBackend } from "../config/backendConfig";
+import { localBackend, LocalLogCollection } from "./localBackend";
 
 // Mobile admin log entry interface
 export interface MobileAdminLogEntry {
@@ -45,6 +47,7 @@ export type MobileAdminActionType =
   | "mobile_admin_signout"
   | "mobile_obstacle_report"
   | "mobile_obstacle_verify"
+  | "mobile_obstacle_merge"
   | "mobile_app_launch"
   | "mobile_location_access";
 
@@ -54,6 +57,7 @@ const MOBILE_ACTION_DESCRIPTIONS: Record<MobileAdminActionType, string> = {
   mobile_admin_signout: "Admin signed out from mobile app",
   mobile_obstacle_report: "Reported obstacle via mobile app",
   mobile_obstacle_verify: "Verified obstacle report via mobile app",
+  mobile_obstacle_merge: "Merged duplicate obstacle reports via mobile app",
   mobile_app_launch: "Launched mobile app",
   mobile_location_access: "Granted location access permission",
 };
@@ -67,6 +71,12 @@ class MobileAdminLogger {
   }
 
   private async initializeFirestore() {
+    // Local backend keeps logs in its own collections
+    if (isLocalBackend()) {
+      this.isInitialized = true;
+      return;
+    }
+
     try {
       // Use the unified Firebase config
       const auth = await getUnifiedFirebaseAuth();
@@ -116,8 +126,9 @@ class MobileAdminLogger {
     adminRole?: "lgu_admin" | "field_admin";
   }> {
     try {
-      const auth = await getUnifiedFirebaseAuth();
-      const user = auth?.currentUser;
+      const user = isLocalBackend()
+        ? localBackend.getCurrentUser()
+        : (await getUnifiedFirebaseAuth())?.currentUser;
 
       if (!user) {
         return { isAdmin: false };
@@ -162,7 +173,7 @@ class MobileAdminLogger {
         await this.initializeFirestore();
       }
 
-      if (!this.db) {
+      if (!this.db && !isLocalBackend()) {
         console.warn("⚠️ Firestore not initialized, skipping mobile log");
         return;
       }
@@ -193,10 +204,7 @@ class MobileAdminLogger {
       };
 
       // Save to Firestore mobile_admin_logs collection
-      await addDoc(collection(this.db, "mobile_admin_logs"), {
-        ...logEntry,
-        timestamp: serverTimestamp(), // Use server timestamp
-      });
+      await this.writeLog("mobile_admin_logs", logEntry);
 
       console.log(`📝 Mobile admin log: ${action} by ${adminInfo.adminEmail}`);
 
@@ -229,10 +237,9 @@ class MobileAdminLogger {
           deviceInfo: mobileLogEntry.metadata,
           mobileAction: true,
         },
-        timestamp: serverTimestamp(),
       };
 
-      await addDoc(collection(this.db, "audit_logs"), auditEntry);
+      await this.writeLog("audit_logs", auditEntry);
       console.log("📋 Mobile action logged to main audit trail");
     } catch (error) {
       console.error("⚠️ Failed to log to main audit trail:", error);
@@ -240,6 +247,27 @@ class MobileAdminLogger {
     }
   }
 
+  /**
+   * Write a log document, stamped with server time (or the local clock)
+   */
+  private async writeLog(
+    collectionName: LocalLogCollection,
+    entry: Record<string, any>
+  ): Promise<void> {
+    if (isLocalBackend()) {
+      localBackend.addLog(collectionName, {
+        ...entry,
+        timestamp: localBackend.now(),
+      });
+      return;
+    }
+
+    await addDoc(collection(this.db, collectionName), {
+      ...entry,
+      timestamp: serverTimestamp(), // Use server timestamp
+    });
+  }
+
   /**
    * Log admin sign in
    */
@@ -281,6 +309,20 @@ class MobileAdminLogger {
     );
   }
 
+  /**
+   * Log duplicate reports merged by admin
+   */
+  async logObstacleMerge(
+    primaryId: string,
+    duplicateIds: string[]
+  ): Promise<void> {
+    await this.logAdminAction(
+      "mobile_obstacle_merge",
+      `Admin merged ${duplicateIds.length} duplicate report(s) into ${primaryId}`,
+      { obstacleId: primaryId }
+    );
+  }
+
   /**
    * Log app launch by admin
    */
@@ -313,4 +355,8 @@ export const logAdminObstacleReport = (
     severity,
     location
   );
+export const logAdminObstacleMerge = (
+  primaryId: string,
+  duplicateIds: string[]
+) => mobileAdminLogger.logObstacleMerge(primaryId, duplicateIds);
 export const logAdminAppLaunch = () => mobileAdminLogger.logAppLaunch();
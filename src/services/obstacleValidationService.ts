@@ -9,6 +9,11 @@ import type {
   ObstacleType,
   UserMobilityProfile,
 } from "../types";
+import {
+  getAutoExpireDate,
+  getObstacleFreshness,
+  isObstacleExpired,
+} from "../utils/obstacleDecay";
 
 // CRITICAL: Normalize timestamp helper for Firestore compatibility
 function toDate(ts: any): Date | null {
@@ -32,7 +37,7 @@ export interface ValidationPrompt {
 
 export interface ObstacleValidationStatus {
   id: string;
-  tier: "single_report" | "community_verified" | "admin_resolved";
+  tier: "single_report" | "community_verified" | "admin_resolved" | "expired";
   displayLabel: string;
   confidence: "low" | "medium" | "high";
   validationCount: number;
@@ -45,7 +50,6 @@ class ObstacleValidationService {
   private readonly PROXIMITY_RADIUS = 20;
   private readonly ROUTE_TOLERANCE = 15;
   private readonly MAX_PROMPTS_PER_SESSION = 2;
-  private readonly AUTO_EXPIRE_DAYS = 30;
   private readonly USER_VALIDATION_COOLDOWN_DAYS = 1;
   private sessionPromptCount = 0;
 
@@ -227,7 +231,7 @@ class ObstacleValidationService {
       return false;
     }
 
-    if (this.isExpired(obstacle)) {
+    if (isObstacleExpired(obstacle)) {
       console.log("📅 Skip - obstacle expired");
       return false;
     }
@@ -342,11 +346,15 @@ class ObstacleValidationService {
     const downvotes = obstacle.downvotes || 0;
     const totalValidations = upvotes + downvotes;
 
-    let tier: "single_report" | "community_verified" | "admin_resolved";
+    let tier: ObstacleValidationStatus["tier"];
     let confidence: "low" | "medium" | "high";
     let displayLabel: string;
 
-    if (obstacle.verified || obstacle.status === "resolved") {
+    if (isObstacleExpired(obstacle)) {
+      tier = "expired";
+      confidence = "low";
+      displayLabel = "Expired - Not Confirmed Recently";
+    } else if (obstacle.verified || obstacle.status === "resolved") {
       tier = "admin_resolved";
       confidence = "high";
       displayLabel =
@@ -357,6 +365,11 @@ class ObstacleValidationService {
       tier = "community_verified";
       confidence = upvotes > downvotes ? "medium" : "low";
       displayLabel = `Community Verified (${upvotes} confirms, ${downvotes} disputes)`;
+
+      // Confirmations older than a half-life say less about today
+      if (getObstacleFreshness(obstacle) < 0.5) {
+        confidence = "low";
+      }
     } else {
       tier = "single_report";
       confidence = "low";
@@ -371,14 +384,11 @@ class ObstacleValidationService {
       validationCount: totalValidations,
       conflictingReports: downvotes > 0,
       needsValidation:
-        tier === "single_report" || (downvotes > 0 && upvotes <= downvotes),
-      autoExpireDate: new Date(
-        (obstacle.reportedAt instanceof Date
-          ? obstacle.reportedAt
-          : new Date(obstacle.reportedAt)
-        ).getTime() +
-          this.AUTO_EXPIRE_DAYS * 24 * 60 * 60 * 1000
-      ),
+        tier === "single_report" ||
+        (tier === "community_verified" &&
+          downvotes > 0 &&
+          upvotes <= downvotes),
+      autoExpireDate: getAutoExpireDate(obstacle),
     };
   }
 
@@ -410,6 +420,14 @@ class ObstacleValidationService {
           priority: 2,
         };
 
+      case "expired":
+        return {
+          color: "#9CA3AF",
+          opacity: 0.3,
+          icon: "hourglass-outline",
+          priority: 0,
+        };
+
       case "single_report":
       default:
         return {
@@ -459,16 +477,6 @@ class ObstacleValidationService {
     return lastValidated > cooldownDate;
   }
 
-  private isExpired(obstacle: AccessibilityObstacle): boolean {
-    const reportDate =
-      obstacle.reportedAt instanceof Date
-        ? obstacle.reportedAt
-        : new Date(obstacle.reportedAt);
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - this.AUTO_EXPIRE_DAYS);
-    return reportDate < thirtyDaysAgo;
-  }
-
   private calculateDistance(
     point1: UserLocation,
     point2: UserLocation
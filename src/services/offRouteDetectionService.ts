@@ -0,0 +1,184 @@
+// src/services/offRouteDetectionService.ts
+// Detects when the user has left the planned route. A single bad GPS fix
+// shouldn't trigger a reroute, so deviation has to persist over several fixes.
+
+import { UserLocation } from "../types";
+import {
+  calculateBearing,
+  calculateAngleDifference,
+} from "../utils/navigationUtils";
+import { calculateDistance } from "../utils/mapUtils";
+
+export interface OffRouteConfig {
+  maxCrossTrack: number; // meters - beyond this a fix counts as off route
+  headingCrossTrack: number; // meters - smaller offset that counts when heading away
+  maxHeadingDifference: number; // degrees between travel and route direction
+  requiredFixes: number; // consecutive deviating fixes before triggering
+  minHeadingMovement: number; // meters moved before heading is trusted
+  cooldown: number; // milliseconds after a trigger before checking again
+}
+
+export interface OffRouteCheck {
+  isOffRoute: boolean;
+  crossTrackDistance: number; // meters to the nearest route segment
+  headingDifference: number | null; // null until the user has moved enough
+  deviatingFixes: number;
+}
+
+interface RouteProjection {
+  segmentIndex: number;
+  distance: number; // meters
+}
+
+class OffRouteDetectionService {
+  private config: OffRouteConfig = {
+    maxCrossTrack: 30,
+    headingCrossTrack: 15,
+    maxHeadingDifference: 60,
+    requiredFixes: 3,
+    minHeadingMovement: 8,
+    cooldown: 20000,
+  };
+
+  private recentFixes: UserLocation[] = [];
+  private deviatingFixes = 0;
+  private lastTriggerTime = 0;
+
+  /**
+   * Feed a GPS fix. Returns isOffRoute = true once, when deviation has lasted
+   * `requiredFixes` fixes; the caller is expected to reroute.
+   */
+  checkLocation(
+    location: UserLocation,
+    routePolyline: UserLocation[]
+  ): OffRouteCheck {
+    const noResult: OffRouteCheck = {
+      isOffRoute: false,
+      crossTrackDistance: 0,
+      headingDifference: null,
+      deviatingFixes: 0,
+    };
+    if (routePolyline.length < 2) return noResult;
+
+    this.recentFixes.push(location);
+    if (this.recentFixes.length > this.config.requiredFixes + 1) {
+      this.recentFixes.shift();
+    }
+
+    const projection = this.projectOntoRoute(location, routePolyline);
+    const headingDifference = this.getHeadingDifference(
+      routePolyline,
+      projection.segmentIndex
+    );
+
+    // GPS accuracy widens the corridor; a 25m-accurate fix 30m out proves little
+    const accuracySlack = Math.min(location.accuracy || 0, 30);
+    const crossTrack = Math.max(0, projection.distance - accuracySlack);
+
+    const isDeviating =
+      crossTrack > this.config.maxCrossTrack ||
+      (crossTrack > this.config.headingCrossTrack &&
+        headingDifference !== null &&
+        headingDifference > this.config.maxHeadingDifference);
+
+    this.deviatingFixes = isDeviating ? this.deviatingFixes + 1 : 0;
+
+    const inCooldown = Date.now() - this.lastTriggerTime < this.config.cooldown;
+    const isOffRoute =
+      !inCooldown && this.deviatingFixes >= this.config.requiredFixes;
+
+    if (isOffRoute) {
+      console.log(
+        `🚧 Off route: ${Math.round(
+          projection.distance
+        )}m from route, heading ${
+          headingDifference === null ? "unknown" : Math.round(headingDifference)
+        }° off, ${this.deviatingFixes} fixes`
+      );
+      this.lastTriggerTime = Date.now();
+      this.deviatingFixes = 0;
+    }
+
+    return {
+      isOffRoute,
+      crossTrackDistance: projection.distance,
+      headingDifference,
+      deviatingFixes: this.deviatingFixes,
+    };
+  }
+
+  /**
+   * Forget fix history (new route, navigation stopped)
+   */
+  reset(): void {
+    this.recentFixes = [];
+    this.deviatingFixes = 0;
+  }
+
+  updateConfig(newConfig: Partial<OffRouteConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig(): OffRouteConfig {
+    return { ...this.config };
+  }
+
+  // Travel direction from the oldest recent fix vs. the nearest segment's direction
+  private getHeadingDifference(
+    routePolyline: UserLocation[],
+    segmentIndex: number
+  ): number | null {
+    if (this.recentFixes.length < 2) return null;
+
+    const first = this.recentFixes[0];
+    const last = this.recentFixes[this.recentFixes.length - 1];
+    if (calculateDistance(first, last) < this.config.minHeadingMovement) {
+      return null;
+    }
+
+    const travelBearing = calculateBearing(first, last);
+    const routeBearing = calculateBearing(
+      routePolyline[segmentIndex],
+      routePolyline[segmentIndex + 1]
+    );
+    return calculateAngleDifference(travelBearing, routeBearing);
+  }
+
+  private projectOntoRoute(
+    point: UserLocation,
+    routePolyline: UserLocation[]
+  ): RouteProjection {
+    let best: RouteProjection = { segmentIndex: 0, distance: Infinity };
+
+    for (let i = 0; i < routePolyline.length - 1; i++) {
+      const a = routePolyline[i];
+      const b = routePolyline[i + 1];
+
+      // Local flat projection is fine at segment scale
+      const cosLat = Math.cos((a.latitude * Math.PI) / 180);
+      const bx = (b.longitude - a.longitude) * cosLat;
+      const by = b.latitude - a.latitude;
+      const px = (point.longitude - a.longitude) * cosLat;
+      const py = point.latitude - a.latitude;
+      const lengthSq = bx * bx + by * by;
+      const t =
+        lengthSq === 0
+          ? 0
+          : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+
+      const distance = calculateDistance(point, {
+        latitude: a.latitude + t * (b.latitude - a.latitude),
+        longitude: a.longitude + t * (b.longitude - a.longitude),
+      });
+
+      if (distance < best.distance) {
+        best = { segmentIndex: i, distance };
+      }
+    }
+
+    return best;
+  }
+}
+
+export const offRouteDetectionService = new OffRouteDetectionService();
+export { OffRouteDetectionService };
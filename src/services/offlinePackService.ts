@@ -0,0 +1,551 @@
+// src/services/offlinePackService.ts
+// Downloadable offline navigation packs for a bounding box
+// A pack bundles obstacles, sidewalks/crossings, saved routes and POIs so
+// navigation keeps working under flyovers and on exhausted prepaid data
+
+import * as FileSystem from "expo-file-system";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { firebaseServices } from "./firebase";
+import { GoogleRoute } from "./googleMapsService";
+import { routingService } from "./routingProvider";
+import { pedestrianGraphRouter } from "./pedestrianGraphRouter";
+import { SAMPLE_POIS } from "../constants/navigationConstants";
+import { isObstacleActiveAt } from "../utils/obstacleSchedule";
+import { isObstacleExpired } from "../utils/obstacleDecay";
+import {
+  UserLocation,
+  UserMobilityProfile,
+  AccessibilityObstacle,
+  PointOfInterest,
+} from "../types";
+import { SidewalkEntity, CrossingPoint } from "../types/sidewalkTypes";
+import { calculateDistance } from "../utils/mapUtils";
+
+export interface OfflinePackBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface OfflineSavedRoute {
+  id: string;
+  name: string;
+  start: UserLocation;
+  end: UserLocation;
+  googleRoute: GoogleRoute; // Polyline + steps, as returned when online
+}
+
+export interface OfflinePack {
+  id: string;
+  name: string;
+  bounds: OfflinePackBounds;
+  createdAt: string; // ISO date string
+  obstacles: AccessibilityObstacle[]; // Without photos, to keep packs small
+  sidewalks: SidewalkEntity[];
+  crossings: CrossingPoint[];
+  routes: OfflineSavedRoute[];
+  pois: PointOfInterest[];
+}
+
+// Lightweight listing entry kept in AsyncStorage; pack bodies live on disk
+export interface OfflinePackSummary {
+  id: string;
+  name: string;
+  bounds: OfflinePackBounds;
+  createdAt: string;
+  counts: {
+    obstacles: number;
+    sidewalks: number;
+    crossings: number;
+    routes: number;
+    pois: number;
+  };
+  sizeBytes: number;
+}
+
+export interface OfflinePackRequest {
+  name: string;
+  bounds: OfflinePackBounds;
+  routes?: { name: string; start: UserLocation; end: UserLocation }[];
+  pois?: PointOfInterest[]; // Extra POIs beyond the built-in ones
+}
+
+// One route option computed without network
+export interface OfflineRouteOption {
+  polyline: UserLocation[];
+  distance: number; // meters
+  duration: number; // seconds
+  obstacles: AccessibilityObstacle[];
+}
+
+export interface OfflineRouteResult {
+  source: "saved_route" | "sidewalk_graph";
+  packId: string;
+  packName: string;
+  routes: OfflineRouteOption[];
+}
+
+const MAX_PACK_AREA_KM2 = 16; // e.g. 4km x 4km, roughly a Pasig district
+const MAX_SAVED_ROUTES = 5;
+const SAVED_ROUTE_MATCH_METERS = 150; // Start/end must be this close to reuse a route
+const ROUTE_OBSTACLE_BUFFER_METERS = 50;
+const OFFLINE_BACKOFF_MS = 30000; // Skip the network this long after a failure
+
+class OfflinePackService {
+  private readonly STORAGE_KEY = "@waispath:offline_packs";
+  private readonly PACK_DIRECTORY = `${FileSystem.documentDirectory}offline_packs/`;
+
+  private loadedPacks = new Map<string, OfflinePack>();
+  private appliedNetworks = new Set<string>();
+  private lastNetworkFailure = 0;
+
+  // =====================================================
+  // CONNECTIVITY HINTS
+  // =====================================================
+
+  /**
+   * Record that a network call failed, so callers go straight to packs for a while
+   */
+  reportNetworkFailure(): void {
+    this.lastNetworkFailure = Date.now();
+  }
+
+  reportNetworkSuccess(): void {
+    this.lastNetworkFailure = 0;
+  }
+
+  isLikelyOffline(): boolean {
+    return Date.now() - this.lastNetworkFailure < OFFLINE_BACKOFF_MS;
+  }
+
+  // =====================================================
+  // DOWNLOAD / MANAGE
+  // =====================================================
+
+  /**
+   * Download everything needed to navigate inside a bounding box
+   */
+  async downloadPack(request: OfflinePackRequest): Promise<OfflinePackSummary> {
+    const { bounds } = request;
+    this.validateBounds(bounds);
+
+    const requestedRoutes = request.routes || [];
+    if (requestedRoutes.length > MAX_SAVED_ROUTES) {
+      throw new Error(
+        `An offline pack can hold at most ${MAX_SAVED_ROUTES} saved routes`
+      );
+    }
+
+    console.log(`📦 Downloading offline pack "${request.name}"...`);
+
+    // Obstacles: covering circle query, then trim to the box
+    const center = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: (bounds.east + bounds.west) / 2,
+    };
+    const radiusKm =
+      calculateDistance(center, {
+        latitude: bounds.north,
+        longitude: bounds.east,
+      }) / 1000;
+
+    const areaObstacles = await firebaseServices.obstacle.getObstaclesInArea(
+      center.latitude,
+      center.longitude,
+      radiusKm
+    );
+    const obstacles = areaObstacles
+      .filter(
+        (obstacle) =>
+          obstacle.status !== "resolved" &&
+          obstacle.status !== "false_report" &&
+          obstacle.status !== "expired" &&
+          this.isInBounds(obstacle.location, bounds)
+      )
+      .map(({ photoBase64, ...rest }) => rest);
+
+    // Sidewalk network: every sidewalk touching the box, and crossings between them
+    const network = pedestrianGraphRouter.getNetwork();
+    const sidewalks = network.sidewalks.filter((sidewalk) =>
+      sidewalk.coordinates.some((point) => this.isInBounds(point, bounds))
+    );
+    const sidewalkIds = new Set(sidewalks.map((s) => s.id));
+    const crossings = network.crossings.filter(
+      (crossing) =>
+        sidewalkIds.has(crossing.connectsSidewalks[0]) &&
+        sidewalkIds.has(crossing.connectsSidewalks[1])
+    );
+
+    // Saved routes, with full polylines and steps
+    const routes: OfflineSavedRoute[] = [];
+    for (const [index, requested] of requestedRoutes.entries()) {
+      const googleRoutes = await routingService.getRoutes(
+        requested.start,
+        requested.end,
+        true
+      );
+      googleRoutes.slice(0, 2).forEach((googleRoute, alternative) => {
+        routes.push({
+          id: `${index}_${alternative}`,
+          name: requested.name,
+          start: requested.start,
+          end: requested.end,
+          googleRoute,
+        });
+      });
+    }
+
+    const pois = [...SAMPLE_POIS, ...(request.pois || [])].filter(
+      (poi, i, all) =>
+        this.isInBounds(poi.location, bounds) &&
+        all.findIndex((other) => other.id === poi.id) === i
+    );
+
+    const pack: OfflinePack = {
+      id: `pack_${Date.now()}`,
+      name: request.name,
+      bounds,
+      createdAt: new Date().toISOString(),
+      obstacles,
+      sidewalks,
+      crossings,
+      routes,
+      pois,
+    };
+
+    const summary = await this.savePack(pack);
+
+    console.log(
+      `✅ Offline pack "${pack.name}" saved: ${obstacles.length} obstacles, ${
+        sidewalks.length
+      } sidewalks, ${routes.length} routes, ${pois.length} POIs (${Math.round(
+        summary.sizeBytes / 1024
+      )} KB)`
+    );
+
+    return summary;
+  }
+
+  async listPacks(): Promise<OfflinePackSummary[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error("❌ Failed to read offline pack list:", error);
+      return [];
+    }
+  }
+
+  async deletePack(packId: string): Promise<void> {
+    const packs = await this.listPacks();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify(packs.filter((pack) => pack.id !== packId))
+    );
+    await FileSystem.deleteAsync(this.packUri(packId), { idempotent: true });
+
+    this.loadedPacks.delete(packId);
+    this.appliedNetworks.delete(packId);
+    console.log(`🗑️ Deleted offline pack ${packId}`);
+  }
+
+  async loadPack(packId: string): Promise<OfflinePack | null> {
+    const cached = this.loadedPacks.get(packId);
+    if (cached) return cached;
+
+    try {
+      const content = await FileSystem.readAsStringAsync(this.packUri(packId));
+      const pack: OfflinePack = JSON.parse(content);
+      pack.obstacles = pack.obstacles.map((obstacle) => ({
+        ...obstacle,
+        reportedAt: new Date(obstacle.reportedAt),
+      }));
+
+      this.loadedPacks.set(packId, pack);
+      return pack;
+    } catch (error) {
+      console.error(`❌ Failed to load offline pack ${packId}:`, error);
+      return null;
+    }
+  }
+
+  // =====================================================
+  // OFFLINE QUERIES
+  // =====================================================
+
+  /**
+   * Packs whose bounds contain every given point
+   */
+  async getPacksCovering(points: UserLocation[]): Promise<OfflinePack[]> {
+    const summaries = await this.listPacks();
+    const covering = summaries.filter((summary) =>
+      points.every((point) => this.isInBounds(point, summary.bounds))
+    );
+
+    const packs: OfflinePack[] = [];
+    for (const summary of covering) {
+      const pack = await this.loadPack(summary.id);
+      if (pack) packs.push(pack);
+    }
+    return packs;
+  }
+
+  /**
+   * Offline equivalent of firebaseServices.obstacle.getObstaclesInArea
+   */
+  async getObstaclesInArea(
+    lat: number,
+    lng: number,
+    radiusKm: number
+  ): Promise<AccessibilityObstacle[]> {
+    const center = { latitude: lat, longitude: lng };
+    const packs = await this.getPacksCovering([center]);
+
+    return this.dedupeObstacles(packs.flatMap((pack) => pack.obstacles)).filter(
+      (obstacle) =>
+        calculateDistance(center, obstacle.location) <= radiusKm * 1000
+    );
+  }
+
+  /**
+   * Offline routes between two points: saved routes first, then the pack's
+   * sidewalk graph. Returns null if no pack covers the trip.
+   */
+  async getOfflineRoutes(
+    start: UserLocation,
+    end: UserLocation,
+    userProfile: UserMobilityProfile,
+    departureTime: Date = new Date()
+  ): Promise<OfflineRouteResult | null> {
+    const packs = await this.getPacksCovering([start, end]);
+    if (packs.length === 0) {
+      console.log("📦 No offline pack covers this trip");
+      return null;
+    }
+
+    const activeObstacles = (pack: OfflinePack) =>
+      pack.obstacles.filter(
+        (obstacle) =>
+          isObstacleActiveAt(obstacle, departureTime) &&
+          !isObstacleExpired(obstacle, departureTime)
+      );
+
+    // 1. Saved routes with matching endpoints
+    for (const pack of packs) {
+      const matches = pack.routes.filter(
+        (route) =>
+          calculateDistance(route.start, start) <= SAVED_ROUTE_MATCH_METERS &&
+          calculateDistance(route.end, end) <= SAVED_ROUTE_MATCH_METERS
+      );
+      if (matches.length === 0) continue;
+
+      const obstacles = activeObstacles(pack);
+      console.log(
+        `📦 Using ${matches.length} saved route(s) from ${pack.name}`
+      );
+
+      return {
+        source: "saved_route",
+        packId: pack.id,
+        packName: pack.name,
+        routes: matches.map((route) => ({
+          polyline: route.googleRoute.polyline,
+          distance: route.googleRoute.distance,
+          duration: route.googleRoute.duration,
+          obstacles: obstacles.filter(
+            (obstacle) =>
+              this.distanceToPolyline(
+                obstacle.location,
+                route.googleRoute.polyline
+              ) <= ROUTE_OBSTACLE_BUFFER_METERS
+          ),
+        })),
+      };
+    }
+
+    // 2. Route over the pack's sidewalk network
+    for (const pack of packs) {
+      if (pack.sidewalks.length === 0) continue;
+
+      this.applyPackNetwork(pack);
+      const path = pedestrianGraphRouter.findPath(
+        start,
+        end,
+        userProfile,
+        activeObstacles(pack),
+        departureTime
+      );
+      if (!path) continue;
+
+      console.log(`📦 Routed over sidewalk network from ${pack.name}`);
+
+      return {
+        source: "sidewalk_graph",
+        packId: pack.id,
+        packName: pack.name,
+        routes: [
+          {
+            polyline: path.coordinates,
+            distance: path.totalDistance,
+            duration: path.totalTime,
+            obstacles: path.obstacles,
+          },
+        ],
+      };
+    }
+
+    return null;
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  /**
+   * Merge a pack's sidewalks and crossings into the router (once per pack)
+   */
+  private applyPackNetwork(pack: OfflinePack): void {
+    if (this.appliedNetworks.has(pack.id)) return;
+
+    const current = pedestrianGraphRouter.getNetwork();
+    const sidewalks = new Map(current.sidewalks.map((s) => [s.id, s]));
+    const crossings = new Map(current.crossings.map((c) => [c.id, c]));
+    pack.sidewalks.forEach((s) => sidewalks.set(s.id, s));
+    pack.crossings.forEach((c) => crossings.set(c.id, c));
+
+    pedestrianGraphRouter.setNetwork(
+      Array.from(sidewalks.values()),
+      Array.from(crossings.values())
+    );
+    this.appliedNetworks.add(pack.id);
+  }
+
+  private async savePack(pack: OfflinePack): Promise<OfflinePackSummary> {
+    const info = await FileSystem.getInfoAsync(this.PACK_DIRECTORY);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.PACK_DIRECTORY, {
+        intermediates: true,
+      });
+    }
+
+    const content = JSON.stringify(pack);
+    await FileSystem.writeAsStringAsync(this.packUri(pack.id), content);
+
+    const summary: OfflinePackSummary = {
+      id: pack.id,
+      name: pack.name,
+      bounds: pack.bounds,
+      createdAt: pack.createdAt,
+      counts: {
+        obstacles: pack.obstacles.length,
+        sidewalks: pack.sidewalks.length,
+        crossings: pack.crossings.length,
+        routes: pack.routes.length,
+        pois: pack.pois.length,
+      },
+      sizeBytes: content.length,
+    };
+
+    const packs = await this.listPacks();
+    await AsyncStorage.setItem(
+      this.STORAGE_KEY,
+      JSON.stringify([...packs, summary])
+    );
+
+    this.loadedPacks.set(pack.id, pack);
+    return summary;
+  }
+
+  private packUri(packId: string): string {
+    return `${this.PACK_DIRECTORY}${packId}.json`;
+  }
+
+  private validateBounds(bounds: OfflinePackBounds): void {
+    if (bounds.north <= bounds.south || bounds.east <= bounds.west) {
+      throw new Error("Invalid pack bounds: north/east must exceed south/west");
+    }
+
+    const heightKm =
+      calculateDistance(
+        { latitude: bounds.south, longitude: bounds.west },
+        { latitude: bounds.north, longitude: bounds.west }
+      ) / 1000;
+    const widthKm =
+      calculateDistance(
+        { latitude: bounds.south, longitude: bounds.west },
+        { latitude: bounds.south, longitude: bounds.east }
+      ) / 1000;
+
+    if (heightKm * widthKm > MAX_PACK_AREA_KM2) {
+      throw new Error(
+        `Offline pack area is ${(heightKm * widthKm).toFixed(
+          1
+        )} km², maximum is ${MAX_PACK_AREA_KM2} km²`
+      );
+    }
+  }
+
+  private isInBounds(point: UserLocation, bounds: OfflinePackBounds): boolean {
+    return (
+      point.latitude >= bounds.south &&
+      point.latitude <= bounds.north &&
+      point.longitude >= bounds.west &&
+      point.longitude <= bounds.east
+    );
+  }
+
+  private dedupeObstacles(
+    obstacles: AccessibilityObstacle[]
+  ): AccessibilityObstacle[] {
+    const seen = new Set<string>();
+    return obstacles.filter((obstacle) => {
+      if (seen.has(obstacle.id)) return false;
+      seen.add(obstacle.id);
+      return true;
+    });
+  }
+
+  /**
+   * Distance from a point to the nearest segment of a polyline (meters)
+   */
+  private distanceToPolyline(
+    point: UserLocation,
+    polyline: UserLocation[]
+  ): number {
+    if (polyline.length === 0) return Infinity;
+    if (polyline.length === 1) return calculateDistance(point, polyline[0]);
+
+    let min = Infinity;
+    for (let i = 0; i < polyline.length - 1; i++) {
+      const a = polyline[i];
+      const b = polyline[i + 1];
+      const dx = b.longitude - a.longitude;
+      const dy = b.latitude - a.latitude;
+      const lenSq = dx * dx + dy * dy;
+      const t =
+        lenSq === 0
+          ? 0
+          : Math.max(
+              0,
+              Math.min(
+                1,
+                ((point.longitude - a.longitude) * dx +
+                  (point.latitude - a.latitude) * dy) /
+                  lenSq
+              )
+            );
+      min = Math.min(
+        min,
+        calculateDistance(point, {
+          latitude: a.latitude + t * dy,
+          longitude: a.longitude + t * dx,
+        })
+      );
+    }
+    return min;
+  }
+}
+
+export const offlinePackService = new OfflinePackService();
+export { OfflinePackService };
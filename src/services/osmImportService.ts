@@ -0,0 +1,916 @@
+// src/services/osmImportService.ts
+// OpenStreetMap extract importer for sidewalks, kerbs and crossings
+// Reads a local OSM XML or GeoJSON extract (e.g. Overpass export of a Pasig barangay)
+// and produces SidewalkEntity + CrossingPoint records for the pedestrian graph router
+
+import * as FileSystem from "expo-file-system";
+import { RestPoint, UserLocation } from "../types";
+import {
+  SidewalkEntity,
+  CrossingPoint,
+  SidewalkMappingHelper,
+} from "../types/sidewalkTypes";
+import {
+  TEST_SIDEWALKS,
+  TEST_CROSSING_POINTS,
+} from "../data/manualSidewalkMapping";
+import { pedestrianGraphRouter } from "./pedestrianGraphRouter";
+import { tripPlanningService } from "./tripPlanningService";
+import { calculateDistance } from "../utils/mapUtils";
+
+type OsmTags = Record<string, string>;
+
+// Format-independent view of an OSM node or way
+interface OsmElement {
+  kind: "node" | "way";
+  id: string;
+  tags: OsmTags;
+  coordinates: UserLocation[]; // Single point for nodes
+}
+
+interface OsmImportStats {
+  nodes: number;
+  ways: number;
+  sidewalks: number;
+  crossings: number;
+  kerbs: number;
+  benches: number;
+  skipped: number; // Crossings we could not attach to two sidewalks
+}
+
+interface OsmImportResult {
+  sidewalks: SidewalkEntity[];
+  crossings: CrossingPoint[];
+  benches: RestPoint[]; // amenity=bench nodes, used as trip rest stops
+  stats: OsmImportStats;
+}
+
+type SidewalkFeatures = SidewalkEntity["accessibilityFeatures"];
+type KerbKind = "lowered" | "flush" | "raised" | "rolled" | "unknown";
+
+// Street centerline -> sidewalk centerline offset when only sidewalk=* is tagged
+const SIDEWALK_OFFSET_METERS = 6;
+// How far a kerb node may sit from a sidewalk end / crossing to count for it
+const KERB_MATCH_METERS = 8;
+// How far a crossing may be from the sidewalks it connects
+const CROSSING_MATCH_METERS = 30;
+// Offset sidewalks of streets meeting at a node end this close on the same
+// corner (6 m * √2 at a right angle); opposite sides are 12 m apart
+const CORNER_MATCH_METERS = 9;
+
+class OsmImportService {
+  private readonly SAVED_IMPORT_URI = `${FileSystem.documentDirectory}osm_import.json`;
+
+  /**
+   * Read an extract from the device and convert it
+   */
+  async importFromFile(fileUri: string): Promise<OsmImportResult> {
+    try {
+      console.log(`🗺️ Reading OSM extract: ${fileUri}`);
+      const content = await FileSystem.readAsStringAsync(fileUri);
+      const format = fileUri.toLowerCase().endsWith(".osm") ? "osm" : undefined;
+      return this.importFromString(content, format);
+    } catch (error: any) {
+      console.error("❌ OSM import failed:", error);
+      throw new Error(`Hindi ma-import ang OSM file: ${error.message}`);
+    }
+  }
+
+  /**
+   * Convert raw OSM XML or GeoJSON text. Format is sniffed when not given.
+   */
+  importFromString(
+    content: string,
+    format?: "osm" | "geojson"
+  ): OsmImportResult {
+    const detected =
+      format || (content.trimStart().startsWith("<") ? "osm" : "geojson");
+
+    const elements =
+      detected === "osm"
+        ? this.parseOsmXml(content)
+        : this.parseGeoJson(JSON.parse(content));
+
+    return this.convertElements(elements);
+  }
+
+  /**
+   * Load imported data into the pedestrian graph router.
+   * Manual C. Raymundo data is kept unless explicitly dropped.
+   */
+  applyToRouter(result: OsmImportResult, keepManualData = true): void {
+    const sidewalks = keepManualData
+      ? [...TEST_SIDEWALKS, ...result.sidewalks]
+      : result.sidewalks;
+    const crossings = keepManualData
+      ? [...TEST_CROSSING_POINTS, ...result.crossings]
+      : result.crossings;
+
+    pedestrianGraphRouter.setNetwork(sidewalks, crossings);
+    tripPlanningService.setBenches(result.benches);
+    console.log(
+      `✅ Router now covers ${sidewalks.length} sidewalks, ${crossings.length} crossings`
+    );
+  }
+
+  /**
+   * Keep an applied import so the router has it after a restart
+   */
+  async saveImport(result: OsmImportResult): Promise<void> {
+    await FileSystem.writeAsStringAsync(
+      this.SAVED_IMPORT_URI,
+      JSON.stringify(result)
+    );
+  }
+
+  /**
+   * Re-apply the last saved import at app start; null if there is none
+   */
+  async restoreSavedImport(): Promise<OsmImportResult | null> {
+    try {
+      const info = await FileSystem.getInfoAsync(this.SAVED_IMPORT_URI);
+      if (!info.exists) return null;
+
+      const result: OsmImportResult = JSON.parse(
+        await FileSystem.readAsStringAsync(this.SAVED_IMPORT_URI)
+      );
+      this.applyToRouter(result);
+      return result;
+    } catch (error) {
+      console.error("❌ Failed to restore OSM import:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop the saved import and go back to the manually mapped sidewalks
+   */
+  async clearSavedImport(): Promise<void> {
+    await FileSystem.deleteAsync(this.SAVED_IMPORT_URI, { idempotent: true });
+    pedestrianGraphRouter.setNetwork(TEST_SIDEWALKS, TEST_CROSSING_POINTS);
+    tripPlanningService.setBenches([]);
+    console.log("🗑️ Cleared imported OSM sidewalks");
+  }
+
+  // =====================================================
+  // PARSERS
+  // =====================================================
+
+  /**
+   * Minimal OSM XML reader: <node>, <way>, <nd> and <tag> elements only
+   */
+  private parseOsmXml(xml: string): OsmElement[] {
+    const nodeLocations = new Map<string, UserLocation>();
+    const elements: OsmElement[] = [];
+
+    const nodeRegex = /<node\b([^>]*?)(\/>|>([\s\S]*?)<\/node>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = nodeRegex.exec(xml)) !== null) {
+      const attrs = this.parseAttributes(match[1]);
+      if (!attrs.id || attrs.lat === undefined || attrs.lon === undefined) {
+        continue;
+      }
+
+      const location = {
+        latitude: parseFloat(attrs.lat),
+        longitude: parseFloat(attrs.lon),
+      };
+      nodeLocations.set(attrs.id, location);
+
+      const tags = this.parseTags(match[3] || "");
+      if (Object.keys(tags).length > 0) {
+        elements.push({
+          kind: "node",
+          id: attrs.id,
+          tags,
+          coordinates: [location],
+        });
+      }
+    }
+
+    const wayRegex = /<way\b([^>]*)>([\s\S]*?)<\/way>/g;
+    while ((match = wayRegex.exec(xml)) !== null) {
+      const attrs = this.parseAttributes(match[1]);
+      const body = match[2];
+
+      const coordinates: UserLocation[] = [];
+      const ndRegex = /<nd\b([^>]*)\/>/g;
+      let nd: RegExpExecArray | null;
+      while ((nd = ndRegex.exec(body)) !== null) {
+        const ref = this.parseAttributes(nd[1]).ref;
+        const location = ref ? nodeLocations.get(ref) : undefined;
+        if (location) coordinates.push(location);
+      }
+
+      if (attrs.id && coordinates.length >= 2) {
+        elements.push({
+          kind: "way",
+          id: attrs.id,
+          tags: this.parseTags(body),
+          coordinates,
+        });
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * GeoJSON as exported by Overpass Turbo / osmtogeojson (tags in properties)
+   */
+  private parseGeoJson(geojson: any): OsmElement[] {
+    const features: any[] =
+      geojson?.type === "FeatureCollection" ? geojson.features || [] : [];
+    const elements: OsmElement[] = [];
+
+    features.forEach((feature, index) => {
+      const geometry = feature?.geometry;
+      if (!geometry) return;
+
+      const properties = feature.properties || {};
+      const tags: OsmTags = {};
+      Object.entries({ ...(properties.tags || {}), ...properties }).forEach(
+        ([key, value]) => {
+          if (typeof value === "string" || typeof value === "number") {
+            tags[key] = String(value);
+          }
+        }
+      );
+
+      const rawId = String(
+        properties["@id"] || properties.id || feature.id || `feature_${index}`
+      );
+      const id = rawId.replace(/^(node|way)\//, "");
+
+      if (geometry.type === "Point") {
+        const [lng, lat] = geometry.coordinates;
+        elements.push({
+          kind: "node",
+          id,
+          tags,
+          coordinates: [{ latitude: lat, longitude: lng }],
+        });
+      } else if (geometry.type === "LineString") {
+        elements.push({
+          kind: "way",
+          id,
+          tags,
+          coordinates: geometry.coordinates.map((c: number[]) => ({
+            latitude: c[1],
+            longitude: c[0],
+          })),
+        });
+      }
+    });
+
+    return elements;
+  }
+
+  private parseAttributes(raw: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const attrRegex = /([\w:]+)\s*=\s*"([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = attrRegex.exec(raw)) !== null) {
+      attrs[match[1]] = this.decodeEntities(match[2]);
+    }
+    return attrs;
+  }
+
+  private parseTags(body: string): OsmTags {
+    const tags: OsmTags = {};
+    const tagRegex = /<tag\b([^>]*)\/>/g;
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(body)) !== null) {
+      const attrs = this.parseAttributes(match[1]);
+      if (attrs.k !== undefined && attrs.v !== undefined) {
+        tags[attrs.k] = attrs.v;
+      }
+    }
+    return tags;
+  }
+
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+  }
+
+  // =====================================================
+  // CONVERSION
+  // =====================================================
+
+  private convertElements(elements: OsmElement[]): OsmImportResult {
+    const kerbs = elements.filter(
+      (e) =>
+        e.kind === "node" && (e.tags.barrier === "kerb" || e.tags.kerb != null)
+    );
+
+    const streets = elements.filter(
+      (e) =>
+        e.kind === "way" &&
+        e.tags.highway != null &&
+        e.tags.highway !== "footway" &&
+        e.tags.highway !== "path"
+    );
+
+    const sidewalks: SidewalkEntity[] = [];
+    const derived: { sidewalk: SidewalkEntity; street: OsmElement }[] = [];
+    for (const element of elements) {
+      if (element.kind !== "way") continue;
+
+      if (this.isSeparateSidewalk(element.tags)) {
+        sidewalks.push(this.buildSeparateSidewalk(element, streets, kerbs));
+      } else if (element.tags.highway && element.tags.sidewalk) {
+        const streetSidewalks = this.buildStreetSidewalks(element, kerbs);
+        sidewalks.push(...streetSidewalks);
+        streetSidewalks.forEach((sidewalk) =>
+          derived.push({ sidewalk, street: element })
+        );
+      }
+    }
+    this.weldStreetCorners(derived);
+
+    const crossings: CrossingPoint[] = [];
+    let skipped = 0;
+    for (const element of elements) {
+      if (!this.isCrossing(element)) continue;
+
+      const crossing = this.buildCrossing(element, sidewalks, kerbs);
+      if (crossing) {
+        crossings.push(crossing);
+      } else {
+        skipped++;
+      }
+    }
+
+    const benches: RestPoint[] = elements
+      .filter((e) => e.kind === "node" && e.tags.amenity === "bench")
+      .map((e) => ({
+        id: `osm_bench_${e.id}`,
+        name: e.tags.name || "Bench",
+        location: e.coordinates[0],
+        kind: "bench",
+      }));
+
+    const stats: OsmImportStats = {
+      nodes: elements.filter((e) => e.kind === "node").length,
+      ways: elements.filter((e) => e.kind === "way").length,
+      sidewalks: sidewalks.length,
+      crossings: crossings.length,
+      kerbs: kerbs.length,
+      benches: benches.length,
+      skipped,
+    };
+
+    console.log("🗺️ OSM import complete:", stats);
+    return { sidewalks, crossings, benches, stats };
+  }
+
+  private isSeparateSidewalk(tags: OsmTags): boolean {
+    return (
+      (tags.highway === "footway" && tags.footway === "sidewalk") ||
+      (tags.highway === "path" && tags.footway === "sidewalk")
+    );
+  }
+
+  private isCrossing(element: OsmElement): boolean {
+    const { tags } = element;
+    if (tags.crossing === "no") return false;
+    if (element.kind === "node") {
+      return tags.highway === "crossing" || tags.crossing != null;
+    }
+    return tags.footway === "crossing" || tags.path === "crossing";
+  }
+
+  /**
+   * highway=footway + footway=sidewalk: the way IS the sidewalk
+   */
+  private buildSeparateSidewalk(
+    way: OsmElement,
+    streets: OsmElement[],
+    kerbs: OsmElement[]
+  ): SidewalkEntity {
+    const { tags, coordinates } = way;
+    const features = this.mapSidewalkFeatures(tags, "");
+    features.hasRamps = this.hasLoweredKerbNear(
+      [coordinates[0], coordinates[coordinates.length - 1]],
+      kerbs
+    );
+
+    // Side of street comes from the nearest street centerline
+    const middle = coordinates[Math.floor(coordinates.length / 2)];
+    const street = this.findNearestStreet(middle, streets);
+    const streetName =
+      tags["street:name"] || street?.tags.name || tags.name || "Unnamed street";
+    const side = street
+      ? SidewalkMappingHelper.determineStreetSide(
+          middle,
+          streetName,
+          street.coordinates[0],
+          street.coordinates[street.coordinates.length - 1]
+        )
+      : "north";
+
+    return {
+      id: `osm_way_${way.id}`,
+      parentStreet: streetName,
+      side,
+      coordinates,
+      obstacles: [],
+      accessibilityFeatures: features,
+      estimatedScore: this.estimateScore(features),
+    };
+  }
+
+  private findNearestStreet(
+    point: UserLocation,
+    streets: OsmElement[]
+  ): OsmElement | null {
+    let nearest: OsmElement | null = null;
+    let nearestDistance = CROSSING_MATCH_METERS;
+
+    for (const street of streets) {
+      for (const vertex of street.coordinates) {
+        const distance = calculateDistance(point, vertex);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = street;
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Street with sidewalk=both|left|right: derive sidewalk geometry by offset
+   */
+  private buildStreetSidewalks(
+    way: OsmElement,
+    kerbs: OsmElement[]
+  ): SidewalkEntity[] {
+    const { tags, coordinates } = way;
+    const value = tags.sidewalk;
+    if (value === "no" || value === "none" || value === "separate") {
+      return [];
+    }
+
+    const sides: ("left" | "right")[] =
+      value === "both" || value === "yes"
+        ? ["left", "right"]
+        : value === "left" || value === "right"
+        ? [value]
+        : [];
+
+    const streetName = tags.name || "Unnamed street";
+    const start = coordinates[0];
+    const end = coordinates[coordinates.length - 1];
+
+    return sides.map((relativeSide) => {
+      const offset =
+        relativeSide === "left"
+          ? SIDEWALK_OFFSET_METERS
+          : -SIDEWALK_OFFSET_METERS;
+      const sidewalkCoordinates = this.offsetPolyline(coordinates, offset);
+      const features = this.mapSidewalkFeatures(
+        tags,
+        `sidewalk:${relativeSide}`
+      );
+      features.hasRamps = this.hasLoweredKerbNear(
+        [
+          sidewalkCoordinates[0],
+          sidewalkCoordinates[sidewalkCoordinates.length - 1],
+        ],
+        kerbs
+      );
+
+      const side = SidewalkMappingHelper.determineStreetSide(
+        sidewalkCoordinates[Math.floor(sidewalkCoordinates.length / 2)],
+        streetName,
+        start,
+        end
+      );
+
+      return {
+        id: `osm_way_${way.id}_${relativeSide}`,
+        parentStreet: streetName,
+        side,
+        coordinates: sidewalkCoordinates,
+        obstacles: [],
+        accessibilityFeatures: features,
+        estimatedScore: this.estimateScore(features),
+      };
+    });
+  }
+
+  /**
+   * Offset sidewalks stop short of each other where their streets meet.
+   * Move each sidewalk end onto the nearest vertex of a sidewalk of another
+   * street through the same node, so the router joins them at the corner.
+   * Separate footway=sidewalk ways already share their OSM nodes.
+   * At a T-junction both sidewalks of the side street land on the same
+   * vertex, so walking across its mouth carries no crossing cost.
+   */
+  private weldStreetCorners(
+    derived: { sidewalk: SidewalkEntity; street: OsmElement }[]
+  ): void {
+    const samePoint = (a: UserLocation, b: UserLocation) =>
+      a.latitude === b.latitude && a.longitude === b.longitude;
+
+    for (const { sidewalk, street } of derived) {
+      const last = sidewalk.coordinates.length - 1;
+
+      for (const [endIndex, node] of [
+        [0, street.coordinates[0]],
+        [last, street.coordinates[street.coordinates.length - 1]],
+      ] as [number, UserLocation][]) {
+        const end = sidewalk.coordinates[endIndex];
+        let nearest: UserLocation | null = null;
+        let nearestDistance = CORNER_MATCH_METERS;
+
+        for (const other of derived) {
+          if (
+            other.street === street ||
+            !other.street.coordinates.some((c) => samePoint(c, node))
+          ) {
+            continue;
+          }
+          for (const vertex of other.sidewalk.coordinates) {
+            const distance = calculateDistance(end, vertex);
+            if (distance <= nearestDistance) {
+              nearest = vertex;
+              nearestDistance = distance;
+            }
+          }
+        }
+
+        if (nearest) {
+          sidewalk.coordinates[endIndex] = { ...nearest };
+        }
+      }
+    }
+  }
+
+  /**
+   * Map width / surface / smoothness / incline / lit / covered tags.
+   * Side-specific tags (sidewalk:left:width) win over sidewalk:* and plain tags.
+   */
+  private mapSidewalkFeatures(
+    tags: OsmTags,
+    sidePrefix: string
+  ): SidewalkFeatures {
+    const read = (key: string): string | undefined =>
+      (sidePrefix && tags[`${sidePrefix}:${key}`]) ||
+      (sidePrefix && tags[`sidewalk:both:${key}`]) ||
+      (sidePrefix && tags[`sidewalk:${key}`]) ||
+      (!sidePrefix ? tags[key] : undefined);
+
+    const widthMeters = this.parseWidth(read("width"));
+    const surface = this.mapSurface(read("surface"));
+    const slope = this.parseIncline(read("incline") ?? tags.incline);
+
+    return {
+      averageWidth: widthMeters ? Math.round(widthMeters * 100) : 150,
+      surface,
+      hasRamps: false,
+      lighting:
+        tags.lit === "yes" ? "good" : tags.lit === "no" ? "poor" : "fair",
+      covered: tags.covered === "yes" || tags.covered === "arcade",
+      condition: this.mapCondition(read("smoothness"), surface),
+      ...(slope !== undefined && { slope }),
+    };
+  }
+
+  private buildCrossing(
+    element: OsmElement,
+    sidewalks: SidewalkEntity[],
+    kerbs: OsmElement[]
+  ): CrossingPoint | null {
+    const { tags, coordinates } = element;
+    const isWay = element.kind === "way";
+    const ends = isWay
+      ? [coordinates[0], coordinates[coordinates.length - 1]]
+      : [coordinates[0], coordinates[0]];
+    const location = isWay
+      ? this.midpoint(coordinates[0], coordinates[coordinates.length - 1])
+      : coordinates[0];
+
+    const connects = this.findConnectedSidewalks(ends, sidewalks);
+    if (!connects) return null;
+
+    const type = this.mapCrossingType(tags);
+    const kerb = this.kerbAt(tags, ends, kerbs);
+    const hasRamp = kerb === "lowered" || kerb === "flush";
+    const hasVisualSignals =
+      type === "traffic_light" && tags["traffic_signals:countdown"] !== "no";
+    const hasTactileIndicators = tags.tactile_paving === "yes";
+
+    const crossingLength = isWay
+      ? calculateDistance(ends[0], ends[1])
+      : 2 * SIDEWALK_OFFSET_METERS;
+    const crossingTime = Math.max(10, Math.round(crossingLength / 0.8)); // Slow crossing pace
+
+    const safetyByType: Record<CrossingPoint["type"], number> = {
+      traffic_light: 4,
+      pedestrian_crossing: 3,
+      intersection: 2,
+      informal: 1,
+    };
+    const waitByType: Record<CrossingPoint["type"], number> = {
+      traffic_light: 45,
+      pedestrian_crossing: 20,
+      intersection: 15,
+      informal: 30,
+    };
+
+    return {
+      id: `osm_${element.kind}_${element.id}`,
+      location,
+      type,
+      accessibility: {
+        hasRamp,
+        hasVisualSignals,
+        hasTactileIndicators,
+        crossingTime,
+        safetyRating: Math.min(
+          5,
+          safetyByType[type] + (tags["crossing:island"] === "yes" ? 1 : 0)
+        ),
+        waitTime: waitByType[type],
+      },
+      connectsSidewalks: connects,
+      userTypes: {
+        wheelchair: hasRamp
+          ? "accessible"
+          : kerb === "raised"
+          ? "impossible"
+          : "difficult",
+        walker: hasRamp ? "easy" : kerb === "raised" ? "difficult" : "moderate",
+        cane:
+          hasTactileIndicators || tags["traffic_signals:sound"] === "yes"
+            ? "easy"
+            : type === "traffic_light"
+            ? "moderate"
+            : "difficult",
+        crutches: kerb === "raised" ? "difficult" : "moderate",
+        none: type === "informal" ? "moderate" : "easy",
+      },
+    };
+  }
+
+  /**
+   * Two distinct sidewalks, each closest to one end of the crossing
+   */
+  private findConnectedSidewalks(
+    ends: UserLocation[],
+    sidewalks: SidewalkEntity[]
+  ): [string, string] | null {
+    const ranked = (point: UserLocation) =>
+      sidewalks
+        .map((s) => ({
+          id: s.id,
+          distance: Math.min(
+            ...s.coordinates.map((c) => calculateDistance(point, c))
+          ),
+        }))
+        .filter((s) => s.distance <= CROSSING_MATCH_METERS)
+        .sort((a, b) => a.distance - b.distance);
+
+    const fromStart = ranked(ends[0]);
+    const fromEnd = ranked(ends[1]);
+    const first = fromStart[0];
+    const second = fromEnd.find((s) => s.id !== first?.id);
+
+    if (!first || !second) return null;
+    return [first.id, second.id];
+  }
+
+  private mapCrossingType(tags: OsmTags): CrossingPoint["type"] {
+    switch (tags.crossing) {
+      case "traffic_signals":
+        return "traffic_light";
+      case "marked":
+      case "zebra":
+      case "uncontrolled":
+        return "pedestrian_crossing";
+      case "unmarked":
+        return "informal";
+      default:
+        return tags.highway === "traffic_signals"
+          ? "traffic_light"
+          : "intersection";
+    }
+  }
+
+  /**
+   * Kerb kind on the crossing itself, or on kerb nodes at its ends
+   */
+  private kerbAt(
+    tags: OsmTags,
+    points: UserLocation[],
+    kerbs: OsmElement[]
+  ): KerbKind {
+    if (tags.kerb) return this.normalizeKerb(tags.kerb);
+
+    const nearby = kerbs.filter((k) =>
+      points.some(
+        (p) => calculateDistance(p, k.coordinates[0]) <= KERB_MATCH_METERS
+      )
+    );
+    if (nearby.length === 0) return "unknown";
+
+    // Worst kerb wins: one raised kerb blocks a wheelchair either way
+    const kinds = nearby.map((k) => this.normalizeKerb(k.tags.kerb || ""));
+    if (kinds.includes("raised")) return "raised";
+    if (kinds.includes("rolled")) return "rolled";
+    if (kinds.includes("lowered")) return "lowered";
+    if (kinds.includes("flush")) return "flush";
+    return "unknown";
+  }
+
+  private hasLoweredKerbNear(
+    points: UserLocation[],
+    kerbs: OsmElement[]
+  ): boolean {
+    return kerbs.some((k) => {
+      const kind = this.normalizeKerb(k.tags.kerb || "");
+      return (
+        (kind === "lowered" || kind === "flush") &&
+        points.some(
+          (p) => calculateDistance(p, k.coordinates[0]) <= KERB_MATCH_METERS
+        )
+      );
+    });
+  }
+
+  private normalizeKerb(value: string): KerbKind {
+    if (value === "lowered" || value === "flush" || value === "raised") {
+      return value;
+    }
+    if (value === "rolled") return "rolled";
+    if (value === "no") return "flush";
+    return "unknown";
+  }
+
+  // =====================================================
+  // TAG VALUE PARSING
+  // =====================================================
+
+  /**
+   * OSM width in meters ("1.5", "1.5 m", "150 cm", "5'")
+   */
+  private parseWidth(value?: string): number | undefined {
+    if (!value) return undefined;
+    const number = parseFloat(value.replace(",", "."));
+    if (isNaN(number)) return undefined;
+    if (/cm/.test(value)) return number / 100;
+    if (/'|ft/.test(value)) return number * 0.3048;
+    return number;
+  }
+
+  /**
+   * OSM incline to degrees ("8%", "-5%", "4°"); up/down/yes are unknown
+   */
+  private parseIncline(value?: string): number | undefined {
+    if (!value) return undefined;
+    const number = parseFloat(value);
+    if (isNaN(number)) return undefined;
+
+    const degrees = /°|deg/.test(value)
+      ? Math.abs(number)
+      : (Math.atan(Math.abs(number) / 100) * 180) / Math.PI;
+    return Math.round(degrees * 10) / 10;
+  }
+
+  private mapSurface(value?: string): SidewalkFeatures["surface"] {
+    switch (value) {
+      case "asphalt":
+        return "asphalt";
+      case "paving_stones":
+      case "sett":
+      case "tiles":
+      case "bricks":
+        return "tiles";
+      case "dirt":
+      case "ground":
+      case "earth":
+      case "gravel":
+      case "unpaved":
+      case "compacted":
+      case "grass":
+      case "mud":
+        return "dirt";
+      default:
+        return "concrete";
+    }
+  }
+
+  private mapCondition(
+    smoothness: string | undefined,
+    surface: SidewalkFeatures["surface"]
+  ): SidewalkFeatures["condition"] {
+    switch (smoothness) {
+      case "excellent":
+        return "excellent";
+      case "good":
+        return "good";
+      case "intermediate":
+        return "fair";
+      case "bad":
+      case "very_bad":
+      case "horrible":
+      case "very_horrible":
+      case "impassable":
+        return "poor";
+      default:
+        return surface === "dirt" ? "fair" : "good";
+    }
+  }
+
+  /**
+   * Rough prior score from features until obstacles and feedback refine it
+   */
+  private estimateScore(features: SidewalkFeatures) {
+    const conditionScores = { excellent: 95, good: 85, fair: 65, poor: 40 };
+    let traversability = conditionScores[features.condition];
+    if (features.averageWidth < 90) traversability -= 20;
+    if ((features.slope ?? 0) > 5) traversability -= 15;
+
+    const safety = features.lighting === "good" ? 85 : 70;
+    const comfort = features.covered ? 90 : 65;
+    const overall = Math.round(
+      traversability * 0.7 + safety * 0.2 + comfort * 0.1
+    );
+
+    const grade: "A" | "B" | "C" | "D" | "F" =
+      overall >= 85
+        ? "A"
+        : overall >= 70
+        ? "B"
+        : overall >= 55
+        ? "C"
+        : overall >= 40
+        ? "D"
+        : "F";
+
+    return {
+      traversability: Math.max(0, traversability),
+      safety,
+      comfort,
+      overall,
+      grade,
+      userSpecificAdjustment: 0,
+    };
+  }
+
+  // =====================================================
+  // GEOMETRY
+  // =====================================================
+
+  /**
+   * Offset a polyline sideways by meters (positive = left of travel direction)
+   */
+  private offsetPolyline(
+    coordinates: UserLocation[],
+    offsetMeters: number
+  ): UserLocation[] {
+    const metersPerDegLat = 111320;
+
+    return coordinates.map((point, index) => {
+      const prev = coordinates[Math.max(0, index - 1)];
+      const next = coordinates[Math.min(coordinates.length - 1, index + 1)];
+      const metersPerDegLng =
+        111320 * Math.cos((point.latitude * Math.PI) / 180);
+
+      const dx = (next.longitude - prev.longitude) * metersPerDegLng;
+      const dy = (next.latitude - prev.latitude) * metersPerDegLat;
+      const length = Math.sqrt(dx * dx + dy * dy) || 1;
+
+      // Left normal of (dx, dy) is (-dy, dx)
+      const nx = (-dy / length) * offsetMeters;
+      const ny = (dx / length) * offsetMeters;
+
+      return {
+        latitude: point.latitude + ny / metersPerDegLat,
+        longitude: point.longitude + nx / metersPerDegLng,
+      };
+    });
+  }
+
+  private midpoint(a: UserLocation, b: UserLocation): UserLocation {
+    return {
+      latitude: (a.latitude + b.latitude) / 2,
+      longitude: (a.longitude + b.longitude) / 2,
+    };
+  }
+}
+
+// Export singleton instance
+export const osmImportService = new OsmImportService();
+
+// Also export the class for testing
+export { OsmImportService };
+export type { OsmImportResult, OsmImportStats };
@@ -0,0 +1,430 @@
+// src/services/osrmRoutingProvider.ts
+// Self-hosted routing: speaks the OSRM (/route/v1) or Valhalla (/route) HTTP
+// API and converts responses to the GoogleRoute shape. No quota involved.
+
+import { UserLocation } from "../types";
+import {
+  GoogleRoute,
+  RouteStep,
+  WaypointRouteResult,
+} from "./googleMapsService";
+import { RoutingProvider } from "./routingProvider";
+
+export interface OsrmProviderConfig {
+  baseUrl: string;
+  flavor: "osrm" | "valhalla";
+  profile?: string; // OSRM profile name (default "foot")
+}
+
+// A route in provider-neutral form before conversion
+interface ParsedRoute {
+  polyline: UserLocation[];
+  distance: number; // meters
+  duration: number; // seconds
+  steps: RouteStep[];
+  summary: string;
+}
+
+const REQUEST_TIMEOUT = 15000; // 15 seconds, same as Google
+const MAX_ALTERNATIVES = 3;
+
+class OsrmRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly flavor: "osrm" | "valhalla";
+  private readonly profile: string;
+
+  constructor(config: OsrmProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.flavor = config.flavor;
+    this.profile = config.profile || "foot";
+    this.name = config.flavor;
+  }
+
+  async ensureReady(): Promise<void> {
+    // Stateless HTTP adapter; nothing to load
+  }
+
+  async getRoutes(
+    start: UserLocation,
+    end: UserLocation,
+    alternatives: boolean = true
+  ): Promise<GoogleRoute[]> {
+    console.log(
+      `🗺️ Fetching ${this.flavor} routes from ${start.latitude},${start.longitude} to ${end.latitude},${end.longitude}`
+    );
+
+    const parsed =
+      this.flavor === "osrm"
+        ? await this.fetchOsrm([start, end], alternatives)
+        : await this.fetchValhalla([start, end], alternatives);
+
+    if (parsed.length === 0) {
+      throw new Error("No routes found between these locations");
+    }
+
+    const routes = parsed.map((route, index) =>
+      this.toGoogleRoute(route, index)
+    );
+    console.log(`✅ Retrieved ${routes.length} ${this.flavor} route(s)`);
+    return routes;
+  }
+
+  async getRouteWithWaypoints(
+    start: UserLocation,
+    end: UserLocation,
+    waypoints: UserLocation[]
+  ): Promise<WaypointRouteResult> {
+    const [direct] = await this.getRoutes(start, end, false);
+
+    const points = [start, ...waypoints, end];
+    const [parsed] =
+      this.flavor === "osrm"
+        ? await this.fetchOsrm(points, false)
+        : await this.fetchValhalla(points, false);
+
+    if (!parsed) {
+      throw new Error(`No waypoint routes returned from ${this.flavor}`);
+    }
+
+    const extraTime = Math.max(0, parsed.duration - direct.duration);
+    const extraDistance = Math.max(0, parsed.distance - direct.distance);
+
+    return {
+      route: {
+        polyline: parsed.polyline,
+        polylineEncoded: encodePolyline(parsed.polyline),
+        duration: parsed.duration,
+        distance: parsed.distance,
+        raw: this.toGoogleRaw(parsed),
+      },
+      extraTime,
+      extraDistance,
+      routeSimilarity:
+        direct.distance > 0
+          ? Math.max(0, 1 - extraDistance / direct.distance)
+          : 0,
+    };
+  }
+
+  // ================================================
+  // OSRM
+  // ================================================
+
+  private async fetchOsrm(
+    points: UserLocation[],
+    alternatives: boolean
+  ): Promise<ParsedRoute[]> {
+    const coordinates = points
+      .map((p) => `${p.longitude},${p.latitude}`)
+      .join(";");
+    const params = [
+      `alternatives=${alternatives ? MAX_ALTERNATIVES : "false"}`,
+      "steps=true",
+      "overview=full",
+      "geometries=polyline",
+    ].join("&");
+    const url = `${this.baseUrl}/route/v1/${this.profile}/${coordinates}?${params}`;
+
+    const data = await this.fetchJson(url);
+    if (data.code !== "Ok") {
+      throw new Error(
+        `OSRM error: ${data.code}${data.message ? ` - ${data.message}` : ""}`
+      );
+    }
+
+    return (data.routes || []).map((route: any) => {
+      const steps: RouteStep[] = [];
+      for (const leg of route.legs || []) {
+        for (const step of leg.steps || []) {
+          const stepPolyline = decodePolyline(step.geometry || "", 5);
+          const [lng, lat] = step.maneuver?.location || [0, 0];
+          steps.push({
+            startLocation: { latitude: lat, longitude: lng },
+            endLocation: stepPolyline[stepPolyline.length - 1] || {
+              latitude: lat,
+              longitude: lng,
+            },
+            distance: step.distance || 0,
+            duration: step.duration || 0,
+            instructions: this.osrmInstruction(step),
+            polyline: step.geometry || "",
+          });
+        }
+      }
+
+      return {
+        polyline: decodePolyline(route.geometry || "", 5),
+        distance: route.distance || 0,
+        duration: route.duration || 0,
+        steps,
+        summary:
+          (route.legs || [])
+            .map((leg: any) => leg.summary)
+            .filter(Boolean)
+            .join(", ") || "Route via local roads",
+      };
+    });
+  }
+
+  // OSRM only returns maneuver data; build the sentence ourselves
+  private osrmInstruction(step: any): string {
+    const type: string = step.maneuver?.type || "";
+    const modifier: string = step.maneuver?.modifier || "";
+    const road = step.name ? ` onto ${step.name}` : "";
+
+    switch (type) {
+      case "depart":
+        return `Head ${this.bearingToCardinal(step.maneuver?.bearing_after)}${
+          step.name ? ` on ${step.name}` : ""
+        }`;
+      case "arrive":
+        return "Arrive at your destination";
+      case "roundabout":
+      case "rotary":
+        return `Enter the roundabout and take exit ${
+          step.maneuver?.exit || 1
+        }${road}`;
+      case "continue":
+      case "new name":
+        return `Continue${modifier === "straight" ? " straight" : ""}${road}`;
+      default:
+        if (!modifier || modifier === "straight") {
+          return `Continue straight${road}`;
+        }
+        if (modifier === "uturn") return `Make a U-turn${road}`;
+        return `Turn ${modifier}${road}`;
+    }
+  }
+
+  private bearingToCardinal(bearing?: number): string {
+    const directions = [
+      "north",
+      "northeast",
+      "east",
+      "southeast",
+      "south",
+      "southwest",
+      "west",
+      "northwest",
+    ];
+    return directions[Math.round(((bearing || 0) % 360) / 45) % 8];
+  }
+
+  // ================================================
+  // Valhalla
+  // ================================================
+
+  private async fetchValhalla(
+    points: UserLocation[],
+    alternatives: boolean
+  ): Promise<ParsedRoute[]> {
+    const body = {
+      locations: points.map((p, index) => ({
+        lat: p.latitude,
+        lon: p.longitude,
+        // Intermediate points shape the route without becoming stops
+        type: index === 0 || index === points.length - 1 ? "break" : "through",
+      })),
+      costing: "pedestrian",
+      alternates: alternatives ? MAX_ALTERNATIVES : 0,
+      directions_options: { units: "kilometers" },
+    };
+
+    const data = await this.fetchJson(`${this.baseUrl}/route`, body);
+    if (!data.trip) {
+      throw new Error(
+        `Valhalla error: ${data.error || data.status_message || "no trip"}`
+      );
+    }
+
+    const trips = [
+      data.trip,
+      ...(data.alternates || []).map((alt: any) => alt.trip),
+    ];
+
+    return trips.filter(Boolean).map((trip: any) => {
+      const polyline: UserLocation[] = [];
+      const steps: RouteStep[] = [];
+
+      for (const leg of trip.legs || []) {
+        const shape = decodePolyline(leg.shape || "", 6);
+        polyline.push(...shape);
+
+        for (const maneuver of leg.maneuvers || []) {
+          const stepShape = shape.slice(
+            maneuver.begin_shape_index,
+            (maneuver.end_shape_index ?? maneuver.begin_shape_index) + 1
+          );
+          const first = stepShape[0] || shape[0];
+          steps.push({
+            startLocation: first,
+            endLocation: stepShape[stepShape.length - 1] || first,
+            distance: (maneuver.length || 0) * 1000,
+            duration: maneuver.time || 0,
+            instructions: maneuver.instruction || "",
+            polyline: encodePolyline(stepShape),
+          });
+        }
+      }
+
+      const streetNames: string[] = (trip.legs || [])
+        .flatMap((leg: any) => leg.maneuvers || [])
+        .flatMap((m: any) => m.street_names || []);
+
+      return {
+        polyline,
+        distance: (trip.summary?.length || 0) * 1000,
+        duration: trip.summary?.time || 0,
+        steps,
+        summary:
+          Array.from(new Set(streetNames)).slice(0, 2).join(", ") ||
+          "Route via local roads",
+      };
+    });
+  }
+
+  // ================================================
+  // Shared helpers
+  // ================================================
+
+  private toGoogleRoute(route: ParsedRoute, index: number): GoogleRoute {
+    const lats = route.polyline.map((p) => p.latitude);
+    const lngs = route.polyline.map((p) => p.longitude);
+
+    return {
+      id: `${this.flavor}_route_${index}`,
+      polylineEncoded: encodePolyline(route.polyline),
+      polyline: route.polyline,
+      distance: route.distance,
+      duration: route.duration,
+      steps: route.steps,
+      bounds: {
+        northeast: {
+          latitude: lats.length ? Math.max(...lats) : 0,
+          longitude: lngs.length ? Math.max(...lngs) : 0,
+        },
+        southwest: {
+          latitude: lats.length ? Math.min(...lats) : 0,
+          longitude: lngs.length ? Math.min(...lngs) : 0,
+        },
+      },
+      warnings: [],
+      summary: route.summary,
+    };
+  }
+
+  // Google-shaped raw response so safety checks on `raw` keep working
+  private toGoogleRaw(route: ParsedRoute): any {
+    return {
+      summary: route.summary,
+      legs: [
+        {
+          steps: route.steps.map((step) => ({
+            html_instructions: step.instructions,
+            travel_mode: "WALKING",
+          })),
+        },
+      ],
+    };
+  }
+
+  private async fetchJson(url: string, body?: object): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(url, {
+        method: body ? "POST" : "GET",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      // OSRM/Valhalla put error details in the JSON body of 4xx responses
+      const json = await response.json().catch(() => null);
+      if (!json) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return json;
+    } catch (error: any) {
+      if (error.name === "AbortError") {
+        throw new Error(
+          `Request timeout after ${REQUEST_TIMEOUT / 1000} seconds`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Decode an encoded polyline. OSRM uses precision 5 (same as Google),
+ * Valhalla precision 6.
+ */
+function decodePolyline(encoded: string, precision: number): UserLocation[] {
+  const factor = Math.pow(10, precision);
+  const points: UserLocation[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    let b;
+    let shift = 0;
+    let result = 0;
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+    lat += result & 1 ? ~(result >> 1) : result >> 1;
+
+    shift = 0;
+    result = 0;
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+    lng += result & 1 ? ~(result >> 1) : result >> 1;
+
+    points.push({ latitude: lat / factor, longitude: lng / factor });
+  }
+
+  return points;
+}
+
+// Precision-5 encoding, so stored polylines match Google's format
+function encodePolyline(points: UserLocation[]): string {
+  let output = "";
+  let prevLat = 0;
+  let prevLng = 0;
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    output += String.fromCharCode(v + 63);
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.latitude * 1e5);
+    const lng = Math.round(point.longitude * 1e5);
+    encodeValue(lat - prevLat);
+    encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return output;
+}
+
+export { OsrmRoutingProvider };
@@ -0,0 +1,862 @@
+// src/services/pedestrianGraphRouter.ts
+// On-device pedestrian router: SidewalkEntity polylines + CrossingPoint links
+// become a walkable graph, searched with AHP-weighted edge costs per user profile
+
+import { ahpCalculator } from "../utils/ahp";
+import { scoreCrossing } from "../utils/crossingScore";
+import {
+  SunPosition,
+  getSunExposure,
+  getSunPosition,
+} from "../utils/sunComfort";
+import { elevationService } from "./elevationService";
+import {
+  UserMobilityProfile,
+  UserLocation,
+  AccessibilityScore,
+  SidewalkData,
+} from "../types";
+import {
+  SidewalkEntity,
+  CrossingPoint,
+  EnhancedAccessibilityObstacle,
+  PedestrianGraphNode,
+  PedestrianGraphEdge,
+  PedestrianPath,
+  PedestrianPathLeg,
+} from "../types/sidewalkTypes";
+import {
+  TEST_SIDEWALKS,
+  TEST_CROSSING_POINTS,
+} from "../data/manualSidewalkMapping";
+import { calculateDistance } from "../utils/mapUtils";
+
+type ProfileKey = UserMobilityProfile["type"];
+
+// Edge cost as evaluated for one query (profile + obstacles)
+interface WeightedEdge {
+  edge: PedestrianGraphEdge;
+  cost: number; // meter-equivalents
+  time: number; // seconds
+  obstacles: EnhancedAccessibilityObstacle[];
+  score?: AccessibilityScore;
+}
+
+interface RouterConfig {
+  maxSnapDistance: number; // meters from start/end to nearest sidewalk vertex
+  snapTieTolerance: number; // meters; other sidewalks this close also get linked
+  obstacleSnapDistance: number; // meters from obstacle to sidewalk edge
+  accessibilityCostFactor: number; // how strongly low AHP scores stretch an edge
+  minTraversability: number; // below this AHP traversability the edge is impassable
+}
+
+// Vertices of different sidewalks this close are the same OSM node / corner
+const JUNCTION_PRECISION = 6; // decimal degrees, about 0.1 m
+
+const START_NODE = "__start__";
+const END_NODE = "__end__";
+
+// Profile-specific walking speeds (m/s)
+const WALKING_SPEEDS: Record<ProfileKey, number> = {
+  wheelchair: 1.2,
+  walker: 1.0,
+  crutches: 1.1,
+  cane: 1.3,
+  none: 1.4,
+};
+
+/**
+ * Minimal binary min-heap keyed by cost (Dijkstra frontier)
+ */
+class MinHeap {
+  private items: { id: string; cost: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: string, cost: number): void {
+    this.items.push({ id, cost });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].cost <= this.items[i].cost) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { id: string; cost: number } | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (
+          left < this.items.length &&
+          this.items[left].cost < this.items[smallest].cost
+        ) {
+          smallest = left;
+        }
+        if (
+          right < this.items.length &&
+          this.items[right].cost < this.items[smallest].cost
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [
+          this.items[i],
+          this.items[smallest],
+        ];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+class PedestrianGraphRouter {
+  private sidewalks: SidewalkEntity[] = [];
+  private crossings: CrossingPoint[] = [];
+
+  // Topology is cached; costs are evaluated per query
+  private nodes = new Map<string, PedestrianGraphNode>();
+  private edges: PedestrianGraphEdge[] = [];
+  private adjacency = new Map<string, PedestrianGraphEdge[]>();
+
+  private config: RouterConfig = {
+    maxSnapDistance: 100,
+    snapTieTolerance: 5,
+    obstacleSnapDistance: 12,
+    accessibilityCostFactor: 3,
+    minTraversability: 15,
+  };
+
+  constructor() {
+    this.setNetwork(TEST_SIDEWALKS, TEST_CROSSING_POINTS);
+  }
+
+  /**
+   * Replace the sidewalk network and rebuild the graph topology
+   */
+  setNetwork(sidewalks: SidewalkEntity[], crossings: CrossingPoint[]): void {
+    this.sidewalks = sidewalks;
+    this.crossings = crossings;
+    this.buildGraph();
+  }
+
+  getNetwork(): { sidewalks: SidewalkEntity[]; crossings: CrossingPoint[] } {
+    return { sidewalks: this.sidewalks, crossings: this.crossings };
+  }
+
+  getGraphStats(): { nodes: number; edges: number; crossings: number } {
+    return {
+      nodes: this.nodes.size,
+      edges: this.edges.length,
+      crossings: this.edges.filter((e) => e.kind === "crossing").length,
+    };
+  }
+
+  updateConfig(newConfig: Partial<RouterConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  /**
+   * MAIN METHOD: Profile-aware shortest path between two locations.
+   * Returns null when either end is off the sidewalk network or no
+   * passable path exists, so callers can fall back to Google routing.
+   * departureTime sets the sun position for shade comfort and which
+   * time-dependent obstacles are in the way.
+   */
+  findPath(
+    start: UserLocation,
+    end: UserLocation,
+    userProfile: UserMobilityProfile,
+    obstacles: EnhancedAccessibilityObstacle[] = [],
+    departureTime: Date = new Date()
+  ): PedestrianPath | null {
+    if (this.nodes.size === 0) return null;
+
+    const startLinks = this.snapToNetwork(start);
+    const endLinks = this.snapToNetwork(end);
+    if (startLinks.length === 0 || endLinks.length === 0) {
+      console.log("🕸️ Trip is outside the sidewalk network");
+      return null;
+    }
+
+    const sun = getSunPosition(departureTime, start);
+    const weighted = this.weighEdges(
+      userProfile,
+      obstacles,
+      sun,
+      departureTime
+    );
+    const speed = WALKING_SPEEDS[userProfile.type] || WALKING_SPEEDS.none;
+
+    // Virtual edges from start/end to the nearest vertex on each sidewalk
+    const virtualEdges = new Map<string, WeightedEdge[]>();
+    const addVirtual = (from: string, to: string, distance: number) => {
+      const edge: PedestrianGraphEdge = {
+        id: `virtual_${from}_${to}`,
+        from,
+        to,
+        kind: "sidewalk",
+        distance,
+      };
+      const list = virtualEdges.get(from) || [];
+      list.push({
+        edge,
+        cost: distance,
+        time: distance / speed,
+        obstacles: [],
+      });
+      virtualEdges.set(from, list);
+    };
+    startLinks.forEach((link) =>
+      addVirtual(START_NODE, link.nodeId, link.distance)
+    );
+    endLinks.forEach((link) =>
+      addVirtual(link.nodeId, END_NODE, link.distance)
+    );
+
+    // Dijkstra
+    const best = new Map<string, number>([[START_NODE, 0]]);
+    const previous = new Map<string, WeightedEdge>();
+    const heap = new MinHeap();
+    heap.push(START_NODE, 0);
+
+    while (heap.size > 0) {
+      const current = heap.pop()!;
+      if (current.cost > (best.get(current.id) ?? Infinity)) continue;
+      if (current.id === END_NODE) break;
+
+      const outgoing = [
+        ...(weighted.get(current.id) || []),
+        ...(virtualEdges.get(current.id) || []),
+      ];
+
+      for (const candidate of outgoing) {
+        const next = candidate.edge.to;
+        const cost = current.cost + candidate.cost;
+        if (cost < (best.get(next) ?? Infinity)) {
+          best.set(next, cost);
+          previous.set(next, candidate);
+          heap.push(next, cost);
+        }
+      }
+    }
+
+    if (!previous.has(END_NODE)) {
+      console.log(`🕸️ No passable sidewalk path for ${userProfile.type} user`);
+      return null;
+    }
+
+    // Walk back from the end node
+    const pathEdges: WeightedEdge[] = [];
+    let cursor = END_NODE;
+    while (cursor !== START_NODE) {
+      const step = previous.get(cursor)!;
+      pathEdges.unshift(step);
+      cursor = step.edge.from;
+    }
+
+    return this.buildPath(
+      start,
+      end,
+      pathEdges,
+      best.get(END_NODE)!,
+      userProfile,
+      obstacles,
+      sun,
+      departureTime
+    );
+  }
+
+  /**
+   * Build nodes for every sidewalk vertex and edges for polylines and crossings
+   */
+  private buildGraph(): void {
+    this.nodes.clear();
+    this.edges = [];
+    this.adjacency.clear();
+
+    for (const sidewalk of this.sidewalks) {
+      sidewalk.coordinates.forEach((location, index) => {
+        const nodeId = `${sidewalk.id}:${index}`;
+        this.nodes.set(nodeId, {
+          id: nodeId,
+          location,
+          sidewalkId: sidewalk.id,
+        });
+
+        if (index > 0) {
+          const fromId = `${sidewalk.id}:${index - 1}`;
+          const distance = calculateDistance(
+            sidewalk.coordinates[index - 1],
+            location
+          );
+          this.addEdgePair(fromId, nodeId, "sidewalk", distance, {
+            sidewalkId: sidewalk.id,
+          });
+        }
+      });
+    }
+
+    this.addJunctionEdges();
+
+    for (const crossing of this.crossings) {
+      const [sideA, sideB] = crossing.connectsSidewalks;
+      const nodeA = this.nearestVertexOnSidewalk(sideA, crossing.location);
+      const nodeB = this.nearestVertexOnSidewalk(sideB, crossing.location);
+
+      if (!nodeA || !nodeB) {
+        continue; // Crossing references a sidewalk we don't have
+      }
+
+      const distance = calculateDistance(
+        this.nodes.get(nodeA.nodeId)!.location,
+        this.nodes.get(nodeB.nodeId)!.location
+      );
+      this.addEdgePair(nodeA.nodeId, nodeB.nodeId, "crossing", distance, {
+        crossing,
+      });
+    }
+
+    console.log(
+      `🕸️ Pedestrian graph built: ${this.nodes.size} nodes, ${this.edges.length} edges`
+    );
+  }
+
+  /**
+   * Join sidewalks that meet at a shared vertex (OSM ways split at a node,
+   * welded street corners) so a path can continue from one to the next
+   */
+  private addJunctionEdges(): void {
+    const byPosition = new Map<string, PedestrianGraphNode[]>();
+    for (const node of this.nodes.values()) {
+      const key = `${node.location.latitude.toFixed(
+        JUNCTION_PRECISION
+      )},${node.location.longitude.toFixed(JUNCTION_PRECISION)}`;
+      const list = byPosition.get(key) || [];
+      list.push(node);
+      byPosition.set(key, list);
+    }
+
+    for (const shared of byPosition.values()) {
+      for (let i = 0; i < shared.length; i++) {
+        for (let j = i + 1; j < shared.length; j++) {
+          if (shared[i].sidewalkId === shared[j].sidewalkId) continue;
+          this.addEdgePair(shared[i].id, shared[j].id, "junction", 0, {});
+        }
+      }
+    }
+  }
+
+  private addEdgePair(
+    from: string,
+    to: string,
+    kind: PedestrianGraphEdge["kind"],
+    distance: number,
+    extra: Pick<PedestrianGraphEdge, "sidewalkId" | "crossing">
+  ): void {
+    const forward: PedestrianGraphEdge = {
+      id: `${from}->${to}`,
+      from,
+      to,
+      kind,
+      distance,
+      ...extra,
+    };
+    const backward: PedestrianGraphEdge = {
+      ...forward,
+      id: `${to}->${from}`,
+      from: to,
+      to: from,
+    };
+
+    for (const edge of [forward, backward]) {
+      this.edges.push(edge);
+      const list = this.adjacency.get(edge.from) || [];
+      list.push(edge);
+      this.adjacency.set(edge.from, list);
+    }
+  }
+
+  /**
+   * Evaluate every edge for this profile and obstacle set.
+   * Impassable edges are left out of the returned adjacency entirely.
+   */
+  private weighEdges(
+    userProfile: UserMobilityProfile,
+    obstacles: EnhancedAccessibilityObstacle[],
+    sun: SunPosition,
+    departureTime: Date
+  ): Map<string, WeightedEdge[]> {
+    const speed = WALKING_SPEEDS[userProfile.type] || WALKING_SPEEDS.none;
+    const sidewalkById = new Map(this.sidewalks.map((s) => [s.id, s]));
+    const weighted = new Map<string, WeightedEdge[]>();
+
+    for (const [nodeId, edges] of this.adjacency.entries()) {
+      const list: WeightedEdge[] = [];
+
+      for (const edge of edges) {
+        if (edge.kind === "junction") {
+          list.push({ edge, cost: 0, time: 0, obstacles: [] });
+          continue;
+        }
+
+        const evaluated =
+          edge.kind === "crossing"
+            ? this.weighCrossingEdge(edge, userProfile, speed)
+            : this.weighSidewalkEdge(
+                edge,
+                sidewalkById.get(edge.sidewalkId!)!,
+                userProfile,
+                obstacles,
+                speed,
+                sun,
+                departureTime
+              );
+
+        if (evaluated) list.push(evaluated);
+      }
+
+      weighted.set(nodeId, list);
+    }
+
+    return weighted;
+  }
+
+  private weighSidewalkEdge(
+    edge: PedestrianGraphEdge,
+    sidewalk: SidewalkEntity,
+    userProfile: UserMobilityProfile,
+    obstacles: EnhancedAccessibilityObstacle[],
+    speed: number,
+    sun: SunPosition,
+    departureTime: Date
+  ): WeightedEdge | null {
+    const from = this.nodes.get(edge.from)!.location;
+    const to = this.nodes.get(edge.to)!.location;
+
+    const edgeObstacles = obstacles.filter((obstacle) =>
+      this.isObstacleOnEdge(obstacle, sidewalk, from, to)
+    );
+
+    const score = ahpCalculator.calculateAccessibilityScore(
+      this.toSidewalkData(
+        sidewalk,
+        edgeObstacles,
+        this.getSlope(sidewalk, [from, to]),
+        this.getSunExposure(sidewalk, [from, to], sun)
+      ),
+      userProfile,
+      departureTime
+    );
+
+    if (score.traversability < this.config.minTraversability) {
+      return null; // User cannot physically pass this stretch
+    }
+
+    const penalty =
+      ((100 - score.overall) / 100) * this.config.accessibilityCostFactor;
+
+    return {
+      edge,
+      cost: edge.distance * (1 + penalty),
+      time: edge.distance / speed,
+      obstacles: edgeObstacles,
+      score,
+    };
+  }
+
+  private weighCrossingEdge(
+    edge: PedestrianGraphEdge,
+    userProfile: UserMobilityProfile,
+    speed: number
+  ): WeightedEdge | null {
+    const assessment = scoreCrossing(edge.crossing!, userProfile);
+
+    if (!assessment.passable) {
+      return null;
+    }
+
+    return {
+      edge,
+      cost: assessment.time * speed + assessment.penalty,
+      time: assessment.time,
+      obstacles: [],
+    };
+  }
+
+  /**
+   * Obstacle belongs to an edge when it is tagged to that sidewalk (or
+   * untagged) and lies within the snap distance of the edge segment
+   */
+  private isObstacleOnEdge(
+    obstacle: EnhancedAccessibilityObstacle,
+    sidewalk: SidewalkEntity,
+    from: UserLocation,
+    to: UserLocation
+  ): boolean {
+    if (!obstacle.location) return false;
+
+    const taggedSidewalk = obstacle.sidewalkInfo?.sidewalkId;
+    if (
+      taggedSidewalk &&
+      this.sidewalks.some((s) => s.id === taggedSidewalk) &&
+      taggedSidewalk !== sidewalk.id
+    ) {
+      return false;
+    }
+
+    return (
+      this.pointToSegmentDistance(obstacle.location, from, to) <=
+      this.config.obstacleSnapDistance
+    );
+  }
+
+  /**
+   * Mapped incline wins; otherwise the steepest stretch measured on the DEM
+   */
+  private getSlope(
+    sidewalk: SidewalkEntity,
+    coordinates: UserLocation[]
+  ): number {
+    if (sidewalk.accessibilityFeatures.slope !== undefined) {
+      return sidewalk.accessibilityFeatures.slope;
+    }
+
+    let steepest = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+      const slope = elevationService.getSlopeDegrees(
+        coordinates[i - 1],
+        coordinates[i]
+      );
+      if (slope !== null) steepest = Math.max(steepest, slope);
+    }
+    return steepest;
+  }
+
+  private getSunExposure(
+    sidewalk: SidewalkEntity,
+    coordinates: UserLocation[],
+    sun: SunPosition
+  ): number {
+    return getSunExposure(
+      coordinates,
+      sidewalk.side,
+      sidewalk.accessibilityFeatures.covered,
+      sun
+    );
+  }
+
+  /**
+   * Map sidewalk features onto the AHP input format
+   */
+  private toSidewalkData(
+    sidewalk: SidewalkEntity,
+    obstacles: EnhancedAccessibilityObstacle[],
+    slope: number,
+    sunExposure: number
+  ): SidewalkData {
+    const features = sidewalk.accessibilityFeatures;
+
+    const surfaceByCondition: Record<
+      SidewalkEntity["accessibilityFeatures"]["condition"],
+      SidewalkData["surfaceCondition"]
+    > = {
+      excellent: "smooth",
+      good: "smooth",
+      fair: "rough",
+      poor: "broken",
+    };
+
+    const lightingMap: Record<
+      SidewalkEntity["accessibilityFeatures"]["lighting"],
+      SidewalkData["lighting"]
+    > = {
+      good: "good",
+      fair: "poor",
+      poor: "none",
+    };
+
+    return {
+      obstacles: obstacles.map((o) => ({ ...o })),
+      estimatedWidth: features.averageWidth / 100, // cm -> m
+      surfaceCondition:
+        features.surface === "dirt"
+          ? "rough"
+          : surfaceByCondition[features.condition],
+      slope,
+      lighting: lightingMap[features.lighting],
+      shadeLevel: features.covered ? "covered" : "none",
+      sunExposure,
+      trafficLevel: "medium",
+      hasRamp: features.hasRamps,
+      hasHandrails: false,
+    };
+  }
+
+  /**
+   * Group traversed edges into per-sidewalk legs
+   */
+  private buildPath(
+    start: UserLocation,
+    end: UserLocation,
+    pathEdges: WeightedEdge[],
+    totalCost: number,
+    userProfile: UserMobilityProfile,
+    allObstacles: EnhancedAccessibilityObstacle[],
+    sun: SunPosition,
+    departureTime: Date
+  ): PedestrianPath {
+    const sidewalkById = new Map(this.sidewalks.map((s) => [s.id, s]));
+    const legs: PedestrianPathLeg[] = [];
+    const crossings: CrossingPoint[] = [];
+    const coordinates: UserLocation[] = [start];
+    let totalDistance = 0;
+    let totalTime = 0;
+
+    let currentLeg: PedestrianPathLeg | null = null;
+
+    const closeLeg = (crossingAtEnd?: CrossingPoint) => {
+      if (!currentLeg) return;
+      const sidewalk = sidewalkById.get(currentLeg.sidewalkId);
+      if (sidewalk) {
+        currentLeg.accessibilityScore =
+          ahpCalculator.calculateAccessibilityScore(
+            this.toSidewalkData(
+              sidewalk,
+              currentLeg.obstacles,
+              this.getSlope(sidewalk, currentLeg.coordinates),
+              this.getSunExposure(sidewalk, currentLeg.coordinates, sun)
+            ),
+            userProfile,
+            departureTime
+          );
+      }
+      currentLeg.crossingAtEnd = crossingAtEnd;
+      legs.push(currentLeg);
+      currentLeg = null;
+    };
+
+    for (const step of pathEdges) {
+      const { edge } = step;
+      totalDistance += edge.distance;
+      totalTime += step.time;
+
+      if (edge.kind === "crossing") {
+        closeLeg(edge.crossing);
+        crossings.push(edge.crossing!);
+        coordinates.push(this.nodes.get(edge.to)!.location);
+        continue;
+      }
+
+      // Same spot on the next sidewalk; its first edge opens a new leg
+      if (edge.kind === "junction") continue;
+
+      // Virtual start/end edges inherit the sidewalk of their real endpoint
+      const sidewalkId =
+        edge.sidewalkId ||
+        this.nodes.get(edge.from === START_NODE ? edge.to : edge.from)!
+          .sidewalkId;
+
+      if (currentLeg && currentLeg.sidewalkId !== sidewalkId) {
+        closeLeg();
+      }
+
+      if (!currentLeg) {
+        currentLeg = {
+          sidewalkId,
+          coordinates: [
+            edge.from === START_NODE
+              ? start
+              : this.nodes.get(edge.from)!.location,
+          ],
+          distance: 0,
+          estimatedTime: 0,
+          obstacles: [],
+          accessibilityScore: this.emptyScore(),
+        };
+      }
+
+      const leg: PedestrianPathLeg = currentLeg;
+      const target =
+        edge.to === END_NODE ? end : this.nodes.get(edge.to)!.location;
+      leg.coordinates.push(target);
+      leg.distance += edge.distance;
+      leg.estimatedTime += step.time;
+      step.obstacles.forEach((obstacle) => {
+        if (!leg.obstacles.some((o) => o.id === obstacle.id)) {
+          leg.obstacles.push(obstacle);
+        }
+      });
+      coordinates.push(target);
+    }
+    closeLeg();
+
+    const pathObstacles = legs
+      .flatMap((leg) => leg.obstacles)
+      .filter(
+        (obstacle, index, self) =>
+          self.findIndex((o) => o.id === obstacle.id) === index
+      );
+
+    console.log(
+      `🕸️ Graph path: ${Math.round(totalDistance)}m, ${legs.length} legs, ${
+        crossings.length
+      } crossings, ${pathObstacles.length}/${allObstacles.length} obstacles`
+    );
+
+    return {
+      legs,
+      coordinates,
+      crossings,
+      obstacles: pathObstacles,
+      totalDistance,
+      totalTime,
+      totalCost,
+    };
+  }
+
+  /**
+   * Length-weighted sun exposure (0-1) along a street-level route, e.g. a
+   * Google polyline. Each stretch takes the shadier of the mapped sidewalks
+   * beside it; stretches without mapped sidewalks count as an open street.
+   */
+  getRouteSunExposure(coordinates: UserLocation[], sun: SunPosition): number {
+    if (sun.elevation <= 0 || coordinates.length < 2) return 0;
+
+    const sides: SidewalkEntity["side"][] = ["north", "east", "south", "west"];
+    let exposed = 0;
+    let total = 0;
+
+    for (let i = 1; i < coordinates.length; i++) {
+      const stretch = [coordinates[i - 1], coordinates[i]];
+      const length = calculateDistance(stretch[0], stretch[1]);
+      if (length === 0) continue;
+
+      const midpoint: UserLocation = {
+        latitude: (stretch[0].latitude + stretch[1].latitude) / 2,
+        longitude: (stretch[0].longitude + stretch[1].longitude) / 2,
+      };
+      const beside = this.sidewalks.filter((sidewalk) =>
+        sidewalk.coordinates.some(
+          (point, index) =>
+            index > 0 &&
+            this.pointToSegmentDistance(
+              midpoint,
+              sidewalk.coordinates[index - 1],
+              point
+            ) <= this.config.obstacleSnapDistance
+        )
+      );
+
+      const exposures =
+        beside.length > 0
+          ? beside.map((sidewalk) =>
+              this.getSunExposure(sidewalk, stretch, sun)
+            )
+          : sides.map((side) => getSunExposure(stretch, side, false, sun));
+
+      exposed += Math.min(...exposures) * length;
+      total += length;
+    }
+
+    return total > 0 ? exposed / total : 0;
+  }
+
+  /**
+   * Nearest vertex on the closest sidewalk(s) within snap distance.
+   * Only sidewalks about as close as the nearest one are linked, so the
+   * virtual edges never let a path jump across the street without a crossing.
+   */
+  private snapToNetwork(
+    location: UserLocation
+  ): { nodeId: string; distance: number }[] {
+    const candidates: { nodeId: string; distance: number }[] = [];
+
+    for (const sidewalk of this.sidewalks) {
+      const nearest = this.nearestVertexOnSidewalk(sidewalk.id, location);
+      if (nearest && nearest.distance <= this.config.maxSnapDistance) {
+        candidates.push(nearest);
+      }
+    }
+
+    if (candidates.length === 0) return [];
+
+    const closest = Math.min(...candidates.map((c) => c.distance));
+    return candidates.filter(
+      (c) => c.distance <= closest + this.config.snapTieTolerance
+    );
+  }
+
+  private nearestVertexOnSidewalk(
+    sidewalkId: string,
+    location: UserLocation
+  ): { nodeId: string; distance: number } | null {
+    const sidewalk = this.sidewalks.find((s) => s.id === sidewalkId);
+    if (!sidewalk || sidewalk.coordinates.length === 0) return null;
+
+    let best: { nodeId: string; distance: number } | null = null;
+    sidewalk.coordinates.forEach((point, index) => {
+      const distance = calculateDistance(location, point);
+      if (!best || distance < best.distance) {
+        best = { nodeId: `${sidewalkId}:${index}`, distance };
+      }
+    });
+
+    return best;
+  }
+
+  private emptyScore(): AccessibilityScore {
+    return {
+      traversability: 100,
+      safety: 100,
+      comfort: 100,
+      overall: 100,
+      grade: "A",
+      userSpecificAdjustment: 0,
+    };
+  }
+
+  /**
+   * Point to line segment distance (meters, local equirectangular projection)
+   */
+  private pointToSegmentDistance(
+    point: UserLocation,
+    lineStart: UserLocation,
+    lineEnd: UserLocation
+  ): number {
+    const metersPerDegLat = 111320;
+    const metersPerDegLng =
+      111320 * Math.cos((lineStart.latitude * Math.PI) / 180);
+
+    const px = (point.longitude - lineStart.longitude) * metersPerDegLng;
+    const py = (point.latitude - lineStart.latitude) * metersPerDegLat;
+    const dx = (lineEnd.longitude - lineStart.longitude) * metersPerDegLng;
+    const dy = (lineEnd.latitude - lineStart.latitude) * metersPerDegLat;
+
+    const lenSq = dx * dx + dy * dy;
+    const t =
+      lenSq === 0 ? 0 : Math.max(0, Math.min(1, (px * dx + py * dy) / lenSq));
+
+    const ex = px - t * dx;
+    const ey = py - t * dy;
+    return Math.sqrt(ex * ex + ey * ey);
+  }
+}
+
+// Export singleton instance
+export const pedestrianGraphRouter = new PedestrianGraphRouter();
+
+// Also export the class for testing
+export { PedestrianGraphRouter };
+export type { RouterConfig };
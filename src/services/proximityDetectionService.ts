@@ -6,8 +6,15 @@ import {
   UserLocation,
   AccessibilityObstacle,
   UserMobilityProfile,
+  ObstacleFilters,
 } from "../types";
 import { firebaseServices } from "./firebase";
+import { offlinePackService } from "./offlinePackService";
+import { getDecayWeight, isObstacleExpired } from "../utils/obstacleDecay";
+import {
+  DEFAULT_OBSTACLE_FILTERS,
+  matchesObstacleFilters,
+} from "../utils/obstacleFilters";
 
 import {
   calculateUserBearingFromRoute,
@@ -51,7 +58,8 @@ export class ProximityDetectionService {
   async detectObstaclesAhead(
     userLocation: UserLocation,
     routePolyline: UserLocation[],
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    filters: ObstacleFilters = DEFAULT_OBSTACLE_FILTERS
   ): Promise<ProximityAlert[]> {
     console.log(
       `🔍 Starting proximity detection at ${userLocation.latitude}, ${userLocation.longitude}`
@@ -64,8 +72,11 @@ export class ProximityDetectionService {
         return [];
       }
 
-      // STEP 2: Get obstacles within detection radius
-      const nearbyObstacles = await this.getNearbyObstacles(userLocation);
+      // STEP 2: Get obstacles within detection radius, minus the ones the
+      // user filtered off the map
+      const nearbyObstacles = (
+        await this.getNearbyObstacles(userLocation)
+      ).filter((obstacle) => matchesObstacleFilters(obstacle, filters));
       console.log(
         `📍 Found ${nearbyObstacles.length} obstacles within ${this.config.detectionRadius}m`
       );
@@ -174,9 +185,8 @@ export class ProximityDetectionService {
       // Firebase service expects radiusKm parameter based on existing codebase
       const radiusInKm = this.config.detectionRadius / 1000;
 
-      const obstacles = await firebaseServices.obstacle.getObstaclesInArea(
-        userLocation.latitude,
-        userLocation.longitude,
+      const obstacles = await this.fetchObstaclesInArea(
+        userLocation,
         radiusInKm
       );
 
@@ -193,6 +203,12 @@ export class ProximityDetectionService {
           );
         }
 
+        // Don't warn about reports nobody has confirmed in too long
+        if (hasValidLocation && isObstacleExpired(obstacle)) {
+          console.log(`⌛ Skipping expired obstacle ${obstacle.id}`);
+          return false;
+        }
+
         return hasValidLocation;
       });
 
@@ -203,6 +219,35 @@ export class ProximityDetectionService {
     }
   }
 
+  /**
+   * Firebase when reachable, otherwise the downloaded offline pack
+   */
+  private async fetchObstaclesInArea(
+    userLocation: UserLocation,
+    radiusInKm: number
+  ): Promise<AccessibilityObstacle[]> {
+    if (!offlinePackService.isLikelyOffline()) {
+      try {
+        const obstacles = await firebaseServices.obstacle.getObstaclesInArea(
+          userLocation.latitude,
+          userLocation.longitude,
+          radiusInKm
+        );
+        offlinePackService.reportNetworkSuccess();
+        return obstacles;
+      } catch (error) {
+        console.warn("📴 Obstacle fetch failed, trying offline pack:", error);
+        offlinePackService.reportNetworkFailure();
+      }
+    }
+
+    return offlinePackService.getObstaclesInArea(
+      userLocation.latitude,
+      userLocation.longitude,
+      radiusInKm
+    );
+  }
+
   /**
    * STEP 3: Filter obstacles that intersect with the planned route
    */
@@ -443,15 +488,17 @@ export class ProximityDetectionService {
   }
 
   /**
-   * UTILITY: Calculate confidence based on community validation
+   * UTILITY: Calculate confidence based on community validation,
+   * decayed by time since the obstacle was last confirmed
    */
   private calculateConfidence(obstacle: AccessibilityObstacle): number {
     const upvotes = obstacle.upvotes || 0;
     const downvotes = obstacle.downvotes || 0;
     const totalVotes = upvotes + downvotes;
+    const decay = getDecayWeight(obstacle);
 
     if (totalVotes === 0) {
-      return 0.5; // Neutral confidence for unvalidated obstacles
+      return 0.5 * decay; // Neutral confidence for unvalidated obstacles
     }
 
     const positiveRatio = upvotes / totalVotes;
@@ -459,7 +506,7 @@ export class ProximityDetectionService {
     // Boost confidence for verified obstacles
     const verificationBonus = obstacle.verified ? 0.2 : 0;
 
-    return Math.min(1.0, positiveRatio + verificationBonus);
+    return Math.min(1.0, positiveRatio + verificationBonus) * decay;
   }
 
   /**
@@ -2,13 +2,26 @@
 // SIMPLIFIED: Obstacle count-based routing - NO MORE COMPLEX SCORING!
 // Clean, simple, and actually useful for PWD users
 
-import { googleMapsService, GoogleRoute } from "./googleMapsService";
+import { GoogleRoute, RouteStep } from "./googleMapsService";
+import { routingService } from "./routingProvider";
 import { firebaseServices } from "./firebase";
+import { ahpLearningService, AHPLearningUpdate } from "./ahpLearningService";
+import { floodZoneService } from "./floodZoneService";
+import { pedestrianGraphRouter } from "./pedestrianGraphRouter";
+import { elevationService } from "./elevationService";
+import { getEnhancedObstacles } from "../data/manualSidewalkMapping";
+import { getSunPosition } from "../utils/sunComfort";
+import { isObstacleActiveAt } from "../utils/obstacleSchedule";
+import { isObstacleExpired } from "../utils/obstacleDecay";
 import {
   UserMobilityProfile,
   UserLocation,
   AccessibilityObstacle,
+  AccessibilityScore,
+  RouteFeedback,
+  RouteFloodAssessment,
 } from "../types";
+import { CrossingPoint, PedestrianPath } from "../types/sidewalkTypes";
 
 // SIMPLIFIED: No more complex scoring - just count obstacles!
 interface SimpleRoute {
@@ -16,8 +29,23 @@ interface SimpleRoute {
   obstacleCount: number;
   obstacles: AccessibilityObstacle[];
   routeType: "fastest" | "clearest" | "alternative";
+  flood?: RouteFloodAssessment; // Only in flood mode
+  sunExposure?: number; // 0-1, only for users who prefer shade
 }
 
+// Obstacle-equivalents for a route in full sun with the sun overhead
+const SUN_EXPOSURE_PENALTY = 2;
+
+// Route id for the path found over the mapped sidewalk network
+const SIDEWALK_GRAPH_ROUTE_ID = "sidewalk_graph";
+
+const CROSSING_INSTRUCTIONS: Record<CrossingPoint["type"], string> = {
+  traffic_light: "Cross at the traffic light",
+  pedestrian_crossing: "Cross at the pedestrian crossing",
+  intersection: "Cross at the intersection",
+  informal: "Cross the street here, watch for traffic",
+};
+
 // SIMPLIFIED: Two routes, clear choice for users
 interface SimpleRouteComparison {
   fastestRoute: SimpleRoute;
@@ -28,34 +56,72 @@ interface SimpleRouteComparison {
     timeDifference: number; // seconds
     obstacleDifference: number; // count
     recommendation: string; // Simple recommendation
+    floodWarning?: string; // Flood mode only
   };
 }
 
 class RouteAnalysisService {
   /**
    * MAIN METHOD: Get routes and count obstacles - SIMPLE!
+   * departureTime: planned start (default: now). Time-dependent obstacles are
+   * only counted if they are active when the user reaches them.
+   * floodMode: weigh flood-prone zones and recent flooding reports, and skip
+   * routes through water the user's device can't pass.
+   * preferShade users also get the shadier route ranked as clearest.
    */
   async analyzeRoutes(
     start: UserLocation,
     end: UserLocation,
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    departureTime: Date = new Date(),
+    floodMode: boolean = false
   ): Promise<SimpleRouteComparison> {
     try {
       console.log(
         "🚀 Starting SIMPLIFIED route analysis - just counting obstacles!"
       );
 
-      // Step 1: Get multiple routes from Google Maps
+      // Step 1: Get multiple routes from the routing provider
       let googleRoutes = await this.getMultipleRoutes(start, end);
 
       if (googleRoutes.length === 0) {
         throw new Error("No routes found between these locations");
       }
 
-      console.log(`📍 Found ${googleRoutes.length} routes from Google Maps`);
+      console.log(
+        `📍 Found ${googleRoutes.length} routes from ${routingService.name}`
+      );
 
       // Step 2: Count obstacles for each route - NO COMPLEX SCORING!
-      const routesWithObstacles = await this.addObstacleCounts(googleRoutes);
+      const routesWithObstacles = await this.addObstacleCounts(
+        googleRoutes,
+        departureTime
+      );
+
+      // Step 2b: Route over the mapped sidewalks, picking the side of the
+      // street and the crossings for this profile
+      const sidewalkRoute = await this.findSidewalkRoute(
+        start,
+        end,
+        userProfile,
+        routesWithObstacles,
+        departureTime
+      );
+      if (sidewalkRoute) {
+        routesWithObstacles.push(sidewalkRoute);
+      }
+
+      if (floodMode) {
+        await this.addFloodAssessments(
+          routesWithObstacles,
+          userProfile,
+          departureTime
+        );
+      }
+
+      if (userProfile.preferShade) {
+        this.addSunExposure(routesWithObstacles, departureTime);
+      }
 
       console.log("🔢 Obstacle counts per route:");
       routesWithObstacles.forEach((route, index) => {
@@ -79,6 +145,13 @@ class RouteAnalysisService {
 
       // Step 5: Create simple summary
       const summary = this.createSimpleSummary(fastestRoute, clearestRoute);
+      if (floodMode) {
+        summary.floodWarning = this.createFloodWarning(
+          routesWithObstacles,
+          clearestRoute,
+          userProfile
+        );
+      }
 
       console.log("✅ SIMPLIFIED route analysis complete!");
       console.log(
@@ -105,26 +178,31 @@ class RouteAnalysisService {
   }
 
   /**
-   * Get multiple routes from Google Maps (KEEP EXISTING LOGIC)
+   * Get multiple routes from the active routing provider (KEEP EXISTING LOGIC)
    */
   private async getMultipleRoutes(
     start: UserLocation,
     end: UserLocation
   ): Promise<GoogleRoute[]> {
     try {
-      // Try to get alternatives from Google Maps
-      const routes = await googleMapsService.getRoutes(start, end, true);
+      // Try to get alternatives from the routing provider
+      const routes = await routingService.getRoutes(start, end, true);
 
       if (routes.length >= 2) {
-        console.log(`📍 Got ${routes.length} real alternatives from Google`);
+        console.log(
+          `📍 Got ${routes.length} real alternatives from ${routingService.name}`
+        );
         return routes.slice(0, 5); // Max 5 routes to keep it manageable
       }
 
       // If only 1 route, that's fine - we'll work with what we have
-      console.log("📍 Only 1 route from Google - that's okay!");
+      console.log(`📍 Only 1 route from ${routingService.name} - that's okay!`);
       return routes;
     } catch (error) {
-      console.error("❌ Error getting routes from Google:", error);
+      console.error(
+        `❌ Error getting routes from ${routingService.name}:`,
+        error
+      );
       throw error;
     }
   }
@@ -133,7 +211,8 @@ class RouteAnalysisService {
    * Count obstacles for each route - NO SCORING, JUST COUNTING!
    */
   private async addObstacleCounts(
-    googleRoutes: GoogleRoute[]
+    googleRoutes: GoogleRoute[],
+    departureTime: Date
   ): Promise<SimpleRoute[]> {
     const routesWithObstacles: SimpleRoute[] = [];
 
@@ -141,8 +220,12 @@ class RouteAnalysisService {
       const googleRoute = googleRoutes[i];
 
       try {
-        // Get obstacles along this specific route
-        const obstacles = await this.getObstaclesAlongRoute(googleRoute);
+        // Get obstacles along this specific route, as they will be when passed
+        const obstacles = this.filterActiveWhenPassed(
+          await this.getObstaclesAlongRoute(googleRoute),
+          googleRoute,
+          departureTime
+        );
 
         // SIMPLE: Just count them!
         const obstacleCount = obstacles.length;
@@ -178,23 +261,7 @@ class RouteAnalysisService {
     googleRoute: GoogleRoute
   ): Promise<AccessibilityObstacle[]> {
     try {
-      // Decode route polyline to get route points
-      let routePoints: UserLocation[] = [];
-
-      if (Array.isArray(googleRoute.polyline)) {
-        routePoints = googleRoute.polyline;
-      } else if (typeof googleRoute.polyline === "string") {
-        routePoints = this.decodePolylineString(googleRoute.polyline);
-      } else {
-        console.warn("⚠️ Invalid polyline format, using route bounds");
-        // Fallback: use start/end points
-        if (googleRoute.steps && googleRoute.steps.length > 0) {
-          routePoints = [
-            googleRoute.steps[0].startLocation,
-            googleRoute.steps[googleRoute.steps.length - 1].endLocation,
-          ];
-        }
-      }
+      const routePoints = this.getRoutePoints(googleRoute);
 
       if (routePoints.length === 0) {
         console.warn("⚠️ No route points available");
@@ -203,7 +270,10 @@ class RouteAnalysisService {
 
       // Get obstacles near the route (keep existing buffer logic)
       const bufferMeters = 50; // 50 meter buffer on each side of route
-      const allObstacles = await this.getObstaclesInRouteArea(routePoints);
+      const allObstacles = await this.getObstaclesInRouteArea(
+        routePoints,
+        bufferMeters
+      );
 
       // Filter obstacles that are actually close to the route
       const routeObstacles = allObstacles.filter((obstacle) => {
@@ -224,11 +294,243 @@ class RouteAnalysisService {
     }
   }
 
+  /**
+   * Keep only obstacles that are active at the moment the user reaches them.
+   * Arrival is estimated from how far along the route the obstacle sits.
+   * Expired (stale, unconfirmed) reports are dropped outright.
+   */
+  private filterActiveWhenPassed(
+    allObstacles: AccessibilityObstacle[],
+    googleRoute: GoogleRoute,
+    departureTime: Date
+  ): AccessibilityObstacle[] {
+    const obstacles = allObstacles.filter(
+      (obstacle) => !isObstacleExpired(obstacle, departureTime)
+    );
+    if (obstacles.length !== allObstacles.length) {
+      console.log(
+        `⌛ ${
+          allObstacles.length - obstacles.length
+        } expired obstacle report(s) ignored`
+      );
+    }
+
+    const routePoints = this.getRoutePoints(googleRoute);
+    if (routePoints.length < 2) {
+      return obstacles.filter((obstacle) =>
+        isObstacleActiveAt(obstacle, departureTime)
+      );
+    }
+
+    const routeLength = this.calculatePolylineLength(routePoints);
+
+    const active = obstacles.filter((obstacle) => {
+      const distanceAlong = this.calculateDistanceAlongRoute(
+        obstacle.location,
+        routePoints
+      );
+      const secondsToReach =
+        routeLength > 0
+          ? (distanceAlong / routeLength) * googleRoute.duration
+          : 0;
+      const passTime = new Date(
+        departureTime.getTime() + secondsToReach * 1000
+      );
+
+      return isObstacleActiveAt(obstacle, passTime);
+    });
+
+    if (active.length !== obstacles.length) {
+      console.log(
+        `🕒 ${
+          obstacles.length - active.length
+        } time-dependent obstacle(s) inactive when passed`
+      );
+    }
+
+    return active;
+  }
+
+  /**
+   * Path over the sidewalk graph, or null when the trip is off the mapped
+   * network and the provider routes have to do. Obstacles come from the
+   * provider corridors, which run along the same streets.
+   */
+  private async findSidewalkRoute(
+    start: UserLocation,
+    end: UserLocation,
+    userProfile: UserMobilityProfile,
+    providerRoutes: SimpleRoute[],
+    departureTime: Date
+  ): Promise<SimpleRoute | null> {
+    try {
+      // Learned weights and DEM tiles feed the edge costs
+      await ahpLearningService.ensureReady();
+      await elevationService.ensureReady();
+
+      const obstacles = providerRoutes
+        .flatMap((route) => route.obstacles)
+        .filter(
+          (obstacle, index, self) =>
+            self.findIndex((o) => o.id === obstacle.id) === index
+        );
+
+      const path = pedestrianGraphRouter.findPath(
+        start,
+        end,
+        userProfile,
+        getEnhancedObstacles(obstacles),
+        departureTime
+      );
+      if (!path) return null;
+
+      console.log(
+        `🕸️ Sidewalk route: ${Math.round(path.totalDistance)}m, ${
+          path.crossings.length
+        } crossings, ${path.obstacles.length} obstacles`
+      );
+
+      return {
+        googleRoute: this.toGoogleRoute(path),
+        obstacleCount: path.obstacles.length,
+        obstacles: path.obstacles,
+        routeType: "alternative",
+      };
+    } catch (error) {
+      console.error("❌ Sidewalk graph routing failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Graph path in the provider route shape, with one step per sidewalk
+   * and per crossing for turn-by-turn guidance
+   */
+  private toGoogleRoute(path: PedestrianPath): GoogleRoute {
+    const sidewalkById = new Map(
+      pedestrianGraphRouter.getNetwork().sidewalks.map((s) => [s.id, s])
+    );
+    const steps: RouteStep[] = [];
+
+    path.legs.forEach((leg) => {
+      const sidewalk = sidewalkById.get(leg.sidewalkId);
+      steps.push({
+        startLocation: leg.coordinates[0],
+        endLocation: leg.coordinates[leg.coordinates.length - 1],
+        distance: leg.distance,
+        duration: leg.estimatedTime,
+        instructions: sidewalk
+          ? `Walk along the ${sidewalk.side} side of ${sidewalk.parentStreet}`
+          : "Continue on the sidewalk",
+        polyline: "",
+      });
+
+      const crossing = leg.crossingAtEnd;
+      if (crossing) {
+        steps.push({
+          startLocation: crossing.location,
+          endLocation: crossing.location,
+          distance: 0,
+          duration:
+            crossing.accessibility.crossingTime +
+            crossing.accessibility.waitTime,
+          instructions: CROSSING_INSTRUCTIONS[crossing.type],
+          polyline: "",
+        });
+      }
+    });
+
+    const latitudes = path.coordinates.map((point) => point.latitude);
+    const longitudes = path.coordinates.map((point) => point.longitude);
+
+    return {
+      id: SIDEWALK_GRAPH_ROUTE_ID,
+      polylineEncoded: "",
+      polyline: path.coordinates,
+      distance: path.totalDistance,
+      duration: path.totalTime,
+      steps,
+      bounds: {
+        northeast: {
+          latitude: Math.max(...latitudes),
+          longitude: Math.max(...longitudes),
+        },
+        southwest: {
+          latitude: Math.min(...latitudes),
+          longitude: Math.min(...longitudes),
+        },
+      },
+      warnings: [],
+      summary: "Mapped sidewalks",
+    };
+  }
+
+  /**
+   * Flood mode: how much of each route is flood-prone for this profile
+   */
+  private async addFloodAssessments(
+    routes: SimpleRoute[],
+    userProfile: UserMobilityProfile,
+    departureTime: Date
+  ): Promise<void> {
+    await floodZoneService.ensureReady();
+
+    routes.forEach((route, index) => {
+      route.flood = floodZoneService.assessRoute(
+        this.getRoutePoints(route.googleRoute),
+        route.obstacles,
+        userProfile.type,
+        departureTime
+      );
+
+      if (route.flood.floodedMeters > 0) {
+        console.log(
+          `🌊 Route ${index + 1}: ${route.flood.floodedMeters}m flood-prone${
+            route.flood.blocked ? " (impassable for this profile)" : ""
+          }`
+        );
+      }
+    });
+  }
+
+  /**
+   * Share of each route in direct sun, at the middle of the walk
+   */
+  private addSunExposure(routes: SimpleRoute[], departureTime: Date): void {
+    routes.forEach((route, index) => {
+      const routePoints = this.getRoutePoints(route.googleRoute);
+      if (routePoints.length < 2) return;
+
+      const midWalk = new Date(
+        departureTime.getTime() + (route.googleRoute.duration / 2) * 1000
+      );
+      const sun = getSunPosition(midWalk, routePoints[0]);
+      route.sunExposure = pedestrianGraphRouter.getRouteSunExposure(
+        routePoints,
+        sun
+      );
+
+      console.log(
+        `☀️ Route ${index + 1}: sun exposure ${Math.round(
+          route.sunExposure * 100
+        )}%`
+      );
+    });
+  }
+
+  /**
+   * Routes the user can get through; all of them if every route is blocked
+   */
+  private getPassableRoutes(routes: SimpleRoute[]): SimpleRoute[] {
+    const passable = routes.filter((route) => !route.flood?.blocked);
+    return passable.length > 0 ? passable : routes;
+  }
+
   /**
    * Select fastest route - SIMPLE!
    */
   private selectFastestRoute(routes: SimpleRoute[]): SimpleRoute {
-    const fastest = routes.reduce((prev, current) => {
+    const fastest = this.getPassableRoutes(routes).reduce((prev, current) => {
       return prev.googleRoute.duration < current.googleRoute.duration
         ? prev
         : current;
@@ -242,16 +544,33 @@ class RouteAnalysisService {
 
   /**
    * Select clearest route (fewest obstacles) - SIMPLE!
+   * In flood mode flood-prone stretches count as extra obstacles, and for
+   * shade-seeking users so does walking in direct sun.
+   * A passable sidewalk graph path always wins: its costs already weigh
+   * obstacles, crossings, slope and shade for this profile.
    */
   private selectClearestRoute(routes: SimpleRoute[]): SimpleRoute {
-    const clearest = routes.reduce((prev, current) => {
+    const passable = this.getPassableRoutes(routes);
+    const sidewalkRoute = passable.find(
+      (route) => route.googleRoute.id === SIDEWALK_GRAPH_ROUTE_ID
+    );
+    if (sidewalkRoute) {
+      return { ...sidewalkRoute, routeType: "clearest" };
+    }
+
+    const effectiveCount = (route: SimpleRoute) =>
+      route.obstacleCount +
+      (route.flood?.penalty ?? 0) +
+      (route.sunExposure ?? 0) * SUN_EXPOSURE_PENALTY;
+
+    const clearest = passable.reduce((prev, current) => {
       // If obstacle count is same, pick the faster one
-      if (prev.obstacleCount === current.obstacleCount) {
+      if (effectiveCount(prev) === effectiveCount(current)) {
         return prev.googleRoute.duration < current.googleRoute.duration
           ? prev
           : current;
       }
-      return prev.obstacleCount < current.obstacleCount ? prev : current;
+      return effectiveCount(prev) < effectiveCount(current) ? prev : current;
     });
 
     return {
@@ -324,32 +643,73 @@ class RouteAnalysisService {
     };
   }
 
+  /**
+   * Flood mode note for the route sheet, or undefined when the way is dry
+   */
+  private createFloodWarning(
+    routes: SimpleRoute[],
+    clearest: SimpleRoute,
+    userProfile: UserMobilityProfile
+  ): string | undefined {
+    const blockedCount = routes.filter((route) => route.flood?.blocked).length;
+    const flood = clearest.flood;
+
+    // Only device profiles are ever blocked (see FLOOD_ZONE_POLICY)
+    if (blockedCount === routes.length) {
+      return `Every route crosses flood water too deep for your ${userProfile.type}. Wait for the water to go down or travel with assistance.`;
+    }
+    if (flood && flood.floodedMeters > 0) {
+      return `Flood mode: the clearest route still passes ${
+        flood.floodedMeters
+      }m of flood-prone street${
+        flood.floodReportCount > 0
+          ? ` (${flood.floodReportCount} flooding report${
+              flood.floodReportCount === 1 ? "" : "s"
+            } nearby)`
+          : ""
+      }.`;
+    }
+    if (blockedCount > 0) {
+      return `Flood mode: avoiding ${blockedCount} route${
+        blockedCount === 1 ? "" : "s"
+      } through flood-prone areas.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Feed post-journey ratings back into the per-device AHP weights.
+   * predictedScore is the score we showed for the route the user took.
+   */
+  async integrateFeedbackIntoAHP(
+    feedback: RouteFeedback,
+    predictedScore?: AccessibilityScore
+  ): Promise<AHPLearningUpdate | null> {
+    if (!predictedScore) {
+      console.log(
+        `⏭️ No predicted score for route ${feedback.routeId}, skipping AHP learning`
+      );
+      return null;
+    }
+
+    return ahpLearningService.learnFromFeedback(feedback, predictedScore);
+  }
+
   // =====================================================
   // UTILITY METHODS (KEEP EXISTING - THEY WORK!)
   // =====================================================
 
   /**
-   * Get obstacles in route area
+   * Get obstacles in route area (geohash corridor query around the polyline)
    */
   private async getObstaclesInRouteArea(
-    routePoints: UserLocation[]
+    routePoints: UserLocation[],
+    bufferMeters: number
   ): Promise<AccessibilityObstacle[]> {
     try {
-      // Calculate route bounds
-      const bounds = this.calculateRouteBounds(routePoints);
-      const radiusKm = Math.max(
-        this.calculateDistance(
-          { latitude: bounds.bounds.north, longitude: bounds.bounds.west },
-          { latitude: bounds.bounds.south, longitude: bounds.bounds.east }
-        ) / 2000, // Convert to km and take half
-        1 // Minimum 1km radius
-      );
-
-      // Get obstacles from Firebase
-      return await firebaseServices.obstacle.getObstaclesInArea(
-        bounds.center.latitude,
-        bounds.center.longitude,
-        radiusKm
+      return await firebaseServices.obstacle.getObstaclesAlongRoute(
+        routePoints,
+        bufferMeters
       );
     } catch (error) {
       console.error("❌ Error getting obstacles in route area:", error);
@@ -357,6 +717,76 @@ class RouteAnalysisService {
     }
   }
 
+  /**
+   * Route geometry from a Google route (polyline, or step endpoints as fallback)
+   */
+  private getRoutePoints(googleRoute: GoogleRoute): UserLocation[] {
+    if (Array.isArray(googleRoute.polyline)) {
+      return googleRoute.polyline;
+    }
+    if (typeof googleRoute.polyline === "string") {
+      return this.decodePolylineString(googleRoute.polyline);
+    }
+
+    console.warn("⚠️ Invalid polyline format, using route bounds");
+    if (googleRoute.steps && googleRoute.steps.length > 0) {
+      return [
+        googleRoute.steps[0].startLocation,
+        googleRoute.steps[googleRoute.steps.length - 1].endLocation,
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Total length of a polyline (meters)
+   */
+  private calculatePolylineLength(routePoints: UserLocation[]): number {
+    let length = 0;
+    for (let i = 0; i < routePoints.length - 1; i++) {
+      length += this.calculateDistance(routePoints[i], routePoints[i + 1]);
+    }
+    return length;
+  }
+
+  /**
+   * Distance from the route start to the point's projection on the route (meters)
+   */
+  private calculateDistanceAlongRoute(
+    point: UserLocation,
+    routePoints: UserLocation[]
+  ): number {
+    let bestDistance = Infinity;
+    let bestAlong = 0;
+    let travelled = 0;
+
+    for (let i = 0; i < routePoints.length - 1; i++) {
+      const segmentStart = routePoints[i];
+      const segmentEnd = routePoints[i + 1];
+      const segmentLength = this.calculateDistance(segmentStart, segmentEnd);
+
+      const distanceToSegment = this.pointToLineSegmentDistance(
+        point,
+        segmentStart,
+        segmentEnd
+      );
+
+      if (distanceToSegment < bestDistance) {
+        bestDistance = distanceToSegment;
+        // Along-segment offset from the right triangle to the projection
+        const toStart = this.calculateDistance(point, segmentStart);
+        const offset = Math.sqrt(
+          Math.max(0, toStart * toStart - distanceToSegment * distanceToSegment)
+        );
+        bestAlong = travelled + Math.min(segmentLength, offset);
+      }
+
+      travelled += segmentLength;
+    }
+
+    return bestAlong;
+  }
+
   /**
    * Calculate distance from point to route
    */
@@ -446,39 +876,6 @@ class RouteAnalysisService {
     return R * c;
   }
 
-  /**
-   * Calculate route bounds
-   */
-  private calculateRouteBounds(routePoints: UserLocation[]): {
-    center: UserLocation;
-    bounds: { north: number; south: number; east: number; west: number };
-  } {
-    let minLat = routePoints[0].latitude;
-    let maxLat = routePoints[0].latitude;
-    let minLng = routePoints[0].longitude;
-    let maxLng = routePoints[0].longitude;
-
-    routePoints.forEach((p) => {
-      minLat = Math.min(minLat, p.latitude);
-      maxLat = Math.max(maxLat, p.latitude);
-      minLng = Math.min(minLng, p.longitude);
-      maxLng = Math.max(maxLng, p.longitude);
-    });
-
-    return {
-      center: {
-        latitude: (minLat + maxLat) / 2,
-        longitude: (minLng + maxLng) / 2,
-      },
-      bounds: {
-        north: maxLat,
-        south: minLat,
-        east: maxLng,
-        west: minLng,
-      },
-    };
-  }
-
   /**
    * Decode Google polyline string
    */
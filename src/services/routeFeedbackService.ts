@@ -4,6 +4,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { firebaseServices } from './firebase';
 import { routeAnalysisService } from './routeAnalysisService';
+import type { AHPLearningUpdate } from './ahpLearningService';
 import {
   RouteJourney,
   RouteFeedback,
@@ -15,6 +16,21 @@ import {
   RouteConfidence,
 } from '../types';
 
+// Real-world validation history for one route, built from submitted feedback
+interface RouteValidationRecord {
+  routeId: string;
+  validationCount: number;
+  averageRating: number; // 1-5, mean of traversability/safety/comfort
+  averagePredictionError: number; // Score points, |observed - predicted|
+  recommendRate: number; // 0-1
+  byDeviceType: Partial<Record<UserMobilityProfile["type"], number>>; // Feedback count per device
+  lastValidated: Date;
+}
+
+// Breadcrumb sampling for journey tracks (GPX export)
+const TRACK_MIN_SPACING_METERS = 10;
+const TRACK_MAX_POINTS = 2000;
+
 class RouteFeedbackService {
   private activeJourney: RouteJourney | null = null;
   private feedbackCallbacks: ((journey: RouteJourney) => void)[] = [];
@@ -49,6 +65,7 @@ class RouteFeedbackService {
       distanceFromDestination: this.calculateDistance(startLocation, destinationLocation),
       completionTriggered: false,
       feedbackSubmitted: false,
+      track: [{ ...startLocation, timestamp: new Date() }],
     };
 
     // Save journey to local storage
@@ -67,6 +84,7 @@ class RouteFeedbackService {
     }
 
     this.activeJourney.currentLocation = currentLocation;
+    this.recordTrackPoint(this.activeJourney, currentLocation);
     this.activeJourney.distanceFromDestination = this.calculateDistance(
       currentLocation, 
       this.activeJourney.destinationLocation
@@ -97,6 +115,21 @@ class RouteFeedbackService {
     return true;
   }
 
+  /**
+   * User stopped navigating before arriving; the walked track is kept
+   */
+  async abandonJourney(): Promise<void> {
+    if (!this.activeJourney || this.activeJourney.status !== "active") {
+      return;
+    }
+
+    this.activeJourney.status = "abandoned";
+    await this.saveJourneyToStorage(this.activeJourney);
+
+    console.log(`🛑 Journey abandoned: ${this.activeJourney.id}`);
+    this.activeJourney = null;
+  }
+
   /**
    * Handle journey completion
    */
@@ -188,7 +221,10 @@ class RouteFeedbackService {
       await this.saveJourneyToStorage(this.activeJourney);
       
       // Process feedback to improve future recommendations
-      await this.processFeedbackForAHPImprovement(feedback);
+      await this.processFeedbackForAHPImprovement(
+        feedback,
+        this.activeJourney.selectedRoute.accessibilityScore
+      );
       
       console.log(`📝 Feedback submitted: ${feedback.id}`);
       
@@ -282,7 +318,10 @@ class RouteFeedbackService {
   /**
    * Process feedback to improve AHP algorithm
    */
-  private async processFeedbackForAHPImprovement(feedback: RouteFeedback): Promise<void> {
+  private async processFeedbackForAHPImprovement(
+    feedback: RouteFeedback,
+    predictedScore?: AccessibilityScore
+  ): Promise<void> {
     try {
       console.log(`🔄 Processing feedback for AHP improvement:`, {
         routeType: feedback.routeType,
@@ -295,10 +334,13 @@ class RouteFeedbackService {
       });
       
       // Integrate feedback into AHP algorithm
-      await routeAnalysisService.integrateFeedbackIntoAHP(feedback);
+      const learningUpdate = await routeAnalysisService.integrateFeedbackIntoAHP(
+        feedback,
+        predictedScore
+      );
       
       // Update route confidence scores based on real-world validation
-      await this.updateRouteConfidenceFromFeedback(feedback);
+      await this.updateRouteConfidenceFromFeedback(feedback, learningUpdate);
       
       // Log learning progress
       console.log("📚 AHP Learning Update:", {
@@ -306,7 +348,9 @@ class RouteFeedbackService {
         contributionScore: feedback.confidenceContribution,
         deviceType: feedback.userProfile.type,
         experienceLevel: feedback.overallExperience,
-        wouldRecommend: feedback.wouldRecommend
+        wouldRecommend: feedback.wouldRecommend,
+        weightsAdjusted: learningUpdate?.applied ?? false,
+        newWeights: learningUpdate?.newWeights,
       });
       
     } catch (error) {
@@ -317,27 +361,79 @@ class RouteFeedbackService {
   /**
    * Update route confidence based on user feedback
    */
-  private async updateRouteConfidenceFromFeedback(feedback: RouteFeedback): Promise<void> {
-    // This would query existing routes and update their confidence scores
-    // based on the validated real-world feedback
-    
-    const confidenceUpdate = {
+  private async updateRouteConfidenceFromFeedback(
+    feedback: RouteFeedback,
+    learningUpdate: AHPLearningUpdate | null
+  ): Promise<void> {
+    const existing = await this.getRouteValidation(feedback.routeId);
+    const count = (existing?.validationCount || 0) + 1;
+    const rating = (feedback.traversabilityRating + feedback.safetyRating + feedback.comfortRating) / 3;
+    const runningMean = (previous: number, value: number) => previous + (value - previous) / count;
+
+    const deviceType = feedback.userProfile.type;
+    const byDeviceType = { ...(existing?.byDeviceType || {}) };
+    byDeviceType[deviceType] = (byDeviceType[deviceType] || 0) + 1;
+
+    const record: RouteValidationRecord = {
       routeId: feedback.routeId,
-      feedbackId: feedback.id,
-      deviceType: feedback.userProfile.type,
-      validationBoost: feedback.confidenceContribution,
+      validationCount: count,
+      averageRating: runningMean(existing?.averageRating || 0, rating),
+      averagePredictionError: learningUpdate
+        ? runningMean(existing?.averagePredictionError || 0, Math.abs(learningUpdate.predictionError))
+        : existing?.averagePredictionError || 0,
+      recommendRate: runningMean(existing?.recommendRate || 0, feedback.wouldRecommend ? 1 : 0),
+      byDeviceType,
       lastValidated: feedback.completedAt,
-      userExperience: feedback.overallExperience,
-      accuracyRating: (feedback.traversabilityRating + feedback.safetyRating + feedback.comfortRating) / 3,
     };
 
-    console.log("📈 Route confidence update:", confidenceUpdate);
-    
-    // In a real implementation, this would:
-    // 1. Find routes that match this feedback
-    // 2. Update their confidence scores
-    // 3. Adjust AHP weights based on prediction accuracy
-    // 4. Store validation data for future route calculations
+    try {
+      await AsyncStorage.setItem(`route_validation_${feedback.routeId}`, JSON.stringify(record));
+      console.log("📈 Route confidence update:", {
+        routeId: record.routeId,
+        validationCount: record.validationCount,
+        averageRating: record.averageRating.toFixed(2),
+        averagePredictionError: record.averagePredictionError.toFixed(1),
+      });
+    } catch (error) {
+      console.error("Error saving route validation:", error);
+    }
+  }
+
+  /**
+   * Get real-world validation history for a route (null = never validated)
+   */
+  async getRouteValidation(routeId: string): Promise<RouteValidationRecord | null> {
+    try {
+      const stored = await AsyncStorage.getItem(`route_validation_${routeId}`);
+      if (!stored) return null;
+
+      const record = JSON.parse(stored);
+      return { ...record, lastValidated: new Date(record.lastValidated) };
+    } catch (error) {
+      console.error("Error loading route validation:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a breadcrumb when the user has moved far enough from the last one
+   */
+  private recordTrackPoint(journey: RouteJourney, location: UserLocation): void {
+    const track = journey.track || (journey.track = []);
+    const last = track[track.length - 1];
+
+    if (last && this.calculateDistance(last, location) < TRACK_MIN_SPACING_METERS) {
+      return;
+    }
+    if (track.length >= TRACK_MAX_POINTS) {
+      return;
+    }
+
+    track.push({
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timestamp: new Date(),
+    });
   }
 
   /**
@@ -387,6 +483,31 @@ class RouteFeedbackService {
     }
   }
 
+  /**
+   * All journeys kept on this device, newest first (e.g. for GPX export)
+   */
+  async getSavedJourneys(userId?: string): Promise<RouteJourney[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const journeyKeys = keys.filter(key => key.startsWith('journey_') && (!userId || key.includes(userId)));
+
+      const journeys: RouteJourney[] = [];
+      for (const key of journeyKeys) {
+        const journeyData = await AsyncStorage.getItem(key);
+        if (journeyData) {
+          journeys.push(JSON.parse(journeyData));
+        }
+      }
+
+      return journeys.sort(
+        (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+      );
+    } catch (error) {
+      console.error("Error loading saved journeys:", error);
+      return [];
+    }
+  }
+
   /**
    * Load journey from storage (for app restart scenarios)
    */
@@ -415,4 +536,4 @@ class RouteFeedbackService {
 }
 
 export const routeFeedbackService = new RouteFeedbackService();
-export type { RouteFeedback, RouteJourney, EncounteredObstacle, DeviceSpecificFeedback };
\ No newline at end of file
+export type { RouteFeedback, RouteJourney, EncounteredObstacle, DeviceSpecificFeedback, RouteValidationRecord };
\ No newline at end of file
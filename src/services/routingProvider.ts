@@ -0,0 +1,187 @@
+// src/services/routingProvider.ts
+// Routing provider abstraction. Route analysis asks `routingService` for
+// routes; which backend answers (Google or a self-hosted OSRM/Valhalla
+// router) is a config choice.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { UserLocation } from "../types";
+import {
+  googleMapsService,
+  GoogleRoute,
+  WaypointRouteResult,
+} from "./googleMapsService";
+import { OsrmRoutingProvider } from "./osrmRoutingProvider";
+
+/**
+ * A walking router. Routes come back in the GoogleRoute shape the rest of
+ * the app already understands, whatever the backend.
+ */
+export interface RoutingProvider {
+  readonly name: string;
+  ensureReady(): Promise<void>;
+  // `alternatives` asks for several candidate routes, best first
+  getRoutes(
+    start: UserLocation,
+    end: UserLocation,
+    alternatives?: boolean
+  ): Promise<GoogleRoute[]>;
+  getRouteWithWaypoints(
+    start: UserLocation,
+    end: UserLocation,
+    waypoints: UserLocation[]
+  ): Promise<WaypointRouteResult>;
+}
+
+export type RoutingProviderType = "google" | "osrm" | "valhalla";
+
+export interface RoutingProviderConfig {
+  type: RoutingProviderType;
+  baseUrl?: string; // Required for osrm/valhalla, e.g. "http://192.168.1.10:5000"
+  fallbackToGoogle: boolean; // Use Google if the self-hosted router fails
+}
+
+const STORAGE_KEY = "@waispath:routingProvider";
+
+/**
+ * Google Directions via the existing quota-guarded service
+ */
+class GoogleRoutingProvider implements RoutingProvider {
+  readonly name = "google";
+
+  ensureReady(): Promise<void> {
+    return googleMapsService.ensureReady();
+  }
+
+  getRoutes(
+    start: UserLocation,
+    end: UserLocation,
+    alternatives: boolean = true
+  ): Promise<GoogleRoute[]> {
+    return googleMapsService.getRoutes(start, end, alternatives);
+  }
+
+  getRouteWithWaypoints(
+    start: UserLocation,
+    end: UserLocation,
+    waypoints: UserLocation[]
+  ): Promise<WaypointRouteResult> {
+    return googleMapsService.getRouteWithWaypoints(start, end, waypoints);
+  }
+}
+
+/**
+ * Active-provider facade. Defaults come from EXPO_PUBLIC_ROUTING_PROVIDER /
+ * EXPO_PUBLIC_ROUTING_URL; `setConfig` overrides them and is persisted.
+ */
+class RoutingService implements RoutingProvider {
+  private readonly google = new GoogleRoutingProvider();
+  private provider: RoutingProvider = this.google;
+  private config: RoutingProviderConfig;
+  private _ready: Promise<void>;
+
+  constructor() {
+    const envType = process.env.EXPO_PUBLIC_ROUTING_PROVIDER;
+    this.config = {
+      type: envType === "osrm" || envType === "valhalla" ? envType : "google",
+      baseUrl: process.env.EXPO_PUBLIC_ROUTING_URL || undefined,
+      fallbackToGoogle: true,
+    };
+    this.applyConfig();
+    this._ready = this.loadConfig();
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  async ensureReady(): Promise<void> {
+    await this._ready;
+    await this.provider.ensureReady();
+  }
+
+  async getRoutes(
+    start: UserLocation,
+    end: UserLocation,
+    alternatives: boolean = true
+  ): Promise<GoogleRoute[]> {
+    await this._ready;
+    return this.withFallback("getRoutes", (provider) =>
+      provider.getRoutes(start, end, alternatives)
+    );
+  }
+
+  async getRouteWithWaypoints(
+    start: UserLocation,
+    end: UserLocation,
+    waypoints: UserLocation[]
+  ): Promise<WaypointRouteResult> {
+    await this._ready;
+    return this.withFallback("getRouteWithWaypoints", (provider) =>
+      provider.getRouteWithWaypoints(start, end, waypoints)
+    );
+  }
+
+  getConfig(): RoutingProviderConfig {
+    return { ...this.config };
+  }
+
+  async setConfig(config: Partial<RoutingProviderConfig>): Promise<void> {
+    await this._ready;
+    this.config = { ...this.config, ...config };
+    this.applyConfig();
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.error("❌ Failed to save routing provider config:", error);
+    }
+  }
+
+  private async loadConfig(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        this.config = { ...this.config, ...JSON.parse(stored) };
+        this.applyConfig();
+      }
+    } catch (error) {
+      console.warn("⚠️ Could not load routing provider config:", error);
+    }
+  }
+
+  private applyConfig(): void {
+    const { type, baseUrl } = this.config;
+
+    if (type === "google") {
+      this.provider = this.google;
+    } else if (!baseUrl) {
+      console.warn(`⚠️ No URL configured for ${type} router, using Google`);
+      this.provider = this.google;
+    } else {
+      this.provider = new OsrmRoutingProvider({ baseUrl, flavor: type });
+    }
+
+    console.log(`🧭 Routing provider: ${this.provider.name}`);
+  }
+
+  private async withFallback<T>(
+    operation: string,
+    call: (provider: RoutingProvider) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await call(this.provider);
+    } catch (error) {
+      if (this.provider === this.google || !this.config.fallbackToGoogle) {
+        throw error;
+      }
+      console.warn(
+        `⚠️ ${this.provider.name} ${operation} failed, falling back to Google:`,
+        error
+      );
+      return call(this.google);
+    }
+  }
+}
+
+export const routingService = new RoutingService();
+export { RoutingService, GoogleRoutingProvider };
@@ -2,8 +2,19 @@
 // Revolutionary sidewalk-aware route analysis for PWD navigation
 
 import { ahpCalculator, AHPUtils } from "../utils/ahp";
-import { googleMapsService, GoogleRoute } from "./googleMapsService";
+import {
+  getCrossingTime,
+  isAcceptableDetourCrossing,
+  scoreCrossing,
+} from "../utils/crossingScore";
+import { SunPosition, getSunPosition } from "../utils/sunComfort";
+import { getCardinalDirection } from "../utils/navigationUtils";
+import { GoogleRoute } from "./googleMapsService";
+import { routingService } from "./routingProvider";
 import { firebaseServices } from "./firebase";
+import { pedestrianGraphRouter } from "./pedestrianGraphRouter";
+import { ahpLearningService } from "./ahpLearningService";
+import { elevationService } from "./elevationService";
 import {
   UserMobilityProfile,
   UserLocation,
@@ -17,6 +28,7 @@ import {
   CrossingPoint,
   EnhancedAccessibilityObstacle,
   ProcessedSidewalkObstacle,
+  PedestrianPath,
 } from "../types/sidewalkTypes";
 import {
   MANUAL_OBSTACLE_MAPPING,
@@ -27,17 +39,24 @@ import {
 class SidewalkRouteAnalysisService {
   /**
    * MAIN METHOD: Analyze routes with sidewalk-level intelligence
+   * departureTime: planned start (default: now), sets the sun for shade
    */
   async analyzeSidewalkRoutes(
     start: UserLocation,
     end: UserLocation,
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    departureTime: Date = new Date()
   ): Promise<SidewalkRouteComparison> {
     try {
       console.log("🚶‍♂️ Starting revolutionary sidewalk-aware route analysis...");
 
-      // Step 1: Get base route from Google Maps
-      const googleRoutes = await googleMapsService.getRoutes(start, end, false);
+      // Learned per-device weights and imported DEM tiles must be loaded
+      // before anything is scored
+      await ahpLearningService.ensureReady();
+      await elevationService.ensureReady();
+
+      // Step 1: Get base route from the routing provider
+      const googleRoutes = await routingService.getRoutes(start, end, false);
       if (googleRoutes.length === 0) {
         throw new Error("No routes found between these locations");
       }
@@ -70,7 +89,8 @@ class SidewalkRouteAnalysisService {
       const optimizedRoute = await this.generateOptimizedSidewalkRoute(
         baseRoute,
         enhancedObstacles,
-        userProfile
+        userProfile,
+        departureTime
       );
 
       // Step 6: Compare routes and generate insights
@@ -128,24 +148,15 @@ class SidewalkRouteAnalysisService {
 
     // Ensure all obstacles have sidewalkInfo
     const processedObstacles = this.ensureSidewalkInfo(obstacles);
+    const { start, end } = this.getRouteEndpoints(googleRoute);
 
     // Create single segment (simplified for proof of concept)
     const segments: SidewalkRouteSegment[] = [
       {
         id: "standard_segment_1",
         sidewalkId: "current_side", // Represents staying on current sidewalk
-        startPoint: {
-          latitude: googleRoute.steps[0].startLocation.latitude,
-          longitude: googleRoute.steps[0].startLocation.longitude,
-        },
-        endPoint: {
-          latitude:
-            googleRoute.steps[googleRoute.steps.length - 1].endLocation
-              .latitude,
-          longitude:
-            googleRoute.steps[googleRoute.steps.length - 1].endLocation
-              .longitude,
-        },
+        startPoint: { latitude: start.latitude, longitude: start.longitude },
+        endPoint: { latitude: end.latitude, longitude: end.longitude },
         distance: googleRoute.distance,
         estimatedTime: googleRoute.duration,
         obstacles: processedObstacles,
@@ -175,20 +186,46 @@ class SidewalkRouteAnalysisService {
   private async generateOptimizedSidewalkRoute(
     googleRoute: GoogleRoute,
     obstacles: EnhancedAccessibilityObstacle[],
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    departureTime: Date
   ): Promise<SidewalkRoute> {
+    // Prefer a real path over the sidewalk graph when the trip is covered
+    const { start, end } = this.getRouteEndpoints(googleRoute);
+    const sun = getSunPosition(departureTime, start);
+    const graphPath = pedestrianGraphRouter.findPath(
+      start,
+      end,
+      userProfile,
+      obstacles,
+      departureTime
+    );
+
+    if (graphPath) {
+      return this.buildRouteFromGraphPath(
+        graphPath,
+        obstacles,
+        userProfile,
+        sun
+      );
+    }
+
+    // FALLBACK: No sidewalk coverage - estimate from the Google route
     // CORE LOGIC: Filter obstacles based on sidewalk optimization
-    const optimizedObstacles = this.filterObstaclesForOptimizedRoute(
+    const avoidableObstacles = this.filterObstaclesForOptimizedRoute(
       obstacles,
       userProfile
     );
 
-    // Find strategic crossing points
-    const strategicCrossings = this.findStrategicCrossings(
+    // Find a strategic crossing point; without one nothing is avoided
+    const strategicCrossing = this.findStrategicCrossing(
       obstacles,
-      optimizedObstacles,
+      avoidableObstacles,
       userProfile
     );
+    const strategicCrossings = strategicCrossing ? [strategicCrossing] : [];
+    const optimizedObstacles = strategicCrossing
+      ? avoidableObstacles
+      : obstacles;
 
     // Calculate improved accessibility score
     const optimizedScore = this.calculateRouteAccessibilityScore(
@@ -200,27 +237,20 @@ class SidewalkRouteAnalysisService {
     const processedOptimizedObstacles =
       this.ensureSidewalkInfo(optimizedObstacles);
 
-    // Add crossing time penalty
-    const crossingTimePenalty = strategicCrossings.length * 30; // 30 seconds per crossing
-    const totalTimeWithCrossings = googleRoute.duration + crossingTimePenalty;
+    // Add the time spent crossing and waiting for signals
+    const crossingTime = strategicCrossings.reduce(
+      (sum, crossing) => sum + getCrossingTime(crossing),
+      0
+    );
+    const totalTimeWithCrossings = googleRoute.duration + crossingTime;
 
     // Create segments with crossing information
     const segments: SidewalkRouteSegment[] = [
       {
         id: "optimized_segment_1",
         sidewalkId: "optimized_path", // Represents sidewalk-optimized path
-        startPoint: {
-          latitude: googleRoute.steps[0].startLocation.latitude,
-          longitude: googleRoute.steps[0].startLocation.longitude,
-        },
-        endPoint: {
-          latitude:
-            googleRoute.steps[googleRoute.steps.length - 1].endLocation
-              .latitude,
-          longitude:
-            googleRoute.steps[googleRoute.steps.length - 1].endLocation
-              .longitude,
-        },
+        startPoint: { latitude: start.latitude, longitude: start.longitude },
+        endPoint: { latitude: end.latitude, longitude: end.longitude },
         distance: googleRoute.distance * 1.05, // 5% longer due to strategic path
         estimatedTime: totalTimeWithCrossings,
         obstacles: processedOptimizedObstacles,
@@ -238,7 +268,8 @@ class SidewalkRouteAnalysisService {
       obstacles,
       optimizedObstacles,
       strategicCrossings,
-      userProfile
+      userProfile,
+      sun
     );
 
     return {
@@ -253,6 +284,51 @@ class SidewalkRouteAnalysisService {
     };
   }
 
+  /**
+   * Convert a sidewalk graph path into a SidewalkRoute
+   */
+  private buildRouteFromGraphPath(
+    path: PedestrianPath,
+    obstacles: EnhancedAccessibilityObstacle[],
+    userProfile: UserMobilityProfile,
+    sun: SunPosition
+  ): SidewalkRoute {
+    const segments: SidewalkRouteSegment[] = path.legs.map((leg, index) => ({
+      id: `optimized_segment_${index + 1}`,
+      sidewalkId: leg.sidewalkId,
+      startPoint: leg.coordinates[0],
+      endPoint: leg.coordinates[leg.coordinates.length - 1],
+      distance: leg.distance,
+      estimatedTime: leg.estimatedTime,
+      obstacles: this.ensureSidewalkInfo(leg.obstacles),
+      accessibilityScore: leg.accessibilityScore,
+      crossingAtEnd: leg.crossingAtEnd,
+      notes: `${leg.obstacles.length} obstacles on ${leg.sidewalkId}`,
+    }));
+
+    const routeReasons = this.generateRouteReasons(
+      obstacles,
+      path.obstacles,
+      path.crossings,
+      userProfile,
+      sun
+    );
+
+    return {
+      id: "optimized_route",
+      type: "optimized",
+      segments,
+      totalDistance: path.totalDistance,
+      totalTime: path.totalTime,
+      crossingPoints: path.crossings,
+      overallScore: this.calculateRouteAccessibilityScore(
+        path.obstacles,
+        userProfile
+      ),
+      routeReasons,
+    };
+  }
+
   /**
    * Filter obstacles for optimized route based on user profile and sidewalk intelligence
    */
@@ -304,27 +380,39 @@ class SidewalkRouteAnalysisService {
   }
 
   /**
-   * Find strategic crossing points to avoid obstacles
+   * Find a strategic crossing point to avoid obstacles, or null when none
+   * is needed or none is easy enough for this profile
    */
-  private findStrategicCrossings(
+  private findStrategicCrossing(
     allObstacles: EnhancedAccessibilityObstacle[],
     optimizedObstacles: EnhancedAccessibilityObstacle[],
     userProfile: UserMobilityProfile
-  ): CrossingPoint[] {
+  ): CrossingPoint | null {
     const avoidsObstacles = allObstacles.length - optimizedObstacles.length;
 
     if (avoidsObstacles === 0) {
-      return []; // No crossings needed
+      return null; // No crossings needed
     }
 
-    // Find appropriate crossing point for this user type
-    const suitableCrossings = TEST_CROSSING_POINTS.filter((crossing) => {
-      const userAccessibility = crossing.userTypes[userProfile.type];
-      return userAccessibility === "accessible" || userAccessibility === "easy";
-    });
+    // Score every crossing for this profile, dropping ones too hard for it
+    const suitableCrossings = TEST_CROSSING_POINTS.map((crossing) =>
+      scoreCrossing(crossing, userProfile)
+    )
+      .filter((assessment) =>
+        isAcceptableDetourCrossing(assessment, userProfile)
+      )
+      .sort((a, b) => a.penalty - b.penalty || a.time - b.time);
 
-    // Return first suitable crossing (simplified for proof of concept)
-    return suitableCrossings.slice(0, 1);
+    if (suitableCrossings.length < TEST_CROSSING_POINTS.length) {
+      console.log(
+        `🚦 Excluded ${
+          TEST_CROSSING_POINTS.length - suitableCrossings.length
+        } crossings too hard for ${userProfile.type} user`
+      );
+    }
+
+    // Return the easiest crossing (simplified for proof of concept)
+    return suitableCrossings[0]?.crossing || null;
   }
 
   /**
@@ -334,7 +422,8 @@ class SidewalkRouteAnalysisService {
     allObstacles: EnhancedAccessibilityObstacle[],
     optimizedObstacles: EnhancedAccessibilityObstacle[],
     crossings: CrossingPoint[],
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    sun: SunPosition
   ): string[] {
     const reasons: string[] = [];
     const avoided = allObstacles.length - optimizedObstacles.length;
@@ -345,14 +434,19 @@ class SidewalkRouteAnalysisService {
       );
     }
 
-    if (crossings.length > 0) {
+    crossings.forEach((crossing) => {
+      const assessment = scoreCrossing(crossing, userProfile);
+      const concerns =
+        assessment.concerns.length > 0
+          ? ` (${assessment.concerns.join(", ").toLowerCase()})`
+          : "";
       reasons.push(
-        `Strategic crossing at ${crossings[0].type.replace(
+        `Strategic crossing at ${crossing.type.replace(
           "_",
           " "
-        )} for better accessibility`
+        )}: about ${Math.round(assessment.time)}s incl. signal wait${concerns}`
       );
-    }
+    });
 
     // User-specific reasons
     if (userProfile.type === "wheelchair") {
@@ -366,8 +460,17 @@ class SidewalkRouteAnalysisService {
       }
     }
 
-    if (userProfile.preferShade) {
-      reasons.push("Prioritized shaded sidewalk sections");
+    if (userProfile.preferShade && sun.elevation > 0) {
+      // Near noon buildings cast almost no shade at Manila's latitude
+      reasons.push(
+        sun.elevation >= 60
+          ? `High sun (${Math.round(
+              sun.elevation
+            )}°): favored covered sidewalks`
+          : `Favored sidewalks in building shade (sun ${Math.round(
+              sun.elevation
+            )}° high in the ${getCardinalDirection(sun.azimuth)})`
+      );
     }
 
     return reasons.length > 0 ? reasons : ["Optimized for your mobility needs"];
@@ -384,9 +487,18 @@ class SidewalkRouteAnalysisService {
     const timeDifference = optimizedRoute.totalTime - standardRoute.totalTime;
     const accessibilityImprovement =
       optimizedRoute.overallScore.overall - standardRoute.overallScore.overall;
+    const countObstacles = (route: SidewalkRoute) =>
+      route.segments.reduce((sum, s) => sum + s.obstacles.length, 0);
     const obstacleReduction =
-      standardRoute.segments[0].obstacles.length -
-      optimizedRoute.segments[0].obstacles.length;
+      countObstacles(standardRoute) - countObstacles(optimizedRoute);
+    const crossingTime = optimizedRoute.crossingPoints.reduce(
+      (sum, crossing) => sum + getCrossingTime(crossing),
+      0
+    );
+    const crossingNote =
+      crossingTime > 0
+        ? `, ${Math.round(crossingTime)}s of it at crossings`
+        : "";
 
     // Generate recommendation based on improvement vs time cost
     let recommendation: string;
@@ -396,7 +508,7 @@ class SidewalkRouteAnalysisService {
     } else if (accessibilityImprovement >= 10 && timeDifference <= 60) {
       recommendation = `✅ Recommended. Better accessibility with minimal extra time (${Math.round(
         timeDifference
-      )}s).`;
+      )}s${crossingNote}).`;
     } else if (accessibilityImprovement > 0) {
       recommendation = `💡 Consider optimized route. ${accessibilityImprovement.toFixed(
         0
@@ -408,6 +520,7 @@ class SidewalkRouteAnalysisService {
     return {
       timeDifference,
       crossingCount: optimizedRoute.crossingPoints.length,
+      crossingTime,
       accessibilityImprovement,
       obstacleReduction,
       recommendation,
@@ -421,26 +534,16 @@ class SidewalkRouteAnalysisService {
     googleRoute: GoogleRoute
   ): Promise<AccessibilityObstacle[]> {
     try {
-      const routePoints = this.sampleRoutePoints(googleRoute, 3);
-      const allObstacles: AccessibilityObstacle[] = [];
-
-      for (const point of routePoints) {
-        try {
-          const obstacles = await firebaseServices.obstacle.getObstaclesInArea(
-            point.latitude,
-            point.longitude,
-            0.3 // 300m radius
-          );
-          allObstacles.push(...obstacles);
-        } catch (error) {
-          console.warn("⚠️ Could not fetch obstacles for route point:", error);
-        }
-      }
-
-      // Remove duplicates
-      return allObstacles.filter(
-        (obstacle, index, self) =>
-          self.findIndex((o) => o.id === obstacle.id) === index
+      // Prefer the full polyline; fall back to sampled step points
+      const routePoints =
+        googleRoute.polyline.length > 0
+          ? googleRoute.polyline
+          : this.sampleRoutePoints(googleRoute, 3);
+
+      // Wide enough to reach both sidewalks of the street
+      return await firebaseServices.obstacle.getObstaclesAlongRoute(
+        routePoints,
+        100
       );
     } catch (error) {
       console.warn("⚠️ Could not fetch obstacles for route:", error);
@@ -448,6 +551,30 @@ class SidewalkRouteAnalysisService {
     }
   }
 
+  /**
+   * First and last point of the route. Some provider routes come without
+   * steps, so the overview polyline is the fallback.
+   */
+  private getRouteEndpoints(googleRoute: GoogleRoute): {
+    start: UserLocation;
+    end: UserLocation;
+  } {
+    const steps = googleRoute.steps || [];
+    if (steps.length > 0) {
+      return {
+        start: steps[0].startLocation,
+        end: steps[steps.length - 1].endLocation,
+      };
+    }
+
+    const polyline = googleRoute.polyline || [];
+    if (polyline.length > 0) {
+      return { start: polyline[0], end: polyline[polyline.length - 1] };
+    }
+
+    throw new Error("Route has no steps or polyline");
+  }
+
   /**
    * Sample points along the route for obstacle detection
    */
@@ -505,7 +632,6 @@ class SidewalkRouteAnalysisService {
         reportedAt: obstacle.reportedAt,
         upvotes: obstacle.upvotes || 0,
         downvotes: obstacle.downvotes || 0,
-        photoBase64: obstacle.photoBase64,
         reportedBy: obstacle.reportedBy,
         verified: obstacle.verified,
       }));
@@ -15,7 +15,9 @@ interface TTSSettings {
 }
 
 // Queue item interface for TypeScript
-interface QueueItem {
+// Obstacle warnings and turn-by-turn maneuvers share one priority queue
+interface ObstacleQueueItem {
+  kind: "obstacle";
   obstacle: AccessibilityObstacle;
   distance: number;
   userProfile: UserMobilityProfile;
@@ -23,6 +25,19 @@ interface QueueItem {
   queuedAt: number; // Timestamp when added to queue
 }
 
+interface ManeuverQueueItem {
+  kind: "maneuver";
+  key: string; // e.g. "step_3_prepare"; one queued entry per key
+  text: string;
+  distance: number;
+  priority: number;
+  queuedAt: number;
+}
+
+type QueueItem = ObstacleQueueItem | ManeuverQueueItem;
+
+type ManeuverUrgency = "prepare" | "now";
+
 // 🔥 NEW: Track multiple obstacles with timestamps and locations
 interface AnnouncedObstacle {
   obstacleId: string;
@@ -47,6 +62,7 @@ class TextToSpeechService {
   private readonly OBSTACLE_COOLDOWN_TIME = 10000; // 10 seconds between same obstacle (FIXED from 20000)
   private readonly DISTANCE_MOVEMENT_THRESHOLD = 15; // 15 meters movement resets announcements
   private readonly MAX_TRACKED_OBSTACLES = 50; // Prevent memory leaks
+  private readonly MANEUVER_STALE_TIME = 8000; // Distance-based wording goes wrong fast
 
   // TTS Queue system
   private announcementQueue: QueueItem[] = [];
@@ -129,7 +145,7 @@ class TextToSpeechService {
 
       // 🔥 IMPROVED: Check if already in queue to prevent queue duplicates
       const alreadyQueued = this.announcementQueue.some(
-        (item) => item.obstacle.id === obstacle.id
+        (item) => item.kind === "obstacle" && item.obstacle.id === obstacle.id
       );
 
       if (alreadyQueued) {
@@ -142,6 +158,7 @@ class TextToSpeechService {
 
       // Add to queue
       this.announcementQueue.push({
+        kind: "obstacle",
         obstacle,
         distance,
         userProfile,
@@ -149,11 +166,7 @@ class TextToSpeechService {
         queuedAt: Date.now(),
       });
 
-      // 🔥 IMPROVED: Sort queue by priority AND distance
-      this.announcementQueue.sort((a, b) => {
-        if (a.priority !== b.priority) return a.priority - b.priority;
-        return a.distance - b.distance; // Closer obstacles first within same priority
-      });
+      this.sortQueue();
 
       console.log(
         `🔊 TTS: Added ${obstacle.type} at ${distance}m to queue (priority ${priority})`
@@ -166,6 +179,64 @@ class TextToSpeechService {
     }
   }
 
+  /**
+   * Queue a turn-by-turn maneuver. "now" outranks routine obstacle warnings;
+   * only imminent or blocking obstacles (priority 1) can interrupt it.
+   */
+  announceManeuver(
+    key: string,
+    text: string,
+    distance: number,
+    urgency: ManeuverUrgency
+  ): void {
+    if (!this.settings.enabled) return;
+
+    const priority = urgency === "now" ? 2 : 3;
+    const existing = this.announcementQueue.find(
+      (item): item is ManeuverQueueItem =>
+        item.kind === "maneuver" && item.key === key
+    );
+
+    if (existing) {
+      existing.text = text;
+      existing.distance = distance;
+      existing.queuedAt = Date.now();
+    } else {
+      this.announcementQueue.push({
+        kind: "maneuver",
+        key,
+        text,
+        distance,
+        priority,
+        queuedAt: Date.now(),
+      });
+    }
+
+    this.sortQueue();
+    console.log(`🧭 TTS: Queued maneuver "${text}" (priority ${priority})`);
+    this.processAnnouncementQueue();
+  }
+
+  /**
+   * Drop queued maneuvers (route changed or navigation stopped), optionally
+   * only those whose key starts with `keyPrefix`
+   */
+  clearManeuvers(keyPrefix?: string): void {
+    this.announcementQueue = this.announcementQueue.filter(
+      (item) =>
+        item.kind !== "maneuver" ||
+        (keyPrefix !== undefined && !item.key.startsWith(keyPrefix))
+    );
+  }
+
+  // Priority first, then the closest announcement within a priority
+  private sortQueue(): void {
+    this.announcementQueue.sort((a, b) => {
+      if (a.priority !== b.priority) return a.priority - b.priority;
+      return a.distance - b.distance;
+    });
+  }
+
   /**
    * 🔥 NEW: Improved duplicate detection with individual obstacle tracking
    */
@@ -230,13 +301,12 @@ class TextToSpeechService {
     newPriority: number,
     newDistance: number
   ): void {
-    const existingIndex = this.announcementQueue.findIndex(
-      (item) => item.obstacle.id === obstacleId
+    const existingItem = this.announcementQueue.find(
+      (item): item is ObstacleQueueItem =>
+        item.kind === "obstacle" && item.obstacle.id === obstacleId
     );
 
-    if (existingIndex !== -1) {
-      const existingItem = this.announcementQueue[existingIndex];
-
+    if (existingItem) {
       // Update if new priority is higher (lower number) or distance is closer
       if (
         newPriority < existingItem.priority ||
@@ -246,10 +316,7 @@ class TextToSpeechService {
         existingItem.distance = newDistance;
 
         // Re-sort queue
-        this.announcementQueue.sort((a, b) => {
-          if (a.priority !== b.priority) return a.priority - b.priority;
-          return a.distance - b.distance;
-        });
+        this.sortQueue();
 
         console.log(
           `🔊 TTS: Updated queue priority for ${existingItem.obstacle.type} to ${newPriority}`
@@ -278,7 +345,9 @@ class TextToSpeechService {
       // If currently speaking and next item is urgent, interrupt
       if (this.isSpeaking && nextItem.priority === 1) {
         console.log(
-          `🚨 URGENT: Interrupting TTS for ${nextItem.obstacle.type} at ${nextItem.distance}m`
+          `🚨 URGENT: Interrupting TTS for ${this.describeQueueItem(
+            nextItem
+          )} at ${nextItem.distance}m`
         );
         this.stopSpeaking();
         await new Promise((resolve) => setTimeout(resolve, 200));
@@ -294,28 +363,35 @@ class TextToSpeechService {
       try {
         // 🔥 IMPROVED: Check if item is still relevant (not too old)
         const itemAge = Date.now() - item.queuedAt;
-        if (itemAge > 30000) {
-          // 30 seconds old
+        const maxAge =
+          item.kind === "maneuver" ? this.MANEUVER_STALE_TIME : 30000;
+        if (itemAge > maxAge) {
           console.log(
-            `🔊 TTS: Skipping stale queue item for ${item.obstacle.type} (${itemAge}ms old)`
+            `🔊 TTS: Skipping stale queue item for ${this.describeQueueItem(
+              item
+            )} (${itemAge}ms old)`
           );
           continue;
         }
 
         // Generate and speak announcement
-        const announcement = this.generateSimplifiedAnnouncement(
-          item.obstacle,
-          item.distance
-        );
+        const announcement =
+          item.kind === "obstacle"
+            ? this.generateSimplifiedAnnouncement(item.obstacle, item.distance)
+            : item.text;
 
         console.log(`🔊 TTS: Generated announcement: "${announcement}"`);
         await this.speak(announcement);
 
         // 🔥 IMPROVED: Track announcement with location and distance
-        this.trackAnnouncedObstacle(item.obstacle, item.distance);
+        if (item.kind === "obstacle") {
+          this.trackAnnouncedObstacle(item.obstacle, item.distance);
+        }
 
         console.log(
-          `🔊 TTS: Successfully announced ${item.obstacle.type} at ${item.distance}m`
+          `🔊 TTS: Successfully announced ${this.describeQueueItem(item)} at ${
+            item.distance
+          }m`
         );
 
         // Small delay between announcements to prevent rushing
@@ -323,7 +399,7 @@ class TextToSpeechService {
           await new Promise((resolve) => setTimeout(resolve, 500));
         }
       } catch (error) {
-        console.error("🔊 TTS: Failed to announce queued obstacle:", error);
+        console.error("🔊 TTS: Failed to announce queued item:", error);
         // Continue with next item in queue
       }
     }
@@ -332,6 +408,12 @@ class TextToSpeechService {
     console.log("🔊 TTS: Queue processing completed");
   }
 
+  private describeQueueItem(item: QueueItem): string {
+    return item.kind === "obstacle"
+      ? item.obstacle.type
+      : `maneuver ${item.key}`;
+  }
+
   /**
    * 🔥 NEW: Track announced obstacle with improved data structure
    */
@@ -0,0 +1,500 @@
+// src/services/tripPlanningService.ts
+// Multi-stop trips that respect UserMobilityProfile.maxWalkingDistance
+// Each stop-to-stop leg is routed normally, then split at rest points
+// (shaded POIs, covered sidewalks, benches) so no leg exceeds the limit
+
+import { routeAnalysisService } from "./routeAnalysisService";
+import { offlinePackService } from "./offlinePackService";
+import { pedestrianGraphRouter } from "./pedestrianGraphRouter";
+import { SAMPLE_POIS } from "../constants/navigationConstants";
+import {
+  AccessibilityObstacle,
+  POIType,
+  PointOfInterest,
+  RestPoint,
+  TripLeg,
+  TripPlan,
+  TripStop,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import { calculateDistance } from "../utils/mapUtils";
+
+// Route geometry as the UI already holds it (see useRouteCalculation)
+export interface TripRouteInput {
+  polyline: UserLocation[];
+  distance: number; // meters
+  duration: number; // seconds
+  obstacles: AccessibilityObstacle[];
+}
+
+export interface TripPlanOptions {
+  routePreference: "fastest" | "clearest";
+  departureTime?: Date;
+  firstLegRoute?: TripRouteInput; // Already computed start -> first stop
+  floodMode?: boolean; // Avoid flood-prone legs, as for single routes
+}
+
+// Fallback when the profile has no maxWalkingDistance (same as profile defaults)
+const DEFAULT_MAX_WALKING_DISTANCE: Record<
+  UserMobilityProfile["type"],
+  number
+> = {
+  wheelchair: 800,
+  walker: 400,
+  cane: 600,
+  crutches: 300,
+  none: 1000,
+};
+
+// Indoor or tree-covered places that are comfortable to rest in
+const SHADED_POI_TYPES: POIType[] = [
+  "government",
+  "shopping",
+  "hospital",
+  "transport",
+  "park",
+];
+
+class TripPlanningService {
+  private readonly REST_SEARCH_RADIUS = 75; // meters from the route
+  private readonly MIN_LEG_FRACTION = 0.6; // Don't stop before 60% of the limit
+  private readonly REST_DURATION = 5 * 60; // seconds assumed per rest stop
+
+  private benches: RestPoint[] = [];
+  private extraRestPoints: PointOfInterest[] = [];
+
+  /**
+   * Plan an ordered trip through all stops, splitting long legs at rest points
+   */
+  async planTrip(
+    start: UserLocation,
+    stops: TripStop[],
+    userProfile: UserMobilityProfile,
+    options: TripPlanOptions
+  ): Promise<TripPlan> {
+    if (stops.length === 0) {
+      throw new Error("A trip needs at least one stop");
+    }
+
+    const maxLegDistance = this.getMaxLegDistance(userProfile);
+    const restCandidates = this.getRestCandidates();
+    const departureTime = options.departureTime || new Date();
+
+    console.log(
+      `🧭 Planning trip with ${stops.length} stop(s), max ${maxLegDistance}m per leg`
+    );
+
+    const legs: TripLeg[] = [];
+    let from = start;
+    let elapsedSeconds = 0;
+
+    for (let i = 0; i < stops.length; i++) {
+      const stop = stops[i];
+      const legDeparture = new Date(
+        departureTime.getTime() + elapsedSeconds * 1000
+      );
+
+      const route =
+        i === 0 && options.firstLegRoute
+          ? options.firstLegRoute
+          : await this.routeBetween(
+              from,
+              stop.location,
+              userProfile,
+              options.routePreference,
+              legDeparture,
+              options.floodMode
+            );
+
+      const stopLegs = this.splitAtRestPoints(
+        route,
+        from,
+        stop,
+        maxLegDistance,
+        restCandidates
+      );
+
+      for (const leg of stopLegs) {
+        legs.push({ ...leg, index: legs.length, id: `leg_${legs.length}` });
+        elapsedSeconds +=
+          leg.duration + (leg.to.kind === "rest" ? this.REST_DURATION : 0);
+      }
+
+      from = stop.location;
+    }
+
+    const restStopCount = legs.filter((leg) => leg.to.kind === "rest").length;
+    const plan: TripPlan = {
+      id: `trip_${Date.now()}`,
+      stops,
+      legs,
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      totalDuration: elapsedSeconds,
+      restStopCount,
+      maxLegDistance,
+      createdAt: new Date(),
+    };
+
+    console.log(
+      `✅ Trip planned: ${
+        legs.length
+      } legs, ${restStopCount} rest stop(s), ${Math.round(plan.totalDistance)}m`
+    );
+    return plan;
+  }
+
+  /**
+   * Split one stop-to-stop route into legs no longer than maxLegDistance.
+   * Prefers the farthest rest point near the route once 60% of the limit is
+   * walked; with none in reach the user rests in place at the limit.
+   */
+  splitAtRestPoints(
+    route: TripRouteInput,
+    from: UserLocation,
+    stop: TripStop,
+    maxLegDistance: number,
+    restCandidates: RestPoint[] = this.getRestCandidates()
+  ): TripLeg[] {
+    const cumulative = this.cumulativeDistances(route.polyline);
+    const routeLength = cumulative[cumulative.length - 1] || 0;
+
+    // Google's distance and our polyline length differ slightly; scale to it
+    const scale = routeLength > 0 ? route.distance / routeLength : 1;
+    const secondsPerMeter =
+      route.distance > 0 ? route.duration / route.distance : 0;
+
+    const nearby = restCandidates
+      .map((point) => ({
+        point,
+        ...this.projectOntoRoute(point.location, route.polyline, cumulative),
+      }))
+      .filter((entry) => entry.offset <= this.REST_SEARCH_RADIUS)
+      .sort((a, b) => a.along - b.along);
+
+    const obstaclePositions = route.obstacles.map((obstacle) => ({
+      obstacle,
+      along: this.projectOntoRoute(
+        obstacle.location,
+        route.polyline,
+        cumulative
+      ).along,
+    }));
+
+    const legs: TripLeg[] = [];
+    let legStart = 0;
+    const limit = maxLegDistance / scale; // In polyline meters
+
+    while (routeLength - legStart > limit) {
+      const windowStart = legStart + limit * this.MIN_LEG_FRACTION;
+      const windowEnd = legStart + limit;
+      const candidate = nearby
+        .filter(
+          (entry) => entry.along >= windowStart && entry.along <= windowEnd
+        )
+        .pop();
+
+      const legEnd = candidate ? candidate.along : windowEnd;
+      const endPoint = this.pointAt(route.polyline, cumulative, legEnd);
+      const restPoint: RestPoint = candidate
+        ? candidate.point
+        : {
+            id: `rest_in_place_${legs.length}`,
+            name: "Rest in place",
+            location: endPoint,
+            kind: "rest_in_place",
+          };
+
+      legs.push(
+        this.buildLeg(
+          route.polyline,
+          cumulative,
+          legStart,
+          legEnd,
+          { name: restPoint.name, location: endPoint, kind: "rest" },
+          scale,
+          secondsPerMeter,
+          obstaclePositions,
+          restPoint
+        )
+      );
+      legStart = legEnd;
+    }
+
+    legs.push(
+      this.buildLeg(
+        route.polyline,
+        cumulative,
+        legStart,
+        routeLength,
+        { name: stop.name, location: stop.location, kind: "destination" },
+        scale,
+        secondsPerMeter,
+        obstaclePositions
+      )
+    );
+
+    if (legs.length > 1) {
+      console.log(
+        `🪑 Split ${Math.round(route.distance)}m to ${stop.name} into ${
+          legs.length
+        } legs`
+      );
+    }
+
+    // First leg starts where the user is, not at the snapped route start
+    legs[0].from = from;
+    return legs;
+  }
+
+  /**
+   * Longest stretch this user should walk without a rest (meters)
+   */
+  getMaxLegDistance(userProfile: UserMobilityProfile): number {
+    if (userProfile.maxWalkingDistance && userProfile.maxWalkingDistance > 0) {
+      return userProfile.maxWalkingDistance;
+    }
+    return DEFAULT_MAX_WALKING_DISTANCE[userProfile.type] || 1000;
+  }
+
+  /**
+   * Benches from mapped data (e.g. OSM amenity=bench)
+   */
+  setBenches(benches: RestPoint[]): void {
+    this.benches = benches.map((bench) => ({ ...bench, kind: "bench" }));
+    console.log(`🪑 ${this.benches.length} benches available for rest stops`);
+  }
+
+  /**
+   * Extra shaded places (e.g. search results) beyond the built-in POIs
+   */
+  addShadedPOIs(pois: PointOfInterest[]): void {
+    const known = new Set(this.extraRestPoints.map((poi) => poi.id));
+    this.extraRestPoints.push(...pois.filter((poi) => !known.has(poi.id)));
+  }
+
+  /**
+   * Every place a leg may end at: shaded POIs, covered sidewalks and benches
+   */
+  getRestCandidates(): RestPoint[] {
+    const shadedPOIs: RestPoint[] = [...SAMPLE_POIS, ...this.extraRestPoints]
+      .filter((poi) => SHADED_POI_TYPES.includes(poi.type))
+      .map((poi) => ({
+        id: `poi_rest_${poi.id}`,
+        name: poi.name,
+        location: poi.location,
+        kind: "shaded_poi",
+      }));
+
+    const coveredSidewalks: RestPoint[] = pedestrianGraphRouter
+      .getNetwork()
+      .sidewalks.filter(
+        (sidewalk) =>
+          sidewalk.accessibilityFeatures.covered &&
+          sidewalk.coordinates.length > 0
+      )
+      .map((sidewalk) => ({
+        id: `covered_${sidewalk.id}`,
+        name: `Covered sidewalk, ${sidewalk.parentStreet}`,
+        location:
+          sidewalk.coordinates[Math.floor(sidewalk.coordinates.length / 2)],
+        kind: "covered_sidewalk",
+      }));
+
+    return [...shadedPOIs, ...coveredSidewalks, ...this.benches];
+  }
+
+  // =====================================================
+  // ROUTING
+  // =====================================================
+
+  private async routeBetween(
+    from: UserLocation,
+    to: UserLocation,
+    userProfile: UserMobilityProfile,
+    preference: TripPlanOptions["routePreference"],
+    departureTime: Date,
+    floodMode: boolean = false
+  ): Promise<TripRouteInput> {
+    try {
+      const analysis = await routeAnalysisService.analyzeRoutes(
+        from,
+        to,
+        userProfile,
+        departureTime,
+        floodMode
+      );
+      const chosen =
+        preference === "fastest"
+          ? analysis.fastestRoute
+          : analysis.clearestRoute;
+
+      return {
+        polyline: chosen.googleRoute.polyline,
+        distance: chosen.googleRoute.distance,
+        duration: chosen.googleRoute.duration,
+        obstacles: chosen.obstacles,
+      };
+    } catch (error) {
+      const offline = await offlinePackService.getOfflineRoutes(
+        from,
+        to,
+        userProfile,
+        departureTime
+      );
+      if (!offline) throw error;
+
+      console.log("📦 Trip leg routed from offline pack");
+      return offline.routes.reduce((a, b) =>
+        preference === "fastest"
+          ? a.duration <= b.duration
+            ? a
+            : b
+          : a.obstacles.length <= b.obstacles.length
+          ? a
+          : b
+      );
+    }
+  }
+
+  private buildLeg(
+    polyline: UserLocation[],
+    cumulative: number[],
+    startAlong: number,
+    endAlong: number,
+    to: TripLeg["to"],
+    scale: number,
+    secondsPerMeter: number,
+    obstaclePositions: { obstacle: AccessibilityObstacle; along: number }[],
+    restPoint?: RestPoint
+  ): TripLeg {
+    const legPolyline = this.slicePolyline(
+      polyline,
+      cumulative,
+      startAlong,
+      endAlong
+    );
+    const distance = (endAlong - startAlong) * scale;
+    const isLastLeg = to.kind === "destination";
+
+    return {
+      id: "",
+      index: 0,
+      from: legPolyline[0],
+      to,
+      ...(restPoint && { restPoint }),
+      polyline: legPolyline,
+      distance,
+      duration: distance * secondsPerMeter,
+      obstacles: obstaclePositions
+        .filter(
+          ({ along }) =>
+            along >= startAlong && (isLastLeg ? true : along < endAlong)
+        )
+        .map(({ obstacle }) => obstacle),
+    };
+  }
+
+  // =====================================================
+  // GEOMETRY
+  // =====================================================
+
+  private cumulativeDistances(polyline: UserLocation[]): number[] {
+    const distances = [0];
+    for (let i = 1; i < polyline.length; i++) {
+      distances.push(
+        distances[i - 1] + calculateDistance(polyline[i - 1], polyline[i])
+      );
+    }
+    return distances;
+  }
+
+  /**
+   * Closest point on the route: distance along it and offset from it (meters)
+   */
+  private projectOntoRoute(
+    point: UserLocation,
+    polyline: UserLocation[],
+    cumulative: number[]
+  ): { along: number; offset: number } {
+    let best = { along: 0, offset: Infinity };
+
+    for (let i = 0; i < polyline.length - 1; i++) {
+      const a = polyline[i];
+      const b = polyline[i + 1];
+
+      // Local flat projection is accurate enough over one segment
+      const cosLat = Math.cos((a.latitude * Math.PI) / 180);
+      const dx = (b.longitude - a.longitude) * cosLat;
+      const dy = b.latitude - a.latitude;
+      const px = (point.longitude - a.longitude) * cosLat;
+      const py = point.latitude - a.latitude;
+      const lengthSq = dx * dx + dy * dy;
+      const t =
+        lengthSq > 0
+          ? Math.max(0, Math.min(1, (px * dx + py * dy) / lengthSq))
+          : 0;
+
+      const projected = {
+        latitude: a.latitude + (b.latitude - a.latitude) * t,
+        longitude: a.longitude + (b.longitude - a.longitude) * t,
+      };
+      const offset = calculateDistance(point, projected);
+
+      if (offset < best.offset) {
+        best = {
+          along: cumulative[i] + (cumulative[i + 1] - cumulative[i]) * t,
+          offset,
+        };
+      }
+    }
+
+    if (polyline.length === 1) {
+      best = { along: 0, offset: calculateDistance(point, polyline[0]) };
+    }
+    return best;
+  }
+
+  private pointAt(
+    polyline: UserLocation[],
+    cumulative: number[],
+    along: number
+  ): UserLocation {
+    for (let i = 0; i < polyline.length - 1; i++) {
+      if (along <= cumulative[i + 1]) {
+        const span = cumulative[i + 1] - cumulative[i];
+        const t = span > 0 ? (along - cumulative[i]) / span : 0;
+        return {
+          latitude:
+            polyline[i].latitude +
+            (polyline[i + 1].latitude - polyline[i].latitude) * t,
+          longitude:
+            polyline[i].longitude +
+            (polyline[i + 1].longitude - polyline[i].longitude) * t,
+        };
+      }
+    }
+    return polyline[polyline.length - 1];
+  }
+
+  private slicePolyline(
+    polyline: UserLocation[],
+    cumulative: number[],
+    startAlong: number,
+    endAlong: number
+  ): UserLocation[] {
+    if (polyline.length === 0) return [];
+
+    const slice = [this.pointAt(polyline, cumulative, startAlong)];
+    for (let i = 0; i < polyline.length; i++) {
+      if (cumulative[i] > startAlong && cumulative[i] < endAlong) {
+        slice.push(polyline[i]);
+      }
+    }
+    slice.push(this.pointAt(polyline, cumulative, endAlong));
+    return slice;
+  }
+}
+
+export const tripPlanningService = new TripPlanningService();
+export { TripPlanningService };
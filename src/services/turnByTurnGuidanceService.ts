@@ -0,0 +1,244 @@
+// src/services/turnByTurnGuidanceService.ts
+// Spoken turn-by-turn guidance built from route steps. Maneuvers go through
+// the TTS queue so urgent obstacle warnings still take priority.
+
+import { UserLocation, UserMobilityProfile } from "../types";
+import { RouteStep } from "./googleMapsService";
+import { textToSpeechService } from "./textToSpeechService";
+import { stripInstructionHtml } from "../utils/navigationUtils";
+import { calculateDistance } from "../utils/mapUtils";
+
+type ProfileKey = "wheelchair" | "walker" | "crutches" | "cane" | "none";
+
+interface GuidanceManeuver {
+  stepIndex: number;
+  instruction: string;
+  routeDistance: number; // meters from the start of the polyline
+  preparedAnnounced: boolean;
+  nowAnnounced: boolean;
+}
+
+// Same walking speeds as proximity detection and micro-rerouting
+const WALKING_SPEEDS: Record<ProfileKey, number> = {
+  wheelchair: 1.2,
+  walker: 1.0,
+  crutches: 1.1,
+  cane: 1.3,
+  none: 1.4,
+};
+
+const MAX_STEP_OFFSET = 25; // meters; steps further from the polyline are skipped
+const MAX_USER_OFFSET = 40; // meters; further than this we don't trust progress
+const BACKTRACK_WINDOW = 30; // meters behind current progress still searched
+const PREPARE_SECONDS = 30;
+const NOW_SECONDS = 8;
+
+class TurnByTurnGuidanceService {
+  private polyline: UserLocation[] = [];
+  private cumulative: number[] = [];
+  private maneuvers: GuidanceManeuver[] = [];
+  private progress = 0; // meters along the polyline, never decreases
+  private prepareDistance = 40;
+  private nowDistance = 10;
+  private active = false;
+
+  /**
+   * Start guidance for a route. The polyline may be a trip leg; steps that
+   * don't lie on it are ignored.
+   */
+  start(
+    steps: RouteStep[],
+    polyline: UserLocation[],
+    profile: UserMobilityProfile
+  ): void {
+    this.stop();
+    if (steps.length === 0 || polyline.length < 2) return;
+
+    this.polyline = polyline;
+    this.cumulative = this.cumulativeDistances(polyline);
+
+    const speed = WALKING_SPEEDS[profile.type as ProfileKey] || 1.4;
+    this.prepareDistance = this.clamp(speed * PREPARE_SECONDS, 20, 60);
+    this.nowDistance = this.clamp(speed * NOW_SECONDS, 6, 15);
+
+    steps.forEach((step, stepIndex) => {
+      const instruction = stripInstructionHtml(step.instructions || "");
+      if (!instruction) return;
+
+      const projection = this.project(step.startLocation, 0);
+      if (!projection || projection.offset > MAX_STEP_OFFSET) return;
+
+      this.maneuvers.push({
+        stepIndex,
+        instruction,
+        routeDistance: projection.along,
+        preparedAnnounced: false,
+        nowAnnounced: false,
+      });
+    });
+
+    this.maneuvers.sort((a, b) => a.routeDistance - b.routeDistance);
+    this.active = this.maneuvers.length > 0;
+
+    console.log(
+      `🧭 Turn-by-turn: ${this.maneuvers.length}/${steps.length} steps on route`
+    );
+
+    // The first step ("Head north on ...") is spoken right away
+    const first = this.maneuvers[0];
+    if (first && first.routeDistance <= this.prepareDistance) {
+      first.preparedAnnounced = true;
+      first.nowAnnounced = true;
+      textToSpeechService.announceManeuver(
+        `step_${first.stepIndex}_now`,
+        first.instruction,
+        0,
+        "now"
+      );
+    }
+  }
+
+  stop(): void {
+    if (this.active) {
+      console.log("🧭 Turn-by-turn: stopped");
+    }
+    this.active = false;
+    this.polyline = [];
+    this.cumulative = [];
+    this.maneuvers = [];
+    this.progress = 0;
+    textToSpeechService.clearManeuvers("step_");
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Advance progress along the route and announce upcoming maneuvers
+   */
+  updateLocation(location: UserLocation): void {
+    if (!this.active) return;
+
+    const projection = this.project(
+      location,
+      Math.max(0, this.progress - BACKTRACK_WINDOW)
+    );
+    if (!projection || projection.offset > MAX_USER_OFFSET) return;
+
+    this.progress = Math.max(this.progress, projection.along);
+
+    for (const maneuver of this.maneuvers) {
+      const remaining = maneuver.routeDistance - this.progress;
+
+      // Passed without hearing it (e.g. GPS jump); don't announce late
+      if (remaining < -this.nowDistance) {
+        maneuver.preparedAnnounced = true;
+        maneuver.nowAnnounced = true;
+        continue;
+      }
+
+      if (!maneuver.nowAnnounced && remaining <= this.nowDistance) {
+        maneuver.preparedAnnounced = true;
+        maneuver.nowAnnounced = true;
+        textToSpeechService.announceManeuver(
+          `step_${maneuver.stepIndex}_now`,
+          maneuver.instruction,
+          Math.max(0, Math.round(remaining)),
+          "now"
+        );
+        continue;
+      }
+
+      // Only warn ahead when there's enough distance left to matter
+      if (
+        !maneuver.preparedAnnounced &&
+        remaining <= this.prepareDistance &&
+        remaining > this.nowDistance * 1.5
+      ) {
+        maneuver.preparedAnnounced = true;
+        const meters = Math.max(5, Math.round(remaining / 5) * 5);
+        textToSpeechService.announceManeuver(
+          `step_${maneuver.stepIndex}_prepare`,
+          `In ${meters} meters, ${this.lowerFirst(maneuver.instruction)}`,
+          Math.round(remaining),
+          "prepare"
+        );
+      }
+    }
+  }
+
+  getDebugInfo() {
+    return {
+      active: this.active,
+      progress: Math.round(this.progress),
+      maneuvers: this.maneuvers.length,
+      pending: this.maneuvers.filter((m) => !m.nowAnnounced).length,
+      prepareDistance: this.prepareDistance,
+      nowDistance: this.nowDistance,
+    };
+  }
+
+  // Closest point on the polyline at or after `minAlong` meters
+  private project(
+    point: UserLocation,
+    minAlong: number
+  ): { along: number; offset: number } | null {
+    let best: { along: number; offset: number } | null = null;
+
+    for (let i = 0; i < this.polyline.length - 1; i++) {
+      if (this.cumulative[i + 1] < minAlong) continue;
+
+      const a = this.polyline[i];
+      const b = this.polyline[i + 1];
+
+      // Local flat projection is fine at segment scale
+      const cosLat = Math.cos((a.latitude * Math.PI) / 180);
+      const bx = (b.longitude - a.longitude) * cosLat;
+      const by = b.latitude - a.latitude;
+      const px = (point.longitude - a.longitude) * cosLat;
+      const py = point.latitude - a.latitude;
+      const lengthSq = bx * bx + by * by;
+      const t =
+        lengthSq === 0
+          ? 0
+          : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+
+      const closest: UserLocation = {
+        latitude: a.latitude + t * (b.latitude - a.latitude),
+        longitude: a.longitude + t * (b.longitude - a.longitude),
+      };
+      const offset = calculateDistance(point, closest);
+      const along =
+        this.cumulative[i] + t * (this.cumulative[i + 1] - this.cumulative[i]);
+
+      if (along < minAlong) continue;
+      if (!best || offset < best.offset) {
+        best = { along, offset };
+      }
+    }
+
+    return best;
+  }
+
+  private cumulativeDistances(polyline: UserLocation[]): number[] {
+    const result = [0];
+    for (let i = 1; i < polyline.length; i++) {
+      result.push(
+        result[i - 1] + calculateDistance(polyline[i - 1], polyline[i])
+      );
+    }
+    return result;
+  }
+
+  private lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+  }
+}
+
+export const turnByTurnGuidanceService = new TurnByTurnGuidanceService();
+export { TurnByTurnGuidanceService };
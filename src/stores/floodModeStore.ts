@@ -0,0 +1,65 @@
+// src/stores/floodModeStore.ts
+// Flood mode switch and the local rainfall alert, kept on the device so a
+// habagat warning set in the morning still applies on the way home
+
+import { create } from "zustand";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { FloodModeSettings, RainfallAlertLevel } from "../types";
+
+const STORAGE_KEY = "@waispath:floodMode";
+
+const DEFAULT_FLOOD_MODE: FloodModeSettings = {
+  manualEnabled: false,
+  rainfallAlert: "none",
+};
+
+interface FloodModeState extends FloodModeSettings {
+  isLoaded: boolean;
+
+  // Actions
+  loadSettings: () => Promise<void>;
+  setManualEnabled: (enabled: boolean) => void;
+  setRainfallAlert: (level: RainfallAlertLevel) => void;
+}
+
+const saveSettings = (settings: FloodModeSettings) => {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings)).catch(
+    (error: any) => {
+      console.warn("❌ Failed to save flood mode:", error);
+    }
+  );
+};
+
+export const useFloodMode = create<FloodModeState>((set, get) => ({
+  ...DEFAULT_FLOOD_MODE,
+  isLoaded: false,
+
+  loadSettings: async () => {
+    if (get().isLoaded) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      set({
+        ...DEFAULT_FLOOD_MODE,
+        ...(stored ? JSON.parse(stored) : {}),
+        isLoaded: true,
+      });
+    } catch (error) {
+      console.warn("❌ Failed to load flood mode, using defaults:", error);
+      set({ ...DEFAULT_FLOOD_MODE, isLoaded: true });
+    }
+  },
+
+  setManualEnabled: (enabled: boolean) => {
+    set({ manualEnabled: enabled });
+    saveSettings({
+      manualEnabled: enabled,
+      rainfallAlert: get().rainfallAlert,
+    });
+  },
+
+  setRainfallAlert: (level: RainfallAlertLevel) => {
+    set({ rainfallAlert: level });
+    saveSettings({ manualEnabled: get().manualEnabled, rainfallAlert: level });
+  },
+}));
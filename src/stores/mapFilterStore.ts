@@ -0,0 +1,63 @@
+// src/stores/mapFilterStore.ts
+// Obstacle filters for the map, kept on the device so they survive restarts
+
+import { create } from "zustand";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ObstacleFilters } from "../types";
+import {
+  DEFAULT_OBSTACLE_FILTERS,
+  normalizeObstacleFilters,
+} from "../utils/obstacleFilters";
+
+const STORAGE_KEY = "@waispath:mapFilters";
+
+interface MapFilterState {
+  filters: ObstacleFilters;
+  isLoaded: boolean;
+
+  // Actions
+  loadFilters: () => Promise<void>;
+  updateFilters: (changes: Partial<ObstacleFilters>) => void;
+  resetFilters: () => void;
+}
+
+const saveFilters = (filters: ObstacleFilters) => {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filters)).catch(
+    (error: any) => {
+      console.warn("❌ Failed to save map filters:", error);
+    }
+  );
+};
+
+export const useMapFilters = create<MapFilterState>((set, get) => ({
+  filters: DEFAULT_OBSTACLE_FILTERS,
+  isLoaded: false,
+
+  loadFilters: async () => {
+    if (get().isLoaded) return;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      set({
+        filters: stored
+          ? normalizeObstacleFilters(JSON.parse(stored))
+          : DEFAULT_OBSTACLE_FILTERS,
+        isLoaded: true,
+      });
+    } catch (error) {
+      console.warn("❌ Failed to load map filters, using defaults:", error);
+      set({ filters: DEFAULT_OBSTACLE_FILTERS, isLoaded: true });
+    }
+  },
+
+  updateFilters: (changes: Partial<ObstacleFilters>) => {
+    const filters = { ...get().filters, ...changes };
+    set({ filters });
+    saveFilters(filters);
+  },
+
+  resetFilters: () => {
+    set({ filters: DEFAULT_OBSTACLE_FILTERS });
+    saveFilters(DEFAULT_OBSTACLE_FILTERS);
+  },
+}));
@@ -170,6 +170,41 @@ export const reportDetailsStyles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 3,
   },
+  photoSection: {
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  photoMainImage: {
+    width: "100%",
+    height: 240,
+    borderRadius: 12,
+    backgroundColor: COLORS.lightGray,
+  },
+  photoPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  photoThumbnailRow: {
+    paddingTop: 12,
+    gap: 8,
+  },
+  photoThumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: COLORS.lightGray,
+  },
+  photoThumbnailSelected: {
+    borderWidth: 3,
+    borderColor: COLORS.softBlue,
+  },
   timelineSectionTitle: {
     fontSize: 20,
     fontWeight: "700",
@@ -274,6 +309,147 @@ export const reportDetailsStyles = StyleSheet.create({
     marginBottom: 16,
   },
 
+  // Reporter Actions
+  reportActionRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  reportActionButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.softBlue,
+  },
+  reportActionButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: COLORS.softBlue,
+  },
+  reportActionDanger: {
+    borderColor: COLORS.error,
+  },
+  reportActionDangerText: {
+    color: COLORS.error,
+  },
+
+  // Revision History (admin)
+  revisionItem: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  revisionHeader: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.slate,
+    marginBottom: 4,
+  },
+  revisionChange: {
+    fontSize: 13,
+    color: COLORS.muted,
+    lineHeight: 18,
+  },
+
+  // Edit Report Modal
+  editContainer: {
+    flex: 1,
+    backgroundColor: COLORS.lightGray,
+  },
+  editHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: COLORS.white,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  editHeaderTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: COLORS.slate,
+  },
+  editCancelText: {
+    fontSize: 16,
+    color: COLORS.muted,
+  },
+  editSaveText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: COLORS.softBlue,
+  },
+  editContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  editNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: `${COLORS.warning}20`,
+    marginBottom: 8,
+  },
+  editNoticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.slate,
+  },
+  editLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.slate,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  editChipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  editChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: COLORS.white,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+  },
+  editChipSelected: {
+    backgroundColor: COLORS.chipBg,
+    borderColor: COLORS.softBlue,
+  },
+  editChipText: {
+    fontSize: 13,
+    color: COLORS.slate,
+  },
+  editChipTextSelected: {
+    color: COLORS.softBlue,
+    fontWeight: "600",
+  },
+  editDescriptionInput: {
+    minHeight: 100,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: COLORS.white,
+    fontSize: 15,
+    color: COLORS.slate,
+  },
+  editHintText: {
+    fontSize: 13,
+    color: COLORS.muted,
+    marginBottom: 8,
+  },
+
   // Utility Styles
   divider: {
     height: 1,
@@ -353,6 +353,36 @@ export const submitReportTabStyles = StyleSheet.create({
     color: COLORS.white,
   },
 
+  // Strip of every captured photo (up to MAX_REPORT_PHOTOS)
+  photoThumbnailRow: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+
+  photoThumbnailWrapper: {
+    position: "relative",
+  },
+
+  photoThumbnailImage: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    backgroundColor: COLORS.lightGray,
+  },
+
+  photoRemoveButton: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: "rgba(0, 0, 0, 0.75)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+
   // 🆕 NEW: Action buttons container
   photoActionsContainer: {
     flexDirection: "row",
@@ -0,0 +1,114 @@
+// src/tests/communityValidationTest.ts
+// Behavior checks for weighted community validation
+
+import {
+  addWeightedVote,
+  decideCommunityStatus,
+  diffReputationLedgers,
+  getAppliedReputation,
+  getReputationTarget,
+  SettlementRecord,
+} from "../utils/communityValidation";
+import { expect } from "./testHelpers";
+
+/**
+ * Weighted tallies decide the status; credits follow reversals
+ */
+export async function testCommunityValidation(): Promise<void> {
+  console.log("🗳️ Testing community validation...");
+
+  const tally = (up: number, down: number) => ({
+    weightedUpvotes: up,
+    weightedDownvotes: down,
+  });
+  expect(
+    decideCommunityStatus(tally(1.5, 0), "medium") === "verified",
+    "three average upvotes verify a report"
+  );
+  expect(
+    decideCommunityStatus(tally(1, 0), "medium") === "pending",
+    "two average upvotes are not enough"
+  );
+  expect(
+    decideCommunityStatus(tally(2, 1.5), "medium") === "pending",
+    "a contested report stays pending"
+  );
+  expect(
+    decideCommunityStatus(tally(0, 1.5), "medium") === "false_report",
+    "three downvotes dismiss a medium report"
+  );
+  expect(
+    decideCommunityStatus(tally(0, 1.5), "blocking") === "pending",
+    "dismissing a blocking obstacle takes more evidence"
+  );
+
+  const repeat = addWeightedVote(
+    { upvotedBy: ["ana"], weightedUpvotes: 0.5 },
+    "upvote",
+    "ana",
+    0.5
+  );
+  expect(repeat.weightedUpvotes === 0.5, "a repeat vote adds no weight");
+
+  const verified: SettlementRecord = {
+    status: "verified",
+    reportedBy: "reporter",
+    upvotedBy: ["ana"],
+    downvotedBy: ["ben"],
+  };
+  const credits = getReputationTarget(verified);
+  expect(
+    credits.reporter?.accurateReports === 1 &&
+      credits.ana?.accurateReports === 1 &&
+      credits.ben?.flaggedReports === 1,
+    "verification credits the reporter and upvoters, flags downvoters"
+  );
+
+  const reversed = diffReputationLedgers(
+    credits,
+    getReputationTarget({ ...verified, status: "false_report" })
+  );
+  expect(
+    reversed.reporter?.accurateReports === -1 &&
+      reversed.reporter?.flaggedReports === 1 &&
+      reversed.ben?.accurateReports === 1 &&
+      reversed.ben?.flaggedReports === -1,
+    "a reversal moves the credits to the other side"
+  );
+
+  const merged = diffReputationLedgers(
+    credits,
+    getReputationTarget({ ...verified, mergedInto: "primary" })
+  );
+  expect(
+    merged.ana?.accurateReports === -1,
+    "merging takes credits back; the primary report carries them"
+  );
+
+  expect(
+    Object.keys(
+      diffReputationLedgers(
+        getAppliedReputation({ ...verified, reputationSettled: true }),
+        getReputationTarget(verified)
+      )
+    ).length === 0,
+    "reports settled before ledgers are not credited twice"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllCommunityValidationTests(): Promise<void> {
+  console.log("🧪 WAISPATH Community Validation Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testCommunityValidation();
+
+    console.log("\n🎉 All community validation tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,134 @@
+// src/tests/localBackendTest.ts
+// Runs the reporting flow against the in-memory backend: report, query,
+// vote and merge, with fixed ids and a fixed clock
+
+import { LocalFirebaseService } from "../services/localFirebaseService";
+import { localBackend } from "../services/localBackend";
+import { expect } from "./testHelpers";
+
+// Monday 19 October 2026, 08:00 local time
+const fixedNow = new Date(2026, 9, 19, 8, 0);
+
+// Near Pasig City Hall; 0.0001° of latitude is about 11 m
+const cityHall = { latitude: 14.5764, longitude: 121.0851 };
+const nextDoor = { latitude: 14.5765, longitude: 121.0851 };
+
+const admin = {
+  uid: "admin_1",
+  email: "admin@pasig.gov.ph",
+  isAdmin: true,
+  role: "lgu_admin" as const,
+};
+
+const signInAs = (uid: string) =>
+  localBackend.signIn({ uid, email: `${uid}@example.com`, isAnonymous: false });
+
+/**
+ * Two reports of the same vendor, three upvotes, then an admin merge
+ */
+export async function testLocalReportFlow(): Promise<void> {
+  console.log("🧪 Testing the in-memory backend...");
+
+  localBackend.reset();
+  localBackend.setClock(() => fixedNow);
+  const service = new LocalFirebaseService();
+
+  // Report
+  signInAs("reporter");
+  const firstId = await service.obstacle.reportObstacle({
+    location: cityHall,
+    type: "vendor_blocking",
+    severity: "medium",
+    description: "Fruit stall covering the sidewalk",
+  });
+  signInAs("second_reporter");
+  const secondId = await service.obstacle.reportObstacle({
+    location: nextDoor,
+    type: "vendor_blocking",
+    severity: "medium",
+    description: "Vendor cart",
+  });
+  expect(
+    firstId === "obstacle_1" && secondId === "obstacle_2",
+    "report ids come from the counter"
+  );
+
+  const first = await service.obstacle.getObstacleById(firstId);
+  expect(
+    first?.status === "pending" &&
+      first.reportedAt.getTime() === fixedNow.getTime(),
+    "a new community report is pending, stamped by the clock"
+  );
+
+  // Query
+  const nearby = await service.obstacle.getObstaclesInArea(
+    cityHall.latitude,
+    cityHall.longitude,
+    0.1
+  );
+  expect(nearby.length === 2, "area query finds both reports");
+  expect(
+    (await service.obstacle.getObstaclesInArea(14.59, 121.1, 0.1)).length === 0,
+    "area query elsewhere finds nothing"
+  );
+  expect(
+    (
+      await service.obstacle.getObstaclesAlongRoute(
+        [
+          { latitude: 14.576, longitude: 121.0851 },
+          { latitude: 14.577, longitude: 121.0851 },
+        ],
+        20
+      )
+    ).length === 2,
+    "route corridor query finds both reports"
+  );
+
+  // Vote: three upvotes at the default weight verify a medium report
+  for (const voter of ["voter_1", "voter_2", "voter_3"]) {
+    signInAs(voter);
+    await service.obstacle.verifyObstacle(firstId, "upvote");
+  }
+  const voted = await service.obstacle.getObstacleById(firstId);
+  expect(voted?.upvotes === 3, "three upvotes are counted");
+  expect(voted?.status === "verified", "the weighted tally verifies it");
+  expect(
+    localBackend.getReputation("reporter")?.accurateReports === 1,
+    "the reporter is credited for an accurate report"
+  );
+
+  // Merge
+  signInAs(admin.uid);
+  await service.obstacle.mergeObstacles(firstId, [secondId], admin);
+  const merged = localBackend.getObstacle(secondId);
+  expect(merged?.mergedInto === firstId, "the duplicate points to the primary");
+  const primary = await service.obstacle.getObstacleById(firstId);
+  expect(primary?.reportsCount === 2, "the primary counts both reports");
+  expect(
+    (
+      await service.obstacle.getObstaclesInArea(
+        cityHall.latitude,
+        cityHall.longitude,
+        0.1
+      )
+    ).length === 1,
+    "merged duplicates drop out of area queries"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllLocalBackendTests(): Promise<void> {
+  console.log("🧪 WAISPATH Local Backend Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testLocalReportFlow();
+
+    console.log("\n🎉 All local backend tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,101 @@
+// src/tests/obstacleDecayTest.ts
+// Behavior checks for report time decay: half-lives, expiry and
+// confirmations
+
+import {
+  getDecayWeight,
+  getLastConfirmedAt,
+  getObstacleFreshness,
+  isObstacleExpired,
+  withExpiryStatus,
+} from "../utils/obstacleDecay";
+import {
+  DAY_MS,
+  expect,
+  expectClose,
+  makeObstacle,
+  monday8am,
+} from "./testHelpers";
+
+/**
+ * Half-lives, expiry and what counts as a confirmation
+ */
+export async function testObstacleDecay(): Promise<void> {
+  console.log("⏳ Testing obstacle decay...");
+
+  const debris = makeObstacle("debris", "debris", 7);
+  expectClose(
+    getObstacleFreshness(debris, monday8am),
+    0.5,
+    0.001,
+    "debris is half as fresh after its 7-day half-life"
+  );
+  expect(
+    !isObstacleExpired(debris, monday8am),
+    "unconfirmed debris still counts after one half-life"
+  );
+
+  const oldDebris = makeObstacle("old_debris", "debris", 15);
+  expect(
+    isObstacleExpired(oldDebris, monday8am),
+    "unconfirmed debris expires after two half-lives"
+  );
+  expect(getDecayWeight(oldDebris, monday8am) === 0, "expired weight is 0");
+  expect(
+    withExpiryStatus(oldDebris, monday8am).status === "expired",
+    "reads mark it expired"
+  );
+
+  const confirmed = makeObstacle("confirmed", "debris", 15, {
+    upvotes: 1,
+    lastConfirmedAt: new Date(monday8am.getTime() - DAY_MS),
+  });
+  expect(
+    !isObstacleExpired(confirmed, monday8am),
+    "an upvote yesterday restarts the clock"
+  );
+
+  const downvoted = makeObstacle("downvoted", "debris", 10, {
+    downvotes: 1,
+    lastVerifiedAt: new Date(monday8am.getTime() - DAY_MS),
+  });
+  expect(
+    getLastConfirmedAt(downvoted).getTime() === downvoted.reportedAt.getTime(),
+    "a downvote does not count as a confirmation"
+  );
+
+  const legacyUpvoted = makeObstacle("legacy", "debris", 10, {
+    upvotes: 2,
+    lastVerifiedAt: new Date(monday8am.getTime() - 2 * DAY_MS),
+  });
+  expect(
+    getLastConfirmedAt(legacyUpvoted).getTime() ===
+      legacyUpvoted.lastVerifiedAt!.getTime(),
+    "older upvote-only reports fall back to lastVerifiedAt"
+  );
+
+  const resolved = makeObstacle("resolved", "debris", 60, {
+    status: "resolved",
+  });
+  expect(
+    !isObstacleExpired(resolved, monday8am),
+    "resolved reports are closed, not expired"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllObstacleDecayTests(): Promise<void> {
+  console.log("🧪 WAISPATH Obstacle Decay Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testObstacleDecay();
+
+    console.log("\n🎉 All obstacle decay tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,102 @@
+// src/tests/obstacleDuplicatesTest.ts
+// Behavior checks for duplicate report matching and vote merging
+
+import {
+  findDuplicateObstacles,
+  mergeDuplicateVotes,
+} from "../utils/obstacleDuplicates";
+import {
+  cityHall,
+  expect,
+  expectClose,
+  makeObstacle,
+  monday8am,
+} from "./testHelpers";
+
+/**
+ * Same spot, same type, recent enough, overlapping schedule
+ */
+export async function testDuplicateDetection(): Promise<void> {
+  console.log("👯 Testing duplicate detection...");
+
+  const nearby = { latitude: cityHall.latitude + 0.0001, longitude: 121.0851 };
+  const existing = [
+    makeObstacle("vendor_yesterday", "vendor_blocking", 1),
+    makeObstacle("vendor_last_month", "vendor_blocking", 30),
+    makeObstacle("stairs_old", "stairs_no_ramp", 100),
+    makeObstacle("vendor_far", "vendor_blocking", 1, {
+      location: { latitude: cityHall.latitude + 0.001, longitude: 121.0851 },
+    }),
+    makeObstacle("vendor_resolved", "vendor_blocking", 1, {
+      status: "resolved",
+    }),
+  ];
+
+  const vendorMatches = findDuplicateObstacles(
+    { type: "vendor_blocking", location: nearby },
+    existing,
+    undefined,
+    monday8am
+  );
+  expect(
+    vendorMatches.map((match) => match.obstacle.id).join() ===
+      "vendor_yesterday",
+    "only yesterday's nearby open vendor report matches"
+  );
+  expectClose(vendorMatches[0].distanceMeters, 11, 1, "match distance");
+
+  expect(
+    findDuplicateObstacles(
+      { type: "stairs_no_ramp", location: nearby },
+      existing,
+      undefined,
+      monday8am
+    ).length === 1,
+    "stairs reported 100 days ago are still the same stairs"
+  );
+
+  expect(
+    findDuplicateObstacles(
+      { type: "vendor_blocking", location: nearby, timePattern: "evening" },
+      [
+        makeObstacle("morning_vendor", "vendor_blocking", 1, {
+          timePattern: "morning",
+        }),
+      ],
+      undefined,
+      monday8am
+    ).length === 0,
+    "evening vendor is not a duplicate of a morning vendor"
+  );
+
+  const merged = mergeDuplicateVotes([
+    { upvotes: 2, upvotedBy: ["ana", "ben"], weightedUpvotes: 3 },
+    { upvotes: 1, upvotedBy: ["ana"], weightedUpvotes: 1.5 },
+  ]);
+  expect(merged.upvotes === 2, "a voter on both copies counts once");
+  expectClose(merged.weightedUpvotes, 3, 0.001, "weighted upvotes scaled");
+  expect(merged.reportsCount === 2, "both reports are kept in the count");
+
+  const legacy = mergeDuplicateVotes([
+    { upvotes: 3, upvotedBy: ["ana"] },
+    { upvotes: 1, upvotedBy: ["ana"] },
+  ]);
+  expect(legacy.upvotes === 3, "unattributed legacy votes all count");
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllObstacleDuplicatesTests(): Promise<void> {
+  console.log("🧪 WAISPATH Obstacle Duplicates Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testDuplicateDetection();
+
+    console.log("\n🎉 All obstacle duplicates tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
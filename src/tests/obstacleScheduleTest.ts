@@ -0,0 +1,103 @@
+// src/tests/obstacleScheduleTest.ts
+// Behavior checks for weekly obstacle schedules: weekday windows, overnight
+// windows, legacy time patterns and schedule overlap
+
+import {
+  isObstacleActiveAt,
+  schedulesOverlap,
+  validateTimeWindow,
+} from "../utils/obstacleSchedule";
+import { expect } from "./testHelpers";
+
+// Monday 19 October 2026, 08:00 local time
+const monday8am = new Date(2026, 9, 19, 8, 0);
+
+/**
+ * Weekly windows, overnight windows and legacy time patterns
+ */
+export async function testObstacleSchedule(): Promise<void> {
+  console.log("🗓️ Testing obstacle schedules...");
+
+  const weekdayVendor = {
+    schedule: [{ days: [1, 2, 3, 4, 5], start: "06:00", end: "10:00" }],
+  };
+  expect(
+    isObstacleActiveAt(weekdayVendor, monday8am),
+    "weekday vendor is there Monday 08:00"
+  );
+  expect(
+    !isObstacleActiveAt(weekdayVendor, new Date(2026, 9, 19, 11, 0)),
+    "weekday vendor is gone Monday 11:00"
+  );
+  expect(
+    !isObstacleActiveAt(weekdayVendor, new Date(2026, 9, 18, 8, 0)),
+    "weekday vendor is gone Sunday 08:00"
+  );
+
+  // Friday night market, 22:00 to 04:00
+  const nightMarket = {
+    schedule: [{ days: [5], start: "22:00", end: "04:00" }],
+  };
+  expect(
+    isObstacleActiveAt(nightMarket, new Date(2026, 9, 23, 23, 0)),
+    "night market is there Friday 23:00"
+  );
+  expect(
+    isObstacleActiveAt(nightMarket, new Date(2026, 9, 24, 2, 0)),
+    "night market runs past midnight into Saturday"
+  );
+  expect(
+    !isObstacleActiveAt(nightMarket, new Date(2026, 9, 24, 23, 0)),
+    "night market is gone Saturday 23:00"
+  );
+
+  expect(
+    isObstacleActiveAt({ timePattern: "morning" }, monday8am),
+    "legacy morning pattern is active at 08:00"
+  );
+  expect(
+    isObstacleActiveAt({}, monday8am),
+    "obstacle without schedule is always there"
+  );
+
+  let rejected = false;
+  try {
+    validateTimeWindow({ days: [1], start: "25:00", end: "26:00" });
+  } catch {
+    rejected = true;
+  }
+  expect(rejected, "25:00 is rejected as a time of day");
+  expect(
+    isObstacleActiveAt(
+      { schedule: [{ days: [9], start: "06:00", end: "10:00" }] },
+      monday8am
+    ),
+    "unreadable window counts as present rather than hidden"
+  );
+
+  expect(
+    !schedulesOverlap({ timePattern: "morning" }, { timePattern: "afternoon" }),
+    "morning and afternoon vendors never overlap"
+  );
+  expect(
+    schedulesOverlap({ timePattern: "morning" }, { timePattern: "permanent" }),
+    "permanent obstacle overlaps any schedule"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllObstacleScheduleTests(): Promise<void> {
+  console.log("🧪 WAISPATH Obstacle Schedule Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testObstacleSchedule();
+
+    console.log("\n🎉 All obstacle schedule tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
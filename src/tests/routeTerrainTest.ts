@@ -0,0 +1,116 @@
+// src/tests/routeTerrainTest.ts
+// Behavior checks for the terrain inputs to route scoring: DEM sampling
+// and elevation profiles along Pasig sidewalks
+
+import { ElevationTile, UserLocation } from "../types";
+import {
+  buildElevationProfile,
+  degreesToGrade,
+  gradeToDegrees,
+  resamplePolyline,
+  sampleTileElevation,
+} from "../utils/elevationProfile";
+import { expect, expectClose } from "./testHelpers";
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+// Two rows of cells: 10 m along the north half, 0 m along the south half
+const testTile: ElevationTile = {
+  id: "test_tile",
+  name: "Test Tile",
+  bounds: { north: 14.578, south: 14.576, east: 121.086, west: 121.084 },
+  rows: 2,
+  cols: 2,
+  elevations: [10, 10, 0, 0],
+};
+
+// About 100 m due north from the south edge of the tile
+const northbound: UserLocation[] = [
+  { latitude: 14.576, longitude: 121.085 },
+  { latitude: 14.5769, longitude: 121.085 },
+];
+
+/**
+ * Grid sampling, resampling and grade along a ramp
+ */
+export async function testElevationProfile(): Promise<void> {
+  console.log("⛰️ Testing elevation profiles...");
+
+  expectClose(gradeToDegrees(100), 45, 0.001, "100% grade is 45°");
+  expectClose(degreesToGrade(gradeToDegrees(8.33)), 8.33, 0.001, "1:12 ramp");
+
+  expectClose(
+    sampleTileElevation(testTile, { latitude: 14.5775, longitude: 121.0845 })!,
+    10,
+    0.001,
+    "cell center returns the cell value"
+  );
+  expectClose(
+    sampleTileElevation(testTile, { latitude: 14.577, longitude: 121.085 })!,
+    5,
+    0.001,
+    "between cell centers the value is interpolated"
+  );
+  expect(
+    sampleTileElevation(testTile, { latitude: 14.58, longitude: 121.085 }) ===
+      null,
+    "outside the tile there is no elevation"
+  );
+
+  const points = resamplePolyline(northbound, 15);
+  expect(points.length === 8, "100 m at 15 m spacing gives 8 samples");
+  expectClose(
+    points[points.length - 1].distance,
+    100,
+    1,
+    "last sample is the route end"
+  );
+
+  // Steady 10% climb, steeper than a 5° limit
+  const ramp = (point: UserLocation) =>
+    (point.latitude - 14.576) * METERS_PER_DEGREE_LATITUDE * 0.1;
+  const profile = buildElevationProfile(northbound, ramp, {
+    maxSlopeDegrees: 5,
+  })!;
+  expectClose(profile.totalAscent, 10, 0.2, "total ascent");
+  expect(profile.totalDescent === 0, "no descent on a steady climb");
+  expectClose(profile.maxSlopeDegrees, 5.7, 0.1, "max slope in degrees");
+  expect(
+    profile.steepSegmentCount === profile.segments.length,
+    "every segment exceeds the 5° limit"
+  );
+  expect(
+    buildElevationProfile(northbound, ramp, { maxSlopeDegrees: 6 })!
+      .steepSegmentCount === 0,
+    "a 6° limit accepts the same ramp"
+  );
+
+  // No DEM data past the midpoint
+  const halfCovered = buildElevationProfile(
+    northbound,
+    (point) => (point.latitude < 14.57645 ? ramp(point) : null),
+    { maxSlopeDegrees: 5 }
+  )!;
+  expectClose(halfCovered.coverage, 0.5, 0.001, "coverage counts samples");
+  expect(
+    halfCovered.segments.length === 3,
+    "grades only where both ends have data"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllRouteTerrainTests(): Promise<void> {
+  console.log("🧪 WAISPATH Route Terrain Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testElevationProfile();
+
+    console.log("\n🎉 All route terrain tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,70 @@
+// src/tests/sunComfortTest.ts
+// Behavior checks for sun position over Pasig and sidewalk sun exposure
+
+import { UserLocation } from "../types";
+import { getSunExposure, getSunPosition } from "../utils/sunComfort";
+import { expect, expectClose } from "./testHelpers";
+
+/**
+ * Sun position over Pasig and shade from the building line
+ */
+export async function testSunPosition(): Promise<void> {
+  console.log("☀️ Testing sun position...");
+
+  const pasig = { latitude: 14.5764, longitude: 121.0851 };
+
+  // Noon in Manila (UTC+8) on the March equinox: high and to the south
+  const equinoxNoon = getSunPosition(new Date("2026-03-20T04:00:00Z"), pasig);
+  expectClose(equinoxNoon.elevation, 75.4, 1.5, "equinox noon elevation");
+  expectClose(equinoxNoon.azimuth, 180, 15, "equinox noon sun is south");
+
+  // In June the sun passes north of Pasig at noon
+  const juneNoon = getSunPosition(new Date("2026-06-21T04:00:00Z"), pasig);
+  expect(
+    juneNoon.azimuth < 45 || juneNoon.azimuth > 315,
+    "June noon sun is north"
+  );
+
+  const midnight = getSunPosition(new Date("2026-10-19T16:00:00Z"), pasig);
+  expect(midnight.elevation < 0, "sun is below the horizon at midnight");
+
+  const morning = getSunPosition(new Date("2026-10-19T23:00:00Z"), pasig);
+  expect(
+    morning.azimuth > 60 && morning.azimuth < 120,
+    "07:00 sun is in the east"
+  );
+
+  // A north-south street: the east sidewalk lies under the building shadow
+  const street: UserLocation[] = [
+    { latitude: 14.576, longitude: 121.085 },
+    { latitude: 14.577, longitude: 121.085 },
+  ];
+  const westSide = getSunExposure(street, "west", false, morning);
+  const eastSide = getSunExposure(street, "east", false, morning);
+  expect(eastSide < westSide, "the east sidewalk is shadier in the morning");
+  expect(
+    getSunExposure(street, "west", true, equinoxNoon) === 0,
+    "a covered walkway gets no sun"
+  );
+  expect(
+    getSunExposure(street, "west", false, midnight) === 0,
+    "no sun exposure at night"
+  );
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllSunComfortTests(): Promise<void> {
+  console.log("🧪 WAISPATH Sun Comfort Test Suite");
+  console.log("=".repeat(50));
+
+  try {
+    await testSunPosition();
+
+    console.log("\n🎉 All sun comfort tests passed!");
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    throw error;
+  }
+}
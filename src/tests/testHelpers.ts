@@ -0,0 +1,54 @@
+// src/tests/testHelpers.ts
+// Shared checks and fixtures for the manual test suites in this folder
+
+import { AccessibilityObstacle, ObstacleType } from "../types";
+
+/**
+ * Log a passing check, or throw so the suite reports the failure
+ */
+export function expect(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(`Check failed: ${description}`);
+  }
+  console.log(`   ✅ ${description}`);
+}
+
+export function expectClose(
+  actual: number,
+  expected: number,
+  tolerance: number,
+  description: string
+): void {
+  expect(
+    Math.abs(actual - expected) <= tolerance,
+    `${description} (${actual.toFixed(2)} ≈ ${expected})`
+  );
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday 19 October 2026, 08:00 local time
+export const monday8am = new Date(2026, 9, 19, 8, 0);
+
+// Near Pasig City Hall; 0.0001° of latitude is about 11 m
+export const cityHall = { latitude: 14.5764, longitude: 121.0851 };
+
+export const makeObstacle = (
+  id: string,
+  type: ObstacleType,
+  daysAgo: number,
+  extra: Partial<AccessibilityObstacle> = {}
+): AccessibilityObstacle => ({
+  id,
+  type,
+  location: cityHall,
+  severity: "medium",
+  description: "Test report",
+  reportedBy: "reporter",
+  reportedAt: new Date(monday8am.getTime() - daysAgo * DAY_MS),
+  verified: false,
+  status: "pending",
+  upvotes: 0,
+  downvotes: 0,
+  ...extra,
+});
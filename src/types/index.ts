@@ -17,12 +17,21 @@ export interface AccessibilityObstacle {
   reportedAt: Date;
   verified: boolean;
   timePattern?: "permanent" | "morning" | "afternoon" | "evening" | "weekend";
+  schedule?: ObstacleTimeWindow[]; // Real weekly windows; overrides timePattern when set
 
   // ENHANCED: Validation system fields
   upvotes?: number;
   downvotes?: number;
-  status?: "pending" | "verified" | "resolved" | "false_report";
+  status?:
+    | "pending"
+    | "verified"
+    | "resolved"
+    | "false_report"
+    | "expired" // Derived on read
+    | "withdrawn"; // Pulled by the reporter while pending
   reportsCount?: number; // Total engagement count
+  weightedUpvotes?: number; // Votes summed by voter trust; these decide status
+  weightedDownvotes?: number;
 
   // NEW: Admin badge support (safe additions)
   adminReported?: boolean; // Flag indicating this was reported by an admin
@@ -32,15 +41,99 @@ export interface AccessibilityObstacle {
   // ENHANCED: Auto-verification support
   autoVerified?: boolean; // True if admin report bypassed community validation
 
-  // Media and metadata
+  // Media and metadata: references into the photo blob store
+  photos?: ObstaclePhoto[];
+  // Legacy: photo embedded in the document before the blob store.
+  // Only returned by getObstacleById, never by area/route queries.
   photoBase64?: string;
+  // Set when the report had photos; "mismatch" is flagged to admins
+  photoCheck?: PhotoLocationCheck;
 
   // Admin fields (optional)
   reviewedBy?: string;
   reviewedAt?: Date;
   adminNotes?: string;
   confidenceScore?: number;
-  lastVerifiedAt?: Date;
+  lastVerifiedAt?: Date; // Last vote either way
+  lastConfirmedAt?: Date; // Last upvote or "still there" report
+
+  // Reporter edits while pending; history lives in report_revisions
+  revisionCount?: number;
+  lastEditedAt?: Date;
+
+  // Duplicate merging: a merged duplicate points at the record that absorbed it
+  mergedInto?: string;
+  mergedFrom?: string[];
+}
+
+// Photo kept in the blob store, addressed by the SHA-256 of its content
+export interface ObstaclePhoto {
+  id: string; // Full-size JPEG
+  thumbnailId: string;
+  width: number;
+  height: number;
+}
+
+// Photo as captured, before upload
+export interface PhotoUpload {
+  base64: string;
+  thumbnailBase64: string;
+  width: number;
+  height: number;
+  // Read from EXIF on device; only the resulting check is stored
+  captureInfo?: PhotoCaptureInfo;
+}
+
+// Reporter's change to a pending report; omitted fields stay as they are
+export interface ReportEdit {
+  type?: ObstacleType;
+  severity?: AccessibilityObstacle["severity"];
+  description?: string;
+  photos?: PhotoUpload[]; // Replaces all photos
+}
+
+// Report content as a revision snapshots it
+export type ReportRevisionFields = Pick<
+  AccessibilityObstacle,
+  "type" | "severity" | "description" | "photos" | "photoBase64"
+>;
+
+// Immutable history entry, one per edit or withdrawal (admin-visible)
+export interface ReportRevision {
+  id: string;
+  obstacleId: string;
+  revision: number; // 1 = first change after the original report
+  action: "edit" | "withdraw";
+  editedBy: string;
+  editedAt: Date;
+  before: ReportRevisionFields;
+  after: ReportRevisionFields;
+  reason?: string;
+  // Votes were cast on the old content, so the edit cleared them
+  validationReset: boolean;
+  votesBefore: { upvotes: number; downvotes: number };
+}
+
+// Where and when a photo was taken, per its EXIF or the device at capture
+export interface PhotoCaptureInfo {
+  location?: UserLocation;
+  takenAt?: Date;
+}
+
+// Photo capture position compared with the report, for admin review
+export interface PhotoLocationCheck {
+  status: "match" | "mismatch" | "unverified"; // unverified: no capture position
+  distanceMeters?: number; // Farthest geotagged photo from the report
+  hoursBeforeReport?: number; // Oldest photo's age when reported
+  staleTimestamp: boolean;
+}
+
+// Weekly window when a time-dependent obstacle is present (device local time)
+// e.g. vendor Mon–Sat 6:00–10:00 = { days: [1, 2, 3, 4, 5, 6], start: "06:00", end: "10:00" }
+export interface ObstacleTimeWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"; earlier than start = runs past midnight
 }
 
 // Philippine street reality obstacle types
@@ -58,6 +151,21 @@ export type ObstacleType =
   | "steep_slope"
   | "other";
 
+// Map obstacle filters (persisted on device). Empty lists mean "all".
+export type ObstacleFilterStatus =
+  | "pending"
+  | "verified"
+  | "resolved"
+  | "false_report";
+
+export interface ObstacleFilters {
+  types: ObstacleType[];
+  severities: AccessibilityObstacle["severity"][];
+  statuses: ObstacleFilterStatus[];
+  adminReportedOnly: boolean;
+  maxAgeDays: number | null; // Reported within N days; null = any age
+}
+
 // Enhanced User Mobility Profile for Option B implementation
 export interface UserMobilityProfile {
   id: string;
@@ -180,6 +288,13 @@ export interface RouteJourney {
   distanceFromDestination: number; // meters
   completionTriggered: boolean;
   feedbackSubmitted: boolean;
+
+  // Breadcrumb trail for GPX export (sampled, not every GPS fix)
+  track?: JourneyTrackPoint[];
+}
+
+export interface JourneyTrackPoint extends UserLocation {
+  timestamp: Date;
 }
 
 export interface RouteSegment {
@@ -218,6 +333,123 @@ export interface WaispathRoute {
   };
 }
 
+// Multi-stop trips: legs longer than maxWalkingDistance end at a rest point
+export interface RestPoint {
+  id: string;
+  name: string;
+  location: UserLocation;
+  kind: "shaded_poi" | "covered_sidewalk" | "bench" | "rest_in_place";
+}
+
+export interface TripStop {
+  name: string;
+  location: UserLocation;
+}
+
+export interface TripLeg {
+  id: string;
+  index: number;
+  from: UserLocation;
+  to: {
+    name: string;
+    location: UserLocation; // Point on the route where the leg ends
+    kind: "destination" | "rest";
+  };
+  restPoint?: RestPoint; // Set when the leg ends at a rest stop
+  polyline: UserLocation[];
+  distance: number; // meters
+  duration: number; // seconds of walking
+  obstacles: AccessibilityObstacle[];
+}
+
+export interface TripPlan {
+  id: string;
+  stops: TripStop[]; // Destinations in visiting order
+  legs: TripLeg[];
+  totalDistance: number; // meters
+  totalDuration: number; // seconds, walking plus planned rests
+  restStopCount: number;
+  maxLegDistance: number; // Limit the legs were split against (meters)
+  createdAt: Date;
+}
+
+// Elevation model: gridded DEM tiles sampled along route polylines
+export interface ElevationTile {
+  id: string;
+  name: string;
+  bounds: { north: number; south: number; east: number; west: number };
+  rows: number;
+  cols: number;
+  elevations: number[]; // meters at cell centers, row-major from the north-west
+  noDataValue?: number;
+  source?: string; // e.g. "IfSAR DTM 5m, NAMRIA"
+}
+
+export interface ElevationSample {
+  location: UserLocation;
+  distance: number; // meters from route start
+  elevation: number | null; // meters; null outside DEM coverage
+}
+
+export interface GradeSegment {
+  start: UserLocation;
+  end: UserLocation;
+  startDistance: number; // meters from route start
+  endDistance: number;
+  grade: number; // percent, positive = uphill in travel direction
+  slopeDegrees: number; // absolute
+  exceedsProfile: boolean; // steeper than the user's maxRampSlope
+}
+
+export interface ElevationProfile {
+  samples: ElevationSample[];
+  segments: GradeSegment[]; // Only where both ends have DEM data
+  minElevation: number;
+  maxElevation: number;
+  totalAscent: number; // meters
+  totalDescent: number; // meters
+  maxSlopeDegrees: number;
+  steepSegmentCount: number;
+  steepDistance: number; // meters of segments over the profile limit
+  coverage: number; // 0-1 share of samples with DEM data
+}
+
+// Flood mode: LGU flood-hazard polygons and PAGASA rainfall warnings
+export type FloodRisk = "low" | "medium" | "high";
+
+export type RainfallAlertLevel = "none" | "yellow" | "orange" | "red";
+
+export interface FloodModeSettings {
+  manualEnabled: boolean; // Turned on by the user
+  rainfallAlert: RainfallAlertLevel; // Local warning set by the user
+}
+
+export interface FloodZone {
+  id: string;
+  name: string;
+  risk: FloodRisk;
+  rings: UserLocation[][]; // Outer boundary first, then holes
+  bounds: { north: number; south: number; east: number; west: number };
+  source?: string; // e.g. "Pasig CDRRMO flood hazard map 2024"
+}
+
+export interface FloodZoneCrossing {
+  zoneId: string;
+  name: string;
+  risk: FloodRisk;
+  meters: number;
+}
+
+export interface RouteFloodAssessment {
+  floodedMeters: number; // Inside flood zones or near recent flooding reports
+  reportMeters: number; // Part of floodedMeters extended from flooding reports
+  blocked: boolean; // Crosses water the user's profile can't pass
+  blockedMeters: number;
+  penalty: number; // Obstacle-equivalents added to the route's count
+  zones: FloodZoneCrossing[];
+  floodReportCount: number;
+}
+
 // AHP (Analytic Hierarchy Process) weights for Philippine context
 export interface AHPWeights {
   traversability: number; // Most important (70%)
@@ -316,6 +548,7 @@ export interface SidewalkData {
   slope: number; // Degrees (default: 0)
   lighting: "good" | "poor" | "none";
   shadeLevel: "covered" | "partial" | "none";
+  sunExposure?: number; // 0-1 direct sun at travel time, scaled by sun height (see sunComfort)
   trafficLevel: "high" | "medium" | "low";
   hasRamp: boolean; // Accessibility feature
   hasHandrails: boolean; // Additional support
@@ -327,6 +560,25 @@ export interface AHPCriteria {
   comfort: number; // 0.1 - Shade, smooth surface, comfort factors?
 }
 
+// Pairwise comparison matrix over [traversability, safety, comfort]
+// Saaty scale: a[i][j] = how much more important criterion i is than j (1/9 - 9)
+export type AHPPairwiseMatrix = number[][];
+
+export interface AHPConsistencyResult {
+  weights: AHPCriteria; // Normalized principal eigenvector
+  lambdaMax: number; // Principal eigenvalue
+  consistencyIndex: number; // CI = (lambdaMax - n) / (n - 1)
+  consistencyRatio: number; // CR = CI / RI, acceptable when <= 0.10
+  isConsistent: boolean;
+}
+
+// Expert judgments for one mobility device type
+export interface AHPProfileJudgment {
+  profileType: UserMobilityProfile["type"];
+  matrix: AHPPairwiseMatrix;
+  source?: string; // e.g. "PT panel, Pasig CHO 2025"
+}
+
 // Enhanced obstacle with AHP analysis
 export interface EnhancedObstacleReport extends CommunityObstacle {
   accessibilityImpact: AccessibilityScore;
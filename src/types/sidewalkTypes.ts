@@ -22,6 +22,7 @@ export interface SidewalkEntity {
     lighting: "good" | "fair" | "poor";
     covered: boolean; // Has roof/shade
     condition: "excellent" | "good" | "fair" | "poor";
+    slope?: number; // degrees, when known (e.g. OSM incline tag)
   };
   estimatedScore: AccessibilityScore;
 }
@@ -72,6 +73,7 @@ export interface SidewalkRouteComparison {
   comparison: {
     timeDifference: number; // seconds (negative = optimized is faster)
     crossingCount: number; // How many street crossings needed
+    crossingTime: number; // seconds spent crossing and waiting for signals
     accessibilityImprovement: number; // Points improved (0-100)
     obstacleReduction: number; // Number of obstacles avoided
     recommendation: string; // Human-readable recommendation
@@ -129,6 +131,45 @@ export type ProcessedSidewalkObstacle = AccessibilityObstacle & {
   sidewalkInfo: SidewalkObstacle["sidewalkInfo"];
 };
 
+// NEW: Walkable graph built from sidewalk polylines and crossings
+export interface PedestrianGraphNode {
+  id: string; // "c_raymundo_north:3" (sidewalk id + vertex index)
+  location: UserLocation;
+  sidewalkId: string;
+}
+
+export interface PedestrianGraphEdge {
+  id: string;
+  from: string; // Node id
+  to: string; // Node id
+  kind: "sidewalk" | "crossing" | "junction"; // junction: ways sharing a vertex
+  sidewalkId?: string; // Set for sidewalk edges
+  crossing?: CrossingPoint; // Set for crossing edges
+  distance: number; // meters
+}
+
+// NEW: One continuous stretch of a path on a single sidewalk
+export interface PedestrianPathLeg {
+  sidewalkId: string;
+  coordinates: UserLocation[];
+  distance: number; // meters
+  estimatedTime: number; // seconds
+  obstacles: EnhancedAccessibilityObstacle[];
+  accessibilityScore: AccessibilityScore;
+  crossingAtEnd?: CrossingPoint; // Crossing taken after this leg
+}
+
+// NEW: Result of a profile-aware shortest-path search over the graph
+export interface PedestrianPath {
+  legs: PedestrianPathLeg[];
+  coordinates: UserLocation[]; // Full polyline, start to end
+  crossings: CrossingPoint[];
+  obstacles: EnhancedAccessibilityObstacle[]; // Obstacles on traversed edges
+  totalDistance: number; // meters
+  totalTime: number; // seconds, including crossing and signal wait
+  totalCost: number; // Weighted cost used by the search
+}
+
 // Helper functions for manual tagging
 export class SidewalkMappingHelper {
   /**
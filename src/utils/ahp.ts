@@ -7,7 +7,40 @@ import type {
   SidewalkData,
   AccessibilityScore,
   CommunityObstacle,
+  AHPPairwiseMatrix,
+  AHPConsistencyResult,
+  AHPProfileJudgment,
 } from "../types";
+import { isObstacleActiveAt } from "./obstacleSchedule";
+import { getDecayWeight, isObstacleExpired } from "./obstacleDecay";
+
+type ProfileType = UserMobilityProfile["type"];
+
+// Criteria order used by every pairwise matrix
+const AHP_CRITERIA_ORDER: (keyof AHPCriteria)[] = [
+  "traversability",
+  "safety",
+  "comfort",
+];
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX: Record<number, number> = {
+  1: 0,
+  2: 0,
+  3: 0.58,
+  4: 0.9,
+  5: 1.12,
+  6: 1.24,
+  7: 1.32,
+  8: 1.41,
+  9: 1.45,
+};
+
+// Saaty's threshold: CR above 10% means the judgments contradict each other
+export const AHP_MAX_CONSISTENCY_RATIO = 0.1;
+
+// Comfort lost on a fully sun-exposed sidewalk with the sun overhead
+const SUN_EXPOSURE_PENALTY = 50;
 
 export class AHPAccessibilityCalculator {
   // Literature-based weights from WHO Accessibility Guidelines +
@@ -18,6 +51,15 @@ export class AHPAccessibilityCalculator {
     comfort: 0.1, // Tertiary - pleasant journey (heat, shade, etc.)
   };
 
+  // Expert-derived weights per mobility device (from pairwise comparisons)
+  private profileWeights: Partial<Record<ProfileType, AHPCriteria>> = {};
+  private profileConsistency: Partial<
+    Record<ProfileType, AHPConsistencyResult>
+  > = {};
+
+  // Weights learned on-device from route feedback (take precedence)
+  private learnedWeights: Partial<Record<ProfileType, AHPCriteria>> = {};
+
   // Philippine-specific obstacle penalties - FIXED to match your existing ObstacleType
   private obstacleBasePenalties: Partial<Record<ObstacleType, number>> = {
     vendor_blocking: 15, // Common in PH, manageable but problematic
@@ -36,11 +78,24 @@ export class AHPAccessibilityCalculator {
 
   /**
    * Main method: Calculate comprehensive accessibility score for a sidewalk segment
+   * atTime: when the user will be on this segment (default: now). Obstacles
+   * whose weekly schedule says they are absent then are not counted, nor are
+   * expired reports; older reports count for less (see obstacleDecay).
    */
   calculateAccessibilityScore(
     sidewalkData: SidewalkData,
-    userProfile: UserMobilityProfile
+    userProfile: UserMobilityProfile,
+    atTime: Date = new Date()
   ): AccessibilityScore {
+    const activeObstacles = sidewalkData.obstacles.filter(
+      (obstacle) =>
+        isObstacleActiveAt(obstacle, atTime) &&
+        !isObstacleExpired(obstacle, atTime)
+    );
+    if (activeObstacles.length !== sidewalkData.obstacles.length) {
+      sidewalkData = { ...sidewalkData, obstacles: activeObstacles };
+    }
+
     // Calculate individual criteria scores
     const traversabilityScore = this.calculateTraversability(
       sidewalkData,
@@ -49,11 +104,12 @@ export class AHPAccessibilityCalculator {
     const safetyScore = this.calculateSafety(sidewalkData);
     const comfortScore = this.calculateComfort(sidewalkData, userProfile);
 
-    // Apply AHP weights to get overall score
+    // Apply AHP weights (device-specific when experts supplied them)
+    const weights = this.getWeights(userProfile.type);
     const overallScore =
-      traversabilityScore * this.weights.traversability +
-      safetyScore * this.weights.safety +
-      comfortScore * this.weights.comfort;
+      traversabilityScore * weights.traversability +
+      safetyScore * weights.safety +
+      comfortScore * weights.comfort;
 
     // User-specific adjustment based on profile preferences
     const userAdjustment = this.calculateUserSpecificAdjustment(
@@ -166,8 +222,12 @@ export class AHPAccessibilityCalculator {
   ): number {
     let score = 100;
 
-    // Shade consideration (critical in hot Philippine climate)
-    if (profile.preferShade) {
+    // Shade consideration (critical in hot Philippine climate). Use the sun
+    // at travel time when known; midday sun on an open sidewalk is worse
+    // than the static "no shade" estimate
+    if (profile.preferShade && data.sunExposure !== undefined) {
+      score -= SUN_EXPOSURE_PENALTY * data.sunExposure;
+    } else if (profile.preferShade) {
       const shadePenalties = {
         none: 40, // Very uncomfortable in heat
         partial: 20, // Some discomfort
@@ -221,10 +281,11 @@ export class AHPAccessibilityCalculator {
       penalty *= 1.5; // Extra penalty for crowd-averse users
     }
 
-    // Time pattern consideration
-    if (this.isObstacleCurrentlyActive(obstacle)) {
-      penalty *= 1.2; // 20% increase if obstacle is active now
-    }
+    // Only obstacles present at the evaluation time reach this point
+    penalty *= 1.2; // 20% increase for an obstacle the user will actually meet
+
+    // Reports nobody has confirmed lately are less likely to still be there
+    penalty *= getDecayWeight(obstacle);
 
     return Math.round(penalty);
   }
@@ -255,7 +316,7 @@ export class AHPAccessibilityCalculator {
       penalty *= 1.5;
     }
 
-    return penalty;
+    return penalty * getDecayWeight(obstacle);
   }
 
   /**
@@ -362,30 +423,6 @@ export class AHPAccessibilityCalculator {
     return widthRequirements[profile.type] || 0.6;
   }
 
-  /**
-   * Check if obstacle is currently active based on time pattern
-   */
-  private isObstacleCurrentlyActive(obstacle: CommunityObstacle): boolean {
-    const now = new Date();
-    const currentHour = now.getHours();
-    const isWeekend = now.getDay() === 0 || now.getDay() === 6;
-
-    switch (obstacle.timePattern) {
-      case "permanent":
-        return true;
-      case "morning":
-        return currentHour >= 6 && currentHour < 10;
-      case "afternoon":
-        return currentHour >= 12 && currentHour < 18;
-      case "evening":
-        return currentHour >= 18 || currentHour < 6;
-      case "weekend":
-        return isWeekend;
-      default:
-        return true; // Assume active if unknown
-    }
-  }
-
   /**
    * Convert numerical score to letter grade for easy understanding
    */
@@ -398,10 +435,130 @@ export class AHPAccessibilityCalculator {
   }
 
   /**
-   * Get weights for academic transparency
+   * Get weights for academic transparency.
+   * With a profile type: learned weights, then expert weights, then defaults.
+   */
+  getWeights(profileType?: ProfileType): AHPCriteria {
+    if (profileType && this.learnedWeights[profileType]) {
+      return { ...this.learnedWeights[profileType]! };
+    }
+    return this.getBaseWeights(profileType);
+  }
+
+  /**
+   * Weights before on-device learning (expert weights or defaults)
    */
-  getWeights(): AHPCriteria {
-    return { ...this.weights };
+  getBaseWeights(profileType?: ProfileType): AHPCriteria {
+    const profileWeights = profileType
+      ? this.profileWeights[profileType]
+      : undefined;
+    return { ...(profileWeights || this.weights) };
+  }
+
+  /**
+   * Install weights learned from route feedback for one device
+   */
+  setLearnedWeights(profileType: ProfileType, weights: AHPCriteria): void {
+    const total = weights.traversability + weights.safety + weights.comfort;
+    if (Math.abs(total - 1.0) > 0.01) {
+      throw new Error(
+        `Learned AHP weights for ${profileType} must sum to 1.0 (got ${total.toFixed(
+          3
+        )})`
+      );
+    }
+    this.learnedWeights[profileType] = { ...weights };
+  }
+
+  /**
+   * Drop learned weights for one device (or all)
+   */
+  clearLearnedWeights(profileType?: ProfileType): void {
+    if (profileType) {
+      delete this.learnedWeights[profileType];
+    } else {
+      this.learnedWeights = {};
+    }
+  }
+
+  /**
+   * Set weights for one mobility device from a pairwise comparison matrix.
+   * Throws if the matrix is malformed or its consistency ratio exceeds 0.10.
+   */
+  setPairwiseComparisons(
+    profileType: ProfileType,
+    matrix: AHPPairwiseMatrix
+  ): AHPConsistencyResult {
+    const result = AHPUtils.analyzePairwiseMatrix(matrix);
+
+    if (!result.isConsistent) {
+      throw new Error(
+        `Inconsistent AHP judgments for ${profileType}: CR = ${result.consistencyRatio.toFixed(
+          3
+        )} (must be <= ${AHP_MAX_CONSISTENCY_RATIO})`
+      );
+    }
+
+    this.profileWeights[profileType] = result.weights;
+    this.profileConsistency[profileType] = result;
+
+    console.log(
+      `⚖️ AHP weights for ${profileType}: T=${result.weights.traversability.toFixed(
+        3
+      )} S=${result.weights.safety.toFixed(
+        3
+      )} C=${result.weights.comfort.toFixed(
+        3
+      )} (CR=${result.consistencyRatio.toFixed(3)})`
+    );
+
+    return result;
+  }
+
+  /**
+   * Apply a batch of expert judgments. Inconsistent ones are rejected
+   * individually so one bad matrix does not discard the rest.
+   */
+  loadProfileJudgments(judgments: AHPProfileJudgment[]): {
+    accepted: ProfileType[];
+    rejected: { profileType: ProfileType; reason: string }[];
+  } {
+    const accepted: ProfileType[] = [];
+    const rejected: { profileType: ProfileType; reason: string }[] = [];
+
+    for (const judgment of judgments) {
+      try {
+        this.setPairwiseComparisons(judgment.profileType, judgment.matrix);
+        accepted.push(judgment.profileType);
+      } catch (error: any) {
+        rejected.push({
+          profileType: judgment.profileType,
+          reason: error.message,
+        });
+      }
+    }
+
+    return { accepted, rejected };
+  }
+
+  /**
+   * Consistency details behind a device's weights (null = using defaults)
+   */
+  getConsistency(profileType: ProfileType): AHPConsistencyResult | null {
+    return this.profileConsistency[profileType] || null;
+  }
+
+  /**
+   * Drop expert weights for one device (or all) and fall back to defaults
+   */
+  clearProfileWeights(profileType?: ProfileType): void {
+    if (profileType) {
+      delete this.profileWeights[profileType];
+      delete this.profileConsistency[profileType];
+    } else {
+      this.profileWeights = {};
+      this.profileConsistency = {};
+    }
   }
 
   /**
@@ -438,6 +595,77 @@ export const AHPUtils = {
     hasHandrails: false,
   }),
 
+  /**
+   * Principal eigenvector priorities and consistency ratio of a pairwise
+   * comparison matrix (rows/columns: traversability, safety, comfort)
+   */
+  analyzePairwiseMatrix: (matrix: AHPPairwiseMatrix): AHPConsistencyResult => {
+    const n = AHP_CRITERIA_ORDER.length;
+
+    if (matrix.length !== n || matrix.some((row) => row.length !== n)) {
+      throw new Error(`AHP matrix must be ${n}x${n}`);
+    }
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        const value = matrix[i][j];
+        if (!(value > 0) || !isFinite(value)) {
+          throw new Error(`AHP matrix entry [${i}][${j}] must be positive`);
+        }
+        if (i === j && Math.abs(value - 1) > 1e-6) {
+          throw new Error(`AHP matrix diagonal [${i}][${i}] must be 1`);
+        }
+        if (Math.abs(value * matrix[j][i] - 1) > 0.01) {
+          throw new Error(
+            `AHP matrix must be reciprocal: [${i}][${j}] x [${j}][${i}] != 1`
+          );
+        }
+      }
+    }
+
+    // Power iteration for the principal eigenvector
+    let vector = new Array(n).fill(1 / n);
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const next = matrix.map((row) =>
+        row.reduce((sum, value, j) => sum + value * vector[j], 0)
+      );
+      const total = next.reduce((sum, value) => sum + value, 0);
+      const normalized = next.map((value) => value / total);
+
+      const delta = normalized.reduce(
+        (max, value, i) => Math.max(max, Math.abs(value - vector[i])),
+        0
+      );
+      vector = normalized;
+      if (delta < 1e-10) break;
+    }
+
+    // lambdaMax = average of (A·w)_i / w_i
+    const weighted = matrix.map((row) =>
+      row.reduce((sum, value, j) => sum + value * vector[j], 0)
+    );
+    const lambdaMax =
+      weighted.reduce((sum, value, i) => sum + value / vector[i], 0) / n;
+
+    const consistencyIndex = n > 1 ? (lambdaMax - n) / (n - 1) : 0;
+    const randomIndex = RANDOM_INDEX[n] || 0;
+    const consistencyRatio =
+      randomIndex > 0 ? Math.max(0, consistencyIndex / randomIndex) : 0;
+
+    const weights = AHP_CRITERIA_ORDER.reduce((acc, criterion, i) => {
+      acc[criterion] = vector[i];
+      return acc;
+    }, {} as AHPCriteria);
+
+    return {
+      weights,
+      lambdaMax,
+      consistencyIndex,
+      consistencyRatio,
+      isConsistent: consistencyRatio <= AHP_MAX_CONSISTENCY_RATIO,
+    };
+  },
+
   validateScore: (score: AccessibilityScore): boolean => {
     return (
       score.overall >= 0 &&
@@ -458,4 +686,7 @@ export type {
   SidewalkData,
   AccessibilityScore,
   CommunityObstacle,
+  AHPPairwiseMatrix,
+  AHPConsistencyResult,
+  AHPProfileJudgment,
 };
@@ -0,0 +1,200 @@
+// src/utils/communityValidation.ts
+// Reputation-weighted community validation. Votes are summed by voter trust
+// and the weighted tally moves a report between pending, verified and
+// false_report. Shared by the Firestore and local backends and by the
+// Cloud Function that settles reputation.
+
+import type { AccessibilityObstacle } from "../types";
+import type { ReputationDelta } from "../services/UserCapabilitiesService";
+
+// Weighted votes needed before the community decides (three average users)
+export const DECISION_WEIGHT = 1.5;
+
+// The winning side must outweigh the other this many times over
+const DECISION_RATIO = 2;
+
+// Dismissing a blocking obstacle takes twice the evidence: wrongly hiding
+// one sends a wheelchair user into a dead end
+const BLOCKING_DISMISS_FACTOR = 2;
+
+export type CommunityStatus = "pending" | "verified" | "false_report";
+
+export interface WeightedTally {
+  weightedUpvotes: number;
+  weightedDownvotes: number;
+}
+
+export interface SettlementParticipants {
+  reportedBy: string;
+  upvotedBy: string[];
+  downvotedBy: string[];
+}
+
+// Reputation credited to each user for one report, keyed by uid
+export type ReputationLedger = Record<string, ReputationDelta>;
+
+// Report fields that decide its reputation credits
+export interface SettlementRecord {
+  status?: string;
+  mergedInto?: string;
+  reportedBy: string;
+  upvotedBy?: string[];
+  downvotedBy?: string[];
+  reputationApplied?: ReputationLedger;
+  reputationSettled?: boolean; // Settled once, before ledgers were kept
+}
+
+/**
+ * Status the weighted tally supports. Falls back to pending when neither
+ * side has enough weight, so a decision can be reversed by later votes.
+ */
+export function decideCommunityStatus(
+  tally: WeightedTally,
+  severity: AccessibilityObstacle["severity"]
+): CommunityStatus {
+  const up = tally.weightedUpvotes;
+  const down = tally.weightedDownvotes;
+
+  if (up >= DECISION_WEIGHT && up >= down * DECISION_RATIO) {
+    return "verified";
+  }
+
+  const dismissWeight =
+    severity === "blocking"
+      ? DECISION_WEIGHT * BLOCKING_DISMISS_FACTOR
+      : DECISION_WEIGHT;
+  if (down >= dismissWeight && down >= up * DECISION_RATIO) {
+    return "false_report";
+  }
+
+  return "pending";
+}
+
+// Report fields a vote reads
+export interface VoteRecord {
+  weightedUpvotes?: number;
+  weightedDownvotes?: number;
+  upvotedBy?: string[];
+  downvotedBy?: string[];
+}
+
+/**
+ * Weighted tally after one more vote. A voter already on either side adds
+ * no weight: a repeat vote, or a changed mind, is not new evidence.
+ */
+export function addWeightedVote(
+  record: VoteRecord,
+  direction: "upvote" | "downvote",
+  uid: string,
+  weight: number
+): WeightedTally {
+  const hasVoted =
+    (record.upvotedBy || []).includes(uid) ||
+    (record.downvotedBy || []).includes(uid);
+  const voteWeight = hasVoted ? 0 : weight;
+
+  return {
+    weightedUpvotes:
+      (record.weightedUpvotes || 0) + (direction === "upvote" ? voteWeight : 0),
+    weightedDownvotes:
+      (record.weightedDownvotes || 0) +
+      (direction === "downvote" ? voteWeight : 0),
+  };
+}
+
+/**
+ * Reputation change per user once a report's outcome is known: whoever
+ * called it right gains an accurate report, whoever called it wrong a
+ * flagged one. The reporter counts as an upvoter. Users found on both
+ * sides (changed their vote) are left alone.
+ */
+export function getSettlementDeltas(
+  outcome: "verified" | "false_report",
+  participants: SettlementParticipants
+): Record<string, ReputationDelta> {
+  const upvoters = new Set([
+    participants.reportedBy,
+    ...participants.upvotedBy,
+  ]);
+  const downvoters = new Set(participants.downvotedBy);
+  const deltas: Record<string, ReputationDelta> = {};
+
+  const credit = (uids: Set<string>, others: Set<string>, right: boolean) => {
+    uids.forEach((uid) => {
+      if (!uid || uid === "anonymous" || others.has(uid)) return;
+      deltas[uid] = {
+        accurateReports: right ? 1 : 0,
+        flaggedReports: right ? 0 : 1,
+      };
+    });
+  };
+
+  credit(upvoters, downvoters, outcome === "verified");
+  credit(downvoters, upvoters, outcome === "false_report");
+
+  return deltas;
+}
+
+/**
+ * Credits a report should carry right now. Verified and resolved reports
+ * were real, false reports weren't; pending, withdrawn and merged ones
+ * carry none (merged votes count on the primary report).
+ */
+export function getReputationTarget(
+  record: SettlementRecord
+): ReputationLedger {
+  if (record.mergedInto) return {};
+
+  const participants = {
+    reportedBy: record.reportedBy,
+    upvotedBy: record.upvotedBy || [],
+    downvotedBy: record.downvotedBy || [],
+  };
+  if (record.status === "verified" || record.status === "resolved") {
+    return getSettlementDeltas("verified", participants);
+  }
+  if (record.status === "false_report") {
+    return getSettlementDeltas("false_report", participants);
+  }
+  return {};
+}
+
+/**
+ * Credits already applied for a report. Reports settled before ledgers
+ * were kept are assumed settled for their current outcome.
+ */
+export function getAppliedReputation(
+  record: SettlementRecord
+): ReputationLedger {
+  if (record.reputationApplied) return record.reputationApplied;
+  return record.reputationSettled ? getReputationTarget(record) : {};
+}
+
+/**
+ * Change per user that turns the applied credits into the target ones.
+ * A reversed decision takes the old credits back and grants the new ones;
+ * users with nothing to change are left out.
+ */
+export function diffReputationLedgers(
+  applied: ReputationLedger,
+  target: ReputationLedger
+): ReputationLedger {
+  const changes: ReputationLedger = {};
+  const uids = new Set([...Object.keys(applied), ...Object.keys(target)]);
+
+  uids.forEach((uid) => {
+    const change = {
+      accurateReports:
+        (target[uid]?.accurateReports || 0) -
+        (applied[uid]?.accurateReports || 0),
+      flaggedReports:
+        (target[uid]?.flaggedReports || 0) -
+        (applied[uid]?.flaggedReports || 0),
+    };
+    if (change.accurateReports !== 0 || change.flaggedReports !== 0) {
+      changes[uid] = change;
+    }
+  });
+
+  return changes;
+}
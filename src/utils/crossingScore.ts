@@ -0,0 +1,151 @@
+// src/utils/crossingScore.ts
+// Scores a street crossing for one mobility profile. Shared by the sidewalk
+// graph router and the route analysis fallback so both agree on which
+// crossings are usable and how long they take.
+
+import type { UserMobilityProfile } from "../types";
+import type { CrossingPoint } from "../types/sidewalkTypes";
+
+export type CrossingRating =
+  CrossingPoint["userTypes"][UserMobilityProfile["type"]];
+
+export interface CrossingAssessment {
+  crossing: CrossingPoint;
+  rating: CrossingRating;
+  passable: boolean; // false = "impossible" for this profile
+  time: number; // seconds, crossing plus average signal wait
+  penalty: number; // meter-equivalents added on top of the time cost
+  score: number; // 0-100, higher is easier for this profile
+  concerns: string[]; // human-readable reasons the crossing is harder
+}
+
+// Extra meter-equivalents added for how hard a crossing is for the user
+const RATING_PENALTY: Record<CrossingRating, number> = {
+  accessible: 0,
+  easy: 0,
+  moderate: 30,
+  difficult: 80,
+  impossible: Infinity,
+};
+
+const RATING_ORDER: CrossingRating[] = [
+  "accessible",
+  "easy",
+  "moderate",
+  "difficult",
+  "impossible",
+];
+
+// Hardest crossing worth an optional detour around obstacles. Wheelchair
+// and walker users only get the easy ones; a hard crossing is worse for
+// them than the obstacle it avoids.
+export const MAX_DETOUR_CROSSING_RATING: Record<
+  UserMobilityProfile["type"],
+  CrossingRating
+> = {
+  wheelchair: "easy",
+  walker: "easy",
+  crutches: "moderate",
+  cane: "moderate",
+  none: "difficult",
+};
+
+const MISSING_RAMP_PENALTY = 40;
+const MISSING_SIGNAL_PENALTY = 20;
+const MISSING_TACTILE_PENALTY = 15;
+const LONG_CROSSING_PENALTY = 20;
+const SAFETY_PENALTY_PER_POINT = 10;
+
+// Longer than this is tiring on crutches or with a walker
+const LONG_CROSSING_SECONDS = 40;
+
+export function getCrossingTime(crossing: CrossingPoint): number {
+  return crossing.accessibility.crossingTime + crossing.accessibility.waitTime;
+}
+
+/**
+ * Rate a crossing against the profile: the per-device rating from the
+ * survey plus the ramp, signal and tactile features that profile relies on
+ */
+export function scoreCrossing(
+  crossing: CrossingPoint,
+  userProfile: UserMobilityProfile
+): CrossingAssessment {
+  const rating = crossing.userTypes[userProfile.type];
+  const time = getCrossingTime(crossing);
+
+  if (rating === "impossible") {
+    return {
+      crossing,
+      rating,
+      passable: false,
+      time,
+      penalty: Infinity,
+      score: 0,
+      concerns: ["Not passable for your mobility device"],
+    };
+  }
+
+  const { accessibility } = crossing;
+  const concerns: string[] = [];
+  let penalty = RATING_PENALTY[rating] ?? 50;
+
+  const needsRamp =
+    userProfile.type === "wheelchair" ||
+    userProfile.type === "walker" ||
+    userProfile.avoidStairs;
+  if (needsRamp && !accessibility.hasRamp) {
+    penalty += MISSING_RAMP_PENALTY;
+    concerns.push("No curb ramp");
+  }
+
+  if (userProfile.type === "cane") {
+    if (!accessibility.hasVisualSignals) {
+      penalty += MISSING_SIGNAL_PENALTY;
+      concerns.push("No pedestrian signals");
+    }
+    if (!accessibility.hasTactileIndicators) {
+      penalty += MISSING_TACTILE_PENALTY;
+      concerns.push("No tactile paving");
+    }
+  }
+
+  if (
+    (userProfile.type === "crutches" || userProfile.type === "walker") &&
+    accessibility.crossingTime > LONG_CROSSING_SECONDS
+  ) {
+    penalty += LONG_CROSSING_PENALTY;
+    concerns.push(`Long crossing (${accessibility.crossingTime}s)`);
+  }
+
+  const safetyPenalty =
+    (5 - accessibility.safetyRating) * SAFETY_PENALTY_PER_POINT;
+  penalty += safetyPenalty;
+  if (accessibility.safetyRating <= 2) {
+    concerns.push("Low safety rating");
+  }
+
+  return {
+    crossing,
+    rating,
+    passable: true,
+    time,
+    penalty,
+    score: Math.max(0, Math.min(100, 100 - penalty)),
+    concerns,
+  };
+}
+
+/**
+ * Whether a crossing is easy enough for this profile to cross by choice
+ */
+export function isAcceptableDetourCrossing(
+  assessment: CrossingAssessment,
+  userProfile: UserMobilityProfile
+): boolean {
+  return (
+    assessment.passable &&
+    RATING_ORDER.indexOf(assessment.rating) <=
+      RATING_ORDER.indexOf(MAX_DETOUR_CROSSING_RATING[userProfile.type])
+  );
+}
@@ -0,0 +1,190 @@
+// src/utils/elevationProfile.ts
+// Elevation and grade along a route from a gridded elevation model (DEM).
+// Bridge approaches and flyover ramps in Pasig are short but steep, so the
+// polyline is resampled at a fixed spacing instead of using its vertices.
+
+import type {
+  ElevationProfile,
+  ElevationSample,
+  ElevationTile,
+  GradeSegment,
+  UserLocation,
+} from "../types";
+import { calculateDistance } from "./mapUtils";
+
+// Dense enough to catch a short ramp, coarse enough to ride over DEM noise
+const DEFAULT_SAMPLE_SPACING_METERS = 15;
+
+export interface ElevationProfileOptions {
+  maxSlopeDegrees: number; // From UserMobilityProfile.maxRampSlope
+  sampleSpacingMeters?: number;
+}
+
+export function gradeToDegrees(gradePercent: number): number {
+  return (Math.atan(Math.abs(gradePercent) / 100) * 180) / Math.PI;
+}
+
+export function degreesToGrade(degrees: number): number {
+  return Math.tan((degrees * Math.PI) / 180) * 100;
+}
+
+export function isInTile(tile: ElevationTile, point: UserLocation): boolean {
+  const { north, south, east, west } = tile.bounds;
+  return (
+    point.latitude <= north &&
+    point.latitude >= south &&
+    point.longitude >= west &&
+    point.longitude <= east
+  );
+}
+
+/**
+ * Bilinear interpolation between the four nearest cell centers. Falls back
+ * to the nearest cell next to no-data cells (e.g. the Pasig River).
+ */
+export function sampleTileElevation(
+  tile: ElevationTile,
+  point: UserLocation
+): number | null {
+  if (!isInTile(tile, point)) return null;
+
+  const { north, south, east, west } = tile.bounds;
+  const x = ((point.longitude - west) / (east - west)) * tile.cols - 0.5;
+  const y = ((north - point.latitude) / (north - south)) * tile.rows - 0.5;
+
+  const x0 = Math.max(0, Math.min(tile.cols - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(tile.rows - 1, Math.floor(y)));
+  const x1 = Math.min(tile.cols - 1, x0 + 1);
+  const y1 = Math.min(tile.rows - 1, y0 + 1);
+  const tx = Math.max(0, Math.min(1, x - x0));
+  const ty = Math.max(0, Math.min(1, y - y0));
+
+  const cell = (col: number, row: number): number | null => {
+    const value = tile.elevations[row * tile.cols + col];
+    return typeof value === "number" &&
+      isFinite(value) &&
+      value !== tile.noDataValue
+      ? value
+      : null;
+  };
+
+  const v00 = cell(x0, y0);
+  const v10 = cell(x1, y0);
+  const v01 = cell(x0, y1);
+  const v11 = cell(x1, y1);
+
+  if (v00 === null || v10 === null || v01 === null || v11 === null) {
+    return cell(tx < 0.5 ? x0 : x1, ty < 0.5 ? y0 : y1);
+  }
+
+  const top = v00 + (v10 - v00) * tx;
+  const bottom = v01 + (v11 - v01) * tx;
+  return top + (bottom - top) * ty;
+}
+
+/**
+ * Points every `spacing` meters along the polyline, always including both ends
+ */
+export function resamplePolyline(
+  polyline: UserLocation[],
+  spacing: number
+): { location: UserLocation; distance: number }[] {
+  if (polyline.length === 0) return [];
+
+  const points = [{ location: polyline[0], distance: 0 }];
+  let travelled = 0;
+  let nextAt = spacing;
+
+  for (let i = 1; i < polyline.length; i++) {
+    const from = polyline[i - 1];
+    const to = polyline[i];
+    const length = calculateDistance(from, to);
+
+    while (length > 0 && nextAt < travelled + length) {
+      const t = (nextAt - travelled) / length;
+      points.push({
+        location: {
+          latitude: from.latitude + (to.latitude - from.latitude) * t,
+          longitude: from.longitude + (to.longitude - from.longitude) * t,
+        },
+        distance: nextAt,
+      });
+      nextAt += spacing;
+    }
+    travelled += length;
+  }
+
+  const last = polyline[polyline.length - 1];
+  if (travelled - points[points.length - 1].distance > 0.5) {
+    points.push({ location: last, distance: travelled });
+  }
+  return points;
+}
+
+/**
+ * Elevation samples and per-segment grades along the route. Segments
+ * steeper than the profile allows, up or down, are flagged.
+ */
+export function buildElevationProfile(
+  polyline: UserLocation[],
+  getElevation: (point: UserLocation) => number | null,
+  options: ElevationProfileOptions
+): ElevationProfile | null {
+  if (polyline.length < 2) return null;
+
+  const spacing = options.sampleSpacingMeters ?? DEFAULT_SAMPLE_SPACING_METERS;
+  const samples: ElevationSample[] = resamplePolyline(polyline, spacing).map(
+    (point) => ({ ...point, elevation: getElevation(point.location) })
+  );
+
+  const segments: GradeSegment[] = [];
+  let totalAscent = 0;
+  let totalDescent = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    const run = b.distance - a.distance;
+    if (a.elevation === null || b.elevation === null || run <= 0) continue;
+
+    const rise = b.elevation - a.elevation;
+    if (rise > 0) totalAscent += rise;
+    else totalDescent -= rise;
+
+    const grade = (rise / run) * 100;
+    const slopeDegrees = gradeToDegrees(grade);
+    segments.push({
+      start: a.location,
+      end: b.location,
+      startDistance: a.distance,
+      endDistance: b.distance,
+      grade: Math.round(grade * 10) / 10,
+      slopeDegrees: Math.round(slopeDegrees * 10) / 10,
+      exceedsProfile: slopeDegrees > options.maxSlopeDegrees,
+    });
+  }
+
+  const elevations = samples
+    .map((sample) => sample.elevation)
+    .filter((elevation): elevation is number => elevation !== null);
+  const steep = segments.filter((segment) => segment.exceedsProfile);
+
+  return {
+    samples,
+    segments,
+    minElevation: elevations.length > 0 ? Math.min(...elevations) : 0,
+    maxElevation: elevations.length > 0 ? Math.max(...elevations) : 0,
+    totalAscent: Math.round(totalAscent * 10) / 10,
+    totalDescent: Math.round(totalDescent * 10) / 10,
+    maxSlopeDegrees: segments.reduce(
+      (max, segment) => Math.max(max, segment.slopeDegrees),
+      0
+    ),
+    steepSegmentCount: steep.length,
+    steepDistance: steep.reduce(
+      (sum, segment) => sum + (segment.endDistance - segment.startDistance),
+      0
+    ),
+    coverage: elevations.length / samples.length,
+  };
+}
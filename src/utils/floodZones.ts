@@ -0,0 +1,273 @@
+// src/utils/floodZones.ts
+// Flood exposure of a route for flood mode. Stretches inside LGU flood-prone
+// zones, or within a block of a recent "flooding" report, are penalized or
+// blocked depending on the user's mobility device.
+
+import type {
+  AccessibilityObstacle,
+  FloodModeSettings,
+  FloodRisk,
+  FloodZone,
+  FloodZoneCrossing,
+  RainfallAlertLevel,
+  RouteFloodAssessment,
+  UserLocation,
+  UserMobilityProfile,
+} from "../types";
+import { resamplePolyline } from "./elevationProfile";
+import { calculateDistance } from "./mapUtils";
+
+export type FloodZoneAction = "penalize" | "block";
+
+// Knee-deep water stops a wheelchair or walker; canes and crutches can
+// still wade through shallow water, slowly
+export const FLOOD_ZONE_POLICY: Record<
+  UserMobilityProfile["type"],
+  Record<FloodRisk, FloodZoneAction>
+> = {
+  wheelchair: { low: "penalize", medium: "block", high: "block" },
+  walker: { low: "penalize", medium: "block", high: "block" },
+  crutches: { low: "penalize", medium: "penalize", high: "block" },
+  cane: { low: "penalize", medium: "penalize", high: "block" },
+  none: { low: "penalize", medium: "penalize", high: "penalize" },
+};
+
+// PAGASA orange and red warnings mean flooding is expected or ongoing
+export const FLOOD_MODE_RAINFALL_ALERTS: RainfallAlertLevel[] = [
+  "orange",
+  "red",
+];
+
+// Every 50 m of flood-prone route counts as one obstacle, times the risk weight
+const METERS_PER_FLOOD_PENALTY = 50;
+const FLOOD_RISK_WEIGHT: Record<FloodRisk, number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+};
+
+// Flooding reports older than this are from a previous downpour
+export const RECENT_FLOOD_REPORT_HOURS = 24;
+// A flooded spot usually means the whole block is under water
+const FLOOD_REPORT_EXTENT_METERS = 100;
+// Same buffer routeAnalysisService uses to match obstacles to a route
+const FLOOD_REPORT_MATCH_METERS = 50;
+const SAMPLE_SPACING_METERS = 10;
+
+const RISK_ORDER: FloodRisk[] = ["low", "medium", "high"];
+
+const REPORT_SEVERITY_RISK: Record<
+  AccessibilityObstacle["severity"],
+  FloodRisk
+> = {
+  low: "low",
+  medium: "medium",
+  high: "high",
+  blocking: "high",
+};
+
+const higherRisk = (a: FloodRisk | null, b: FloodRisk | null) => {
+  if (!a) return b;
+  if (!b) return a;
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+};
+
+export function isFloodModeActive(settings: FloodModeSettings): boolean {
+  return (
+    settings.manualEnabled ||
+    FLOOD_MODE_RAINFALL_ALERTS.includes(settings.rainfallAlert)
+  );
+}
+
+/**
+ * Hazard class from a GeoJSON property. Handles NOAH-style 1/2/3 codes and
+ * "Low"/"Moderate"/"High"/"Very High" labels; null if unrecognized.
+ */
+export function parseFloodRisk(value: unknown): FloodRisk | null {
+  if (typeof value === "number") {
+    if (value >= 3) return "high";
+    if (value >= 2) return "medium";
+    if (value >= 1) return "low";
+    return null;
+  }
+  if (typeof value !== "string") return null;
+
+  const label = value.trim().toLowerCase();
+  if (/^\d+$/.test(label)) return parseFloodRisk(parseInt(label, 10));
+  if (label.includes("high")) return "high";
+  if (label.includes("med") || label.includes("moderate")) return "medium";
+  if (label.includes("low")) return "low";
+  return null;
+}
+
+/**
+ * Bounding box of a ring, used to skip zones far from the route
+ */
+export function getRingBounds(ring: UserLocation[]): FloodZone["bounds"] {
+  return {
+    north: Math.max(...ring.map((point) => point.latitude)),
+    south: Math.min(...ring.map((point) => point.latitude)),
+    east: Math.max(...ring.map((point) => point.longitude)),
+    west: Math.min(...ring.map((point) => point.longitude)),
+  };
+}
+
+// Ray casting; zone sizes are small enough to treat lon/lat as planar
+function isPointInRing(point: UserLocation, ring: UserLocation[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isPointInFloodZone(
+  point: UserLocation,
+  zone: FloodZone
+): boolean {
+  const { north, south, east, west } = zone.bounds;
+  if (
+    point.latitude > north ||
+    point.latitude < south ||
+    point.longitude > east ||
+    point.longitude < west
+  ) {
+    return false;
+  }
+
+  const [outer, ...holes] = zone.rings;
+  return (
+    !!outer &&
+    isPointInRing(point, outer) &&
+    !holes.some((hole) => isPointInRing(point, hole))
+  );
+}
+
+export function isRecentFloodReport(
+  obstacle: AccessibilityObstacle,
+  at: Date = new Date()
+): boolean {
+  if (obstacle.type !== "flooding") return false;
+  if (obstacle.status === "resolved" || obstacle.status === "false_report") {
+    return false;
+  }
+
+  const ageHours =
+    (at.getTime() - new Date(obstacle.reportedAt).getTime()) / 3600000;
+  return ageHours >= 0 && ageHours <= RECENT_FLOOD_REPORT_HOURS;
+}
+
+/**
+ * Meters of the route inside flood zones or next to recent flooding reports,
+ * and whether any of it is water the profile can't pass
+ */
+export function assessRouteFlooding(
+  polyline: UserLocation[],
+  zones: FloodZone[],
+  floodReports: AccessibilityObstacle[],
+  profileType: UserMobilityProfile["type"]
+): RouteFloodAssessment {
+  const assessment: RouteFloodAssessment = {
+    floodedMeters: 0,
+    reportMeters: 0,
+    blocked: false,
+    blockedMeters: 0,
+    penalty: 0,
+    zones: [],
+    floodReportCount: 0,
+  };
+
+  const samples = resamplePolyline(polyline, SAMPLE_SPACING_METERS);
+  if (samples.length < 2) return assessment;
+
+  // Each nearby report floods the route a block either way of its spot
+  const reportStretches: { from: number; to: number; risk: FloodRisk }[] = [];
+  for (const report of floodReports) {
+    let nearest = samples[0];
+    let nearestDistance = Infinity;
+    for (const sample of samples) {
+      const distance = calculateDistance(report.location, sample.location);
+      if (distance < nearestDistance) {
+        nearest = sample;
+        nearestDistance = distance;
+      }
+    }
+    if (nearestDistance > FLOOD_REPORT_MATCH_METERS) continue;
+
+    reportStretches.push({
+      from: nearest.distance - FLOOD_REPORT_EXTENT_METERS,
+      to: nearest.distance + FLOOD_REPORT_EXTENT_METERS,
+      risk: REPORT_SEVERITY_RISK[report.severity],
+    });
+  }
+  assessment.floodReportCount = reportStretches.length;
+
+  const crossings = new Map<string, FloodZoneCrossing>();
+  const policy = FLOOD_ZONE_POLICY[profileType];
+
+  for (let i = 1; i < samples.length; i++) {
+    const length = samples[i].distance - samples[i - 1].distance;
+    const middleDistance = (samples[i].distance + samples[i - 1].distance) / 2;
+    const middle: UserLocation = {
+      latitude:
+        (samples[i].location.latitude + samples[i - 1].location.latitude) / 2,
+      longitude:
+        (samples[i].location.longitude + samples[i - 1].location.longitude) / 2,
+    };
+
+    let zoneRisk: FloodRisk | null = null;
+    for (const zone of zones) {
+      if (!isPointInFloodZone(middle, zone)) continue;
+      zoneRisk = higherRisk(zoneRisk, zone.risk);
+
+      const crossing = crossings.get(zone.id) || {
+        zoneId: zone.id,
+        name: zone.name,
+        risk: zone.risk,
+        meters: 0,
+      };
+      crossing.meters += length;
+      crossings.set(zone.id, crossing);
+    }
+
+    let reportRisk: FloodRisk | null = null;
+    for (const stretch of reportStretches) {
+      if (middleDistance >= stretch.from && middleDistance <= stretch.to) {
+        reportRisk = higherRisk(reportRisk, stretch.risk);
+      }
+    }
+
+    const risk = higherRisk(zoneRisk, reportRisk);
+    if (!risk) continue;
+
+    assessment.floodedMeters += length;
+    if (reportRisk) assessment.reportMeters += length;
+    assessment.penalty +=
+      (length / METERS_PER_FLOOD_PENALTY) * FLOOD_RISK_WEIGHT[risk];
+
+    if (policy[risk] === "block") {
+      assessment.blocked = true;
+      assessment.blockedMeters += length;
+    }
+  }
+
+  assessment.floodedMeters = Math.round(assessment.floodedMeters);
+  assessment.reportMeters = Math.round(assessment.reportMeters);
+  assessment.blockedMeters = Math.round(assessment.blockedMeters);
+  assessment.penalty = Math.ceil(assessment.penalty);
+  assessment.zones = [...crossings.values()]
+    .map((crossing) => ({ ...crossing, meters: Math.round(crossing.meters) }))
+    .sort((a, b) => b.meters - a.meters);
+
+  return assessment;
+}
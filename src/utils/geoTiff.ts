@@ -0,0 +1,297 @@
+// src/utils/geoTiff.ts
+// Minimal GeoTIFF reader for elevation tiles: one band, uncompressed, in
+// EPSG:4326, as written by
+//   gdal_translate -of GTiff -co COMPRESS=NONE pasig.tif pasig_plain.tif
+// Strips and tiles are both read. Compressed files are rejected with a
+// hint instead of decoding them on the phone.
+
+import type { ElevationTile } from "../types";
+
+export type GeoTiffGrid = Pick<
+  ElevationTile,
+  "bounds" | "rows" | "cols" | "elevations" | "noDataValue"
+>;
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+const GEO_KEY_MODEL_TYPE = 1024;
+const GEO_KEY_RASTER_TYPE = 1025;
+const MODEL_TYPE_PROJECTED = 1;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const SAMPLE_FORMAT_UINT = 1;
+const SAMPLE_FORMAT_INT = 2;
+const SAMPLE_FORMAT_FLOAT = 3;
+
+// Bytes per value for the TIFF field types
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+type TagValue = number[] | string;
+
+export function isGeoTiff(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= 4 &&
+    ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[3] === 42))
+  );
+}
+
+function readTags(view: DataView, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  const ifdOffset = view.getUint32(4, little);
+  const count = view.getUint16(ifdOffset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const start =
+      size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+
+    if (type === 2) {
+      let text = "";
+      for (let k = 0; k < valueCount; k++) {
+        const code = view.getUint8(start + k);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text);
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let k = 0; k < valueCount; k++) {
+      const at = start + k * size;
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(view.getUint8(at));
+          break;
+        case 6:
+          values.push(view.getInt8(at));
+          break;
+        case 3:
+          values.push(view.getUint16(at, little));
+          break;
+        case 8:
+          values.push(view.getInt16(at, little));
+          break;
+        case 4:
+          values.push(view.getUint32(at, little));
+          break;
+        case 9:
+          values.push(view.getInt32(at, little));
+          break;
+        case 5:
+          values.push(
+            view.getUint32(at, little) / view.getUint32(at + 4, little)
+          );
+          break;
+        case 10:
+          values.push(
+            view.getInt32(at, little) / view.getInt32(at + 4, little)
+          );
+          break;
+        case 11:
+          values.push(view.getFloat32(at, little));
+          break;
+        case 12:
+          values.push(view.getFloat64(at, little));
+          break;
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+function sampleReader(
+  view: DataView,
+  little: boolean,
+  bits: number,
+  format: number
+): (offset: number) => number {
+  if (format === SAMPLE_FORMAT_FLOAT && bits === 32) {
+    return (offset) => view.getFloat32(offset, little);
+  }
+  if (format === SAMPLE_FORMAT_FLOAT && bits === 64) {
+    return (offset) => view.getFloat64(offset, little);
+  }
+  if (format === SAMPLE_FORMAT_INT) {
+    if (bits === 8) return (offset) => view.getInt8(offset);
+    if (bits === 16) return (offset) => view.getInt16(offset, little);
+    if (bits === 32) return (offset) => view.getInt32(offset, little);
+  }
+  if (format === SAMPLE_FORMAT_UINT) {
+    if (bits === 8) return (offset) => view.getUint8(offset);
+    if (bits === 16) return (offset) => view.getUint16(offset, little);
+    if (bits === 32) return (offset) => view.getUint32(offset, little);
+  }
+  throw new Error(
+    `Unsupported GeoTIFF sample type (${bits}-bit, format ${format})`
+  );
+}
+
+/**
+ * Elevation grid of a GeoTIFF, rows from the north like ESRI ASCII grids
+ */
+export function parseGeoTiff(bytes: Uint8Array): GeoTiffGrid {
+  if (!isGeoTiff(bytes)) {
+    throw new Error("Not a TIFF file (BigTIFF is not supported)");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const tags = readTags(view, little);
+  const first = (tag: number, fallback?: number): number => {
+    const value = tags.get(tag);
+    if (Array.isArray(value) && value.length > 0) return value[0];
+    if (fallback !== undefined) return fallback;
+    throw new Error(`GeoTIFF is missing tag ${tag}`);
+  };
+
+  const cols = first(TAG_IMAGE_WIDTH);
+  const rows = first(TAG_IMAGE_LENGTH);
+  if (first(TAG_COMPRESSION, 1) !== 1) {
+    throw new Error(
+      "Compressed GeoTIFF; re-export with COMPRESS=NONE or as an ESRI ASCII grid"
+    );
+  }
+  if (first(TAG_SAMPLES_PER_PIXEL, 1) !== 1) {
+    throw new Error("GeoTIFF must have a single elevation band");
+  }
+
+  const bits = first(TAG_BITS_PER_SAMPLE, 8);
+  const readSample = sampleReader(
+    view,
+    little,
+    bits,
+    first(TAG_SAMPLE_FORMAT, SAMPLE_FORMAT_UINT)
+  );
+  const bytesPerSample = bits / 8;
+
+  // Georeferencing: pixel size and the model point of one raster position
+  const scale = tags.get(TAG_MODEL_PIXEL_SCALE);
+  const tiepoint = tags.get(TAG_MODEL_TIEPOINT);
+  if (!Array.isArray(scale) || !Array.isArray(tiepoint)) {
+    throw new Error("GeoTIFF has no pixel scale or tiepoint");
+  }
+
+  const geoKeys = new Map<number, number>();
+  const directory = tags.get(TAG_GEO_KEY_DIRECTORY);
+  if (Array.isArray(directory)) {
+    for (let i = 4; i + 3 < directory.length; i += 4) {
+      // Location 0 means the value is stored in the key itself
+      if (directory[i + 1] === 0) geoKeys.set(directory[i], directory[i + 3]);
+    }
+  }
+
+  const [cellWidth, cellHeight] = scale;
+  if (
+    geoKeys.get(GEO_KEY_MODEL_TYPE) === MODEL_TYPE_PROJECTED ||
+    cellWidth >= 1 ||
+    cellHeight >= 1
+  ) {
+    throw new Error("GeoTIFF is not in degrees; reproject to EPSG:4326 first");
+  }
+
+  const [tieColumn, tieRow, , tieX, tieY] = tiepoint;
+  const pixelIsPoint =
+    geoKeys.get(GEO_KEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT;
+  const west =
+    tieX - tieColumn * cellWidth - (pixelIsPoint ? cellWidth / 2 : 0);
+  const north =
+    tieY + tieRow * cellHeight + (pixelIsPoint ? cellHeight / 2 : 0);
+
+  // Strips are whole rows; tiles are blocks padded at the right and bottom.
+  // Cells no strip or tile covers stay NaN, which sampling treats as no data.
+  const elevations = new Array<number>(rows * cols).fill(NaN);
+  const tileOffsets = tags.get(TAG_TILE_OFFSETS);
+
+  if (Array.isArray(tileOffsets)) {
+    const tileWidth = first(TAG_TILE_WIDTH);
+    const tileHeight = first(TAG_TILE_LENGTH);
+    const tilesAcross = Math.ceil(cols / tileWidth);
+
+    tileOffsets.forEach((offset, tileIndex) => {
+      const tileColumn = (tileIndex % tilesAcross) * tileWidth;
+      const tileRow = Math.floor(tileIndex / tilesAcross) * tileHeight;
+
+      for (let y = 0; y < tileHeight && tileRow + y < rows; y++) {
+        for (let x = 0; x < tileWidth && tileColumn + x < cols; x++) {
+          elevations[(tileRow + y) * cols + tileColumn + x] = readSample(
+            offset + (y * tileWidth + x) * bytesPerSample
+          );
+        }
+      }
+    });
+  } else {
+    const stripOffsets = tags.get(TAG_STRIP_OFFSETS);
+    if (!Array.isArray(stripOffsets)) {
+      throw new Error("GeoTIFF has no strip or tile offsets");
+    }
+    const rowsPerStrip = Math.min(first(TAG_ROWS_PER_STRIP, rows), rows);
+
+    stripOffsets.forEach((offset, stripIndex) => {
+      const firstRow = stripIndex * rowsPerStrip;
+      const stripRows = Math.min(rowsPerStrip, rows - firstRow);
+
+      for (let i = 0; i < stripRows * cols; i++) {
+        elevations[firstRow * cols + i] = readSample(
+          offset + i * bytesPerSample
+        );
+      }
+    });
+  }
+
+  const noData = tags.get(TAG_GDAL_NODATA);
+  const noDataValue =
+    typeof noData === "string" && noData.trim() !== ""
+      ? parseFloat(noData)
+      : undefined;
+
+  return {
+    bounds: {
+      north,
+      south: north - rows * cellHeight,
+      east: west + cols * cellWidth,
+      west,
+    },
+    rows,
+    cols,
+    elevations,
+    ...(noDataValue !== undefined && isFinite(noDataValue) && { noDataValue }),
+  };
+}
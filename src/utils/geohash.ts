@@ -0,0 +1,189 @@
+// src/utils/geohash.ts
+// Geohash encoding and cell coverage for bounded obstacle queries
+// Cells are queried as Firestore prefix ranges on the stored `geohash` field
+
+import { UserLocation } from "../types";
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Precision stored on every obstacle document (~4.8m x 4.8m cells)
+export const OBSTACLE_GEOHASH_PRECISION = 9;
+
+/**
+ * Encode a coordinate as a geohash string
+ */
+export function encodeGeohash(
+  latitude: number,
+  longitude: number,
+  precision: number = OBSTACLE_GEOHASH_PRECISION
+): string {
+  let latMin = -90,
+    latMax = 90,
+    lngMin = -180,
+    lngMax = 180;
+  let hash = "";
+  let bit = 0;
+  let charIndex = 0;
+  let evenBit = true; // Longitude first
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (longitude >= mid) {
+        charIndex = charIndex * 2 + 1;
+        lngMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (latitude >= mid) {
+        charIndex = charIndex * 2 + 1;
+        latMin = mid;
+      } else {
+        charIndex = charIndex * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bit === 5) {
+      hash += BASE32.charAt(charIndex);
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Cell size in degrees for a given precision
+ */
+function cellSizeDegrees(precision: number): { lat: number; lng: number } {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    lat: 180 / Math.pow(2, latBits),
+    lng: 360 / Math.pow(2, lngBits),
+  };
+}
+
+/**
+ * All cells of a precision that intersect a lat/lng bounding box
+ */
+function cellsForBox(
+  box: { north: number; south: number; east: number; west: number },
+  precision: number,
+  cells: Set<string> = new Set()
+): Set<string> {
+  const size = cellSizeDegrees(precision);
+
+  // Step through the box at cell resolution, always including the far edges
+  for (let lat = box.south; ; lat += size.lat) {
+    const rowLat = Math.min(lat, box.north);
+    for (let lng = box.west; ; lng += size.lng) {
+      const colLng = Math.min(lng, box.east);
+      cells.add(encodeGeohash(rowLat, colLng, precision));
+      if (colLng >= box.east) break;
+    }
+    if (rowLat >= box.north) break;
+  }
+
+  return cells;
+}
+
+function boxAround(
+  center: UserLocation,
+  radiusKm: number
+): { north: number; south: number; east: number; west: number } {
+  const dLat = radiusKm / 111.32;
+  const dLng =
+    radiusKm /
+    (111.32 * Math.max(0.01, Math.cos((center.latitude * Math.PI) / 180)));
+  return {
+    north: Math.min(90, center.latitude + dLat),
+    south: Math.max(-90, center.latitude - dLat),
+    east: Math.min(180, center.longitude + dLng),
+    west: Math.max(-180, center.longitude - dLng),
+  };
+}
+
+/**
+ * Covering cells for a circle. Picks the finest precision that keeps the
+ * cover within maxCells, so small radii stay cheap and large ones stay bounded.
+ */
+export function geohashCellsForRadius(
+  center: UserLocation,
+  radiusKm: number,
+  maxCells: number = 9
+): string[] {
+  const box = boxAround(center, radiusKm);
+
+  for (
+    let precision = OBSTACLE_GEOHASH_PRECISION;
+    precision >= 1;
+    precision--
+  ) {
+    const size = cellSizeDegrees(precision);
+    const estimate =
+      (Math.ceil((box.north - box.south) / size.lat) + 1) *
+      (Math.ceil((box.east - box.west) / size.lng) + 1);
+    if (estimate > maxCells * 4) continue; // Skip enumerating hopeless levels
+
+    const cells = cellsForBox(box, precision);
+    if (cells.size <= maxCells) {
+      return Array.from(cells);
+    }
+  }
+
+  return [encodeGeohash(center.latitude, center.longitude, 1)];
+}
+
+/**
+ * Covering cells for a buffered polyline (route corridor)
+ */
+export function geohashCellsForCorridor(
+  routePoints: UserLocation[],
+  bufferKm: number,
+  maxCells: number = 30
+): string[] {
+  if (routePoints.length === 0) return [];
+  if (routePoints.length === 1) {
+    return geohashCellsForRadius(routePoints[0], bufferKm, maxCells);
+  }
+
+  // Start around 150m cells (precision 7); go coarser until the cover fits
+  for (let precision = 7; precision >= 1; precision--) {
+    const size = cellSizeDegrees(precision);
+    const stepDegrees = Math.min(size.lat, size.lng) / 2;
+    const cells = new Set<string>();
+
+    for (let i = 0; i < routePoints.length - 1 && cells.size <= maxCells; i++) {
+      const a = routePoints[i];
+      const b = routePoints[i + 1];
+      const span = Math.max(
+        Math.abs(b.latitude - a.latitude),
+        Math.abs(b.longitude - a.longitude)
+      );
+      const steps = Math.max(1, Math.ceil(span / stepDegrees));
+
+      for (let s = 0; s <= steps; s++) {
+        const t = s / steps;
+        const sample = {
+          latitude: a.latitude + (b.latitude - a.latitude) * t,
+          longitude: a.longitude + (b.longitude - a.longitude) * t,
+        };
+        cellsForBox(boxAround(sample, bufferKm), precision, cells);
+      }
+    }
+
+    if (cells.size <= maxCells) {
+      return Array.from(cells);
+    }
+  }
+
+  return [encodeGeohash(routePoints[0].latitude, routePoints[0].longitude, 1)];
+}
@@ -155,3 +155,25 @@ export function formatBearing(bearing: number): string {
   const direction = getCardinalDirection(bearing);
   return `heading ${direction} (${Math.round(bearing)}°)`;
 }
+
+/**
+ * Google step HTML to plain speakable text
+ * @example "Turn <b>left</b> onto <b>Shaw Blvd</b><div>Destination will be on the right</div>"
+ *          -> "Turn left onto Shaw Blvd. Destination will be on the right"
+ */
+export function stripInstructionHtml(html: string): string {
+  return html
+    .replace(/<div[^>]*>/gi, ". ")
+    .replace(/<br\s*\/?>/gi, ". ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .replace(/\s*\.(\s*\.)+/g, ".")
+    .replace(/^\s*\.\s*/, "")
+    .trim();
+}
@@ -0,0 +1,154 @@
+// src/utils/obstacleDecay.ts
+// Time decay for obstacle reports. A report's weight halves every
+// half-life since it was last confirmed (vendors churn in days, stairs stay
+// for years), and unconfirmed reports expire instead of warning forever.
+// Shared by proximity alerts, route scoring and validation prompts.
+
+import type { AccessibilityObstacle, ObstacleType } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until a report counts half as much
+export const OBSTACLE_HALF_LIFE_DAYS: Record<ObstacleType, number> = {
+  parked_vehicles: 1,
+  flooding: 2, // Gone once the rain stops; next typhoon gets new reports
+  vendor_blocking: 3,
+  debris: 7,
+  other: 15,
+  construction: 60,
+  broken_infrastructure: 90,
+  narrow_passage: 90,
+  electrical_post: 365,
+  stairs_no_ramp: 365,
+  no_sidewalk: 365,
+  steep_slope: 365,
+};
+
+// Unconfirmed reports expire after 2 half-lives (30 days for "other"),
+// community-confirmed ones after 4, admin-verified ones after 8. Verified
+// reports expire too: verification says the obstacle was there, not that
+// it still is, and a flood verified last typhoon season must not warn now.
+const UNCONFIRMED_EXPIRY_HALF_LIVES = 2;
+const CONFIRMED_EXPIRY_HALF_LIVES = 4;
+const ADMIN_EXPIRY_HALF_LIVES = 8;
+
+// Old but unexpired reports still count for at least this much
+const MIN_DECAY_WEIGHT = 0.3;
+
+type DecayFields = Pick<
+  AccessibilityObstacle,
+  | "type"
+  | "status"
+  | "verified"
+  | "upvotes"
+  | "reportedAt"
+  | "downvotes"
+  | "lastVerifiedAt"
+  | "lastConfirmedAt"
+  | "reviewedAt"
+>;
+
+// Offline packs and imports hand back ISO strings instead of Dates
+function toTime(value: Date | string | number | undefined | null): number {
+  if (!value) return 0;
+  const time = new Date(value as any).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+// status "verified" alone can be a community decision; the flag is admin-only
+function isAdminVerified(obstacle: DecayFields): boolean {
+  return obstacle.verified === true;
+}
+
+/**
+ * Last time anyone vouched for the obstacle: the report itself, a
+ * community upvote or repeat report, or an admin review. Downvotes never
+ * count, even though they also stamp lastVerifiedAt.
+ */
+export function getLastConfirmedAt(obstacle: DecayFields): Date {
+  let latest = toTime(obstacle.reportedAt);
+  if (obstacle.lastConfirmedAt) {
+    latest = Math.max(latest, toTime(obstacle.lastConfirmedAt));
+  } else if ((obstacle.upvotes || 0) > 0 && !obstacle.downvotes) {
+    // Reports from before lastConfirmedAt: with no downvotes, the last
+    // vote must have been an upvote
+    latest = Math.max(latest, toTime(obstacle.lastVerifiedAt));
+  }
+  if (isAdminVerified(obstacle)) {
+    latest = Math.max(latest, toTime(obstacle.reviewedAt));
+  }
+  return new Date(latest);
+}
+
+/**
+ * 1 when just confirmed, halving every half-life after that
+ */
+export function getObstacleFreshness(
+  obstacle: DecayFields,
+  now: Date = new Date()
+): number {
+  const halfLife = OBSTACLE_HALF_LIFE_DAYS[obstacle.type] ?? 15;
+  const ageDays = Math.max(
+    0,
+    (now.getTime() - getLastConfirmedAt(obstacle).getTime()) / DAY_MS
+  );
+  return Math.pow(0.5, ageDays / halfLife);
+}
+
+/**
+ * When the report stops counting unless someone confirms it again
+ */
+export function getAutoExpireDate(obstacle: DecayFields): Date {
+  const halfLife = OBSTACLE_HALF_LIFE_DAYS[obstacle.type] ?? 15;
+  const halfLives = isAdminVerified(obstacle)
+    ? ADMIN_EXPIRY_HALF_LIVES
+    : (obstacle.upvotes || 0) > 0
+    ? CONFIRMED_EXPIRY_HALF_LIVES
+    : UNCONFIRMED_EXPIRY_HALF_LIVES;
+
+  return new Date(
+    getLastConfirmedAt(obstacle).getTime() + halfLife * halfLives * DAY_MS
+  );
+}
+
+export function isObstacleExpired(
+  obstacle: DecayFields,
+  now: Date = new Date()
+): boolean {
+  if (obstacle.status === "expired") return true;
+  // Closed reports are already out of the way
+  if (obstacle.status === "resolved" || obstacle.status === "false_report") {
+    return false;
+  }
+
+  return now.getTime() > getAutoExpireDate(obstacle).getTime();
+}
+
+/**
+ * Multiplier for penalties and alert urgency: 0 once expired, otherwise
+ * between MIN_DECAY_WEIGHT and 1 depending on freshness
+ */
+export function getDecayWeight(
+  obstacle: DecayFields,
+  now: Date = new Date()
+): number {
+  if (isObstacleExpired(obstacle, now)) return 0;
+  return (
+    MIN_DECAY_WEIGHT +
+    (1 - MIN_DECAY_WEIGHT) * getObstacleFreshness(obstacle, now)
+  );
+}
+
+/**
+ * Reads mark stale open reports as "expired". Derived, not stored, so a
+ * fresh confirmation brings the report back.
+ */
+export function withExpiryStatus<T extends AccessibilityObstacle>(
+  obstacle: T,
+  now: Date = new Date()
+): T {
+  if (obstacle.status !== "expired" && isObstacleExpired(obstacle, now)) {
+    return { ...obstacle, status: "expired" };
+  }
+  return obstacle;
+}
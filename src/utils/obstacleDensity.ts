@@ -0,0 +1,243 @@
+// src/utils/obstacleDensity.ts
+// Hex-bin density of obstacle reports for the map's heatmap layer. Each
+// report counts by severity times how much we trust it (community/admin
+// confirmation and time decay), so one fresh blocking report outweighs a
+// handful of stale unconfirmed vendor reports.
+
+import type {
+  AccessibilityObstacle,
+  ObstacleType,
+  UserLocation,
+} from "../types";
+import { getDecayWeight } from "./obstacleDecay";
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// How much a report of each severity adds to its cell
+export const SEVERITY_DENSITY_WEIGHT: Record<
+  AccessibilityObstacle["severity"],
+  number
+> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  blocking: 5,
+};
+
+// Trust in a report before time decay
+const ADMIN_VERIFIED_CONFIDENCE = 1;
+const COMMUNITY_VERIFIED_CONFIDENCE = 0.8;
+const UNCONFIRMED_CONFIDENCE = 0.5;
+
+// Closed reports are not barriers anymore
+const EXCLUDED_STATUSES: AccessibilityObstacle["status"][] = [
+  "resolved",
+  "false_report",
+  "withdrawn",
+];
+
+export interface ObstacleDensityBin {
+  id: string; // Axial hex coordinates, stable while the grid is unchanged
+  center: UserLocation;
+  vertices: UserLocation[];
+  weight: number;
+  count: number;
+  intensity: number; // 0-1, relative to the heaviest bin
+  dominantType: ObstacleType;
+}
+
+export interface DensityOptions {
+  hexRadiusMeters: number; // Center to corner
+  now?: Date;
+}
+
+/**
+ * Severity weight scaled by confirmation and decay; 0 for closed, merged
+ * and expired reports
+ */
+export function getObstacleDensityWeight(
+  obstacle: AccessibilityObstacle,
+  now: Date = new Date()
+): number {
+  if (obstacle.mergedInto) return 0;
+  if (EXCLUDED_STATUSES.includes(obstacle.status)) return 0;
+
+  const confidence = obstacle.verified
+    ? ADMIN_VERIFIED_CONFIDENCE
+    : obstacle.status === "verified"
+    ? COMMUNITY_VERIFIED_CONFIDENCE
+    : UNCONFIRMED_CONFIDENCE;
+
+  return (
+    (SEVERITY_DENSITY_WEIGHT[obstacle.severity] ?? 1) *
+    confidence *
+    getDecayWeight(obstacle, now)
+  );
+}
+
+/**
+ * Pointy-top hex grid on a flat projection. The reference latitude is
+ * rounded to a whole degree so cells stay put as the map pans.
+ */
+class HexGrid {
+  private metersPerDegreeLng: number;
+
+  constructor(private radiusMeters: number, referenceLatitude: number) {
+    this.metersPerDegreeLng =
+      METERS_PER_DEGREE_LAT *
+      Math.cos((Math.round(referenceLatitude) * Math.PI) / 180);
+  }
+
+  cellFor(location: UserLocation): { q: number; r: number } {
+    const x = location.longitude * this.metersPerDegreeLng;
+    const y = location.latitude * METERS_PER_DEGREE_LAT;
+
+    const q = ((Math.sqrt(3) / 3) * x - y / 3) / this.radiusMeters;
+    const r = ((2 / 3) * y) / this.radiusMeters;
+    return this.roundCell(q, r);
+  }
+
+  centerOf(q: number, r: number): UserLocation {
+    const x = this.radiusMeters * Math.sqrt(3) * (q + r / 2);
+    const y = this.radiusMeters * 1.5 * r;
+    return {
+      latitude: y / METERS_PER_DEGREE_LAT,
+      longitude: x / this.metersPerDegreeLng,
+    };
+  }
+
+  verticesOf(center: UserLocation): UserLocation[] {
+    const vertices: UserLocation[] = [];
+    for (let corner = 0; corner < 6; corner++) {
+      const angle = ((60 * corner - 30) * Math.PI) / 180;
+      vertices.push({
+        latitude:
+          center.latitude +
+          (this.radiusMeters * Math.sin(angle)) / METERS_PER_DEGREE_LAT,
+        longitude:
+          center.longitude +
+          (this.radiusMeters * Math.cos(angle)) / this.metersPerDegreeLng,
+      });
+    }
+    return vertices;
+  }
+
+  // Cube rounding: round all three coordinates, then fix the one that
+  // moved the most so q + r + s stays 0
+  private roundCell(q: number, r: number): { q: number; r: number } {
+    const s = -q - r;
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(s);
+
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs - s);
+
+    if (dq > dr && dq > ds) {
+      rq = -rr - rs;
+    } else if (dr > ds) {
+      rr = -rq - rs;
+    }
+    return { q: rq, r: rr };
+  }
+}
+
+/**
+ * Bins obstacles into hexes, heaviest first. Bins with no weight (every
+ * report closed or expired) are left out.
+ */
+export function buildObstacleDensityBins(
+  obstacles: AccessibilityObstacle[],
+  options: DensityOptions
+): ObstacleDensityBin[] {
+  const now = options.now ?? new Date();
+  const located = obstacles.filter((obstacle) => obstacle.location);
+  if (located.length === 0) return [];
+
+  const grid = new HexGrid(
+    options.hexRadiusMeters,
+    located[0].location.latitude
+  );
+
+  const cells = new Map<
+    string,
+    {
+      q: number;
+      r: number;
+      weight: number;
+      count: number;
+      typeWeights: Map<ObstacleType, number>;
+    }
+  >();
+
+  for (const obstacle of located) {
+    const weight = getObstacleDensityWeight(obstacle, now);
+    if (weight <= 0) continue;
+
+    const { q, r } = grid.cellFor(obstacle.location);
+    const id = `${q}:${r}`;
+    const cell = cells.get(id) ?? {
+      q,
+      r,
+      weight: 0,
+      count: 0,
+      typeWeights: new Map<ObstacleType, number>(),
+    };
+    cell.weight += weight;
+    cell.count += 1;
+    cell.typeWeights.set(
+      obstacle.type,
+      (cell.typeWeights.get(obstacle.type) || 0) + weight
+    );
+    cells.set(id, cell);
+  }
+
+  const maxWeight = Math.max(
+    0,
+    ...Array.from(cells.values()).map((c) => c.weight)
+  );
+
+  return Array.from(cells.entries())
+    .map(([id, cell]) => {
+      const center = grid.centerOf(cell.q, cell.r);
+      const dominantType = Array.from(cell.typeWeights.entries()).sort(
+        (a, b) => b[1] - a[1]
+      )[0][0];
+
+      return {
+        id,
+        center,
+        vertices: grid.verticesOf(center),
+        weight: cell.weight,
+        count: cell.count,
+        intensity: maxWeight > 0 ? cell.weight / maxWeight : 0,
+        dominantType,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// Fixed steps so small zoom changes don't reshuffle the grid
+const HEX_RADIUS_STEPS_METERS = [25, 50, 100, 200, 400];
+
+/**
+ * Hex size that keeps a few dozen cells across the visible map
+ */
+export function getHexRadiusForRegion(latitudeDelta: number): number {
+  const target = (latitudeDelta * METERS_PER_DEGREE_LAT) / 30;
+  return (
+    HEX_RADIUS_STEPS_METERS.find((step) => step >= target) ??
+    HEX_RADIUS_STEPS_METERS[HEX_RADIUS_STEPS_METERS.length - 1]
+  );
+}
+
+/**
+ * Yellow to red fill for a bin's intensity
+ */
+export function getDensityColor(intensity: number, alpha: number): string {
+  const clamped = Math.max(0, Math.min(1, intensity));
+  // Hue 50 (yellow) down to 0 (red)
+  const hue = Math.round(50 * (1 - clamped));
+  return `hsla(${hue}, 90%, 50%, ${alpha})`;
+}
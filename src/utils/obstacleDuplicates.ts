@@ -0,0 +1,153 @@
+// src/utils/obstacleDuplicates.ts
+// Likely-duplicate detection for obstacle reports: same type, a few meters
+// apart, present at overlapping times of the week and vouched for recently.
+// Used at report time ("confirm existing") and by admins when merging
+// duplicates.
+
+import type { AccessibilityObstacle, UserLocation } from "../types";
+import { schedulesOverlap } from "./obstacleSchedule";
+import { getLastConfirmedAt, OBSTACLE_HALF_LIFE_DAYS } from "./obstacleDecay";
+import { calculateDistance } from "./mapUtils";
+
+// A vendor stall or parked car reported from either side of it
+export const DUPLICATE_RADIUS_METERS = 25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DuplicateCandidate {
+  location: UserLocation;
+  type: AccessibilityObstacle["type"];
+  timePattern?: AccessibilityObstacle["timePattern"];
+  schedule?: AccessibilityObstacle["schedule"];
+  reportedAt?: Date; // Existing reports only; a new report is made now
+}
+
+export interface DuplicateMatch {
+  obstacle: AccessibilityObstacle;
+  distanceMeters: number;
+}
+
+// When the candidate was last vouched for: now for a new report, its last
+// confirmation for an existing one (admin merge review)
+function getCandidateTime(candidate: DuplicateCandidate, now: Date): number {
+  return candidate.reportedAt
+    ? getLastConfirmedAt(candidate as AccessibilityObstacle).getTime()
+    : now.getTime();
+}
+
+/**
+ * Were both vouched for within one half-life of each other? A car parked
+ * here last week is a different car; stairs reported last month are the
+ * same stairs.
+ */
+function isRecentMatch(
+  candidateTime: number,
+  obstacle: AccessibilityObstacle
+): boolean {
+  const halfLifeDays = OBSTACLE_HALF_LIFE_DAYS[obstacle.type] ?? 15;
+  const gapMs = Math.abs(
+    candidateTime - getLastConfirmedAt(obstacle).getTime()
+  );
+  return gapMs <= halfLifeDays * DAY_MS;
+}
+
+/**
+ * Closed (resolved/false/withdrawn) and already-merged reports never match.
+ */
+export function findDuplicateObstacles(
+  candidate: DuplicateCandidate,
+  existing: AccessibilityObstacle[],
+  radiusMeters: number = DUPLICATE_RADIUS_METERS,
+  now: Date = new Date()
+): DuplicateMatch[] {
+  const candidateTime = getCandidateTime(candidate, now);
+
+  return existing
+    .filter(
+      (obstacle) =>
+        obstacle.location &&
+        obstacle.type === candidate.type &&
+        !obstacle.mergedInto &&
+        obstacle.status !== "withdrawn" &&
+        obstacle.status !== "resolved" &&
+        obstacle.status !== "false_report" &&
+        isRecentMatch(candidateTime, obstacle)
+    )
+    .map((obstacle) => ({
+      obstacle,
+      distanceMeters: calculateDistance(candidate.location, obstacle.location),
+    }))
+    .filter(
+      (match) =>
+        match.distanceMeters <= radiusMeters &&
+        schedulesOverlap(candidate, match.obstacle)
+    )
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+export interface MergeableVotes {
+  upvotes?: number;
+  downvotes?: number;
+  weightedUpvotes?: number;
+  weightedDownvotes?: number;
+  reportsCount?: number;
+  upvotedBy?: string[];
+  downvotedBy?: string[];
+}
+
+export interface MergedVotes {
+  upvotes: number;
+  downvotes: number;
+  weightedUpvotes: number;
+  weightedDownvotes: number;
+  reportsCount: number;
+  upvotedBy: string[];
+  downvotedBy: string[];
+}
+
+/**
+ * Votes and reports of a primary record and its duplicates combined.
+ * Someone who voted on two copies of the same obstacle voted once; votes
+ * from before voter lists were kept can't be told apart and all count.
+ * Weighted tallies are summed, then scaled down by the repeat votes
+ * dropped, at the copies' average vote weight.
+ */
+export function mergeDuplicateVotes(records: MergeableVotes[]): MergedVotes {
+  const upvotedBy = new Set<string>();
+  const downvotedBy = new Set<string>();
+  let unattributedUpvotes = 0;
+  let unattributedDownvotes = 0;
+  let reportsCount = 0;
+  let rawUpvotes = 0;
+  let rawDownvotes = 0;
+  let weightedUpvotes = 0;
+  let weightedDownvotes = 0;
+
+  records.forEach((record) => {
+    const up = record.upvotedBy || [];
+    const down = record.downvotedBy || [];
+    up.forEach((uid) => upvotedBy.add(uid));
+    down.forEach((uid) => downvotedBy.add(uid));
+    unattributedUpvotes += Math.max(0, (record.upvotes || 0) - up.length);
+    unattributedDownvotes += Math.max(0, (record.downvotes || 0) - down.length);
+    reportsCount += record.reportsCount || 1;
+    rawUpvotes += Math.max(record.upvotes || 0, up.length);
+    rawDownvotes += Math.max(record.downvotes || 0, down.length);
+    weightedUpvotes += record.weightedUpvotes || 0;
+    weightedDownvotes += record.weightedDownvotes || 0;
+  });
+
+  const upvotes = upvotedBy.size + unattributedUpvotes;
+  const downvotes = downvotedBy.size + unattributedDownvotes;
+  return {
+    upvotes,
+    downvotes,
+    weightedUpvotes: rawUpvotes ? (weightedUpvotes * upvotes) / rawUpvotes : 0,
+    weightedDownvotes: rawDownvotes
+      ? (weightedDownvotes * downvotes) / rawDownvotes
+      : 0,
+    reportsCount,
+    upvotedBy: [...upvotedBy],
+    downvotedBy: [...downvotedBy],
+  };
+}
@@ -0,0 +1,137 @@
+// src/utils/obstacleFilters.ts
+// User-chosen map filters for obstacles. The same predicate drives the
+// markers, the heatmap and proximity alerts, so a hidden obstacle is not
+// announced either.
+
+import type {
+  AccessibilityObstacle,
+  ObstacleFilters,
+  ObstacleFilterStatus,
+  ObstacleType,
+} from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_OBSTACLE_FILTERS: ObstacleFilters = {
+  types: [],
+  severities: [],
+  statuses: [],
+  adminReportedOnly: false,
+  maxAgeDays: null,
+};
+
+// Short labels for filter chips and map summaries
+export const OBSTACLE_TYPE_SHORT_LABELS: Record<ObstacleType, string> = {
+  vendor_blocking: "Vendors",
+  parked_vehicles: "Parked Vehicles",
+  construction: "Construction",
+  electrical_post: "Posts",
+  flooding: "Flooding",
+  broken_infrastructure: "Broken Infra",
+  debris: "Debris",
+  no_sidewalk: "No Sidewalk",
+  stairs_no_ramp: "Stairs",
+  narrow_passage: "Narrow",
+  steep_slope: "Steep",
+  other: "Other",
+};
+
+export const FILTER_OBSTACLE_TYPES = Object.keys(
+  OBSTACLE_TYPE_SHORT_LABELS
+) as ObstacleType[];
+
+// Choices offered for "reported within"
+export const MAX_AGE_OPTIONS_DAYS = [1, 7, 30, 90];
+
+export const FILTER_STATUSES: ObstacleFilterStatus[] = [
+  "pending",
+  "verified",
+  "resolved",
+  "false_report",
+];
+
+export const FILTER_SEVERITIES: AccessibilityObstacle["severity"][] = [
+  "low",
+  "medium",
+  "high",
+  "blocking",
+];
+
+/**
+ * True when the obstacle passes every active filter. Derived statuses
+ * (expired) only pass when no status filter is set.
+ */
+export function matchesObstacleFilters(
+  obstacle: AccessibilityObstacle,
+  filters: ObstacleFilters,
+  now: Date = new Date()
+): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(obstacle.type)) {
+    return false;
+  }
+  if (
+    filters.severities.length > 0 &&
+    !filters.severities.includes(obstacle.severity)
+  ) {
+    return false;
+  }
+  if (
+    filters.statuses.length > 0 &&
+    !filters.statuses.includes(
+      (obstacle.status || "pending") as ObstacleFilterStatus
+    )
+  ) {
+    return false;
+  }
+  if (filters.adminReportedOnly && !obstacle.adminReported) {
+    return false;
+  }
+  if (filters.maxAgeDays !== null) {
+    const reportedAt = new Date(obstacle.reportedAt as any).getTime();
+    if (
+      isNaN(reportedAt) ||
+      now.getTime() - reportedAt > filters.maxAgeDays * DAY_MS
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function countActiveFilters(filters: ObstacleFilters): number {
+  return (
+    (filters.types.length > 0 ? 1 : 0) +
+    (filters.severities.length > 0 ? 1 : 0) +
+    (filters.statuses.length > 0 ? 1 : 0) +
+    (filters.adminReportedOnly ? 1 : 0) +
+    (filters.maxAgeDays !== null ? 1 : 0)
+  );
+}
+
+// Stored values this version still knows
+function pickKnown<T>(values: unknown, allowed: T[]): T[] {
+  return Array.isArray(values)
+    ? values.filter((value): value is T => allowed.includes(value as T))
+    : [];
+}
+
+/**
+ * Filters read back from storage, dropping anything this version of the
+ * app doesn't know (e.g. a removed obstacle type)
+ */
+export function normalizeObstacleFilters(stored: any): ObstacleFilters {
+  if (!stored || typeof stored !== "object") {
+    return DEFAULT_OBSTACLE_FILTERS;
+  }
+
+  return {
+    types: pickKnown(stored.types, FILTER_OBSTACLE_TYPES),
+    severities: pickKnown(stored.severities, FILTER_SEVERITIES),
+    statuses: pickKnown(stored.statuses, FILTER_STATUSES),
+    adminReportedOnly: stored.adminReportedOnly === true,
+    maxAgeDays:
+      typeof stored.maxAgeDays === "number" && stored.maxAgeDays > 0
+        ? stored.maxAgeDays
+        : null,
+  };
+}
@@ -0,0 +1,145 @@
+// src/utils/obstacleSchedule.ts
+// Weekly time windows for time-dependent obstacles (vendors, school traffic, etc.)
+// Shared by AHP scoring and route analysis so both agree on what is "active"
+
+import type { AccessibilityObstacle, ObstacleTimeWindow } from "../types";
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// Legacy coarse patterns expressed as weekly windows
+const TIME_PATTERN_WINDOWS: Record<
+  NonNullable<AccessibilityObstacle["timePattern"]>,
+  ObstacleTimeWindow[] | null
+> = {
+  permanent: null,
+  morning: [{ days: ALL_DAYS, start: "06:00", end: "10:00" }],
+  afternoon: [{ days: ALL_DAYS, start: "12:00", end: "18:00" }],
+  evening: [{ days: ALL_DAYS, start: "18:00", end: "06:00" }],
+  weekend: [{ days: [0, 6], start: "00:00", end: "24:00" }],
+};
+
+/**
+ * "HH:MM" to minutes after midnight ("24:00" = 1440)
+ */
+export function parseTimeOfDay(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    throw new Error(`Invalid time of day: "${time}" (expected HH:MM)`);
+  }
+
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  if (minutes > 24 * 60 || parseInt(match[2], 10) >= 60) {
+    throw new Error(`Invalid time of day: "${time}"`);
+  }
+  return minutes;
+}
+
+/**
+ * Throws if a window cannot be evaluated (bad days or times)
+ */
+export function validateTimeWindow(window: ObstacleTimeWindow): void {
+  if (
+    !Array.isArray(window.days) ||
+    window.days.length === 0 ||
+    window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    throw new Error("Time window days must be 0 (Sunday) to 6 (Saturday)");
+  }
+  parseTimeOfDay(window.start);
+  parseTimeOfDay(window.end);
+}
+
+/**
+ * Weekly windows for an obstacle, or null if it is always present
+ */
+export function getObstacleSchedule(
+  obstacle: Pick<AccessibilityObstacle, "schedule" | "timePattern">
+): ObstacleTimeWindow[] | null {
+  if (obstacle.schedule && obstacle.schedule.length > 0) {
+    return obstacle.schedule;
+  }
+  if (!obstacle.timePattern) return null;
+
+  return TIME_PATTERN_WINDOWS[obstacle.timePattern] ?? null;
+}
+
+/**
+ * Is the obstacle present at the given moment?
+ */
+export function isObstacleActiveAt(
+  obstacle: Pick<AccessibilityObstacle, "schedule" | "timePattern">,
+  time: Date = new Date()
+): boolean {
+  const windows = getObstacleSchedule(obstacle);
+  if (!windows) return true;
+
+  const day = time.getDay();
+  const previousDay = (day + 6) % 7;
+  const minute = time.getHours() * 60 + time.getMinutes();
+
+  return windows.some((window) => {
+    let start: number;
+    let end: number;
+    try {
+      validateTimeWindow(window);
+      start = parseTimeOfDay(window.start);
+      end = parseTimeOfDay(window.end);
+    } catch {
+      return true; // Unreadable window: assume present rather than hide it
+    }
+
+    if (start <= end) {
+      return window.days.includes(day) && minute >= start && minute < end;
+    }
+
+    // Overnight window: evening part on its own day, early part on the next
+    return (
+      (window.days.includes(day) && minute >= start) ||
+      (window.days.includes(previousDay) && minute < end)
+    );
+  });
+}
+
+// Minutes since Sunday 00:00 covered by one window, split at the week boundary
+function weeklyIntervals(window: ObstacleTimeWindow): [number, number][] {
+  validateTimeWindow(window);
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  const intervals: [number, number][] = [];
+
+  window.days.forEach((day) => {
+    const dayStart = day * 24 * 60;
+    if (start <= end) {
+      intervals.push([dayStart + start, dayStart + end]);
+    } else {
+      // Overnight: evening part on its own day, early part on the next
+      intervals.push([dayStart + start, dayStart + 24 * 60]);
+      const nextDayStart = ((day + 1) % 7) * 24 * 60;
+      intervals.push([nextDayStart, nextDayStart + end]);
+    }
+  });
+  return intervals;
+}
+
+/**
+ * Could the two obstacles be present at the same time in some week?
+ * An always-present obstacle overlaps everything.
+ */
+export function schedulesOverlap(
+  a: Pick<AccessibilityObstacle, "schedule" | "timePattern">,
+  b: Pick<AccessibilityObstacle, "schedule" | "timePattern">
+): boolean {
+  const windowsA = getObstacleSchedule(a);
+  const windowsB = getObstacleSchedule(b);
+  if (!windowsA || !windowsB) return true;
+
+  try {
+    const intervalsA = windowsA.flatMap(weeklyIntervals);
+    const intervalsB = windowsB.flatMap(weeklyIntervals);
+    return intervalsA.some(([startA, endA]) =>
+      intervalsB.some(([startB, endB]) => startA < endB && startB < endA)
+    );
+  } catch {
+    return true; // Unreadable window: same stance as isObstacleActiveAt
+  }
+}
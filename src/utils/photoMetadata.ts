@@ -0,0 +1,393 @@
+// src/utils/photoMetadata.ts
+// JPEG metadata for report photos: read the EXIF GPS position and capture
+// time on device, compare them with the reported obstacle, and strip every
+// metadata segment before a photo leaves the phone. Pure JS over base64 so
+// it works the same for camera shots, gallery picks and the local backend.
+
+import type {
+  PhotoCaptureInfo,
+  PhotoLocationCheck,
+  UserLocation,
+} from "../types";
+import { calculateDistance } from "./mapUtils";
+
+// Farther than this from the report and the photo was probably taken
+// somewhere else (phone GPS is good to a few tens of meters outdoors)
+export const PHOTO_LOCATION_MISMATCH_METERS = 150;
+
+// Photos older than this when reported are likely from the gallery
+export const PHOTO_MAX_AGE_HOURS = 24;
+
+const BASE64_CHARS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_CHARS.indexOf(clean[i]);
+    const b = BASE64_CHARS.indexOf(clean[i + 1]);
+    const c = i + 2 < clean.length ? BASE64_CHARS.indexOf(clean[i + 2]) : 0;
+    const d = i + 3 < clean.length ? BASE64_CHARS.indexOf(clean[i + 3]) : 0;
+    const chunk = (a << 18) | (b << 12) | (c << 6) | d;
+
+    bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    if (i + 2 < clean.length) bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    if (i + 3 < clean.length) bytes[byteIndex++] = chunk & 0xff;
+  }
+
+  return bytes.subarray(0, byteIndex);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk =
+      (bytes[i] << 16) |
+      ((i + 1 < bytes.length ? bytes[i + 1] : 0) << 8) |
+      (i + 2 < bytes.length ? bytes[i + 2] : 0);
+
+    output += BASE64_CHARS[(chunk >> 18) & 0x3f];
+    output += BASE64_CHARS[(chunk >> 12) & 0x3f];
+    output += i + 1 < bytes.length ? BASE64_CHARS[(chunk >> 6) & 0x3f] : "=";
+    output += i + 2 < bytes.length ? BASE64_CHARS[chunk & 0x3f] : "=";
+  }
+  return output;
+}
+
+// ================================================
+// EXIF READING
+// ================================================
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LON_REF = 0x0003;
+const TAG_GPS_LON = 0x0004;
+
+// Bytes per value for the TIFF types EXIF uses
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+class TiffReader {
+  constructor(
+    private bytes: Uint8Array,
+    private start: number,
+    private littleEndian: boolean
+  ) {}
+
+  uint16(offset: number): number {
+    const p = this.start + offset;
+    return this.littleEndian
+      ? this.bytes[p] | (this.bytes[p + 1] << 8)
+      : (this.bytes[p] << 8) | this.bytes[p + 1];
+  }
+
+  uint32(offset: number): number {
+    const p = this.start + offset;
+    return this.littleEndian
+      ? (this.bytes[p] |
+          (this.bytes[p + 1] << 8) |
+          (this.bytes[p + 2] << 16) |
+          (this.bytes[p + 3] << 24)) >>>
+          0
+      : ((this.bytes[p] << 24) |
+          (this.bytes[p + 1] << 16) |
+          (this.bytes[p + 2] << 8) |
+          this.bytes[p + 3]) >>>
+          0;
+  }
+
+  inBounds(offset: number, length: number): boolean {
+    return offset >= 0 && this.start + offset + length <= this.bytes.length;
+  }
+
+  /**
+   * Tag → offset of its value (inline or pointed to) plus type and count
+   */
+  readIfd(
+    offset: number
+  ): Map<number, { type: number; count: number; valueOffset: number }> {
+    const entries = new Map();
+    if (!this.inBounds(offset, 2)) return entries;
+
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (!this.inBounds(entry, 12)) break;
+
+      const type = this.uint16(entry + 2);
+      const valueCount = this.uint32(entry + 4);
+      const size = (TYPE_SIZES[type] || 1) * valueCount;
+      entries.set(this.uint16(entry), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entry + 8 : this.uint32(entry + 8),
+      });
+    }
+    return entries;
+  }
+
+  ascii(offset: number, count: number): string {
+    if (!this.inBounds(offset, count)) return "";
+    let text = "";
+    for (let i = 0; i < count; i++) {
+      const code = this.bytes[this.start + offset + i];
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  }
+
+  rationals(offset: number, count: number): number[] {
+    if (!this.inBounds(offset, count * 8)) return [];
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const denominator = this.uint32(offset + i * 8 + 4);
+      values.push(
+        denominator ? this.uint32(offset + i * 8) / denominator : Number.NaN
+      );
+    }
+    return values;
+  }
+}
+
+// Find the TIFF block inside the APP1 "Exif" segment
+function findExifTiff(bytes: Uint8Array): TiffReader | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null; // Not a JPEG
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xda) break; // Image data starts; no EXIF after this
+
+    const isExif =
+      marker === 0xe1 &&
+      bytes[offset + 4] === 0x45 && // "Exif\0\0"
+      bytes[offset + 5] === 0x78 &&
+      bytes[offset + 6] === 0x69 &&
+      bytes[offset + 7] === 0x66;
+    if (isExif) {
+      const tiffStart = offset + 10;
+      const littleEndian = bytes[tiffStart] === 0x49; // "II"
+      return new TiffReader(bytes, tiffStart, littleEndian);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time, with an
+// optional "+08:00" offset tag on newer phones
+function parseExifDate(value: string, offset?: string): Date | undefined {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const offsetMatch = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+
+  const date = offsetMatch
+    ? new Date(
+        Date.UTC(year, month - 1, day, hour, minute, second) -
+          (offsetMatch[1] === "-" ? -1 : 1) *
+            (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3])) *
+            60000
+      )
+    : new Date(year, month - 1, day, hour, minute, second);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toDecimalDegrees(dms: number[], ref: string): number | undefined {
+  if (dms.length < 3 || dms.some((v) => isNaN(v))) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+/**
+ * GPS position and capture time from a JPEG's EXIF. Missing or unreadable
+ * fields are left out; never throws on odd files.
+ */
+export function readPhotoCaptureInfo(base64: string): PhotoCaptureInfo {
+  try {
+    const tiff = findExifTiff(base64ToBytes(base64));
+    if (!tiff || tiff.uint16(2) !== 42) return {};
+
+    const info: PhotoCaptureInfo = {};
+    const ifd0 = tiff.readIfd(tiff.uint32(4));
+
+    // Capture time: DateTimeOriginal, else the file's DateTime
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const exifIfd = exifPointer
+      ? tiff.readIfd(tiff.uint32(exifPointer.valueOffset))
+      : new Map();
+    const original = exifIfd.get(TAG_DATETIME_ORIGINAL);
+    const offsetTag = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+    const dateTag = original || ifd0.get(TAG_DATETIME);
+    if (dateTag) {
+      info.takenAt = parseExifDate(
+        tiff.ascii(dateTag.valueOffset, dateTag.count),
+        original && offsetTag
+          ? tiff.ascii(offsetTag.valueOffset, offsetTag.count)
+          : undefined
+      );
+    }
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    if (gpsPointer) {
+      const gps = tiff.readIfd(tiff.uint32(gpsPointer.valueOffset));
+      const lat = gps.get(TAG_GPS_LAT);
+      const lon = gps.get(TAG_GPS_LON);
+      const latRef = gps.get(TAG_GPS_LAT_REF);
+      const lonRef = gps.get(TAG_GPS_LON_REF);
+
+      if (lat && lon) {
+        const latitude = toDecimalDegrees(
+          tiff.rationals(lat.valueOffset, 3),
+          latRef ? tiff.ascii(latRef.valueOffset, latRef.count) : "N"
+        );
+        const longitude = toDecimalDegrees(
+          tiff.rationals(lon.valueOffset, 3),
+          lonRef ? tiff.ascii(lonRef.valueOffset, lonRef.count) : "E"
+        );
+        // 0,0 is what some phones write when they had no fix
+        if (
+          latitude !== undefined &&
+          longitude !== undefined &&
+          (latitude !== 0 || longitude !== 0)
+        ) {
+          info.location = { latitude, longitude };
+        }
+      }
+    }
+
+    if (!info.takenAt) delete info.takenAt;
+    return info;
+  } catch (error) {
+    console.warn("Could not read photo EXIF:", error);
+    return {};
+  }
+}
+
+// ================================================
+// STRIPPING
+// ================================================
+
+// APP1 holds EXIF (with its GPS block) and XMP; APP13 holds Photoshop/IPTC
+// data, which can carry its own copy of both. APP2 (ICC profile) and APP14
+// (Adobe colour transform) are kept so colours still render correctly.
+const LOCATION_BEARING_MARKERS = [0xe1, 0xed];
+
+/**
+ * Drop the segments that can carry where a photo was taken, keeping the
+ * rest of the file intact. Non-JPEG input is returned unchanged.
+ */
+export function stripJpegMetadata(base64: string): string {
+  const bytes = base64ToBytes(base64);
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return base64;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  let stripped = false;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // Start of scan: copy the rest as-is
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (LOCATION_BEARING_MARKERS.includes(marker)) {
+      stripped = true;
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!stripped) return base64;
+  kept.push(bytes.subarray(offset));
+
+  const output = new Uint8Array(
+    kept.reduce((total, part) => total + part.length, 0)
+  );
+  let position = 0;
+  kept.forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return bytesToBase64(output);
+}
+
+// ================================================
+// LOCATION CHECK
+// ================================================
+
+/**
+ * Compare the report's photos with where and when it was reported. The
+ * farthest geotagged photo and the oldest timestamp decide. Photos without
+ * GPS can't be checked, so a report with none is "unverified", not flagged.
+ */
+export function checkPhotoLocation(
+  captures: PhotoCaptureInfo[],
+  reportLocation: UserLocation,
+  reportedAt: Date
+): PhotoLocationCheck {
+  const distances = captures
+    .filter((capture) => capture.location)
+    .map((capture) => calculateDistance(capture.location!, reportLocation));
+  const ages = captures
+    .filter((capture) => capture.takenAt)
+    .map(
+      (capture) => (reportedAt.getTime() - capture.takenAt!.getTime()) / 3600000
+    );
+
+  const maxDistance = distances.length ? Math.max(...distances) : undefined;
+  const maxAge = ages.length ? Math.max(...ages) : undefined;
+
+  return {
+    status:
+      maxDistance === undefined
+        ? "unverified"
+        : maxDistance > PHOTO_LOCATION_MISMATCH_METERS
+        ? "mismatch"
+        : "match",
+    ...(maxDistance !== undefined && {
+      distanceMeters: Math.round(maxDistance),
+    }),
+    ...(maxAge !== undefined && {
+      hoursBeforeReport: Math.round(maxAge * 10) / 10,
+    }),
+    staleTimestamp: maxAge !== undefined && maxAge > PHOTO_MAX_AGE_HOURS,
+  };
+}
+
+/**
+ * One-line admin note for a report whose photos look out of place
+ */
+export function describePhotoCheck(check?: PhotoLocationCheck): string | null {
+  if (!check) return null;
+
+  const notes: string[] = [];
+  if (check.status === "mismatch") {
+    notes.push(
+      `photo taken ${check.distanceMeters}m from the reported location`
+    );
+  }
+  if (check.staleTimestamp) {
+    notes.push(`photo taken ${check.hoursBeforeReport}h before the report`);
+  }
+  return notes.length ? `⚠️ Photo check: ${notes.join("; ")}` : null;
+}
@@ -0,0 +1,198 @@
+// src/utils/reportRevisions.ts
+// Rules for reporters changing their own reports: who may edit, what an
+// edit does to community validation, and the revision entry it leaves.
+// Shared by the Firestore and local backends.
+
+import type {
+  AccessibilityObstacle,
+  ObstaclePhoto,
+  ReportEdit,
+  ReportRevision,
+  ReportRevisionFields,
+} from "../types";
+
+type ModifiableReport = Pick<
+  AccessibilityObstacle,
+  | "reportedBy"
+  | "status"
+  | "mergedInto"
+  | "type"
+  | "severity"
+  | "description"
+  | "photos"
+  | "photoBase64"
+  | "upvotes"
+  | "downvotes"
+>;
+
+// Edit with new photos already in the photo store
+export type StoredReportEdit = Omit<ReportEdit, "photos"> & {
+  photos?: ObstaclePhoto[];
+};
+
+// Votes judged the old content, so an edit starts validation over
+export const VALIDATION_RESET = {
+  upvotes: 0,
+  downvotes: 0,
+  upvotedBy: [] as string[],
+  downvotedBy: [] as string[],
+  weightedUpvotes: 0,
+  weightedDownvotes: 0,
+};
+
+/**
+ * Throws unless uid reported it and it is still pending (status as stored,
+ * not derived) and not merged into another report
+ */
+export function assertReportModifiable(
+  report: ModifiableReport,
+  uid: string
+): void {
+  if (report.reportedBy !== uid) {
+    throw new Error(
+      "Ang nag-report lang ang puwedeng magbago nito (Only the reporter can change this report)"
+    );
+  }
+  if (report.mergedInto) {
+    throw new Error(
+      "Naisama na ito sa ibang report (This report was merged into another)"
+    );
+  }
+  if ((report.status || "pending") !== "pending") {
+    throw new Error(
+      "Pending reports lang ang puwedeng baguhin (Only pending reports can be changed)"
+    );
+  }
+}
+
+export function getRevisionFields(
+  report: ModifiableReport
+): ReportRevisionFields {
+  return {
+    type: report.type,
+    severity: report.severity,
+    description: report.description,
+    photos: report.photos || [],
+    // Legacy embedded photo, kept so history still shows what was replaced
+    ...(report.photoBase64 && { photoBase64: report.photoBase64 }),
+  };
+}
+
+const photoIds = (fields: ReportRevisionFields) =>
+  [
+    ...(fields.photos || []).map((photo) => photo.id),
+    ...(fields.photoBase64 ? ["embedded"] : []),
+  ].join(",");
+
+const photoCount = (fields: ReportRevisionFields) =>
+  (fields.photos || []).length + (fields.photoBase64 ? 1 : 0);
+
+/**
+ * Report content after the edit. Throws when nothing would change.
+ */
+export function applyReportEdit(
+  before: ReportRevisionFields,
+  edit: StoredReportEdit
+): ReportRevisionFields {
+  const after: ReportRevisionFields = {
+    type: edit.type ?? before.type,
+    severity: edit.severity ?? before.severity,
+    description: edit.description?.trim() || before.description,
+    photos: edit.photos ?? before.photos,
+    // New photos replace the embedded one too
+    ...(!edit.photos &&
+      before.photoBase64 && { photoBase64: before.photoBase64 }),
+  };
+
+  const changed =
+    after.type !== before.type ||
+    after.severity !== before.severity ||
+    after.description !== before.description ||
+    photoIds(after) !== photoIds(before);
+
+  if (!changed) {
+    throw new Error("Walang binago sa report (Nothing to change)");
+  }
+  return after;
+}
+
+export function hasCommunityVotes(report: ModifiableReport): boolean {
+  return (report.upvotes || 0) + (report.downvotes || 0) > 0;
+}
+
+/**
+ * Revision entry for an edit or withdrawal (everything but the stored id)
+ */
+export function buildRevision(params: {
+  obstacleId: string;
+  revision: number;
+  action: ReportRevision["action"];
+  editedBy: string;
+  editedAt: Date;
+  report: ModifiableReport;
+  after: ReportRevisionFields;
+  reason?: string;
+}): Omit<ReportRevision, "id"> {
+  const { report } = params;
+  let before = getRevisionFields(report);
+  let after = params.after;
+
+  // The embedded photo only needs keeping once an edit removes it; on both
+  // sides it could push the entry past the 1 MiB document limit
+  if (before.photoBase64 && before.photoBase64 === after.photoBase64) {
+    const { photoBase64: _before, ...beforeFields } = before;
+    const { photoBase64: _after, ...afterFields } = after;
+    before = beforeFields;
+    after = afterFields;
+  }
+
+  return {
+    obstacleId: params.obstacleId,
+    revision: params.revision,
+    action: params.action,
+    editedBy: params.editedBy,
+    editedAt: params.editedAt,
+    before,
+    after,
+    ...(params.reason && { reason: params.reason }),
+    validationReset: params.action === "edit" && hasCommunityVotes(report),
+    votesBefore: {
+      upvotes: report.upvotes || 0,
+      downvotes: report.downvotes || 0,
+    },
+  };
+}
+
+/**
+ * One line per change, for the admin revision history
+ */
+export function describeRevisionChanges(revision: ReportRevision): string[] {
+  if (revision.action === "withdraw") {
+    return [revision.reason ? `Withdrawn: ${revision.reason}` : "Withdrawn"];
+  }
+
+  const { before, after } = revision;
+  const changes: string[] = [];
+  if (before.type !== after.type) {
+    changes.push(`Type: ${before.type} → ${after.type}`);
+  }
+  if (before.severity !== after.severity) {
+    changes.push(`Severity: ${before.severity} → ${after.severity}`);
+  }
+  if (before.description !== after.description) {
+    changes.push(
+      `Description: "${before.description}" → "${after.description}"`
+    );
+  }
+  if (photoIds(before) !== photoIds(after)) {
+    changes.push(
+      `Photos replaced (${photoCount(before)} → ${photoCount(after)})`
+    );
+  }
+  if (revision.validationReset) {
+    changes.push(
+      `Votes reset (${revision.votesBefore.upvotes} up, ${revision.votesBefore.downvotes} down)`
+    );
+  }
+  return changes;
+}
@@ -0,0 +1,133 @@
+// src/utils/sunComfort.ts
+// Sun position and sidewalk sun exposure for the AHP comfort criterion.
+// Metro Manila sits near 14.6°N, so around noon the sun is almost overhead
+// and only roofed sidewalks help; early and late in the day the row of
+// buildings on one side of a street throws shade across its sidewalk.
+
+import type { SidewalkEntity } from "../types/sidewalkTypes";
+import type { UserLocation } from "../types";
+import { calculateBearing } from "./navigationUtils";
+
+export interface SunPosition {
+  elevation: number; // degrees above the horizon, negative at night
+  azimuth: number; // degrees clockwise from north
+}
+
+// Typical 2-3 storey shophouse frontage along Pasig streets
+const BUILDING_HEIGHT_METERS = 9;
+// Building line to the street-side edge of the sidewalk
+const SIDEWALK_SETBACK_METERS = 3;
+
+const SIDE_AZIMUTH: Record<SidewalkEntity["side"], number> = {
+  north: 0,
+  east: 90,
+  south: 180,
+  west: 270,
+};
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+const toDeg = (radians: number) => (radians * 180) / Math.PI;
+const normalize = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// Smallest angle between two compass directions (0-180)
+const angleBetween = (a: number, b: number) => {
+  const difference = Math.abs(normalize(a) - normalize(b));
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/**
+ * Low-precision solar position (NOAA almanac formulas), good to about a
+ * degree, which is plenty for shade
+ */
+export function getSunPosition(
+  date: Date,
+  location: UserLocation
+): SunPosition {
+  const days = date.getTime() / 86400000 + 2440587.5 - 2451545.0;
+
+  const meanLongitude = normalize(280.46 + 0.9856474 * days);
+  const meanAnomaly = toRad(normalize(357.528 + 0.9856003 * days));
+  const eclipticLongitude = toRad(
+    meanLongitude +
+      1.915 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly)
+  );
+  const obliquity = toRad(23.439 - 0.0000004 * days);
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+  const declination = Math.asin(
+    Math.sin(obliquity) * Math.sin(eclipticLongitude)
+  );
+
+  const siderealTime = normalize(
+    280.46061837 + 360.98564736629 * days + location.longitude
+  );
+  const hourAngle = toRad(siderealTime) - rightAscension;
+  const latitude = toRad(location.latitude);
+
+  const elevation = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) +
+      Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  const azimuth = Math.atan2(
+    -Math.sin(hourAngle),
+    Math.tan(declination) * Math.cos(latitude) -
+      Math.sin(latitude) * Math.cos(hourAngle)
+  );
+
+  return { elevation: toDeg(elevation), azimuth: normalize(toDeg(azimuth)) };
+}
+
+/**
+ * Share of a sidewalk stretch in direct sun, scaled by how high the sun is:
+ * 0 = covered, building-shaded or night, 1 = open sidewalk at zenith.
+ * Buildings are assumed to stand on the outer side of the sidewalk.
+ */
+export function getSunExposure(
+  coordinates: UserLocation[],
+  side: SidewalkEntity["side"],
+  covered: boolean,
+  sun: SunPosition
+): number {
+  if (covered || sun.elevation <= 0) return 0;
+
+  const sideAzimuth = SIDE_AZIMUTH[side];
+  const shadowLength = BUILDING_HEIGHT_METERS / Math.tan(toRad(sun.elevation));
+
+  // Direct sun on the part of the sidewalk the building shadow doesn't reach
+  const exposureFacing = (outward: number) => {
+    const towardSun = Math.cos(toRad(angleBetween(sun.azimuth, outward)));
+    if (towardSun <= 0) return 1; // Sun is over the street side
+    return (
+      1 - Math.min(1, (shadowLength * towardSun) / SIDEWALK_SETBACK_METERS)
+    );
+  };
+
+  let exposure = exposureFacing(sideAzimuth);
+  if (coordinates.length >= 2) {
+    let exposed = 0;
+    let total = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+      const bearing = calculateBearing(coordinates[i - 1], coordinates[i]);
+      // Of the two perpendiculars, the one pointing to the sidewalk's side
+      const outward =
+        angleBetween(bearing + 90, sideAzimuth) <=
+        angleBetween(bearing - 90, sideAzimuth)
+          ? bearing + 90
+          : bearing - 90;
+      const length = Math.hypot(
+        coordinates[i].latitude - coordinates[i - 1].latitude,
+        (coordinates[i].longitude - coordinates[i - 1].longitude) *
+          Math.cos(toRad(coordinates[i].latitude))
+      );
+      exposed += exposureFacing(outward) * length;
+      total += length;
+    }
+    if (total > 0) exposure = exposed / total;
+  }
+
+  return exposure * Math.sin(toRad(sun.elevation));
+}